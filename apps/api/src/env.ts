@@ -14,7 +14,40 @@ const envSchema = z.object({
   R2_SECRET_ACCESS_KEY: z.string().min(1, 'R2_SECRET_ACCESS_KEY is required'),
   R2_BUCKET_NAME: z.string().min(1, 'R2_BUCKET_NAME is required'),
   // R2_PUBLIC_URL removed - using private bucket with signed URLs for security
-});
+
+  // Payments (@repo/payments)
+  // Shared secret for signing / verifying provider webhooks
+  PAYMENTS_WEBHOOK_SECRET: z.string().min(16, 'PAYMENTS_WEBHOOK_SECRET must be at least 16 characters'),
+  // School bank account shown for bank transfer checkout
+  // (bank transfer is unavailable until name, holder and IBAN are set)
+  BANK_TRANSFER_BANK_NAME: z.string().optional(),
+  BANK_TRANSFER_ACCOUNT_NAME: z.string().optional(),
+  BANK_TRANSFER_ACCOUNT_NUMBER: z.string().optional(),
+  BANK_TRANSFER_IBAN: z.string().optional(),
+  BANK_TRANSFER_SWIFT: z.string().optional(),
+
+  // Email (@repo/emails)
+  // smtp: any SMTP server, e.g. a local Mailpit sink in development
+  // file: write messages to EMAIL_FILE_DIR; console: print to stdout
+  EMAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).default('console'),
+  EMAIL_FROM: z.string().min(1).default('Exam Registration <no-reply@localhost>'),
+  EMAIL_FILE_DIR: z.string().min(1).default('.emails'),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().min(1).default(587),
+  // Unset / empty: implicit TLS only on port 465
+  SMTP_SECURE: z.string().optional().transform((v) => (v ? v === 'true' : undefined)),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+
+  // Background Job Runner
+  JOBS_ENABLED: z.enum(['true', 'false']).default('true').transform((v) => v === 'true'),
+  JOBS_POLL_INTERVAL_MS: z.coerce.number().int().min(250).default(5000),
+  JOBS_CONCURRENCY: z.coerce.number().int().min(1).max(50).default(5),
+  JOBS_LOCK_TIMEOUT_MS: z.coerce.number().int().min(1000).default(10 * 60 * 1000),
+}).refine(
+  (data) => data.EMAIL_TRANSPORT !== 'smtp' || !!data.SMTP_HOST,
+  { message: 'SMTP_HOST is required when EMAIL_TRANSPORT is smtp', path: ['SMTP_HOST'] }
+);
 
 const parsed = envSchema.safeParse(process.env);
 
@@ -1,6 +1,6 @@
 import 'dotenv/config';
 import { serve } from '@hono/node-server'
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import { cors } from 'hono/cors'
 import { auth } from './lib/auth'
 import { HonoEnv } from './lib/types';
@@ -10,6 +10,8 @@ import { env, corsOrigins } from './env';
 import { pingDb } from '@repo/db';
 import { logger } from './lib/logger';
 import { randomUUID } from 'crypto';
+import { runWithRequestContext, getRequestContext } from './lib/request-context';
+import { idempotency, IDEMPOTENCY_HEADER, IDEMPOTENT_REPLAYED_HEADER } from './middleware/idempotency.middleware';
 
 /**
  * Route Imports
@@ -20,7 +22,35 @@ import { randomUUID } from 'crypto';
 import { todos } from './routes/todo.routes';
 import { files } from './routes/file.routes';
 import { links } from './routes/link.routes';
-import { users } from './routes/user.routes';
+import { users, emailChangeConfirmations } from './routes/user.routes';
+import { subjects } from './routes/subject.routes';
+import { windows } from './routes/window.routes';
+import { registrations } from './routes/registration.routes';
+import { payments, paymentWebhooks } from './routes/payment.routes';
+import { escrow } from './routes/escrow.routes';
+import { adminJobs } from './routes/job.routes';
+import { adminBankTransfers } from './routes/bank-transfer.routes';
+import { adminAudit } from './routes/audit.routes';
+import { adminReports } from './routes/report.routes';
+import { adminDashboard } from './routes/dashboard.routes';
+import { adminWithdrawals } from './routes/withdrawal.routes';
+
+/**
+ * Background Jobs
+ *
+ * Importing registers all job handlers; the runner is started after serve().
+ */
+import { startJobRunner, stopJobRunner } from './jobs';
+
+/**
+ * Client IP (handles proxies and Cloudflare)
+ */
+function getClientIp(c: Context): string | null {
+  return c.req.header('x-forwarded-for') ||
+    c.req.header('x-real-ip') ||
+    c.req.header('cf-connecting-ip') ||
+    null;
+}
 
 /**
  * Rate Limiter for Auth Routes
@@ -28,24 +58,21 @@ import { users } from './routes/user.routes';
  * Protects authentication endpoints from brute force attacks.
  * - 5 requests per 15 minute window
  * - Keyed by IP address (handles proxies and Cloudflare)
+ * Guessing spread across addresses is caught by the per-account sign-in
+ * lockout (services/sign-in-lockout.services.ts).
  */
 const authRateLimit = rateLimiter({
   windowMs: 15 * 60 * 1000,
   limit: 5,
   standardHeaders: 'draft-6',
-  keyGenerator: (c) =>
-    c.req.header('x-forwarded-for') ||
-    c.req.header('x-real-ip') ||
-    c.req.header('cf-connecting-ip') ||
-    c.req.raw.headers.get('host') ||
-    'unknown',
+  keyGenerator: (c) => getClientIp(c) || c.req.raw.headers.get('host') || 'unknown',
 });
 
 /**
  * Global Middleware & App Shell
  *
  * Middleware order is critical! Each layer builds on the previous:
- * 1. Request ID tracking
+ * 1. Request ID tracking (and audit request context)
  * 2. Expo origin normalization
  * 3. CORS with credentials
  * 4. Auth rate limiting
@@ -58,7 +85,15 @@ const app = new Hono<HonoEnv>()
   c.set('requestId', requestId);
   c.res.headers.set('x-request-id', requestId);
   logger.info(`[${requestId}] ${c.req.method} ${c.req.path}`);
-  await next();
+
+  // Audit context for the services; actor is filled in after session extraction
+  await runWithRequestContext({
+    requestId,
+    ipAddress: getClientIp(c),
+    userAgent: c.req.header('user-agent') ?? null,
+    actorId: null,
+    impersonatedBy: null,
+  }, next);
 })
 .use("*", async (c, next) => {
 	// Convert Expo's expo-origin header to standard Origin header
@@ -72,9 +107,9 @@ const app = new Hono<HonoEnv>()
 	"*", // or replace with "*" to enable cors for all routes
 	cors({
 		origin: corsOrigins,
-		allowHeaders: ["Content-Type", "Authorization", "Cookie"],
+		allowHeaders: ["Content-Type", "Authorization", "Cookie", IDEMPOTENCY_HEADER],
 		allowMethods: ["POST", "GET", "OPTIONS", "PUT", "DELETE"],
-		exposeHeaders: ["Content-Length", "Set-Cookie", "Server-Timing"],
+		exposeHeaders: ["Content-Length", "Set-Cookie", "Server-Timing", IDEMPOTENT_REPLAYED_HEADER],
 		maxAge: 600,
 		credentials: true,
 	})
@@ -93,6 +128,12 @@ const app = new Hono<HonoEnv>()
 
   	c.set("user", session.user);
   	c.set("session", session.session);
+
+  	const context = getRequestContext();
+  	if (context) {
+  		context.actorId = session.user.id;
+  		context.impersonatedBy = session.session.impersonatedBy ?? null;
+  	}
   	await next();
 })
 .on(["POST", "GET"], "/api/auth/*", async (c) => {
@@ -112,9 +153,15 @@ const app = new Hono<HonoEnv>()
  * All routes are mounted under /v1 for versioning.
  * This enables future API versions without breaking changes.
  *
+ * Mutating requests may send an Idempotency-Key header to be safely
+ * retried (see middleware/idempotency.middleware.ts).
+ *
  * RPC Type Safety: Export AppType for Hono RPC client
  */
 const v1 = new Hono<HonoEnv>()
+  // Replay retried POST / PUT / DELETE requests that carry an Idempotency-Key
+  .use('*', idempotency())
+
   // Health check endpoints
   .get('/health', (c) => c.json({ status: 'ok', version: 'v1' }))
   .get('/health/ready', async (c) => {
@@ -164,18 +211,114 @@ const v1 = new Hono<HonoEnv>()
    * - DELETE /v1/links/:id      - Admin removes link
    *
    * User profile routes mounted at /v1/users
-   * - GET    /v1/users/me       - Get own profile
-   * - PUT    /v1/users/me       - Update own profile
-   * - GET    /v1/users          - List all users (admin)
-   * - GET    /v1/users/:id      - Get user by ID (admin)
-   * - PUT    /v1/users/:id      - Update user (admin)
+   * - GET    /v1/users/me                 - Get own profile
+   * - PUT    /v1/users/me                 - Update own profile
+   * - GET    /v1/users/me/grade-history   - Own grade timeline
+   * - POST   /v1/users/me/email-change    - Ask to change own email (confirmed by link)
+   * - POST   /v1/users/email-change/confirm - Confirm an email change (no session, token)
+   * - GET    /v1/users                    - List all users (admin)
+   * - GET    /v1/users/:id                - Get user by ID (admin)
+   * - PUT    /v1/users/:id                - Update user (admin)
+   * - POST   /v1/users/:id/grade          - Adjust grade with a reason (admin)
+   * - POST   /v1/users/:id/unlock         - Lift a sign-in lockout (admin)
+   * - GET    /v1/users/:id/grade-history  - Student's grade timeline (admin, linked parent)
+   *
+   * Subject catalog routes mounted at /v1/subjects
+   * - GET    /v1/subjects          - Browse subjects (council filter, search)
+   * - GET    /v1/subjects/councils - List examination councils
+   * - GET    /v1/subjects/:id      - Get subject details
+   * - POST   /v1/subjects          - Create subject (admin)
+   * - PUT    /v1/subjects/:id      - Update subject (admin)
+   * - DELETE /v1/subjects/:id      - Deactivate subject (admin)
+   * - PUT    /v1/subjects/:id/core-rules - Set core grade/session rules (admin)
+   *
+   * Registration window routes mounted at /v1/windows
+   * - GET    /v1/windows                    - List windows (admin)
+   * - GET    /v1/windows/current            - Current window status
+   * - POST   /v1/windows                    - Create draft window (admin)
+   * - PUT    /v1/windows/:id                - Edit draft window (admin)
+   * - POST   /v1/windows/:id/open           - Open window (admin)
+   * - POST   /v1/windows/:id/close-request  - Get close confirmation token (admin)
+   * - POST   /v1/windows/:id/close          - Close window early (admin)
+   *
+   * Registration routes mounted at /v1/registrations
+   * - GET    /v1/registrations/options     - Subjects open for registration (core flagged)
+   * - POST   /v1/registrations             - Register subjects (student / linked parent)
+   * - GET    /v1/registrations             - List registrations (per session via ?windowId)
+   * - GET    /v1/registrations/history     - All-sessions history
+   * - GET    /v1/registrations/:id         - Get registration
+   * - GET    /v1/registrations/:id/receipt - Receipt of an escrow checkout
+   * - POST   /v1/registrations/:id/cancel  - Cancel unpaid registration
+   * - POST   /v1/registrations/:id/items/:itemId/drop         - Drop paid subject (escrow credit)
+   * - POST   /v1/registrations/:id/items/:itemId/swap         - Swap paid subject
+   * - POST   /v1/registrations/:id/items/:itemId/switch-type  - Switch in-school / external
+   *
+   * Payment routes mounted at /v1/payments
+   * - POST   /v1/payments                     - Start checkout (gateway or bank transfer)
+   * - POST   /v1/payments/escrow              - Pay a registration from escrow
+   * - GET    /v1/payments/:id                 - Get payment status
+   * - GET    /v1/payments/:id/receipt         - PDF receipt download link
+   * - POST   /v1/payments/:id/simulate        - Settle in simulator (non-production)
+   * - POST   /v1/payments/webhooks/:provider  - Provider webhook (no session, signed)
+   *
+   * Escrow routes mounted at /v1/escrow
+   * - GET    /v1/escrow/me                   - Own balance and statement (student)
+   * - GET    /v1/escrow/children/:studentId  - Linked child's escrow (parent)
+   * - POST   /v1/escrow/transfers            - Move escrow between linked children (parent)
+   * - GET    /v1/escrow/withdrawals          - Withdrawal history (student, parent)
+   * - POST   /v1/escrow/withdrawals          - Request a withdrawal (student, parent)
+   * - GET    /v1/escrow/withdrawals/:id      - Get a withdrawal (student, parent)
+   * - POST   /v1/escrow/withdrawals/:id/cancel - Cancel an open withdrawal (student, parent)
+   *
+   * Withdrawal admin routes mounted at /v1/admin/escrow/withdrawals
+   * - GET    /v1/admin/escrow/withdrawals             - Withdrawal queue (admin)
+   * - GET    /v1/admin/escrow/withdrawals/:id         - Withdrawal with fulfilments (admin)
+   * - POST   /v1/admin/escrow/withdrawals/:id/fulfil  - Release money, full or partial (admin)
+   * - POST   /v1/admin/escrow/withdrawals/:id/cancel  - Cancel a withdrawal (admin)
+   *
+   * Bank transfer admin routes mounted at /v1/admin/payments/bank-transfers
+   * - GET    /v1/admin/payments/bank-transfers              - Confirmation queue (admin)
+   * - GET    /v1/admin/payments/bank-transfers/:id          - Transfer with receipts (admin)
+   * - POST   /v1/admin/payments/bank-transfers/:id/confirm  - Record money received (admin)
+   *
+   * Background job admin routes mounted at /v1/admin/jobs
+   * - GET    /v1/admin/jobs            - List jobs (admin)
+   * - GET    /v1/admin/jobs/:id        - Get job details (admin)
+   * - POST   /v1/admin/jobs/:id/retry  - Re-run dead job (admin)
+   *
+   * Audit trail admin routes mounted at /v1/admin/audit
+   * - GET    /v1/admin/audit         - Filter the audit log (admin)
+   * - GET    /v1/admin/audit/export  - Export the audit log as CSV / JSON (admin)
+   *
+   * Report admin routes mounted at /v1/admin/reports
+   * - GET    /v1/admin/reports              - List reports (admin)
+   * - GET    /v1/admin/reports/exports/:id  - Background export status / download link (admin)
+   * - GET    /v1/admin/reports/:reportId    - Run a report as JSON / CSV / XLSX / PDF (admin)
+   *
+   * Dashboard admin routes mounted at /v1/admin/dashboard
+   * - GET    /v1/admin/dashboard  - Current session metrics (admin)
    *
    * Add your own routes below.
    */
   .route('/todos', todos)
   .route('/files', files)
   .route('/links', links)
-  .route('/users', users);
+  // Confirmation links carry a token, not a session: before the /users/* auth check
+  .route('/users/email-change', emailChangeConfirmations)
+  .route('/users', users)
+  .route('/subjects', subjects)
+  .route('/windows', windows)
+  .route('/registrations', registrations)
+  // Webhooks first: the payments router requires a session for /payments/*
+  .route('/payments/webhooks', paymentWebhooks)
+  .route('/payments', payments)
+  .route('/escrow', escrow)
+  .route('/admin/jobs', adminJobs)
+  .route('/admin/escrow/withdrawals', adminWithdrawals)
+  .route('/admin/payments/bank-transfers', adminBankTransfers)
+  .route('/admin/audit', adminAudit)
+  .route('/admin/reports', adminReports)
+  .route('/admin/dashboard', adminDashboard);
 
 // Mount v1 under /v1 (keep chaining for proper RPC typing)
 const appWithRoutes = app
@@ -189,4 +332,17 @@ serve({
   port: env.PORT
 }, (info) => {
   console.log(`Server is running on http://localhost:${info.port}`)
-});
\ No newline at end of file
+});
+
+if (env.JOBS_ENABLED) {
+  startJobRunner({
+    pollIntervalMs: env.JOBS_POLL_INTERVAL_MS,
+    concurrency: env.JOBS_CONCURRENCY,
+    lockTimeoutMs: env.JOBS_LOCK_TIMEOUT_MS,
+  });
+
+  // Let in-flight jobs finish before the platform stops the process
+  process.once('SIGTERM', () => {
+    stopJobRunner().finally(() => process.exit(0));
+  });
+}
@@ -0,0 +1,22 @@
+/**
+ * Grade Progression Jobs
+ *
+ * - grades.progress - Move students up a grade after a window closes
+ *                     (enqueued when the window is closed)
+ */
+
+import { logger } from '../../lib/logger';
+import * as gradeService from '../../services/grade.services';
+import { defineJob, PermanentJobError } from '../registry';
+
+defineJob(gradeService.GRADE_PROGRESSION_JOB, async (payload) => {
+  const windowId = payload.windowId;
+  if (typeof windowId !== 'string') {
+    throw new PermanentJobError('Missing windowId');
+  }
+
+  const moved = await gradeService.progressGrades(windowId);
+  if (moved !== null) {
+    logger.info(`[jobs] Grade progression for window ${windowId}: ${moved} student(s) moved`);
+  }
+});
@@ -0,0 +1,32 @@
+/**
+ * Queue Maintenance Jobs
+ *
+ * - jobs.purge-completed          - Delete completed jobs after 7 days (daily, 03:00)
+ * - idempotency.purge-expired     - Delete Idempotency-Key responses after 24 hours (hourly)
+ * - sign-in-lockouts.purge-stale  - Forget failed sign-ins 24 hours after the last one (hourly)
+ */
+
+import { logger } from '../../lib/logger';
+import * as jobService from '../../services/job.services';
+import * as idempotencyService from '../../services/idempotency.services';
+import * as signInLockoutService from '../../services/sign-in-lockout.services';
+import { defineRecurringJob } from '../registry';
+
+const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const IDEMPOTENCY_KEY_RETENTION_MS = 24 * 60 * 60 * 1000;
+const SIGN_IN_LOCKOUT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+defineRecurringJob('jobs.purge-completed', '0 3 * * *', async () => {
+  const purged = await jobService.purgeCompletedJobs(COMPLETED_JOB_RETENTION_MS);
+  logger.info(`[jobs] Purged ${purged} completed job(s)`);
+});
+
+defineRecurringJob('idempotency.purge-expired', '30 * * * *', async () => {
+  const purged = await idempotencyService.purgeExpiredIdempotencyKeys(IDEMPOTENCY_KEY_RETENTION_MS);
+  logger.info(`[jobs] Purged ${purged} expired idempotency key(s)`);
+});
+
+defineRecurringJob('sign-in-lockouts.purge-stale', '45 * * * *', async () => {
+  const purged = await signInLockoutService.purgeStaleSignInLockouts(SIGN_IN_LOCKOUT_RETENTION_MS);
+  logger.info(`[jobs] Purged ${purged} stale sign-in lockout(s)`);
+});
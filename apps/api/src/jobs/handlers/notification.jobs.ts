@@ -0,0 +1,17 @@
+/**
+ * Notification Jobs
+ *
+ * - notifications.dispatch - Send queued emails (every minute)
+ */
+
+import { logger } from '../../lib/logger';
+import * as notificationService from '../../services/notification.services';
+import { defineRecurringJob } from '../registry';
+
+defineRecurringJob('notifications.dispatch', '* * * * *', async () => {
+  const { sent, failed } = await notificationService.dispatchNotifications();
+
+  if (sent > 0 || failed > 0) {
+    logger.info(`[notifications] Sent ${sent} email(s), ${failed} failed`);
+  }
+});
@@ -0,0 +1,21 @@
+/**
+ * Payment Jobs
+ *
+ * - payments.expire - Expire a payment that was not completed before its
+ *                     deadline (enqueued at checkout, runs at expiresAt)
+ */
+
+import { logger } from '../../lib/logger';
+import * as paymentService from '../../services/payment.services';
+import { defineJob, PermanentJobError } from '../registry';
+
+defineJob(paymentService.EXPIRE_PAYMENT_JOB, async (payload) => {
+  const paymentId = payload.paymentId;
+  if (typeof paymentId !== 'string') {
+    throw new PermanentJobError('Missing paymentId');
+  }
+
+  if (await paymentService.expirePayment(paymentId)) {
+    logger.info(`[jobs] Expired payment ${paymentId}`);
+  }
+});
@@ -0,0 +1,22 @@
+/**
+ * Receipt Jobs
+ *
+ * - payments.receipt - Render, store and email the PDF receipt for a
+ *                      succeeded payment (enqueued when it succeeds) or
+ *                      a registration paid from escrow
+ */
+
+import * as receiptService from '../../services/receipt.services';
+import { defineJob, PermanentJobError } from '../registry';
+
+defineJob(receiptService.RECEIPT_JOB, async (payload) => {
+  const { paymentId, registrationId } = payload;
+
+  if (typeof paymentId === 'string') {
+    await receiptService.issueReceipt(paymentId);
+  } else if (typeof registrationId === 'string') {
+    await receiptService.issueEscrowReceipt(registrationId);
+  } else {
+    throw new PermanentJobError('Missing paymentId or registrationId');
+  }
+});
@@ -0,0 +1,24 @@
+/**
+ * Report Jobs
+ *
+ * - reports.export          - Generate a queued report export and store it in R2
+ * - reports.purge-expired   - Delete expired exports and their files (daily, 03:30)
+ */
+
+import { logger } from '../../lib/logger';
+import * as reportService from '../../services/report.services';
+import { defineJob, defineRecurringJob, PermanentJobError } from '../registry';
+
+defineJob(reportService.REPORT_EXPORT_JOB, async (payload) => {
+  const exportId = payload.exportId;
+  if (typeof exportId !== 'string') {
+    throw new PermanentJobError('Missing exportId');
+  }
+
+  await reportService.runReportExport(exportId);
+});
+
+defineRecurringJob('reports.purge-expired', '30 3 * * *', async () => {
+  const purged = await reportService.purgeExpiredReportExports();
+  logger.info(`[reports] Purged ${purged} expired export(s)`);
+});
@@ -0,0 +1,28 @@
+/**
+ * Registration Window Jobs
+ *
+ * Moves windows through their lifecycle on schedule:
+ * - windows.close-expired  - Close active windows whose end time has passed
+ * - windows.open-scheduled - Open the draft window whose start time has arrived
+ *
+ * Both run every minute. While a window is still active the open job does
+ * nothing, so a back-to-back draft opens on the run after the close.
+ */
+
+import { logger } from '../../lib/logger';
+import * as windowService from '../../services/window.services';
+import { defineRecurringJob } from '../registry';
+
+defineRecurringJob('windows.close-expired', '* * * * *', async () => {
+  const closed = await windowService.closeExpiredWindows();
+  for (const window of closed) {
+    logger.info(`[jobs] Closed expired window ${window.id} (${window.sessionType} ${window.year})`);
+  }
+});
+
+defineRecurringJob('windows.open-scheduled', '* * * * *', async () => {
+  const opened = await windowService.openScheduledWindow();
+  if (opened) {
+    logger.info(`[jobs] Opened scheduled window ${opened.id} (${opened.sessionType} ${opened.year})`);
+  }
+});
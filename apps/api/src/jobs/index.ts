@@ -0,0 +1,18 @@
+/**
+ * Background Jobs
+ *
+ * Importing this module registers every job handler.
+ * Add new handler modules to the list below.
+ */
+
+import './handlers/window.jobs';
+import './handlers/grade.jobs';
+import './handlers/payment.jobs';
+import './handlers/receipt.jobs';
+import './handlers/maintenance.jobs';
+import './handlers/notification.jobs';
+import './handlers/report.jobs';
+
+export { startJobRunner, stopJobRunner } from './runner';
+export { defineJob, defineRecurringJob, PermanentJobError } from './registry';
+export { enqueueJob } from '../services/job.services';
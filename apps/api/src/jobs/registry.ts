@@ -0,0 +1,77 @@
+/**
+ * Job Registry
+ *
+ * Maps job types to handlers and holds the recurring (cron) schedule.
+ *
+ * Usage:
+ *
+ * // One-off job handler
+ * defineJob('payments.expire-code', async (payload) => {
+ *   await paymentService.expireCode(payload.paymentId as string)
+ * })
+ *
+ * // Recurring job: enqueued automatically on each cron tick
+ * defineRecurringJob('windows.close-expired', '* * * * *', async () => {
+ *   await windowService.closeExpiredWindows()
+ * })
+ *
+ * Handlers must be idempotent: a job can run more than once if a worker
+ * stops after finishing the work but before marking the job completed.
+ */
+
+export type JobContext = {
+  jobId: string;
+  attempt: number;
+};
+
+export type JobHandler = (
+  payload: Record<string, unknown>,
+  context: JobContext
+) => Promise<void>;
+
+export type RecurringJob = {
+  type: string;
+  // Standard 5-field cron expression (server time)
+  cron: string;
+};
+
+/**
+ * Thrown by handlers for failures that retrying cannot fix
+ * (e.g. the referenced record no longer exists).
+ * The job is dead-lettered immediately.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+const handlers = new Map<string, JobHandler>();
+const recurring: RecurringJob[] = [];
+
+/**
+ * Register a handler for a job type
+ */
+export function defineJob(type: string, handler: JobHandler) {
+  if (handlers.has(type)) {
+    throw new Error(`Job handler already registered: ${type}`);
+  }
+  handlers.set(type, handler);
+}
+
+/**
+ * Register a handler that runs on a cron schedule
+ */
+export function defineRecurringJob(type: string, cron: string, handler: JobHandler) {
+  defineJob(type, handler);
+  recurring.push({ type, cron });
+}
+
+export function getJobHandler(type: string): JobHandler | undefined {
+  return handlers.get(type);
+}
+
+export function getRecurringJobs(): readonly RecurringJob[] {
+  return recurring;
+}
@@ -0,0 +1,139 @@
+/**
+ * Job Runner
+ *
+ * In-process worker loop for the Postgres-backed job queue.
+ *
+ * Each tick:
+ * 1. Releases jobs whose worker died mid-run (lock timeout)
+ * 2. Enqueues the next occurrence of every recurring job (deduped per tick)
+ * 3. Claims due jobs with FOR UPDATE SKIP LOCKED and runs their handlers
+ *
+ * Safe to run in several API instances at once: claiming is atomic and
+ * cron occurrences are deduplicated by a unique key.
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { CronExpressionParser } from 'cron-parser';
+import { logger } from '../lib/logger';
+import * as jobService from '../services/job.services';
+import { getJobHandler, getRecurringJobs, PermanentJobError } from './registry';
+
+export type JobRunnerOptions = {
+  // Delay between polls
+  pollIntervalMs: number;
+  // Maximum jobs claimed per poll
+  concurrency: number;
+  // Running jobs older than this are considered abandoned
+  lockTimeoutMs: number;
+};
+
+const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+let timer: NodeJS.Timeout | undefined;
+let currentTick: Promise<void> | undefined;
+let stopping = false;
+
+// Last cron occurrence enqueued per recurring job (avoids redundant inserts)
+const scheduledUntil = new Map<string, number>();
+
+/**
+ * Enqueue the next occurrence of each recurring job
+ */
+async function scheduleRecurringJobs(now: Date) {
+  for (const definition of getRecurringJobs()) {
+    const nextRun = CronExpressionParser
+      .parse(definition.cron, { currentDate: now })
+      .next()
+      .toDate();
+
+    if (scheduledUntil.get(definition.type) === nextRun.getTime()) continue;
+
+    await jobService.enqueueJob(definition.type, {}, {
+      runAt: nextRun,
+      maxAttempts: 1,
+      dedupeKey: `cron:${definition.type}:${nextRun.toISOString()}`,
+    });
+
+    scheduledUntil.set(definition.type, nextRun.getTime());
+  }
+}
+
+/**
+ * Run a single claimed job
+ */
+async function runJob(claimed: Awaited<ReturnType<typeof jobService.claimDueJobs>>[number]) {
+  const handler = getJobHandler(claimed.type);
+
+  if (!handler) {
+    await jobService.failJob(claimed, `No handler registered for job type "${claimed.type}"`, false);
+    logger.error(`[jobs] No handler for ${claimed.type} (${claimed.id})`);
+    return;
+  }
+
+  try {
+    await handler(claimed.payload, { jobId: claimed.id, attempt: claimed.attempts });
+    await jobService.completeJob(claimed.id);
+    logger.debug(`[jobs] Completed ${claimed.type} (${claimed.id})`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const status = await jobService.failJob(claimed, message, !(err instanceof PermanentJobError));
+    logger.warn(`[jobs] ${claimed.type} (${claimed.id}) failed, now ${status}: ${message}`);
+  }
+}
+
+/**
+ * One polling cycle
+ */
+async function tick(options: JobRunnerOptions) {
+  const now = new Date();
+
+  const released = await jobService.releaseStaleJobs(options.lockTimeoutMs);
+  if (released > 0) {
+    logger.warn(`[jobs] Released ${released} stale job(s)`);
+  }
+
+  await scheduleRecurringJobs(now);
+
+  const claimed = await jobService.claimDueJobs(workerId, options.concurrency);
+  await Promise.all(claimed.map(runJob));
+}
+
+function scheduleNextTick(options: JobRunnerOptions) {
+  if (stopping) return;
+
+  timer = setTimeout(() => {
+    currentTick = tick(options)
+      .catch((err) => logger.error('[jobs] Tick failed:', err))
+      .finally(() => {
+        currentTick = undefined;
+        scheduleNextTick(options);
+      });
+  }, options.pollIntervalMs);
+}
+
+/**
+ * Start polling for jobs
+ */
+export function startJobRunner(options: JobRunnerOptions) {
+  if (timer) return;
+
+  stopping = false;
+  logger.info(`[jobs] Runner started as ${workerId}`);
+  scheduleNextTick(options);
+}
+
+/**
+ * Stop polling and wait for in-flight jobs to finish
+ */
+export async function stopJobRunner() {
+  stopping = true;
+
+  if (timer) {
+    clearTimeout(timer);
+    timer = undefined;
+  }
+
+  await currentTick;
+  logger.info('[jobs] Runner stopped');
+}
@@ -5,9 +5,50 @@ import { db } from "@repo/db";
 import { expo } from "@better-auth/expo";
 import { admin } from "better-auth/plugins";
 import { ac, studentRole, adminRole, parentRole } from './permissions'
-import { ROLES } from '@repo/validations';
+import { ROLES, SignUpData, checkPassword, type PasswordOwner } from '@repo/validations';
 import { corsOrigins, env } from '../env';
 import { nextCookies } from 'better-auth/next-js';
+import { APIError, createAuthMiddleware, getSessionFromCtx } from 'better-auth/api';
+import { notifyUser } from '../services/notification.services';
+import * as signInLockoutService from '../services/sign-in-lockout.services';
+import * as userService from '../services/user.services';
+
+// Verification and password reset links (AUTH-001, AUTH-002, AUTH-006)
+const AUTH_LINK_EXPIRY_HOURS = 24;
+const AUTH_LINK_EXPIRY_SECONDS = AUTH_LINK_EXPIRY_HOURS * 60 * 60;
+
+/**
+ * Role-specific sign-up fields from the request body
+ *
+ * They are sent as `signUp: { accountType, grade?, phone? }`, outside the
+ * user fields better-auth parses itself.
+ *
+ * @throws APIError (400) if they fail StudentRegistrationData / ParentRegistrationData
+ */
+function parseSignUpData(body: Record<string, unknown> | undefined) {
+  const result = SignUpData.safeParse(body?.signUp);
+  if (!result.success) {
+    throw new APIError('BAD_REQUEST', {
+      code: 'INVALID_SIGN_UP_DATA',
+      message: result.error.issues[0]?.message ?? 'Invalid sign-up data',
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Sign-in refused while the account is locked (AUTH-005)
+ *
+ * Unknown emails are locked the same way, so this reveals nothing about
+ * whether the account exists.
+ */
+function accountLockedError(lockedUntil: Date) {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60_000));
+  return new APIError('LOCKED', {
+    code: 'ACCOUNT_LOCKED',
+    message: `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+  });
+}
 
 export const auth = betterAuth({
   database: drizzleAdapter(db, {
@@ -27,8 +68,141 @@ export const auth = betterAuth({
     nextCookies()
   ],
 
+  user: {
+    // Set only by the sign-up hook below (from SignUpData) and our own
+    // routes, never from a better-auth request body: /update-user would
+    // otherwise let any user change their own grade
+    additionalFields: {
+      grade: { type: 'number', required: false, input: false },
+      phone: { type: 'string', required: false, input: false },
+      studentId: { type: 'string', required: false, input: false },
+    },
+  },
+
+  databaseHooks: {
+    user: {
+      create: {
+        // Self sign-up: role, grade and studentId go into the same insert
+        // as the user row (admin-created users keep what the admin set)
+        before: async (newUser, ctx) => {
+          if (ctx?.path !== '/sign-up/email') return;
+
+          const fields = await userService.getSignUpFields(parseSignUpData(ctx.body));
+          return { data: { ...newUser, ...fields } };
+        },
+        after: async (created, ctx) => {
+          if (ctx?.path !== '/sign-up/email') return;
+
+          await userService.recordSignUp(created);
+        },
+      },
+    },
+  },
+
   emailAndPassword: {
-    enabled: true
+    enabled: true,
+    requireEmailVerification: true,
+    resetPasswordTokenExpiresIn: AUTH_LINK_EXPIRY_SECONDS,
+    revokeSessionsOnPasswordReset: true,
+    // Queued in the email outbox like every other notification
+    sendResetPassword: async ({ user, url }) => {
+      await notifyUser(user.id, 'auth.reset-password', {
+        url,
+        expiresInHours: AUTH_LINK_EXPIRY_HOURS,
+      }, undefined, { includeParents: false });
+    },
+  },
+
+  emailVerification: {
+    sendOnSignUp: true,
+    autoSignInAfterVerification: true,
+    expiresIn: AUTH_LINK_EXPIRY_SECONDS,
+    sendVerificationEmail: async ({ user, url }) => {
+      await notifyUser(user.id, 'auth.verify-email', {
+        url,
+        expiresInHours: AUTH_LINK_EXPIRY_HOURS,
+      }, undefined, { includeParents: false });
+    },
+  },
+
+  hooks: {
+    before: createAuthMiddleware(async (ctx) => {
+      // Per-account lockout for email/password sign-in (see sign-in-lockout.services.ts)
+      if (ctx.path === '/sign-in/email') {
+        if (typeof ctx.body?.email !== 'string') return;
+
+        const lockedUntil = await signInLockoutService.getLockedUntil(ctx.body.email);
+        if (lockedUntil) {
+          throw accountLockedError(lockedUntil);
+        }
+        return;
+      }
+
+      // Password policy wherever a password is chosen (@repo/validations checkPassword)
+      let password: unknown;
+      let owner: PasswordOwner = {};
+
+      switch (ctx.path) {
+        case '/sign-up/email':
+          // Reject a bad form before the password check, and before any user is created
+          parseSignUpData(ctx.body);
+          password = ctx.body?.password;
+          owner = { email: ctx.body?.email, name: ctx.body?.name };
+          break;
+        case '/admin/create-user':
+          password = ctx.body?.password;
+          owner = { email: ctx.body?.email, name: ctx.body?.name };
+          break;
+        case '/reset-password': {
+          password = ctx.body?.newPassword;
+          const token = ctx.body?.token ?? ctx.query?.token;
+          const verification = token
+            ? await ctx.context.internalAdapter.findVerificationValue(`reset-password:${token}`)
+            : null;
+          // An invalid token is rejected by the endpoint itself
+          const user = verification ? await ctx.context.internalAdapter.findUserById(verification.value) : null;
+          owner = user ?? {};
+          break;
+        }
+        case '/change-password':
+          password = ctx.body?.newPassword;
+          owner = (await getSessionFromCtx(ctx))?.user ?? {};
+          break;
+        case '/admin/set-user-password':
+          password = ctx.body?.newPassword;
+          owner = (typeof ctx.body?.userId === 'string'
+            ? await ctx.context.internalAdapter.findUserById(ctx.body.userId)
+            : null) ?? {};
+          break;
+        default:
+          return;
+      }
+
+      if (typeof password !== 'string') return;
+
+      const problem = checkPassword(password, owner);
+      if (problem) {
+        throw new APIError('BAD_REQUEST', { code: 'PASSWORD_POLICY', message: problem });
+      }
+    }),
+    after: createAuthMiddleware(async (ctx) => {
+      if (ctx.path !== '/sign-in/email' || typeof ctx.body?.email !== 'string') return;
+
+      const returned = ctx.context.returned;
+
+      // Wrong email or password
+      if (returned instanceof APIError && returned.status === 'UNAUTHORIZED') {
+        const lockedUntil = await signInLockoutService.recordFailedSignIn(ctx.body.email);
+        if (lockedUntil) {
+          throw accountLockedError(lockedUntil);
+        }
+        return;
+      }
+
+      if (!(returned instanceof APIError)) {
+        await signInLockoutService.clearFailedSignIns(ctx.body.email);
+      }
+    }),
   },
 
   trustedOrigins: corsOrigins,
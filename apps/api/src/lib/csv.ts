@@ -0,0 +1,23 @@
+/**
+ * CSV helpers (RFC 4180)
+ */
+
+/**
+ * Quote a CSV field (and defuse spreadsheet formulas)
+ */
+export function csvField(value: unknown): string {
+  let text = value === null || value === undefined ? '' : String(value);
+
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format one CSV line (without the line break)
+ */
+export function csvRow(values: unknown[]): string {
+  return values.map(csvField).join(',');
+}
@@ -0,0 +1,137 @@
+/**
+ * Payment receipt PDF (PAY-006)
+ */
+
+import PDFDocument from 'pdfkit';
+import { formatMoney } from '@repo/validations';
+import { formatPaymentMethod } from '@repo/emails';
+
+const MARGIN = 48;
+const AMOUNT_WIDTH = 110;
+
+export type ReceiptLine = {
+  description: string;
+  // Second line under the description, e.g. subject code and exam type
+  detail?: string;
+  // Piastres; negative for credits
+  amount: number;
+};
+
+export type ReceiptDocument = {
+  receiptNumber: string;
+  issuedAt: Date;
+  paidAt: Date;
+  student: { name: string; studentId: string | null; grade: number | null; email: string };
+  // Set when a parent paid for the student
+  payerName?: string;
+  session: { sessionType: string; year: number };
+  paymentMethod: string;
+  providerReference: string;
+  lines: ReceiptLine[];
+  // Amount paid by paymentMethod, in piastres (0 when paid from escrow)
+  total: number;
+  // Student escrow spent on / credited from this payment
+  escrowApplied: number;
+  escrowCredited: number;
+};
+
+function formatDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Render a payment receipt as an A4 PDF
+ *
+ * @param receipt - Receipt contents
+ * @returns The PDF
+ */
+export async function renderReceiptPdf(receipt: ReceiptDocument): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'A4', margin: MARGIN, info: { Title: `Receipt ${receipt.receiptNumber}` } });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const width = doc.page.width - MARGIN * 2;
+  const descriptionWidth = width - AMOUNT_WIDTH;
+
+  const rule = (weight = 0.5) => {
+    doc
+      .moveTo(MARGIN, doc.y)
+      .lineTo(MARGIN + width, doc.y)
+      .lineWidth(weight)
+      .strokeColor('#999999')
+      .stroke();
+    doc.moveDown(0.5);
+  };
+
+  const row = (label: string, amount: string, options: { bold?: boolean; detail?: string } = {}) => {
+    const top = doc.y;
+    doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+    doc.text(label, MARGIN, top, { width: descriptionWidth });
+    if (options.detail) {
+      doc.font('Helvetica').fontSize(8).fillColor('#666666').text(options.detail, { width: descriptionWidth });
+      doc.fillColor('#000000');
+    }
+    const bottom = doc.y;
+    doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+    doc.text(amount, MARGIN + descriptionWidth, top, { width: AMOUNT_WIDTH, align: 'right' });
+    doc.x = MARGIN;
+    doc.y = Math.max(bottom, doc.y) + 4;
+  };
+
+  // Header
+  doc.font('Helvetica-Bold').fontSize(18).text('Payment receipt');
+  doc.font('Helvetica').fontSize(10)
+    .text(`Receipt number: ${receipt.receiptNumber}`)
+    .text(`Issued: ${formatDate(receipt.issuedAt)}`)
+    .text(`Paid: ${formatDate(receipt.paidAt)}`);
+  doc.moveDown();
+
+  // Student and payment
+  const grade = receipt.student.grade === null ? '' : `, Grade ${receipt.student.grade}`;
+  doc.font('Helvetica-Bold').text('Student');
+  doc.font('Helvetica')
+    .text(`${receipt.student.name}${receipt.student.studentId ? ` (${receipt.student.studentId})` : ''}${grade}`)
+    .text(receipt.student.email);
+  if (receipt.payerName) {
+    doc.text(`Paid by: ${receipt.payerName}`);
+  }
+  doc.moveDown(0.5);
+  doc.font('Helvetica-Bold').text('Payment');
+  doc.font('Helvetica')
+    .text(`Session: ${receipt.session.sessionType} ${receipt.session.year}`)
+    .text(`Method: ${formatPaymentMethod(receipt.paymentMethod)}`)
+    .text(`Reference: ${receipt.providerReference}`);
+  doc.moveDown();
+
+  // Lines
+  row('Description', 'Amount', { bold: true });
+  rule(0.8);
+  for (const line of receipt.lines) {
+    row(line.description, formatMoney(line.amount), { detail: line.detail });
+  }
+  rule(0.8);
+
+  if (receipt.total === 0 && receipt.escrowApplied > 0) {
+    // Paid entirely from escrow
+    row('Total paid from escrow balance', formatMoney(receipt.escrowApplied), { bold: true });
+  } else {
+    if (receipt.escrowApplied > 0) {
+      row('Paid from escrow balance', formatMoney(-receipt.escrowApplied));
+    }
+    row(`Total paid (${formatPaymentMethod(receipt.paymentMethod)})`, formatMoney(receipt.total), { bold: true });
+  }
+  if (receipt.escrowCredited > 0) {
+    row('Credited to escrow balance', formatMoney(receipt.escrowCredited));
+  }
+
+  doc.moveDown(2);
+  doc.font('Helvetica').fontSize(8).fillColor('#666666')
+    .text('Amounts in Egyptian pounds. Prices are those in effect when the registration was placed.', MARGIN, doc.y, { width });
+
+  doc.end();
+  return finished;
+}
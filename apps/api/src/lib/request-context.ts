@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Per-request context
+ *
+ * Carries who is acting and where the request came from down to the
+ * services without threading it through every call. Set by the first
+ * middleware in index.ts; the session middleware fills in the actor.
+ * Outside a request (jobs, startup) there is no context.
+ */
+export type RequestContext = {
+  requestId: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  actorId: string | null;
+  // Admin behind an impersonated session
+  impersonatedBy: string | null;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a request handler with its context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the current request's context, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
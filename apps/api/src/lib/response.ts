@@ -13,11 +13,13 @@ export function success<T>(c: Context, data: T, statusCode: ContentfulStatusCode
 /**
  * Simple wrapper for error responses
  * Use when you want to return an error with success: false
+ * Pass a code when clients need to react to the specific reason
  */
-export function error(c: Context, message: string, statusCode: ContentfulStatusCode = 500) {
+export function error(c: Context, message: string, statusCode: ContentfulStatusCode = 500, code?: string) {
   return c.json<ApiResponse<never>>({ 
     success: false, 
-    error: message 
+    error: message,
+    ...(code ? { code } : {}),
   }, statusCode);
 }
 
@@ -0,0 +1,133 @@
+/**
+ * Idempotency Middleware
+ *
+ * Makes POST, PUT and DELETE requests safe to retry when the client
+ * sends an Idempotency-Key header (any unique string, e.g. a UUID):
+ * - First request: runs normally; its response is stored
+ * - Retry with the same key and request: the stored response is
+ *   replayed with an `Idempotent-Replayed: true` header
+ * - Retry while the first request is still running: 409
+ * - Same key with a different method, path or body: 422
+ *
+ * Keys are scoped to the signed-in user, so requests without a session
+ * (sign-in, provider webhooks) are passed through untouched, as are
+ * requests without the header. Server errors (5xx) are not stored.
+ *
+ * Usage:
+ * app.use('*', idempotency())
+ */
+
+import { createHash } from 'crypto';
+import { createMiddleware } from 'hono/factory';
+import type { Context } from 'hono';
+import type { HonoEnv } from '../lib/types';
+import { error } from '../lib/response';
+import { logger } from '../lib/logger';
+import * as idempotencyService from '../services/idempotency.services';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const IDEMPOTENT_REPLAYED_HEADER = 'Idempotent-Replayed';
+
+const IDEMPOTENT_METHODS = ['POST', 'PUT', 'DELETE'];
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Fingerprint of a request: method, path with query string, and body
+ *
+ * Multipart bodies are hashed field by field, since the boundary
+ * changes every time a client re-encodes the same form.
+ */
+async function hashRequest(c: Context<HonoEnv>) {
+  const url = new URL(c.req.url);
+  const hash = createHash('sha256').update(`${c.req.method} ${url.pathname}${url.search}\n`);
+  const request = c.req.raw.clone();
+
+  if (c.req.header('content-type')?.startsWith('multipart/form-data')) {
+    const form = await request.formData();
+    const fields = [...form.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+    for (const [name, value] of fields) {
+      hash.update(`${name}=`);
+      if (typeof value === 'string') {
+        hash.update(value);
+      } else {
+        hash.update(`${value.name};${value.type};`).update(new Uint8Array(await value.arrayBuffer()));
+      }
+      hash.update('\n');
+    }
+  } else {
+    hash.update(new Uint8Array(await request.arrayBuffer()));
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Idempotency-Key support for mutating requests
+ *
+ * Mount after session extraction so the user is known.
+ */
+export const idempotency = () => {
+  return createMiddleware<HonoEnv>(async (c, next) => {
+    const key = c.req.header(IDEMPOTENCY_HEADER)?.trim();
+    const user = c.get('user');
+
+    if (!key || !user || !IDEMPOTENT_METHODS.includes(c.req.method)) {
+      return next();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return error(c, `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`, 400);
+    }
+
+    const claim = await idempotencyService.claimIdempotencyKey({
+      userId: user.id,
+      key,
+      method: c.req.method,
+      path: c.req.path,
+      requestHash: await hashRequest(c),
+    });
+
+    if (claim.outcome === 'mismatch') {
+      return error(c, `${IDEMPOTENCY_HEADER} was already used for a different request`, 422, 'IDEMPOTENCY_KEY_REUSED');
+    }
+
+    if (claim.outcome === 'in_progress') {
+      return error(c, 'A request with this Idempotency-Key is still in progress', 409, 'IDEMPOTENCY_KEY_IN_PROGRESS');
+    }
+
+    if (claim.outcome === 'replay') {
+      const { response } = claim;
+      return new Response(response.body, {
+        status: response.status,
+        headers: {
+          ...(response.contentType ? { 'Content-Type': response.contentType } : {}),
+          [IDEMPOTENT_REPLAYED_HEADER]: 'true',
+        },
+      });
+    }
+
+    try {
+      await next();
+    } catch (err) {
+      await idempotencyService.releaseIdempotencyKey(claim.id);
+      throw err;
+    }
+
+    if (c.res.status >= 500) {
+      await idempotencyService.releaseIdempotencyKey(claim.id);
+      return;
+    }
+
+    try {
+      await idempotencyService.completeIdempotencyKey(claim.id, {
+        status: c.res.status,
+        contentType: c.res.headers.get('content-type'),
+        body: await c.res.clone().text(),
+      });
+    } catch (err) {
+      // The change already happened, so still answer; retries see 409 until the lock times out
+      logger.error(`[idempotency] Failed to store response for key ${claim.id}:`, err);
+    }
+  });
+};
@@ -0,0 +1,49 @@
+/**
+ * REP-006: Audit trail
+ *
+ * The filtered audit log, oldest first. Unlike GET /admin/audit/export
+ * it is not capped: large ranges run as background exports.
+ */
+
+import { AuditReportFilters } from '@repo/validations';
+import { countAuditEvents, findAuditEvents } from '../../services/audit.services';
+import { defineReport } from '../registry';
+
+defineReport({
+  id: 'audit',
+  title: 'Audit trail',
+  description: 'Chronological log of system actions',
+  filters: AuditReportFilters,
+  columns: [
+    { key: 'createdAt', header: 'Time', type: 'datetime', width: 20 },
+    { key: 'actorName', header: 'User', width: 20 },
+    { key: 'actorEmail', header: 'Email', width: 26 },
+    { key: 'impersonatedBy', header: 'Impersonated by', width: 14 },
+    { key: 'action', header: 'Action', width: 24 },
+    { key: 'entityType', header: 'Entity', width: 16 },
+    { key: 'entityId', header: 'Entity ID', width: 20 },
+    { key: 'changes', header: 'Details', width: 48 },
+    { key: 'ipAddress', header: 'IP address', width: 14 },
+    { key: 'requestId', header: 'Request ID', width: 20 },
+  ],
+
+  count: (filters) => countAuditEvents(filters),
+
+  fetch: async (filters, page) => {
+    const events = await findAuditEvents(filters, page);
+
+    return events.map((event) => ({
+      createdAt: event.createdAt,
+      // No actor means the system (jobs, webhooks)
+      actorName: event.actor?.name ?? (event.actorId ? null : 'System'),
+      actorEmail: event.actor?.email ?? null,
+      impersonatedBy: event.impersonatedBy,
+      action: event.action,
+      entityType: event.entityType,
+      entityId: event.entityId,
+      changes: event.changes ? JSON.stringify(event.changes) : null,
+      ipAddress: event.ipAddress,
+      requestId: event.requestId,
+    }));
+  },
+});
@@ -0,0 +1,91 @@
+/**
+ * REP-005: Core subject compliance for a session
+ *
+ * Every student in the grade, with the core subjects (subject_core_rule
+ * for the grade and the window's session type) they hold and any they
+ * are missing. A grade has at most a few hundred students, so the
+ * report is built in memory and sliced.
+ */
+
+import { db, registration, registrationItem, user, eq, and, ne, asc, inArray } from '@repo/db';
+import { ROLES, CoreComplianceReportFilters, type CoreComplianceReportFiltersType } from '@repo/validations';
+import { getCoreSubjects } from '../../services/registration-rules.services';
+import { defineReport } from '../registry';
+import { getReportWindow, slicePage } from './helpers';
+
+type CoreComplianceReportRow = {
+  studentName: string;
+  studentId: string | null;
+  email: string;
+  registered: string;
+  missing: string;
+  coreHeld: string;
+  compliant: boolean;
+};
+
+async function buildCompliance(filters: CoreComplianceReportFiltersType): Promise<CoreComplianceReportRow[]> {
+  const window = await getReportWindow(filters.windowId);
+  const coreSubjects = await getCoreSubjects(filters.grade, window.sessionType);
+
+  const students = await db
+    .select({ id: user.id, name: user.name, studentId: user.studentId, email: user.email })
+    .from(user)
+    .where(and(eq(user.role, ROLES.STUDENT), eq(user.grade, filters.grade)))
+    .orderBy(asc(user.name), asc(user.id));
+
+  const held = coreSubjects.length > 0 && students.length > 0
+    ? await db
+      .select({ studentId: registrationItem.studentId, subjectId: registrationItem.subjectId })
+      .from(registrationItem)
+      .innerJoin(registration, eq(registration.id, registrationItem.registrationId))
+      .where(and(
+        eq(registrationItem.windowId, window.id),
+        eq(registrationItem.status, 'active'),
+        ne(registration.status, 'cancelled'),
+        inArray(registrationItem.subjectId, coreSubjects.map((s) => s.id))
+      ))
+    : [];
+
+  const heldBy = new Map<string, Set<string>>();
+  for (const row of held) {
+    const subjects = heldBy.get(row.studentId) ?? new Set<string>();
+    subjects.add(row.subjectId);
+    heldBy.set(row.studentId, subjects);
+  }
+
+  const rows = students.map((student) => {
+    const subjects = heldBy.get(student.id) ?? new Set<string>();
+    const registered = coreSubjects.filter((s) => subjects.has(s.id));
+    const missing = coreSubjects.filter((s) => !subjects.has(s.id));
+
+    return {
+      studentName: student.name,
+      studentId: student.studentId,
+      email: student.email,
+      registered: registered.map((s) => s.code).join(', '),
+      missing: missing.map((s) => s.code).join(', '),
+      coreHeld: `${registered.length}/${coreSubjects.length}`,
+      compliant: missing.length === 0,
+    };
+  });
+
+  return filters.missingOnly ? rows.filter((row) => !row.compliant) : rows;
+}
+
+defineReport({
+  id: 'core-compliance',
+  title: 'Core subject compliance',
+  description: 'Students in a grade with the core subjects they hold and are missing',
+  filters: CoreComplianceReportFilters,
+  columns: [
+    { key: 'studentName', header: 'Student', width: 24 },
+    { key: 'studentId', header: 'Student ID', width: 12 },
+    { key: 'email', header: 'Email', width: 28 },
+    { key: 'coreHeld', header: 'Core held', width: 10 },
+    { key: 'registered', header: 'Registered', width: 28 },
+    { key: 'missing', header: 'Missing', width: 28 },
+    { key: 'compliant', header: 'Compliant', type: 'boolean', width: 10 },
+  ],
+  count: async (filters) => (await buildCompliance(filters)).length,
+  fetch: async (filters, page) => slicePage(await buildCompliance(filters), page),
+});
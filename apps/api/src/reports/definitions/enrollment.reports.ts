@@ -0,0 +1,86 @@
+/**
+ * REP-004: Subject enrollment for a session
+ *
+ * Students enrolled per subject (confirmed registrations, active
+ * items), split by exam type, with the revenue each subject brought in.
+ */
+
+import {
+  db,
+  council,
+  registration,
+  registrationItem,
+  subject,
+  eq,
+  and,
+  asc,
+  count,
+  sql,
+} from '@repo/db';
+import { EnrollmentReportFilters, type EnrollmentReportFiltersType } from '@repo/validations';
+import { defineReport } from '../registry';
+import { getReportWindow } from './helpers';
+
+function buildWhere(filters: EnrollmentReportFiltersType) {
+  const conditions = [
+    eq(registrationItem.windowId, filters.windowId),
+    eq(registrationItem.status, 'active'),
+    eq(registration.status, 'confirmed'),
+  ];
+
+  if (filters.council) conditions.push(eq(council.code, filters.council));
+
+  return and(...conditions);
+}
+
+defineReport({
+  id: 'enrollment',
+  title: 'Subject enrollment',
+  description: 'Students per subject by exam type, with revenue',
+  filters: EnrollmentReportFilters,
+  columns: [
+    { key: 'subjectCode', header: 'Code', width: 10 },
+    { key: 'subjectName', header: 'Subject', width: 28 },
+    { key: 'councilName', header: 'Council', width: 18 },
+    { key: 'inSchool', header: 'In school', type: 'number', width: 10 },
+    { key: 'external', header: 'External', type: 'number', width: 10 },
+    { key: 'total', header: 'Total', type: 'number', width: 10 },
+    { key: 'revenue', header: 'Revenue', type: 'money', width: 14 },
+  ],
+
+  count: async (filters) => {
+    await getReportWindow(filters.windowId);
+
+    const [result] = await db
+      .select({ count: sql<number>`count(distinct ${registrationItem.subjectId})`.mapWith(Number) })
+      .from(registrationItem)
+      .innerJoin(registration, eq(registration.id, registrationItem.registrationId))
+      .innerJoin(subject, eq(subject.id, registrationItem.subjectId))
+      .innerJoin(council, eq(council.id, subject.councilId))
+      .where(buildWhere(filters));
+
+    return Number(result?.count ?? 0);
+  },
+
+  fetch: async (filters, page) => {
+    return db
+      .select({
+        subjectCode: subject.code,
+        subjectName: subject.name,
+        councilName: council.name,
+        inSchool: sql<number>`count(*) filter (where ${registrationItem.examType} = 'in_school')`.mapWith(Number),
+        external: sql<number>`count(*) filter (where ${registrationItem.examType} = 'external')`.mapWith(Number),
+        total: count(),
+        revenue: sql<number>`coalesce(sum(${registrationItem.unitPrice}), 0)`.mapWith(Number),
+      })
+      .from(registrationItem)
+      .innerJoin(registration, eq(registration.id, registrationItem.registrationId))
+      .innerJoin(subject, eq(subject.id, registrationItem.subjectId))
+      .innerJoin(council, eq(council.id, subject.councilId))
+      .where(buildWhere(filters))
+      .groupBy(subject.id, subject.code, subject.name, council.name)
+      .orderBy(asc(subject.code), asc(subject.id))
+      .limit(page.limit)
+      .offset(page.offset);
+  },
+});
@@ -0,0 +1,133 @@
+/**
+ * REP-003: Escrow balances
+ *
+ * Current balance per student, largest first, with the amount held for
+ * pending withdrawal requests. The last row is the total escrow
+ * liability across the listed students.
+ */
+
+import {
+  db,
+  escrowAccount,
+  escrowWithdrawal,
+  user,
+  eq,
+  and,
+  or,
+  asc,
+  desc,
+  count,
+  sum,
+  gt,
+  inArray,
+  sql,
+} from '@repo/db';
+import {
+  EscrowReportFilters,
+  OPEN_WITHDRAWAL_STATUSES,
+  type EscrowReportFiltersType,
+} from '@repo/validations';
+import { defineReport } from '../registry';
+
+type EscrowReportRow = {
+  studentName: string;
+  studentId: string | null;
+  grade: number | null;
+  email: string;
+  balance: number;
+  pendingWithdrawals: number;
+  updatedAt: Date | null;
+};
+
+// Outstanding amount of each student's open withdrawal requests
+const heldForWithdrawals = db
+  .select({
+    studentId: escrowWithdrawal.studentId,
+    amount: sql<number>`sum(${escrowWithdrawal.amount} - ${escrowWithdrawal.fulfilledAmount})`.as('held_amount'),
+  })
+  .from(escrowWithdrawal)
+  .where(inArray(escrowWithdrawal.status, [...OPEN_WITHDRAWAL_STATUSES]))
+  .groupBy(escrowWithdrawal.studentId)
+  .as('held');
+
+const heldAmount = sql<number>`coalesce(${heldForWithdrawals.amount}, 0)`.mapWith(Number);
+
+function buildWhere(filters: EscrowReportFiltersType) {
+  const conditions = [eq(escrowAccount.kind, 'student')];
+
+  if (filters.grade) conditions.push(eq(user.grade, filters.grade));
+  if (!filters.includeZero) conditions.push(or(gt(escrowAccount.balance, 0), gt(heldForWithdrawals.amount, 0))!);
+
+  return and(...conditions);
+}
+
+async function countAccounts(filters: EscrowReportFiltersType) {
+  const [result] = await db
+    .select({
+      count: count(),
+      total: sum(escrowAccount.balance).mapWith(Number),
+      held: sql<number>`coalesce(sum(${heldForWithdrawals.amount}), 0)`.mapWith(Number),
+    })
+    .from(escrowAccount)
+    .innerJoin(user, eq(user.id, escrowAccount.studentId))
+    .leftJoin(heldForWithdrawals, eq(heldForWithdrawals.studentId, escrowAccount.studentId))
+    .where(buildWhere(filters));
+
+  return { count: Number(result?.count ?? 0), total: result?.total ?? 0, held: result?.held ?? 0 };
+}
+
+defineReport({
+  id: 'escrow',
+  title: 'Escrow balances',
+  description: 'Escrow balance per student and total liability',
+  filters: EscrowReportFilters,
+  columns: [
+    { key: 'studentName', header: 'Student', width: 24 },
+    { key: 'studentId', header: 'Student ID', width: 12 },
+    { key: 'grade', header: 'Grade', type: 'number', width: 7 },
+    { key: 'email', header: 'Email', width: 28 },
+    { key: 'balance', header: 'Balance', type: 'money', width: 14 },
+    { key: 'pendingWithdrawals', header: 'Pending withdrawals', type: 'money', width: 18 },
+    { key: 'updatedAt', header: 'Last movement', type: 'datetime', width: 20 },
+  ],
+
+  // One extra row for the total
+  count: async (filters) => (await countAccounts(filters)).count + 1,
+
+  fetch: async (filters, page): Promise<EscrowReportRow[]> => {
+    const rows: EscrowReportRow[] = await db
+      .select({
+        studentName: user.name,
+        studentId: user.studentId,
+        grade: user.grade,
+        email: user.email,
+        balance: escrowAccount.balance,
+        pendingWithdrawals: heldAmount,
+        updatedAt: escrowAccount.updatedAt,
+      })
+      .from(escrowAccount)
+      .innerJoin(user, eq(user.id, escrowAccount.studentId))
+      .leftJoin(heldForWithdrawals, eq(heldForWithdrawals.studentId, escrowAccount.studentId))
+      .where(buildWhere(filters))
+      .orderBy(desc(escrowAccount.balance), asc(user.name), asc(escrowAccount.id))
+      .limit(page.limit)
+      .offset(page.offset);
+
+    const { count: accounts, total, held } = await countAccounts(filters);
+
+    // The total row sits right after the last account
+    if (page.offset <= accounts && page.offset + page.limit > accounts) {
+      rows.push({
+        studentName: 'Total liability',
+        studentId: null,
+        grade: null,
+        email: '',
+        balance: total,
+        pendingWithdrawals: held,
+        updatedAt: null,
+      });
+    }
+
+    return rows;
+  },
+});
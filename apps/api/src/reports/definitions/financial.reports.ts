@@ -0,0 +1,135 @@
+/**
+ * REP-002: Financial summary for a session
+ *
+ * Revenue from confirmed registrations (active items at their price
+ * snapshot), broken down by council and by exam type, plus money
+ * collected per payment method. Escrow checkouts count as the
+ * 'escrow' method. The summary is a handful of rows, so it is built in
+ * memory and sliced.
+ */
+
+import {
+  db,
+  council,
+  escrowEntry,
+  payment,
+  registration,
+  registrationItem,
+  subject,
+  eq,
+  and,
+  asc,
+  count,
+  sql,
+  inArray,
+} from '@repo/db';
+import { FinancialReportFilters, type FinancialReportFiltersType } from '@repo/validations';
+import { defineReport } from '../registry';
+import { formatExamType, getReportWindow, slicePage } from './helpers';
+
+type FinancialReportRow = {
+  breakdown: string;
+  label: string;
+  count: number;
+  amount: number;
+};
+
+async function buildSummary(filters: FinancialReportFiltersType): Promise<FinancialReportRow[]> {
+  const window = await getReportWindow(filters.windowId);
+
+  const confirmedItems = and(
+    eq(registrationItem.windowId, window.id),
+    eq(registrationItem.status, 'active'),
+    eq(registration.status, 'confirmed')
+  );
+
+  const windowRegistrations = db
+    .select({ id: registration.id })
+    .from(registration)
+    .where(eq(registration.windowId, window.id));
+
+  const [byCouncil, byExamType, byProvider, [fromEscrow]] = await Promise.all([
+    db
+      .select({
+        label: council.name,
+        count: count(),
+        amount: sql<number>`coalesce(sum(${registrationItem.unitPrice}), 0)`.mapWith(Number),
+      })
+      .from(registrationItem)
+      .innerJoin(registration, eq(registration.id, registrationItem.registrationId))
+      .innerJoin(subject, eq(subject.id, registrationItem.subjectId))
+      .innerJoin(council, eq(council.id, subject.councilId))
+      .where(confirmedItems)
+      .groupBy(council.name)
+      .orderBy(asc(council.name)),
+    db
+      .select({
+        label: registrationItem.examType,
+        count: count(),
+        amount: sql<number>`coalesce(sum(${registrationItem.unitPrice}), 0)`.mapWith(Number),
+      })
+      .from(registrationItem)
+      .innerJoin(registration, eq(registration.id, registrationItem.registrationId))
+      .where(confirmedItems)
+      .groupBy(registrationItem.examType)
+      .orderBy(asc(registrationItem.examType)),
+    db
+      .select({
+        label: payment.provider,
+        count: count(),
+        amount: sql<number>`coalesce(sum(${payment.amount}), 0)`.mapWith(Number),
+      })
+      .from(payment)
+      .where(and(
+        inArray(payment.registrationId, windowRegistrations),
+        eq(payment.status, 'succeeded')
+      ))
+      .groupBy(payment.provider)
+      .orderBy(asc(payment.provider)),
+    // Checkout debits are negative entries on student accounts
+    db
+      .select({
+        count: count(),
+        amount: sql<number>`coalesce(-sum(${escrowEntry.amount}), 0)`.mapWith(Number),
+      })
+      .from(escrowEntry)
+      .where(and(
+        eq(escrowEntry.entryType, 'checkout_debit'),
+        eq(escrowEntry.referenceType, 'registration'),
+        inArray(escrowEntry.referenceId, windowRegistrations),
+        sql`${escrowEntry.amount} < 0`
+      )),
+  ]);
+
+  const methods = [...byProvider];
+  if (fromEscrow && fromEscrow.count > 0) {
+    methods.push({ label: 'escrow', count: fromEscrow.count, amount: fromEscrow.amount });
+  }
+
+  const total = byExamType.reduce(
+    (acc, row) => ({ count: acc.count + row.count, amount: acc.amount + row.amount }),
+    { count: 0, amount: 0 }
+  );
+
+  return [
+    { breakdown: 'Total', label: `${window.sessionType} ${window.year}`, ...total },
+    ...byCouncil.map((row) => ({ breakdown: 'Council', ...row })),
+    ...byExamType.map((row) => ({ breakdown: 'Exam type', ...row, label: formatExamType(row.label) })),
+    ...methods.map((row) => ({ breakdown: 'Payment method', ...row })),
+  ];
+}
+
+defineReport({
+  id: 'financial',
+  title: 'Financial summary',
+  description: 'Session revenue by council, exam type and payment method',
+  filters: FinancialReportFilters,
+  columns: [
+    { key: 'breakdown', header: 'Breakdown', width: 16 },
+    { key: 'label', header: 'Item', width: 24 },
+    { key: 'count', header: 'Count', type: 'number', width: 10 },
+    { key: 'amount', header: 'Amount', type: 'money', width: 14 },
+  ],
+  count: async (filters) => (await buildSummary(filters)).length,
+  fetch: async (filters, page) => slicePage(await buildSummary(filters), page),
+});
@@ -0,0 +1,32 @@
+import { db } from '@repo/db';
+
+/**
+ * Load the window a session report is about
+ *
+ * @throws Error if the window does not exist
+ */
+export async function getReportWindow(windowId: string) {
+  const window = await db.query.registrationWindow.findFirst({
+    where: (windows, { eq }) => eq(windows.id, windowId),
+  });
+
+  if (!window) {
+    throw new Error('Registration window not found');
+  }
+
+  return window;
+}
+
+/**
+ * Slice an in-memory report (small aggregate reports)
+ */
+export function slicePage<T>(rows: T[], page: { offset: number; limit: number }) {
+  return rows.slice(page.offset, page.offset + page.limit);
+}
+
+/**
+ * Human-readable exam type
+ */
+export function formatExamType(examType: string) {
+  return examType === 'in_school' ? 'In school' : 'External';
+}
@@ -0,0 +1,167 @@
+/**
+ * REP-001: Registrations for a session
+ *
+ * One row per registration with the student, their subjects and what
+ * was paid. The council and exam type filters keep registrations that
+ * hold at least one matching subject.
+ */
+
+import {
+  db,
+  council,
+  payment,
+  registration,
+  registrationItem,
+  subject,
+  user,
+  eq,
+  and,
+  asc,
+  count,
+  inArray,
+} from '@repo/db';
+import { RegistrationReportFilters, type RegistrationReportFiltersType } from '@repo/validations';
+import { defineReport } from '../registry';
+import { formatExamType, getReportWindow } from './helpers';
+
+type RegistrationReportRow = {
+  studentName: string;
+  studentId: string | null;
+  grade: number | null;
+  subjects: string;
+  subjectCount: number;
+  totalAmount: number;
+  amountPaid: number;
+  paymentMethod: string | null;
+  status: string;
+  createdAt: Date;
+  confirmedAt: Date | null;
+};
+
+function buildWhere(filters: RegistrationReportFiltersType) {
+  const conditions = [eq(registration.windowId, filters.windowId)];
+
+  if (filters.status) conditions.push(eq(registration.status, filters.status));
+  if (filters.grade) conditions.push(eq(user.grade, filters.grade));
+
+  if (filters.council || filters.examType) {
+    const itemConditions = [eq(registrationItem.status, 'active')];
+    if (filters.council) itemConditions.push(eq(council.code, filters.council));
+    if (filters.examType) itemConditions.push(eq(registrationItem.examType, filters.examType));
+
+    conditions.push(inArray(
+      registration.id,
+      db
+        .select({ id: registrationItem.registrationId })
+        .from(registrationItem)
+        .innerJoin(subject, eq(subject.id, registrationItem.subjectId))
+        .innerJoin(council, eq(council.id, subject.councilId))
+        .where(and(...itemConditions))
+    ));
+  }
+
+  return and(...conditions);
+}
+
+defineReport({
+  id: 'registrations',
+  title: 'Registrations',
+  description: 'Registrations for a session with subjects and amounts paid',
+  filters: RegistrationReportFilters,
+  columns: [
+    { key: 'studentName', header: 'Student', width: 24 },
+    { key: 'studentId', header: 'Student ID', width: 12 },
+    { key: 'grade', header: 'Grade', type: 'number', width: 7 },
+    { key: 'subjects', header: 'Subjects', width: 48 },
+    { key: 'subjectCount', header: 'Subjects #', type: 'number', width: 9 },
+    { key: 'totalAmount', header: 'Total', type: 'money', width: 12 },
+    { key: 'amountPaid', header: 'Paid', type: 'money', width: 12 },
+    { key: 'paymentMethod', header: 'Payment method', width: 14 },
+    { key: 'status', header: 'Status', width: 14 },
+    { key: 'createdAt', header: 'Created', type: 'datetime', width: 20 },
+    { key: 'confirmedAt', header: 'Confirmed', type: 'datetime', width: 20 },
+  ],
+
+  count: async (filters) => {
+    await getReportWindow(filters.windowId);
+
+    const [result] = await db
+      .select({ count: count() })
+      .from(registration)
+      .innerJoin(user, eq(user.id, registration.studentId))
+      .where(buildWhere(filters));
+
+    return Number(result?.count ?? 0);
+  },
+
+  fetch: async (filters, page): Promise<RegistrationReportRow[]> => {
+    const registrations = await db
+      .select({
+        id: registration.id,
+        status: registration.status,
+        totalAmount: registration.totalAmount,
+        createdAt: registration.createdAt,
+        confirmedAt: registration.confirmedAt,
+        studentName: user.name,
+        studentId: user.studentId,
+        grade: user.grade,
+      })
+      .from(registration)
+      .innerJoin(user, eq(user.id, registration.studentId))
+      .where(buildWhere(filters))
+      .orderBy(asc(user.name), asc(registration.id))
+      .limit(page.limit)
+      .offset(page.offset);
+
+    if (registrations.length === 0) return [];
+
+    const ids = registrations.map((row) => row.id);
+
+    const [items, payments] = await Promise.all([
+      db
+        .select({
+          registrationId: registrationItem.registrationId,
+          subjectCode: registrationItem.subjectCode,
+          subjectName: registrationItem.subjectName,
+          examType: registrationItem.examType,
+        })
+        .from(registrationItem)
+        .where(and(
+          inArray(registrationItem.registrationId, ids),
+          eq(registrationItem.status, 'active')
+        ))
+        .orderBy(asc(registrationItem.subjectCode)),
+      db
+        .select({ registrationId: payment.registrationId, provider: payment.provider })
+        .from(payment)
+        .where(and(
+          inArray(payment.registrationId, ids),
+          eq(payment.status, 'succeeded')
+        ))
+        .orderBy(asc(payment.createdAt)),
+    ]);
+
+    return registrations.map((row) => {
+      const own = items.filter((item) => item.registrationId === row.id);
+      const paidWith = payments.find((p) => p.registrationId === row.id);
+      const confirmed = row.status === 'confirmed';
+
+      return {
+        studentName: row.studentName,
+        studentId: row.studentId,
+        grade: row.grade,
+        subjects: own
+          .map((item) => `${item.subjectCode} ${item.subjectName} (${formatExamType(item.examType)})`)
+          .join('; '),
+        subjectCount: own.length,
+        totalAmount: row.totalAmount,
+        amountPaid: confirmed ? row.totalAmount : 0,
+        // Confirmed without a gateway payment means paid from escrow
+        paymentMethod: confirmed ? (paidWith?.provider ?? 'escrow') : null,
+        status: row.status,
+        createdAt: row.createdAt,
+        confirmedAt: row.confirmedAt,
+      };
+    });
+  },
+});
@@ -0,0 +1,94 @@
+/**
+ * REP-007: Student roster
+ *
+ * All students by grade with contact details and approved parent links.
+ * Graduated students (no grade) come last.
+ */
+
+import { db, parentStudentLink, user, eq, and, asc, count, inArray, sql } from '@repo/db';
+import { ROLES, RosterReportFilters, type RosterReportFiltersType } from '@repo/validations';
+import { defineReport } from '../registry';
+
+type RosterReportRow = {
+  grade: number | null;
+  graduatedAt: Date | null;
+  studentId: string | null;
+  name: string;
+  email: string;
+  phone: string | null;
+  parents: string;
+  parentContacts: string;
+};
+
+function buildWhere(filters: RosterReportFiltersType) {
+  const conditions = [eq(user.role, ROLES.STUDENT)];
+  if (filters.grade) conditions.push(eq(user.grade, filters.grade));
+  return and(...conditions);
+}
+
+defineReport({
+  id: 'roster',
+  title: 'Student roster',
+  description: 'Students by grade with contact details and linked parents',
+  filters: RosterReportFilters,
+  columns: [
+    { key: 'grade', header: 'Grade', type: 'number', width: 7 },
+    { key: 'graduatedAt', header: 'Graduated', type: 'date', width: 12 },
+    { key: 'studentId', header: 'Student ID', width: 12 },
+    { key: 'name', header: 'Name', width: 24 },
+    { key: 'email', header: 'Email', width: 28 },
+    { key: 'phone', header: 'Phone', width: 16 },
+    { key: 'parents', header: 'Parents', width: 28 },
+    { key: 'parentContacts', header: 'Parent contacts', width: 40 },
+  ],
+
+  count: async (filters) => {
+    const [result] = await db
+      .select({ count: count() })
+      .from(user)
+      .where(buildWhere(filters));
+
+    return Number(result?.count ?? 0);
+  },
+
+  fetch: async (filters, page): Promise<RosterReportRow[]> => {
+    const students = await db
+      .select({
+        id: user.id,
+        grade: user.grade,
+        graduatedAt: user.graduatedAt,
+        studentId: user.studentId,
+        name: user.name,
+        email: user.email,
+        phone: user.phone,
+      })
+      .from(user)
+      .where(buildWhere(filters))
+      .orderBy(sql`${user.grade} asc nulls last`, asc(user.name), asc(user.id))
+      .limit(page.limit)
+      .offset(page.offset);
+
+    if (students.length === 0) return [];
+
+    const links = await db.query.parentStudentLink.findMany({
+      where: and(
+        inArray(parentStudentLink.studentId, students.map((s) => s.id)),
+        eq(parentStudentLink.status, 'approved')
+      ),
+      with: { parent: { columns: { name: true, email: true, phone: true } } },
+      orderBy: (links, { asc }) => [asc(links.createdAt)],
+    });
+
+    return students.map(({ id, ...student }) => {
+      const parents = links.filter((link) => link.studentId === id).map((link) => link.parent);
+
+      return {
+        ...student,
+        parents: parents.map((parent) => parent.name).join('; '),
+        parentContacts: parents
+          .map((parent) => [parent.email, parent.phone].filter(Boolean).join(' / '))
+          .join('; '),
+      };
+    });
+  },
+});
@@ -0,0 +1,28 @@
+import { csvRow } from '../../lib/csv';
+import { formatCell, write } from './format';
+import type { ReportExporter } from './types';
+
+/**
+ * CSV exporter
+ *
+ * UTF-8 with a byte order mark so Excel detects the encoding.
+ */
+export const exportCsv: ReportExporter = async (meta, batches, out) => {
+  let rows = 0;
+
+  await write(out, '\uFEFF' + csvRow(meta.columns.map((column) => column.header)) + '\r\n');
+
+  for await (const batch of batches) {
+    if (batch.length === 0) continue;
+
+    const lines = batch.map((row) =>
+      csvRow(meta.columns.map((column) => formatCell(row[column.key], column.type)))
+    );
+
+    await write(out, lines.join('\r\n') + '\r\n');
+    rows += batch.length;
+  }
+
+  out.end();
+  return rows;
+};
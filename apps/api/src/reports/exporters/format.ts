@@ -0,0 +1,57 @@
+import type { Writable } from 'stream';
+import { formatPounds } from '@repo/validations';
+import type { ReportColumnType } from '../registry';
+
+/**
+ * Format a cell as text (CSV and PDF)
+ *
+ * Money is printed in pounds with two decimals; dates as ISO strings
+ * so spreadsheets parse them.
+ */
+export function formatCell(value: unknown, type: ReportColumnType = 'string'): string {
+  if (value === null || value === undefined) return '';
+
+  switch (type) {
+    case 'money':
+      return formatPounds(Number(value));
+    case 'date':
+      return value instanceof Date ? value.toISOString().slice(0, 10) : String(value);
+    case 'datetime':
+      return value instanceof Date ? value.toISOString() : String(value);
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
+
+/**
+ * Describe the applied filters in one line, e.g. "grade: 10, council: cambridge"
+ */
+export function describeFilters(filters: Record<string, unknown>): string {
+  const parts = Object.entries(filters)
+    .filter(([, value]) => value !== undefined && value !== null && value !== false)
+    .map(([key, value]) => `${key}: ${value instanceof Date ? value.toISOString() : String(value)}`);
+
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+/**
+ * Write a chunk, waiting for the consumer when its buffer is full
+ */
+export async function write(out: Writable, chunk: string) {
+  if (!out.write(chunk)) {
+    await new Promise<void>((resolve, reject) => {
+      const onDrain = () => {
+        out.off('error', onError);
+        resolve();
+      };
+      const onError = (err: Error) => {
+        out.off('drain', onDrain);
+        reject(err);
+      };
+      out.once('drain', onDrain);
+      out.once('error', onError);
+    });
+  }
+}
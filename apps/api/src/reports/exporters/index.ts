@@ -0,0 +1,23 @@
+import type { ReportFormatType } from '@repo/validations';
+import { exportCsv } from './csv';
+import { exportXlsx } from './xlsx';
+import { exportPdf } from './pdf';
+import type { ReportExporter } from './types';
+
+type FileFormat = Exclude<ReportFormatType, 'json'>;
+
+/**
+ * Exporter, MIME type and extension per file format
+ */
+export const EXPORTERS: Record<FileFormat, { export: ReportExporter; contentType: string; extension: string }> = {
+  csv: { export: exportCsv, contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  xlsx: {
+    export: exportXlsx,
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+  pdf: { export: exportPdf, contentType: 'application/pdf', extension: 'pdf' },
+};
+
+export type { FileFormat };
+export type { ReportExporter, ReportMeta, ReportRow } from './types';
@@ -0,0 +1,96 @@
+import PDFDocument from 'pdfkit';
+import { describeFilters, formatCell } from './format';
+import type { ReportExporter, ReportMeta } from './types';
+
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const CELL_PADDING = 3;
+
+/**
+ * PDF exporter
+ *
+ * A4 landscape table with the header row repeated on every page.
+ * pdfkit streams each page as it is finished.
+ */
+export const exportPdf: ReportExporter = async (meta, batches, out) => {
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: MARGIN, bufferPages: false });
+  const finished = new Promise<void>((resolve, reject) => {
+    out.once('finish', resolve);
+    out.once('error', reject);
+  });
+
+  doc.pipe(out);
+
+  const tableWidth = doc.page.width - MARGIN * 2;
+  const totalWeight = meta.columns.reduce((acc, column) => acc + (column.width ?? 15), 0);
+  const widths = meta.columns.map((column) => ((column.width ?? 15) / totalWeight) * tableWidth);
+  const bottom = () => doc.page.height - MARGIN;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(FONT_SIZE);
+
+    const height = Math.max(
+      ...cells.map((cell, i) => doc.heightOfString(cell, { width: widths[i]! - CELL_PADDING * 2 }))
+    ) + CELL_PADDING * 2;
+
+    if (doc.y + height > bottom()) {
+      doc.addPage();
+      if (!bold) drawHeader();
+    }
+
+    const top = doc.y;
+    let x = MARGIN;
+
+    cells.forEach((cell, i) => {
+      doc.text(cell, x + CELL_PADDING, top + CELL_PADDING, { width: widths[i]! - CELL_PADDING * 2 });
+      x += widths[i]!;
+    });
+
+    doc
+      .moveTo(MARGIN, top + height)
+      .lineTo(MARGIN + tableWidth, top + height)
+      .lineWidth(bold ? 0.8 : 0.3)
+      .strokeColor('#999999')
+      .stroke();
+
+    doc.x = MARGIN;
+    doc.y = top + height;
+  };
+
+  const drawHeader = () => drawRow(meta.columns.map((column) => column.header), true);
+
+  drawTitle(doc, meta);
+  drawHeader();
+
+  let rows = 0;
+
+  for await (const batch of batches) {
+    for (const row of batch) {
+      drawRow(meta.columns.map((column) => formatCell(row[column.key], column.type)), false);
+    }
+    rows += batch.length;
+  }
+
+  if (rows === 0) {
+    doc.moveDown().font('Helvetica-Oblique').fontSize(FONT_SIZE + 1).text('No rows match these filters.');
+  }
+
+  doc.end();
+  await finished;
+  return rows;
+};
+
+/**
+ * Title block: report name, filters and generation time
+ */
+function drawTitle(doc: PDFKit.PDFDocument, meta: ReportMeta) {
+  doc.font('Helvetica-Bold').fontSize(14).text(meta.title);
+  doc
+    .font('Helvetica')
+    .fontSize(FONT_SIZE + 1)
+    .fillColor('#555555')
+    .text(`Filters: ${describeFilters(meta.filters)}`)
+    .text(`Generated: ${meta.generatedAt.toISOString()}`)
+    .fillColor('#000000')
+    .moveDown();
+}
@@ -0,0 +1,28 @@
+import type { Writable } from 'stream';
+import type { ReportColumn } from '../registry';
+
+export type ReportRow = Record<string, unknown>;
+
+/**
+ * What an exporter needs to know about the report besides its rows
+ */
+export type ReportMeta = {
+  title: string;
+  columns: ReportColumn<ReportRow>[];
+  // Applied filters, printed in the document header
+  filters: Record<string, unknown>;
+  generatedAt: Date;
+};
+
+/**
+ * Writes a report to `out` and ends it
+ *
+ * Rows arrive in batches so large reports never sit in memory whole.
+ *
+ * @returns Number of rows written
+ */
+export type ReportExporter = (
+  meta: ReportMeta,
+  batches: AsyncIterable<ReportRow[]>,
+  out: Writable
+) => Promise<number>;
@@ -0,0 +1,108 @@
+/**
+ * Report Engine
+ *
+ * Importing this module registers every report definition.
+ * Add new definition modules to the list below.
+ *
+ * - previewReport: one page of rows as JSON
+ * - exportReport: every row, in batches, through a CSV / XLSX / PDF exporter
+ */
+
+import type { Writable } from 'stream';
+import { EXPORTERS, type FileFormat, type ReportRow } from './exporters';
+import type { AnyReportDefinition } from './registry';
+
+import './definitions/registration.reports';
+import './definitions/financial.reports';
+import './definitions/escrow.reports';
+import './definitions/enrollment.reports';
+import './definitions/core-compliance.reports';
+import './definitions/audit.reports';
+import './definitions/roster.reports';
+
+export { getReport, getReports } from './registry';
+export type { AnyReportDefinition, ReportColumn } from './registry';
+export { EXPORTERS, type FileFormat } from './exporters';
+
+// Rows fetched per query while exporting
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Page through a report until fetch() comes back short
+ */
+export async function* iterateRows(
+  report: AnyReportDefinition,
+  filters: unknown,
+  batchSize = EXPORT_BATCH_SIZE
+): AsyncGenerator<ReportRow[]> {
+  for (let offset = 0; ; offset += batchSize) {
+    const batch = await report.fetch(filters, { offset, limit: batchSize });
+    yield batch;
+    if (batch.length < batchSize) return;
+  }
+}
+
+/**
+ * Get one page of a report
+ *
+ * @param report - Report definition
+ * @param filters - Parsed report filters
+ * @param page - Page number (1-based) and size
+ * @returns Columns, rows and pagination
+ */
+export async function previewReport(
+  report: AnyReportDefinition,
+  filters: unknown,
+  page: { page: number; pageSize: number }
+) {
+  const total = await report.count(filters);
+  const rows = await report.fetch(filters, {
+    offset: (page.page - 1) * page.pageSize,
+    limit: page.pageSize,
+  });
+
+  return {
+    report: { id: report.id, title: report.title, columns: report.columns },
+    data: rows,
+    pagination: {
+      page: page.page,
+      pageSize: page.pageSize,
+      total,
+      totalPages: Math.ceil(total / page.pageSize),
+    },
+  };
+}
+
+/**
+ * Write a whole report to a stream
+ *
+ * @param report - Report definition
+ * @param filters - Parsed report filters
+ * @param format - File format
+ * @param out - Destination; ended when the export finishes
+ * @returns Number of rows written
+ */
+export async function exportReport(
+  report: AnyReportDefinition,
+  filters: unknown,
+  format: FileFormat,
+  out: Writable
+) {
+  return EXPORTERS[format].export(
+    {
+      title: report.title,
+      columns: report.columns,
+      filters: filters as Record<string, unknown>,
+      generatedAt: new Date(),
+    },
+    iterateRows(report, filters),
+    out
+  );
+}
+
+/**
+ * Suggested download name, e.g. "registrations-2026-06-01.csv"
+ */
+export function reportFileName(report: AnyReportDefinition, format: FileFormat, date = new Date()) {
+  return `${report.id}-${date.toISOString().slice(0, 10)}.${EXPORTERS[format].extension}`;
+}
@@ -0,0 +1,88 @@
+/**
+ * Report Registry
+ *
+ * Each admin report (REP-001..REP-007) is a typed definition: a Zod
+ * filter schema, a paged query and column metadata. The engine in
+ * ./index.ts turns any definition into a JSON preview or a CSV / XLSX /
+ * PDF export, so adding a report never needs a new endpoint.
+ *
+ * Usage:
+ *
+ * defineReport({
+ *   id: 'roster',
+ *   title: 'Student roster',
+ *   filters: RosterReportFilters,
+ *   columns: [{ key: 'name', header: 'Name' }, ...],
+ *   count: (filters) => countStudents(filters),
+ *   fetch: (filters, page) => findStudents(filters, page),
+ * })
+ *
+ * fetch() must return rows in a stable order so paging through it
+ * yields every row exactly once.
+ */
+
+import type { z } from 'zod';
+import type { ReportIdType } from '@repo/validations';
+
+/**
+ * How a column's values are formatted
+ * - money: integer piastres, shown in pounds
+ * - date / datetime: Date values
+ */
+export type ReportColumnType = 'string' | 'number' | 'money' | 'date' | 'datetime' | 'boolean';
+
+export type ReportColumn<Row> = {
+  key: Extract<keyof Row, string>;
+  header: string;
+  type?: ReportColumnType;
+  // Relative width in spreadsheet characters (default 15)
+  width?: number;
+};
+
+export type ReportPage = {
+  offset: number;
+  limit: number;
+};
+
+export type ReportDefinition<Filters extends z.ZodType, Row> = {
+  id: ReportIdType;
+  title: string;
+  description: string;
+  filters: Filters;
+  columns: ReportColumn<Row>[];
+  count: (filters: z.output<Filters>) => Promise<number>;
+  fetch: (filters: z.output<Filters>, page: ReportPage) => Promise<Row[]>;
+};
+
+/**
+ * A definition with its types erased, as stored in the registry
+ */
+export type AnyReportDefinition = {
+  id: ReportIdType;
+  title: string;
+  description: string;
+  filters: z.ZodType;
+  columns: ReportColumn<Record<string, unknown>>[];
+  count: (filters: unknown) => Promise<number>;
+  fetch: (filters: unknown, page: ReportPage) => Promise<Record<string, unknown>[]>;
+};
+
+const reports = new Map<ReportIdType, AnyReportDefinition>();
+
+/**
+ * Register a report
+ */
+export function defineReport<Filters extends z.ZodType, Row>(definition: ReportDefinition<Filters, Row>) {
+  if (reports.has(definition.id)) {
+    throw new Error(`Report already registered: ${definition.id}`);
+  }
+  reports.set(definition.id, definition as unknown as AnyReportDefinition);
+}
+
+export function getReport(id: ReportIdType): AnyReportDefinition | undefined {
+  return reports.get(id);
+}
+
+export function getReports(): AnyReportDefinition[] {
+  return [...reports.values()];
+}
@@ -0,0 +1,58 @@
+/**
+ * Audit Trail Admin Routes
+ *
+ * Chronological log of every mutating action (REP-006):
+ * - GET /admin/audit        - List events (actor / action / entity / date filters, paginated)
+ * - GET /admin/audit/export - Download the filtered log as CSV or JSON
+ *
+ * Authorization: Admin only
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { AuditExportQuery, AuditQueryFilters } from '@repo/validations';
+import { success } from '../lib/response';
+import { requireAuth, requireAdmin } from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as auditService from '../services/audit.services';
+
+export const adminAudit = new Hono<HonoEnv>()
+  // All routes require an admin
+  .use('*', requireAuth())
+  .use('*', requireAdmin())
+
+  /**
+   * LIST AUDIT EVENTS
+   * GET /admin/audit
+   * Query: { actorId?, action?, entityType?, entityId?, requestId?, from?, to?, page?, pageSize? }
+   */
+  .get('/',
+    zValidator('query', AuditQueryFilters),
+    async (c) => {
+      const filters = c.req.valid('query');
+      const result = await auditService.getAuditEvents(filters);
+      return success(c, result);
+    }
+  )
+
+  /**
+   * EXPORT AUDIT EVENTS
+   * GET /admin/audit/export
+   * Query: same filters as the list, plus format?: 'csv' | 'json' (default csv)
+   *
+   * Oldest first, capped at 10,000 events; narrow the date range for more.
+   */
+  .get('/export',
+    zValidator('query', AuditExportQuery),
+    async (c) => {
+      const query = c.req.valid('query');
+      const file = await auditService.exportAuditEvents(query);
+
+      return c.body(file.body, 200, {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+      });
+    }
+  );
+
+export type AdminAuditApi = typeof adminAudit;
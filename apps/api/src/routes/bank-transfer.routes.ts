@@ -0,0 +1,112 @@
+/**
+ * Bank Transfer Admin Routes
+ *
+ * Confirmation queue for manual bank transfers (PAY-004, PAY-007):
+ * - GET /admin/payments/bank-transfers              - List transfers (pending by default)
+ * - GET /admin/payments/bank-transfers/:id          - Get transfer with receipts
+ * - POST /admin/payments/bank-transfers/:id/confirm - Record money received
+ *
+ * Authorization: Admin only
+ *
+ * Payers choose bank transfer at checkout (POST /payments with
+ * provider 'bank_transfer') and receive the reference to quote.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { BankTransferQueueQuery, ConfirmBankTransfer, PaymentId } from '@repo/validations';
+import { success, error } from '../lib/response';
+import { logger } from '../lib/logger';
+import { requireAuth, requireAdmin } from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as bankTransferService from '../services/bank-transfer.services';
+import * as fileService from '../services/file.services';
+
+export const adminBankTransfers = new Hono<HonoEnv>()
+  // All routes require an admin
+  .use('*', requireAuth())
+  .use('*', requireAdmin())
+
+  /**
+   * LIST BANK TRANSFERS
+   * GET /admin/payments/bank-transfers
+   * Query: { status?: 'pending' | 'succeeded' | 'failed' | 'expired' | 'refunded', page?, pageSize? }
+   */
+  .get('/',
+    zValidator('query', BankTransferQueueQuery),
+    async (c) => {
+      const filters = c.req.valid('query');
+      const result = await bankTransferService.getBankTransfers(filters);
+      return success(c, result);
+    }
+  )
+
+  /**
+   * GET BANK TRANSFER
+   * GET /admin/payments/bank-transfers/:id
+   */
+  .get('/:id',
+    zValidator('param', PaymentId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      const found = await bankTransferService.getBankTransferById(id);
+      if (!found) {
+        return error(c, 'Bank transfer not found', 404);
+      }
+
+      return success(c, found);
+    }
+  )
+
+  /**
+   * CONFIRM BANK TRANSFER
+   * POST /admin/payments/bank-transfers/:id/confirm
+   * Form data: { amount, valueDate, notes?, file? }
+   *
+   * amount is what arrived in piastres. A partial amount leaves the
+   * transfer pending; any excess is credited to the student's escrow.
+   * file is an optional proof document, stored like POST /files/document.
+   */
+  .post('/:id/confirm',
+    zValidator('param', PaymentId),
+    zValidator('form', ConfirmBankTransfer),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+      const { file, ...data } = c.req.valid('form');
+
+      const found = await bankTransferService.getBankTransferById(id);
+      if (!found) {
+        return error(c, 'Bank transfer not found', 404);
+      }
+
+      let proofFileId: string | undefined;
+
+      try {
+        if (file) {
+          const uploaded = await fileService.uploadFile(file, 'document', user.id);
+          proofFileId = uploaded?.id;
+        }
+
+        const confirmed = await bankTransferService.confirmBankTransfer(
+          id,
+          { ...data, proofFileId },
+          user.id
+        );
+        return success(c, confirmed);
+      } catch (err) {
+        // Don't keep a proof document for a confirmation that failed
+        if (proofFileId) {
+          await fileService.deleteFile(proofFileId, user.id).catch((cleanupErr) => {
+            logger.error(`[payments] Failed to remove proof file ${proofFileId}:`, cleanupErr);
+          });
+        }
+
+        const message = err instanceof Error ? err.message : 'Failed to confirm bank transfer';
+        return error(c, message, 400);
+      }
+    }
+  );
+
+export type AdminBankTransfersApi = typeof adminBankTransfers;
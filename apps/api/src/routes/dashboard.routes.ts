@@ -0,0 +1,41 @@
+/**
+ * Dashboard Admin Routes
+ *
+ * Admin dashboard metrics (REP-008):
+ * - GET /admin/dashboard  - Current session metrics
+ *
+ * Authorization: Admin only
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { DashboardQuery } from '@repo/validations';
+import { success } from '../lib/response';
+import { requireAuth, requireAdmin } from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as dashboardService from '../services/dashboard.services';
+
+export const adminDashboard = new Hono<HonoEnv>()
+  // All routes require an admin
+  .use('*', requireAuth())
+  .use('*', requireAdmin())
+
+  /**
+   * GET METRICS
+   * GET /admin/dashboard
+   * Query: { refresh?: 'true' }
+   *
+   * Served from a short-lived cache; generatedAt says when the metrics
+   * were computed. Amounts are in piastres.
+   */
+  .get('/',
+    zValidator('query', DashboardQuery),
+    async (c) => {
+      const { refresh } = c.req.valid('query');
+
+      const metrics = await dashboardService.getDashboardMetrics({ refresh });
+      return success(c, metrics);
+    }
+  );
+
+export type AdminDashboardApi = typeof adminDashboard;
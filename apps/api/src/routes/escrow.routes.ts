@@ -0,0 +1,247 @@
+/**
+ * Escrow API Routes
+ *
+ * Escrow ledger views and withdrawal requests:
+ * - GET /escrow/me                         - Student's own balance and statement
+ * - GET /escrow/children/:studentId        - Parent views a linked child's escrow
+ * - POST /escrow/transfers                 - Parent moves escrow between linked children
+ * - GET /escrow/withdrawals                - Withdrawal history (requested vs released)
+ * - POST /escrow/withdrawals               - Request a withdrawal
+ * - GET /escrow/withdrawals/:id            - Get a withdrawal
+ * - POST /escrow/withdrawals/:id/cancel    - Cancel an open withdrawal
+ *
+ * Authorization:
+ * - GET /escrow/me: Student only
+ * - GET /escrow/children/:studentId: Parent only (approved link required)
+ * - POST /escrow/transfers: Parent only (both children linked)
+ * - Withdrawals: the student, or a parent for an approved linked child
+ *
+ * Escrow is spent through POST /payments/escrow. Admins release
+ * withdrawals through /admin/escrow/withdrawals.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import {
+  CancelWithdrawal,
+  CreateEscrowTransfer,
+  CreateWithdrawal,
+  EscrowStatementQuery,
+  EscrowStudentParam,
+  EscrowTransferHeaders,
+  ROLES,
+  WithdrawalHistoryQuery,
+  WithdrawalId,
+} from '@repo/validations';
+import { success, error } from '../lib/response';
+import {
+  requireAuth,
+  requireParent,
+  requireStudent,
+  requireStudentOrParent,
+} from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as escrowService from '../services/escrow.services';
+import * as escrowTransferService from '../services/escrow-transfer.services';
+import * as linkService from '../services/link.services';
+import * as withdrawalService from '../services/withdrawal.services';
+
+export const escrow = new Hono<HonoEnv>()
+  // All routes require authentication
+  .use('*', requireAuth())
+
+  /**
+   * MY ESCROW
+   * GET /escrow/me
+   * Query: { page?, pageSize? }
+   */
+  .get('/me',
+    requireStudent(),
+    zValidator('query', EscrowStatementQuery),
+    async (c) => {
+      const user = c.get('user')!;
+      const query = c.req.valid('query');
+
+      const statement = await escrowService.getEscrowStatement(user.id, query);
+      return success(c, statement);
+    }
+  )
+
+  /**
+   * CHILD ESCROW
+   * GET /escrow/children/:studentId
+   * Query: { page?, pageSize? }
+   *
+   * Only children with an approved link are visible.
+   */
+  .get('/children/:studentId',
+    requireParent(),
+    zValidator('param', EscrowStudentParam),
+    zValidator('query', EscrowStatementQuery),
+    async (c) => {
+      const user = c.get('user')!;
+      const { studentId } = c.req.valid('param');
+      const query = c.req.valid('query');
+
+      const children = await linkService.getLinkedChildren(user.id);
+      const child = children.find((link) => link.student.id === studentId);
+
+      if (!child) {
+        return error(c, 'Student not found', 404);
+      }
+
+      const statement = await escrowService.getEscrowStatement(studentId, query);
+      return success(c, { student: child.student, ...statement });
+    }
+  )
+
+  /**
+   * TRANSFER BETWEEN CHILDREN
+   * POST /escrow/transfers
+   * Headers: { Idempotency-Key } (required; 400 without it)
+   * Body: { fromStudentId, toStudentId, amount, note? }
+   *
+   * amount is in piastres, at most the source child's balance. Repeating
+   * a request with the same Idempotency-Key replays the original response
+   * (see middleware/idempotency.middleware.ts).
+   */
+  .post('/transfers',
+    requireParent(),
+    zValidator('header', EscrowTransferHeaders),
+    zValidator('json', CreateEscrowTransfer),
+    async (c) => {
+      const user = c.get('user')!;
+      const data = c.req.valid('json');
+
+      try {
+        const transfer = await escrowTransferService.transferEscrow(user.id, data);
+        return success(c, transfer, 201);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to transfer escrow';
+        return error(c, message, message === 'Student not found' ? 404 : 400);
+      }
+    }
+  )
+
+  /**
+   * WITHDRAWAL HISTORY
+   * GET /escrow/withdrawals
+   * Query: { studentId?, status?, page?, pageSize? }
+   *
+   * Students see their own requests; parents see their linked children's
+   * (one child when studentId is given).
+   */
+  .get('/withdrawals',
+    requireStudentOrParent(),
+    zValidator('query', WithdrawalHistoryQuery),
+    async (c) => {
+      const user = c.get('user')!;
+      const { studentId, ...filters } = c.req.valid('query');
+
+      let studentIds = [user.id];
+
+      if (user.role === ROLES.PARENT) {
+        const children = await linkService.getLinkedChildren(user.id);
+        studentIds = children.map((link) => link.student.id);
+
+        if (studentId) {
+          if (!studentIds.includes(studentId)) {
+            return error(c, 'Student not found', 404);
+          }
+          studentIds = [studentId];
+        }
+      }
+
+      const result = await withdrawalService.getWithdrawals({ ...filters, studentIds });
+      return success(c, result);
+    }
+  )
+
+  /**
+   * REQUEST WITHDRAWAL
+   * POST /escrow/withdrawals
+   * Body: { studentId?, amount, note? }
+   *
+   * amount is in piastres, at most the available balance. It is held
+   * until the request is fulfilled or cancelled. Parents must pass
+   * studentId.
+   */
+  .post('/withdrawals',
+    requireStudentOrParent(),
+    zValidator('json', CreateWithdrawal),
+    async (c) => {
+      const user = c.get('user')!;
+      const { studentId: requestedFor, ...data } = c.req.valid('json');
+
+      const studentId = user.role === ROLES.PARENT ? requestedFor : user.id;
+
+      if (!studentId) {
+        return error(c, 'studentId is required', 400);
+      }
+
+      if (!(await linkService.canActForStudent(user, studentId))) {
+        return error(c, 'Student not found', 404);
+      }
+
+      try {
+        const created = await withdrawalService.createWithdrawal(studentId, data, user);
+        return success(c, created, 201);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to request withdrawal';
+        return error(c, message, 400);
+      }
+    }
+  )
+
+  /**
+   * GET WITHDRAWAL
+   * GET /escrow/withdrawals/:id
+   */
+  .get('/withdrawals/:id',
+    requireStudentOrParent(),
+    zValidator('param', WithdrawalId),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+
+      const found = await withdrawalService.getWithdrawalById(id);
+      if (!found || !(await linkService.canActForStudent(user, found.studentId))) {
+        return error(c, 'Withdrawal not found', 404);
+      }
+
+      return success(c, found);
+    }
+  )
+
+  /**
+   * CANCEL WITHDRAWAL
+   * POST /escrow/withdrawals/:id/cancel
+   * Body: { reason? }
+   *
+   * The outstanding amount returns to the student's escrow.
+   */
+  .post('/withdrawals/:id/cancel',
+    requireStudentOrParent(),
+    zValidator('param', WithdrawalId),
+    zValidator('json', CancelWithdrawal),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+      const { reason } = c.req.valid('json');
+
+      const found = await withdrawalService.getWithdrawalById(id);
+      if (!found || !(await linkService.canActForStudent(user, found.studentId))) {
+        return error(c, 'Withdrawal not found', 404);
+      }
+
+      try {
+        const cancelled = await withdrawalService.cancelWithdrawal(id, reason, user.id);
+        return success(c, cancelled);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to cancel withdrawal';
+        return error(c, message, 400);
+      }
+    }
+  );
+
+export type EscrowApi = typeof escrow;
@@ -0,0 +1,82 @@
+/**
+ * Background Job Admin Routes
+ *
+ * Inspect and re-run jobs from the Postgres-backed queue:
+ * - GET /admin/jobs            - List jobs (status / type filters, paginated)
+ * - GET /admin/jobs/:id        - Get job with payload and last error
+ * - POST /admin/jobs/:id/retry - Re-run a dead-lettered job
+ *
+ * Authorization: Admin only
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { JobId, JobQueryFilters } from '@repo/validations';
+import { success, error } from '../lib/response';
+import { requireAuth, requireAdmin } from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as jobService from '../services/job.services';
+
+export const adminJobs = new Hono<HonoEnv>()
+  // All routes require an admin
+  .use('*', requireAuth())
+  .use('*', requireAdmin())
+
+  /**
+   * LIST JOBS
+   * GET /admin/jobs
+   * Query: { status?: 'pending' | 'running' | 'completed' | 'dead', type?: string, page?, pageSize? }
+   */
+  .get('/',
+    zValidator('query', JobQueryFilters),
+    async (c) => {
+      const filters = c.req.valid('query');
+      const result = await jobService.getJobs(filters);
+      return success(c, result);
+    }
+  )
+
+  /**
+   * GET JOB BY ID
+   * GET /admin/jobs/:id
+   */
+  .get('/:id',
+    zValidator('param', JobId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      const found = await jobService.getJobById(id);
+      if (!found) {
+        return error(c, 'Job not found', 404);
+      }
+
+      return success(c, found);
+    }
+  )
+
+  /**
+   * RETRY JOB
+   * POST /admin/jobs/:id/retry
+   *
+   * Only dead jobs can be re-run. Attempts are reset.
+   */
+  .post('/:id/retry',
+    zValidator('param', JobId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      const found = await jobService.getJobById(id);
+      if (!found) {
+        return error(c, 'Job not found', 404);
+      }
+
+      const retried = await jobService.retryJob(id);
+      if (!retried) {
+        return error(c, 'Only dead jobs can be retried', 400);
+      }
+
+      return success(c, retried);
+    }
+  );
+
+export type AdminJobsApi = typeof adminJobs;
@@ -0,0 +1,229 @@
+/**
+ * Payment API Routes
+ *
+ * Registration payments through @repo/payments providers:
+ * - POST /payments                     - Start checkout for a registration
+ * - POST /payments/escrow              - Pay a registration from escrow
+ * - GET /payments/:id                  - Get payment status
+ * - GET /payments/:id/receipt          - PDF receipt download link
+ * - POST /payments/:id/simulate        - Settle in the simulator (non-production)
+ * - POST /payments/webhooks/:provider  - Provider webhook (signature-verified)
+ *
+ * Authorization:
+ * - Checkout / status / receipt / simulate: the student or a linked parent
+ * - Webhooks: no session; authenticated by signature
+ *
+ * paymentWebhooks must be mounted before payments so webhook requests
+ * are not caught by requireAuth().
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { WebhookSignatureError } from '@repo/payments';
+import {
+  CreatePayment,
+  PayWithEscrow,
+  PaymentId,
+  PaymentWebhookParams,
+  SimulatePayment,
+} from '@repo/validations';
+import { success, error } from '../lib/response';
+import { env } from '../env';
+import { logger } from '../lib/logger';
+import {
+  requireAuth,
+  requireStudentOrParent,
+} from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as paymentService from '../services/payment.services';
+import * as registrationService from '../services/registration.services';
+import * as linkService from '../services/link.services';
+import * as receiptService from '../services/receipt.services';
+import { RegistrationRuleError } from '../services/registration-rules.services';
+
+export const paymentWebhooks = new Hono<HonoEnv>()
+  /**
+   * PROVIDER WEBHOOK
+   * POST /payments/webhooks/:provider
+   *
+   * The raw body is verified against the signature header before parsing.
+   * Duplicate deliveries return 200 so the provider stops retrying.
+   */
+  .post('/:provider',
+    zValidator('param', PaymentWebhookParams),
+    async (c) => {
+      const { provider } = c.req.valid('param');
+      const rawBody = await c.req.text();
+
+      try {
+        const result = await paymentService.handleWebhook(provider, {
+          headers: c.req.header(),
+          rawBody,
+        });
+        return success(c, { received: true, ...result });
+      } catch (err) {
+        if (err instanceof WebhookSignatureError) {
+          return error(c, err.message, 401);
+        }
+        logger.error(`[payments] ${provider} webhook failed:`, err);
+        const message = err instanceof Error ? err.message : 'Failed to process webhook';
+        return error(c, message, 400);
+      }
+    }
+  );
+
+export const payments = new Hono<HonoEnv>()
+  // All routes require authentication
+  .use('*', requireAuth())
+
+  /**
+   * CHECKOUT
+   * POST /payments
+   * Body: { registrationId, provider, walletNumber? }
+   *
+   * Returns the pending payment with its next action
+   * (Fawry reference code, card form secret, wallet prompt, or bank
+   * details and transfer reference for 'bank_transfer').
+   */
+  .post('/',
+    requireStudentOrParent(),
+    zValidator('json', CreatePayment),
+    async (c) => {
+      const user = c.get('user')!;
+      const data = c.req.valid('json');
+
+      const target = await registrationService.getRegistrationById(data.registrationId);
+      if (!target || !(await linkService.canActForStudent(user, target.studentId))) {
+        return error(c, 'Registration not found', 404);
+      }
+
+      try {
+        const created = await paymentService.createPayment(data, user.id);
+        return success(c, created, 201);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to start payment';
+        const code = err instanceof RegistrationRuleError ? err.code : undefined;
+        return error(c, message, 400, code);
+      }
+    }
+  )
+
+  /**
+   * ESCROW CHECKOUT
+   * POST /payments/escrow
+   * Body: { registrationId }
+   *
+   * Debits the student's escrow and confirms the registration.
+   */
+  .post('/escrow',
+    requireStudentOrParent(),
+    zValidator('json', PayWithEscrow),
+    async (c) => {
+      const user = c.get('user')!;
+      const data = c.req.valid('json');
+
+      const target = await registrationService.getRegistrationById(data.registrationId);
+      if (!target || !(await linkService.canActForStudent(user, target.studentId))) {
+        return error(c, 'Registration not found', 404);
+      }
+
+      try {
+        const confirmed = await paymentService.payWithEscrow(data, user.id);
+        return success(c, confirmed);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to pay from escrow';
+        const code = err instanceof RegistrationRuleError ? err.code : undefined;
+        return error(c, message, 400, code);
+      }
+    }
+  )
+
+  /**
+   * GET PAYMENT
+   * GET /payments/:id
+   */
+  .get('/:id',
+    zValidator('param', PaymentId),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+
+      const found = await paymentService.getPaymentById(id);
+      const studentId = found?.registration?.studentId;
+
+      if (!found || !studentId || !(await linkService.canActForStudent(user, studentId))) {
+        return error(c, 'Payment not found', 404);
+      }
+
+      return success(c, found);
+    }
+  )
+
+  /**
+   * GET RECEIPT
+   * GET /payments/:id/receipt
+   *
+   * Returns the receipt number and the stored PDF with a signed URL
+   * (valid for one hour). 404 until the receipt has been issued, which
+   * happens shortly after the payment succeeds.
+   */
+  .get('/:id/receipt',
+    zValidator('param', PaymentId),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+
+      const found = await paymentService.getPaymentById(id);
+      const studentId = found?.registration?.studentId;
+
+      if (!found || !studentId || !(await linkService.canActForStudent(user, studentId))) {
+        return error(c, 'Payment not found', 404);
+      }
+
+      const receipt = await receiptService.getPaymentReceipt(id);
+      if (!receipt) {
+        return error(c, 'Receipt not found', 404);
+      }
+
+      return success(c, receipt);
+    }
+  )
+
+  /**
+   * SIMULATE PAYMENT (non-production)
+   * POST /payments/:id/simulate
+   * Body: { outcome: 'succeeded' | 'failed' | 'expired' }
+   *
+   * Sends the signed webhook the provider simulator would send.
+   */
+  .post('/:id/simulate',
+    zValidator('param', PaymentId),
+    zValidator('json', SimulatePayment),
+    async (c) => {
+      if (env.NODE_ENV === 'production') {
+        return error(c, 'Not found', 404);
+      }
+
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+      const { outcome } = c.req.valid('json');
+
+      const found = await paymentService.getPaymentById(id);
+      const studentId = found?.registration?.studentId;
+
+      if (!found || !studentId || !(await linkService.canActForStudent(user, studentId))) {
+        return error(c, 'Payment not found', 404);
+      }
+
+      try {
+        const result = await paymentService.simulatePayment(id, outcome);
+        return success(c, result);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to simulate payment';
+        return error(c, message, 400);
+      }
+    }
+  );
+
+export type PaymentsApi = typeof payments;
+export type PaymentWebhooksApi = typeof paymentWebhooks;
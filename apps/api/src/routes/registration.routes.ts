@@ -0,0 +1,352 @@
+/**
+ * Registration API Routes
+ *
+ * Manages subject registrations:
+ * - GET /registrations/options      - Subjects available in the open window
+ * - POST /registrations             - Register subjects in the open window
+ * - GET /registrations              - List registrations (per session via ?windowId)
+ * - GET /registrations/history      - All-sessions history grouped by session
+ * - GET /registrations/:id          - Get registration with items
+ * - GET /registrations/:id/receipt  - Receipt of a registration paid from escrow
+ * - POST /registrations/:id/cancel  - Cancel an unpaid registration
+ * - POST /registrations/:id/items/:itemId/drop         - Drop a paid subject
+ * - POST /registrations/:id/items/:itemId/swap         - Swap a paid subject
+ * - POST /registrations/:id/items/:itemId/switch-type  - Switch in-school / external
+ *
+ * Authorization:
+ * - Students: own registrations (studentId is implied)
+ * - Parents: linked students only (studentId required)
+ * - Admins: read access to any student's registrations
+ *
+ * Rule rejections include a machine-readable `code`
+ * (REGISTRATION_RULE_CODES) for client tooltips.
+ *
+ * Drop / swap / switch refunds go to escrow; a shortfall returns a
+ * top-up payment and the change is applied once it is paid.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import {
+  CreateRegistration,
+  RegistrationId,
+  RegistrationQueryFilters,
+  RegistrationHistoryQuery,
+  RegistrationOptionsQuery,
+  RegistrationItemParams,
+  SwapRegistrationItem,
+  SwitchExamType,
+  ROLES,
+} from '@repo/validations';
+import { success, error } from '../lib/response';
+import {
+  requireAuth,
+  requireStudentOrParent,
+} from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as registrationService from '../services/registration.services';
+import * as registrationChangeService from '../services/registration-change.services';
+import { RegistrationRuleError } from '../services/registration-rules.services';
+import * as linkService from '../services/link.services';
+import * as receiptService from '../services/receipt.services';
+
+export const registrations = new Hono<HonoEnv>()
+  // All routes require authentication
+  .use('*', requireAuth())
+
+  /**
+   * REGISTRATION OPTIONS
+   * GET /registrations/options
+   * Query: { studentId? }
+   *
+   * Active subjects for the open window. Core subjects for the student's
+   * grade are flagged `locked` and should be pre-selected by the client.
+   */
+  .get('/options',
+    requireStudentOrParent(),
+    zValidator('query', RegistrationOptionsQuery),
+    async (c) => {
+      const user = c.get('user')!;
+      const query = c.req.valid('query');
+
+      const studentId = user.role === ROLES.STUDENT ? user.id : query.studentId;
+      if (!studentId) {
+        return error(c, 'studentId is required', 400);
+      }
+
+      if (!(await linkService.canActForStudent(user, studentId))) {
+        return error(c, 'Forbidden', 403);
+      }
+
+      try {
+        const options = await registrationService.getRegistrationOptions(studentId);
+        return success(c, options);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to load registration options';
+        const code = err instanceof RegistrationRuleError ? err.code : undefined;
+        return error(c, message, 400, code);
+      }
+    }
+  )
+
+  /**
+   * CREATE REGISTRATION
+   * POST /registrations
+   * Body: { studentId?: string, items: [{ subjectId, examType: 'in_school' | 'external' }] }
+   *
+   * Students register for themselves. Parents must pass a linked studentId.
+   * Prices are frozen per item; the registration awaits payment.
+   * Missing core subjects are added automatically.
+   */
+  .post('/',
+    requireStudentOrParent(),
+    zValidator('json', CreateRegistration),
+    async (c) => {
+      const user = c.get('user')!;
+      const data = c.req.valid('json');
+
+      const studentId = user.role === ROLES.STUDENT ? user.id : data.studentId;
+      if (!studentId) {
+        return error(c, 'studentId is required', 400);
+      }
+
+      if (!(await linkService.canActForStudent(user, studentId))) {
+        return error(c, 'You are not allowed to register for this student', 403);
+      }
+
+      try {
+        const created = await registrationService.createRegistration(studentId, data.items, user.id);
+        return success(c, created, 201);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to create registration';
+        const code = err instanceof RegistrationRuleError ? err.code : undefined;
+        return error(c, message, 400, code);
+      }
+    }
+  )
+
+  /**
+   * LIST REGISTRATIONS (REG-003)
+   * GET /registrations
+   * Query: { studentId?, windowId?, status? }
+   *
+   * Pass windowId for a single session's registrations.
+   */
+  .get('/',
+    zValidator('query', RegistrationQueryFilters),
+    async (c) => {
+      const user = c.get('user')!;
+      const filters = c.req.valid('query');
+
+      const studentId = user.role === ROLES.STUDENT ? user.id : filters.studentId;
+
+      if (!studentId && user.role !== ROLES.ADMIN) {
+        return error(c, 'studentId is required', 400);
+      }
+
+      if (studentId && !(await linkService.canActForStudent(user, studentId))) {
+        return error(c, 'Forbidden', 403);
+      }
+
+      const list = await registrationService.getRegistrations({ ...filters, studentId });
+      return success(c, list);
+    }
+  )
+
+  /**
+   * REGISTRATION HISTORY (REG-005)
+   * GET /registrations/history
+   * Query: { studentId? }
+   *
+   * All sessions the student registered in, newest first.
+   */
+  .get('/history',
+    zValidator('query', RegistrationHistoryQuery),
+    async (c) => {
+      const user = c.get('user')!;
+      const query = c.req.valid('query');
+
+      const studentId = user.role === ROLES.STUDENT ? user.id : query.studentId;
+      if (!studentId) {
+        return error(c, 'studentId is required', 400);
+      }
+
+      if (!(await linkService.canActForStudent(user, studentId))) {
+        return error(c, 'Forbidden', 403);
+      }
+
+      const history = await registrationService.getRegistrationHistory(studentId);
+      return success(c, history);
+    }
+  )
+
+  /**
+   * GET REGISTRATION BY ID
+   * GET /registrations/:id
+   */
+  .get('/:id',
+    zValidator('param', RegistrationId),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+
+      const found = await registrationService.getRegistrationById(id);
+      if (!found || !(await linkService.canActForStudent(user, found.studentId))) {
+        return error(c, 'Registration not found', 404);
+      }
+
+      return success(c, found);
+    }
+  )
+
+  /**
+   * GET ESCROW CHECKOUT RECEIPT
+   * GET /registrations/:id/receipt
+   *
+   * Receipt of a registration paid from escrow, with a signed URL for
+   * the PDF (valid for one hour). Gateway and bank transfer receipts are
+   * at GET /payments/:id/receipt. 404 until the receipt has been issued.
+   */
+  .get('/:id/receipt',
+    zValidator('param', RegistrationId),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+
+      const found = await registrationService.getRegistrationById(id);
+      if (!found || !(await linkService.canActForStudent(user, found.studentId))) {
+        return error(c, 'Registration not found', 404);
+      }
+
+      const receipt = await receiptService.getRegistrationReceipt(id);
+      if (!receipt) {
+        return error(c, 'Receipt not found', 404);
+      }
+
+      return success(c, receipt);
+    }
+  )
+
+  /**
+   * CANCEL REGISTRATION
+   * POST /registrations/:id/cancel
+   *
+   * Only registrations awaiting payment can be cancelled.
+   */
+  .post('/:id/cancel',
+    requireStudentOrParent(),
+    zValidator('param', RegistrationId),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+
+      const found = await registrationService.getRegistrationById(id);
+      if (!found || !(await linkService.canActForStudent(user, found.studentId))) {
+        return error(c, 'Registration not found', 404);
+      }
+
+      try {
+        const cancelled = await registrationService.cancelRegistration(id);
+        return success(c, cancelled);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to cancel registration';
+        return error(c, message, 400);
+      }
+    }
+  )
+
+  /**
+   * DROP ITEM
+   * POST /registrations/:id/items/:itemId/drop
+   *
+   * The item's price snapshot is credited to the student's escrow.
+   */
+  .post('/:id/items/:itemId/drop',
+    requireStudentOrParent(),
+    zValidator('param', RegistrationItemParams),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id, itemId } = c.req.valid('param');
+
+      const found = await registrationService.getRegistrationById(id);
+      if (!found || !(await linkService.canActForStudent(user, found.studentId))) {
+        return error(c, 'Registration not found', 404);
+      }
+
+      try {
+        const result = await registrationChangeService.dropItem(id, itemId, user.id);
+        return success(c, result);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to drop subject';
+        const code = err instanceof RegistrationRuleError ? err.code : undefined;
+        return error(c, message, 400, code);
+      }
+    }
+  )
+
+  /**
+   * SWAP ITEM
+   * POST /registrations/:id/items/:itemId/swap
+   * Body: { subjectId, examType, provider?, walletNumber? }
+   *
+   * provider is required when the new subject costs more.
+   */
+  .post('/:id/items/:itemId/swap',
+    requireStudentOrParent(),
+    zValidator('param', RegistrationItemParams),
+    zValidator('json', SwapRegistrationItem),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id, itemId } = c.req.valid('param');
+      const data = c.req.valid('json');
+
+      const found = await registrationService.getRegistrationById(id);
+      if (!found || !(await linkService.canActForStudent(user, found.studentId))) {
+        return error(c, 'Registration not found', 404);
+      }
+
+      try {
+        const result = await registrationChangeService.swapItem(id, itemId, data, user.id);
+        return success(c, result);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to swap subject';
+        const code = err instanceof RegistrationRuleError ? err.code : undefined;
+        return error(c, message, 400, code);
+      }
+    }
+  )
+
+  /**
+   * SWITCH EXAM TYPE
+   * POST /registrations/:id/items/:itemId/switch-type
+   * Body: { provider?, walletNumber? }
+   *
+   * Toggles in-school / external. provider is required when the
+   * other exam type costs more.
+   */
+  .post('/:id/items/:itemId/switch-type',
+    requireStudentOrParent(),
+    zValidator('param', RegistrationItemParams),
+    zValidator('json', SwitchExamType),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id, itemId } = c.req.valid('param');
+      const data = c.req.valid('json');
+
+      const found = await registrationService.getRegistrationById(id);
+      if (!found || !(await linkService.canActForStudent(user, found.studentId))) {
+        return error(c, 'Registration not found', 404);
+      }
+
+      try {
+        const result = await registrationChangeService.switchItemType(id, itemId, data, user.id);
+        return success(c, result);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to switch exam type';
+        const code = err instanceof RegistrationRuleError ? err.code : undefined;
+        return error(c, message, 400, code);
+      }
+    }
+  );
+
+export type RegistrationsApi = typeof registrations;
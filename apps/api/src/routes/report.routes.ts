@@ -0,0 +1,124 @@
+/**
+ * Report Admin Routes
+ *
+ * Report engine (REP-001..REP-007), see reports/registry.ts:
+ * - GET /admin/reports              - List reports with their columns
+ * - GET /admin/reports/exports/:id  - Background export status and download link
+ * - GET /admin/reports/:reportId    - Run a report (?format=json|csv|xlsx|pdf plus its filters)
+ *
+ * Authorization: Admin only
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { PassThrough, Readable } from 'stream';
+import { ReportExportId, ReportOutputQuery, ReportParams } from '@repo/validations';
+import { success, error } from '../lib/response';
+import { logger } from '../lib/logger';
+import { requireAuth, requireAdmin } from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import { EXPORTERS, exportReport, getReport, getReports, previewReport, reportFileName } from '../reports';
+import * as reportService from '../services/report.services';
+
+export const adminReports = new Hono<HonoEnv>()
+  // All routes require an admin
+  .use('*', requireAuth())
+  .use('*', requireAdmin())
+
+  /**
+   * LIST REPORTS
+   * GET /admin/reports
+   */
+  .get('/', (c) => {
+    const reports = getReports().map(({ id, title, description, columns }) => ({
+      id,
+      title,
+      description,
+      columns,
+    }));
+
+    return success(c, reports);
+  })
+
+  /**
+   * BACKGROUND EXPORT STATUS
+   * GET /admin/reports/exports/:id
+   *
+   * downloadUrl is a signed link valid for one hour, set once the
+   * export is completed.
+   */
+  .get('/exports/:id',
+    zValidator('param', ReportExportId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      const found = await reportService.getReportExport(id);
+      if (!found) {
+        return error(c, 'Report export not found', 404);
+      }
+
+      return success(c, found);
+    }
+  )
+
+  /**
+   * RUN REPORT
+   * GET /admin/reports/:reportId
+   * Query: { format?: 'json' | 'csv' | 'xlsx' | 'pdf', background?: 'true', page?, pageSize?, ...report filters }
+   *
+   * - json: one page of rows with pagination
+   * - csv / xlsx / pdf: streamed as a download, unless the report is
+   *   over the streaming limit or background=true. Then it is queued
+   *   and 202 returns the export to poll at /exports/:id.
+   */
+  .get('/:reportId',
+    zValidator('param', ReportParams),
+    zValidator('query', ReportOutputQuery),
+    async (c) => {
+      const { reportId } = c.req.valid('param');
+      const output = c.req.valid('query');
+      const user = c.get('user')!;
+
+      const report = getReport(reportId);
+      if (!report) {
+        return error(c, 'Report not found', 404);
+      }
+
+      const parsed = report.filters.safeParse(c.req.query());
+      if (!parsed.success) {
+        return error(c, parsed.error.issues[0]?.message ?? 'Invalid report filters', 400);
+      }
+      const filters = parsed.data as Record<string, unknown>;
+
+      try {
+        if (output.format === 'json') {
+          const preview = await previewReport(report, filters, output);
+          return success(c, preview);
+        }
+
+        const format = output.format;
+        const rowCount = await report.count(filters);
+
+        if (output.background || reportService.shouldRunInBackground(rowCount, format)) {
+          const created = await reportService.createReportExport(report, filters, format, user.id);
+          return success(c, created, 202);
+        }
+
+        const out = new PassThrough();
+        exportReport(report, filters, format, out).catch((err) => {
+          logger.error(`[reports] Streaming ${reportId}.${format} failed:`, err);
+          out.destroy(err instanceof Error ? err : new Error(String(err)));
+        });
+
+        return c.body(Readable.toWeb(out) as ReadableStream, 200, {
+          'Content-Type': EXPORTERS[format].contentType,
+          'Content-Disposition': `attachment; filename="${reportFileName(report, format)}"`,
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to run report';
+        return error(c, message, message.endsWith('not found') ? 404 : 400);
+      }
+    }
+  );
+
+export type AdminReportsApi = typeof adminReports;
@@ -0,0 +1,194 @@
+/**
+ * Subject Catalog API Routes
+ *
+ * Manages the subject catalog:
+ * - GET /subjects            - Browse subjects (council filter, name/code search)
+ * - GET /subjects/councils   - List examination councils
+ * - GET /subjects/:id        - Get subject details
+ * - POST /subjects           - Create subject (admin)
+ * - PUT /subjects/:id        - Update subject (admin)
+ * - PUT /subjects/:id/core-rules - Set core grade / session rules (admin)
+ * - DELETE /subjects/:id     - Deactivate subject (admin)
+ *
+ * Authorization:
+ * - Read endpoints: Any authenticated user (inactive subjects are admin only)
+ * - Write endpoints: Admin only
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import {
+  CreateSubject,
+  UpdateSubject,
+  SubjectId,
+  SubjectQueryFilters,
+  SetCoreRules,
+  ROLES,
+} from '@repo/validations';
+import { success, error } from '../lib/response';
+import { requireAuth, requireAdmin } from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as subjectService from '../services/subject.services';
+
+export const subjects = new Hono<HonoEnv>()
+  // All routes require authentication
+  .use('*', requireAuth())
+
+  /**
+   * LIST SUBJECTS
+   * GET /subjects
+   * Query: { council?: string, search?: string, includeInactive?: 'true' | 'false' }
+   *
+   * Students and parents only ever see active subjects.
+   * Admins can include inactive subjects.
+   */
+  .get('/',
+    zValidator('query', SubjectQueryFilters),
+    async (c) => {
+      const user = c.get('user')!;
+      const filters = c.req.valid('query');
+
+      const list = await subjectService.getSubjects({
+        ...filters,
+        includeInactive: user.role === ROLES.ADMIN ? filters.includeInactive : false,
+      });
+
+      return success(c, list);
+    }
+  )
+
+  /**
+   * LIST COUNCILS
+   * GET /subjects/councils
+   *
+   * Returns all examination councils (for filter dropdowns).
+   */
+  .get('/councils', async (c) => {
+    const councils = await subjectService.getCouncils();
+    return success(c, councils);
+  })
+
+  /**
+   * GET SUBJECT BY ID
+   * GET /subjects/:id
+   *
+   * Returns subject details with both prices.
+   * Inactive subjects are hidden from non-admins.
+   */
+  .get('/:id',
+    zValidator('param', SubjectId),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+
+      const found = await subjectService.getSubjectById(id);
+
+      if (!found || (!found.isActive && user.role !== ROLES.ADMIN)) {
+        return error(c, 'Subject not found', 404);
+      }
+
+      return success(c, found);
+    }
+  )
+
+  /**
+   * CREATE SUBJECT (Admin)
+   * POST /subjects
+   * Body: { name, code, council, priceInSchool, priceExternal? }
+   */
+  .post('/',
+    requireAdmin(),
+    zValidator('json', CreateSubject),
+    async (c) => {
+      const data = c.req.valid('json');
+
+      try {
+        const created = await subjectService.createSubject(data);
+        return success(c, created, 201);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to create subject';
+        return error(c, message, 400);
+      }
+    }
+  )
+
+  /**
+   * UPDATE SUBJECT (Admin)
+   * PUT /subjects/:id
+   * Body: { name?, code?, council?, priceInSchool?, priceExternal?, isActive? }
+   *
+   * Existing registrations keep their original pricing.
+   */
+  .put('/:id',
+    requireAdmin(),
+    zValidator('param', SubjectId),
+    zValidator('json', UpdateSubject),
+    async (c) => {
+      const { id } = c.req.valid('param');
+      const data = c.req.valid('json');
+
+      const exists = await subjectService.subjectExists(id);
+      if (!exists) {
+        return error(c, 'Subject not found', 404);
+      }
+
+      try {
+        const updated = await subjectService.updateSubject(id, data);
+        return success(c, updated);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update subject';
+        return error(c, message, 400);
+      }
+    }
+  )
+
+  /**
+   * SET CORE RULES (Admin)
+   * PUT /subjects/:id/core-rules
+   * Body: { rules: [{ grade: 10 | 11 | 12, sessionType: 'june' | 'november' | 'january' }] }
+   *
+   * Core subjects are auto-included and locked for matching students.
+   * Send an empty list to remove the core designation.
+   */
+  .put('/:id/core-rules',
+    requireAdmin(),
+    zValidator('param', SubjectId),
+    zValidator('json', SetCoreRules),
+    async (c) => {
+      const { id } = c.req.valid('param');
+      const data = c.req.valid('json');
+
+      const exists = await subjectService.subjectExists(id);
+      if (!exists) {
+        return error(c, 'Subject not found', 404);
+      }
+
+      const updated = await subjectService.setCoreRules(id, data);
+      return success(c, updated);
+    }
+  )
+
+  /**
+   * DEACTIVATE SUBJECT (Admin)
+   * DELETE /subjects/:id
+   *
+   * Soft delete: the subject is hidden from new registrations.
+   * Reactivate with PUT /subjects/:id { isActive: true }.
+   */
+  .delete('/:id',
+    requireAdmin(),
+    zValidator('param', SubjectId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      const updated = await subjectService.setSubjectActive(id, false);
+
+      if (!updated) {
+        return error(c, 'Subject not found', 404);
+      }
+
+      return success(c, updated);
+    }
+  );
+
+export type SubjectsApi = typeof subjects;
@@ -2,14 +2,23 @@
  * User API Routes
  * 
  * Manages user profile operations:
- * - GET /users/me        - Get own profile
- * - PUT /users/me        - Update own profile
- * - GET /users/:id       - Get user by ID (admin)
- * - PUT /users/:id       - Update user (admin)
- * - GET /users           - List all users (admin)
+ * - GET /users/me                   - Get own profile
+ * - PUT /users/me                   - Update own profile
+ * - GET /users/me/grade-history     - Own grade timeline
+ * - POST /users/me/complete-sign-up - Pick student or parent for an account without a role
+ * - POST /users/me/email-change     - Ask to change own email (confirmed by link)
+ * - POST /users/email-change/confirm - Confirm an email change (no session, token)
+ * - GET /users/:id                  - Get user by ID (admin)
+ * - PUT /users/:id                  - Update user (admin)
+ * - POST /users/:id/grade           - Adjust a student's grade with a reason (admin)
+ * - POST /users/:id/unlock          - Lift a sign-in lockout (admin)
+ * - GET /users/:id/grade-history    - A student's grade timeline (admin, linked parent)
+ * - GET /users                      - List all users (admin)
  * 
  * Authorization:
  * - /users/me: Any authenticated user
+ * - /users/email-change/confirm: Anyone with the emailed token
+ * - /users/:id/grade-history: Admin or linked parent
  * - /users/:id, /users: Admin only
  */
 
@@ -20,12 +29,44 @@ import {
   AdminUpdateUser, 
   UserId,
   UserQueryFilters,
-  StudentRegistrationData,
+  AdjustGrade,
+  RequestEmailChange,
+  ConfirmEmailChange,
+  SignUpData,
 } from '@repo/validations';
 import { success, error } from '../lib/response';
 import { requireAuth, requireAdmin } from '../middleware/access-control.middleware';
 import type { HonoEnv } from '../lib/types';
 import * as userService from '../services/user.services';
+import * as gradeService from '../services/grade.services';
+import * as linkService from '../services/link.services';
+import * as signInLockoutService from '../services/sign-in-lockout.services';
+import * as emailChangeService from '../services/email-change.services';
+
+export const emailChangeConfirmations = new Hono<HonoEnv>()
+  /**
+   * CONFIRM EMAIL CHANGE
+   * POST /users/email-change/confirm
+   * Body: { token: string }
+   *
+   * Swaps in the new email from the link sent to it. Needs no session,
+   * so the link works on any device. Signs out every device except the
+   * one that asked for the change. Returns { email, revokedSessions }.
+   */
+  .post('/confirm',
+    zValidator('json', ConfirmEmailChange),
+    async (c) => {
+      const { token } = c.req.valid('json');
+
+      try {
+        const result = await emailChangeService.confirmEmailChange(token);
+        return success(c, result);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to change email';
+        return error(c, message, message === 'Email is already in use' ? 409 : 400);
+      }
+    }
+  );
 
 export const users = new Hono<HonoEnv>()
   // All routes require authentication
@@ -73,82 +114,71 @@ export const users = new Hono<HonoEnv>()
   )
 
   /**
-   * COMPLETE STUDENT SETUP
-   * POST /users/me/student-setup
-   * Body: { grade: 10 | 11 | 12 }
-   * 
-   * Sets student-specific fields after sign-up.
-   * Can only be called once (when role is not set yet).
+   * COMPLETE OWN SIGN-UP
+   * POST /users/me/complete-sign-up
+   * Body: { accountType: 'student', grade: number, phone?: string }
+   *     | { accountType: 'parent', phone?: string }
+   *
+   * For accounts left without a role by the old two-step sign-up: saves
+   * the role (and a student's grade and student ID) like a new sign-up.
+   * 409 if the account already has a role.
    */
-  .post('/me/student-setup',
-    zValidator('json', StudentRegistrationData),
+  .post('/me/complete-sign-up',
+    zValidator('json', SignUpData),
     async (c) => {
       const currentUser = c.get('user')!;
-      const { grade } = c.req.valid('json');
-      
-      // Check if user already has a role set (prevent duplicate setup)
-      if (currentUser.role) {
-        return error(c, 'Account already configured', 400);
-      }
-      
+      const data = c.req.valid('json');
+
       try {
-        const updated = await userService.setStudentFields(currentUser.id, grade);
-        
-        if (!updated) {
-          return error(c, 'Failed to complete student setup', 500);
-        }
-        
-        return success(c, {
-          id: updated.id,
-          name: updated.name,
-          email: updated.email,
-          role: updated.role,
-          grade: updated.grade,
-          studentId: updated.studentId,
-        }, 201);
+        const updated = await userService.completeSignUp(currentUser.id, data);
+        return success(c, updated);
       } catch (err) {
-        console.error('Student setup error:', err);
-        return error(c, 'Failed to complete student setup', 500);
+        const message = err instanceof Error ? err.message : 'Failed to complete sign-up';
+        return error(c, message, message === 'Sign-up is already complete' ? 409 : 400);
       }
     }
   )
 
   /**
-   * COMPLETE PARENT SETUP
-   * POST /users/me/parent-setup
-   * 
-   * Sets parent role after sign-up.
-   * Can only be called once (when role is not set yet).
+   * CHANGE OWN EMAIL
+   * POST /users/me/email-change
+   * Body: { newEmail: string, callbackURL: string }
+   *
+   * Emails a confirmation link (callbackURL?token=) to the new address
+   * and a notice to the current one. The email changes only when the
+   * link is used. Returns { newEmail, expiresAt }.
    */
-  .post('/me/parent-setup',
+  .post('/me/email-change',
+    zValidator('json', RequestEmailChange),
     async (c) => {
       const currentUser = c.get('user')!;
-      
-      // Check if user already has a role set (prevent duplicate setup)
-      if (currentUser.role) {
-        return error(c, 'Account already configured', 400);
-      }
-      
+      const currentSession = c.get('session');
+      const data = c.req.valid('json');
+
       try {
-        const updated = await userService.setUserRole(currentUser.id, 'parent');
-        
-        if (!updated) {
-          return error(c, 'Failed to complete parent setup', 500);
-        }
-        
-        return success(c, {
-          id: updated.id,
-          name: updated.name,
-          email: updated.email,
-          role: updated.role,
-        }, 201);
+        const pending = await emailChangeService.requestEmailChange(currentUser.id, currentSession?.id ?? null, data);
+        return success(c, pending);
       } catch (err) {
-        console.error('Parent setup error:', err);
-        return error(c, 'Failed to complete parent setup', 500);
+        const message = err instanceof Error ? err.message : 'Failed to request email change';
+        return error(c, message, message === 'Email is already in use' ? 409 : 400);
       }
     }
   )
 
+  /**
+   * OWN GRADE TIMELINE
+   * GET /users/me/grade-history
+   *
+   * Progressions and manual adjustments, oldest first (empty for non-students).
+   */
+  .get('/me/grade-history', async (c) => {
+    const currentUser = c.get('user')!;
+
+    const history = await gradeService.getGradeHistory(currentUser.id);
+
+    return success(c, history);
+  })
+
   /**
    * LIST ALL USERS (Admin)
    * GET /users
@@ -193,9 +223,10 @@ export const users = new Hono<HonoEnv>()
   /**
    * UPDATE USER (Admin)
    * PUT /users/:id
-   * Body: { name?: string, phone?: string, grade?: number, banned?: boolean }
+   * Body: { name?: string, phone?: string, banned?: boolean, banReason?: string }
    * 
    * Admin updates any user's profile including admin-only fields.
+   * Grades are changed through POST /users/:id/grade.
    */
   .put('/:id',
     requireAdmin(),
@@ -219,6 +250,83 @@ export const users = new Hono<HonoEnv>()
       
       return success(c, updated);
     }
+  )
+
+  /**
+   * ADJUST GRADE (Admin)
+   * POST /users/:id/grade
+   * Body: { grade: 10 | 11 | 12 | 'graduated', reason: string, force?: boolean }
+   *
+   * Records the change in the grade history and notifies the student.
+   * Returns 409 PENDING_REGISTRATIONS while the student has registrations
+   * awaiting payment in the active window; resend with force: true to
+   * change the grade anyway.
+   */
+  .post('/:id/grade',
+    requireAdmin(),
+    zValidator('param', UserId),
+    zValidator('json', AdjustGrade),
+    async (c) => {
+      const currentUser = c.get('user')!;
+      const { id } = c.req.valid('param');
+      const data = c.req.valid('json');
+
+      try {
+        const updated = await gradeService.adjustGrade(id, data, currentUser.id);
+        return success(c, updated);
+      } catch (err) {
+        if (err instanceof gradeService.PendingRegistrationsError) {
+          return error(c, err.message, 409, 'PENDING_REGISTRATIONS');
+        }
+        const message = err instanceof Error ? err.message : 'Failed to adjust grade';
+        return error(c, message, message === 'Student not found' ? 404 : 400);
+      }
+    }
+  )
+
+  /**
+   * UNLOCK ACCOUNT (Admin)
+   * POST /users/:id/unlock
+   *
+   * Lifts a lockout after repeated failed sign-ins and resets the
+   * failure count. Returns { wasLocked }.
+   */
+  .post('/:id/unlock',
+    requireAdmin(),
+    zValidator('param', UserId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      try {
+        const wasLocked = await signInLockoutService.unlockUser(id);
+        return success(c, { wasLocked });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to unlock user';
+        return error(c, message, message === 'User not found' ? 404 : 400);
+      }
+    }
+  )
+
+  /**
+   * STUDENT GRADE TIMELINE
+   * GET /users/:id/grade-history
+   *
+   * Progressions and manual adjustments, oldest first.
+   */
+  .get('/:id/grade-history',
+    zValidator('param', UserId),
+    async (c) => {
+      const currentUser = c.get('user')!;
+      const { id } = c.req.valid('param');
+
+      if (!(await linkService.canActForStudent(currentUser, id))) {
+        return error(c, 'Forbidden', 403);
+      }
+
+      const history = await gradeService.getGradeHistory(id);
+
+      return success(c, history);
+    }
   );
 
 export type UsersApi = typeof users;
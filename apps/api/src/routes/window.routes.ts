@@ -0,0 +1,227 @@
+/**
+ * Registration Window API Routes
+ *
+ * Manages registration window lifecycle:
+ * - GET /windows                     - List windows (admin)
+ * - GET /windows/current             - Current window status (any role)
+ * - GET /windows/:id                 - Get window (admin)
+ * - POST /windows                    - Create draft window (admin)
+ * - PUT /windows/:id                 - Edit draft window (admin)
+ * - DELETE /windows/:id              - Delete draft window (admin)
+ * - POST /windows/:id/open           - Open draft window (admin)
+ * - POST /windows/:id/close-request  - Issue early-close confirmation token (admin)
+ * - POST /windows/:id/close          - Close active window early (admin)
+ *
+ * Authorization:
+ * - /windows/current: Any authenticated user
+ * - Everything else: Admin only
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import {
+  CreateWindow,
+  UpdateWindow,
+  CloseWindow,
+  WindowId,
+  WindowQueryFilters,
+} from '@repo/validations';
+import { success, error } from '../lib/response';
+import { requireAuth, requireAdmin } from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as windowService from '../services/window.services';
+
+export const windows = new Hono<HonoEnv>()
+  // All routes require authentication
+  .use('*', requireAuth())
+
+  /**
+   * CURRENT WINDOW STATUS
+   * GET /windows/current
+   *
+   * Returns whether registration is open, the active window and its
+   * closing time (for a countdown), or the next scheduled window.
+   */
+  .get('/current', async (c) => {
+    const status = await windowService.getCurrentWindowStatus();
+    return success(c, status);
+  })
+
+  /**
+   * LIST WINDOWS (Admin)
+   * GET /windows
+   * Query: { status?: 'draft' | 'active' | 'closed', sessionType?: 'june' | 'november' | 'january' }
+   */
+  .get('/',
+    requireAdmin(),
+    zValidator('query', WindowQueryFilters),
+    async (c) => {
+      const filters = c.req.valid('query');
+      const list = await windowService.getWindows(filters);
+      return success(c, list);
+    }
+  )
+
+  /**
+   * GET WINDOW BY ID (Admin)
+   * GET /windows/:id
+   */
+  .get('/:id',
+    requireAdmin(),
+    zValidator('param', WindowId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      const window = await windowService.getWindowById(id);
+      if (!window) {
+        return error(c, 'Registration window not found', 404);
+      }
+
+      return success(c, window);
+    }
+  )
+
+  /**
+   * CREATE WINDOW (Admin)
+   * POST /windows
+   * Body: { sessionType, year, startsAt, endsAt }
+   *
+   * New windows start as drafts.
+   */
+  .post('/',
+    requireAdmin(),
+    zValidator('json', CreateWindow),
+    async (c) => {
+      const user = c.get('user')!;
+      const data = c.req.valid('json');
+
+      try {
+        const created = await windowService.createWindow(data, user.id);
+        return success(c, created, 201);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to create registration window';
+        return error(c, message, 400);
+      }
+    }
+  )
+
+  /**
+   * UPDATE WINDOW (Admin)
+   * PUT /windows/:id
+   * Body: { sessionType?, year?, startsAt?, endsAt? }
+   *
+   * Only draft windows can be edited.
+   */
+  .put('/:id',
+    requireAdmin(),
+    zValidator('param', WindowId),
+    zValidator('json', UpdateWindow),
+    async (c) => {
+      const { id } = c.req.valid('param');
+      const data = c.req.valid('json');
+
+      try {
+        const updated = await windowService.updateWindow(id, data);
+        return success(c, updated);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update registration window';
+        return error(c, message, 400);
+      }
+    }
+  )
+
+  /**
+   * DELETE WINDOW (Admin)
+   * DELETE /windows/:id
+   *
+   * Only draft windows can be deleted.
+   */
+  .delete('/:id',
+    requireAdmin(),
+    zValidator('param', WindowId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      const deleted = await windowService.deleteDraftWindow(id);
+      if (!deleted) {
+        return error(c, 'Draft window not found', 404);
+      }
+
+      return success(c, { deleted: true });
+    }
+  )
+
+  /**
+   * OPEN WINDOW (Admin)
+   * POST /windows/:id/open
+   *
+   * Moves a draft window to active.
+   * Fails if another window is already active.
+   */
+  .post('/:id/open',
+    requireAdmin(),
+    zValidator('param', WindowId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      try {
+        const opened = await windowService.openWindow(id);
+        return success(c, opened);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to open registration window';
+        return error(c, message, 409);
+      }
+    }
+  )
+
+  /**
+   * REQUEST EARLY CLOSE (Admin)
+   * POST /windows/:id/close-request
+   *
+   * Issues a short-lived confirmation token that must be sent to
+   * POST /windows/:id/close to actually close the window.
+   */
+  .post('/:id/close-request',
+    requireAdmin(),
+    zValidator('param', WindowId),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+
+      try {
+        const confirmation = await windowService.requestCloseConfirmation(id, user.id);
+        return success(c, confirmation);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to request window close';
+        return error(c, message, 400);
+      }
+    }
+  )
+
+  /**
+   * CLOSE WINDOW (Admin)
+   * POST /windows/:id/close
+   * Body: { confirmationToken: string }
+   *
+   * Closes an active window before its scheduled end.
+   */
+  .post('/:id/close',
+    requireAdmin(),
+    zValidator('param', WindowId),
+    zValidator('json', CloseWindow),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+      const { confirmationToken } = c.req.valid('json');
+
+      try {
+        const closed = await windowService.closeWindow(id, user.id, confirmationToken);
+        return success(c, closed);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to close registration window';
+        return error(c, message, 400);
+      }
+    }
+  );
+
+export type WindowsApi = typeof windows;
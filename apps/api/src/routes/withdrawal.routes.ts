@@ -0,0 +1,130 @@
+/**
+ * Withdrawal Admin Routes
+ *
+ * Escrow withdrawal queue (ESC-006, ESC-007):
+ * - GET /admin/escrow/withdrawals             - List withdrawals (open by default)
+ * - GET /admin/escrow/withdrawals/:id         - Get withdrawal with fulfilments
+ * - POST /admin/escrow/withdrawals/:id/fulfil - Release money (full or partial)
+ * - POST /admin/escrow/withdrawals/:id/cancel - Cancel; outstanding returns to escrow
+ *
+ * Authorization: Admin only
+ *
+ * Students and parents request withdrawals through POST /escrow/withdrawals.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import {
+  CancelWithdrawal,
+  FulfilWithdrawal,
+  WithdrawalId,
+  WithdrawalQueueQuery,
+} from '@repo/validations';
+import { success, error } from '../lib/response';
+import { requireAuth, requireAdmin } from '../middleware/access-control.middleware';
+import type { HonoEnv } from '../lib/types';
+import * as withdrawalService from '../services/withdrawal.services';
+
+export const adminWithdrawals = new Hono<HonoEnv>()
+  // All routes require an admin
+  .use('*', requireAuth())
+  .use('*', requireAdmin())
+
+  /**
+   * LIST WITHDRAWALS
+   * GET /admin/escrow/withdrawals
+   * Query: { status?: 'pending' | 'partially_fulfilled' | 'fulfilled' | 'cancelled', studentId?, page?, pageSize? }
+   *
+   * Without status, only open requests are listed, oldest first.
+   */
+  .get('/',
+    zValidator('query', WithdrawalQueueQuery),
+    async (c) => {
+      const { studentId, ...filters } = c.req.valid('query');
+
+      const result = await withdrawalService.getWithdrawals(
+        { ...filters, studentIds: studentId ? [studentId] : undefined },
+        { openByDefault: true }
+      );
+      return success(c, result);
+    }
+  )
+
+  /**
+   * GET WITHDRAWAL
+   * GET /admin/escrow/withdrawals/:id
+   */
+  .get('/:id',
+    zValidator('param', WithdrawalId),
+    async (c) => {
+      const { id } = c.req.valid('param');
+
+      const found = await withdrawalService.getWithdrawalById(id);
+      if (!found) {
+        return error(c, 'Withdrawal not found', 404);
+      }
+
+      return success(c, found);
+    }
+  )
+
+  /**
+   * FULFIL WITHDRAWAL
+   * POST /admin/escrow/withdrawals/:id/fulfil
+   * Body: { amount, notes? }
+   *
+   * amount is what was paid out in piastres. Less than the outstanding
+   * amount leaves the request partially_fulfilled.
+   */
+  .post('/:id/fulfil',
+    zValidator('param', WithdrawalId),
+    zValidator('json', FulfilWithdrawal),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+      const data = c.req.valid('json');
+
+      const found = await withdrawalService.getWithdrawalById(id);
+      if (!found) {
+        return error(c, 'Withdrawal not found', 404);
+      }
+
+      try {
+        const fulfilled = await withdrawalService.fulfilWithdrawal(id, data, user.id);
+        return success(c, fulfilled);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to fulfil withdrawal';
+        return error(c, message, 400);
+      }
+    }
+  )
+
+  /**
+   * CANCEL WITHDRAWAL
+   * POST /admin/escrow/withdrawals/:id/cancel
+   * Body: { reason? }
+   */
+  .post('/:id/cancel',
+    zValidator('param', WithdrawalId),
+    zValidator('json', CancelWithdrawal),
+    async (c) => {
+      const user = c.get('user')!;
+      const { id } = c.req.valid('param');
+      const { reason } = c.req.valid('json');
+
+      const found = await withdrawalService.getWithdrawalById(id);
+      if (!found) {
+        return error(c, 'Withdrawal not found', 404);
+      }
+
+      try {
+        const cancelled = await withdrawalService.cancelWithdrawal(id, reason, user.id);
+        return success(c, cancelled);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to cancel withdrawal';
+        return error(c, message, 400);
+      }
+    }
+  );
+
+export type AdminWithdrawalsApi = typeof adminWithdrawals;
@@ -0,0 +1,261 @@
+/**
+ * Audit Service
+ *
+ * System-wide audit trail (REP-006):
+ * - Recording an event for every mutating action, with a before/after diff
+ * - Filtering and exporting the log (admin)
+ *
+ * Business Rules:
+ * - Events are written with the caller's executor so they commit (or roll
+ *   back) together with the change they describe
+ * - Actor, impersonator, IP, user agent and request ID come from the
+ *   request context; without one (jobs, webhooks) the actor is the system
+ * - Only changed fields are stored; an update that changes nothing is
+ *   not recorded
+ * - The log is append-only (enforced by a trigger)
+ */
+
+import { db, auditEvent, eq, and, gte, lte, count, type DbExecutor } from '@repo/db';
+import { randomUUID } from 'crypto';
+import type { AuditExportQueryType, AuditFiltersType, AuditQueryFiltersType } from '@repo/validations';
+import { getRequestContext } from '../lib/request-context';
+import { csvRow } from '../lib/csv';
+
+/**
+ * Maximum rows in one export
+ */
+const AUDIT_EXPORT_LIMIT = 10_000;
+
+/**
+ * Fields never copied into the log
+ */
+const REDACTED_FIELDS = new Set(['password', 'token', 'secret', 'accessToken', 'refreshToken', 'idToken']);
+
+/**
+ * Fields that change on every write and carry no information
+ */
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+type AuditSnapshot = Record<string, unknown> | null | undefined;
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export type AuditInput = {
+  // entity.verb, e.g. 'user.update'
+  action: string;
+  entityType: string;
+  entityId: string;
+  // Entity before the change (omit for creates)
+  before?: AuditSnapshot;
+  // Entity after the change (omit for deletes)
+  after?: AuditSnapshot;
+  // Override the request's actor (e.g. sign-up hooks run before a session)
+  actorId?: string | null;
+};
+
+/**
+ * Normalize a value for storage and comparison
+ */
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  return value === undefined ? null : value;
+}
+
+/**
+ * Diff two snapshots field by field
+ *
+ * @returns Changed fields as { field: { before, after } }
+ */
+export function diffSnapshots(before: AuditSnapshot, after: AuditSnapshot): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const previous = before ? normalize(before[field]) : null;
+    const next = after ? normalize(after[field]) : null;
+
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { before: '[redacted]', after: '[redacted]' }
+      : { before: previous, after: next };
+  }
+
+  return changes;
+}
+
+/**
+ * Record an audit event
+ *
+ * Pass the transaction the change runs in as `executor`.
+ *
+ * @param input - Action, entity and before/after snapshots
+ * @param executor - Database client or open transaction
+ * @returns true if recorded, false if nothing changed
+ */
+export async function recordAudit(input: AuditInput, executor: DbExecutor = db) {
+  const changes = diffSnapshots(input.before, input.after);
+  const isUpdate = !!input.before && !!input.after;
+
+  if (isUpdate && Object.keys(changes).length === 0) {
+    return false;
+  }
+
+  const context = getRequestContext();
+
+  await executor.insert(auditEvent).values({
+    id: randomUUID(),
+    actorId: input.actorId !== undefined ? input.actorId : context?.actorId ?? null,
+    impersonatedBy: context?.impersonatedBy ?? null,
+    action: input.action,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    changes,
+    ipAddress: context?.ipAddress ?? null,
+    userAgent: context?.userAgent ?? null,
+    requestId: context?.requestId ?? null,
+    createdAt: new Date(),
+  });
+
+  return true;
+}
+
+/**
+ * Build the WHERE clause for audit filters
+ */
+function buildAuditWhere(filters: AuditFiltersType) {
+  const conditions = [];
+  if (filters.actorId) conditions.push(eq(auditEvent.actorId, filters.actorId));
+  if (filters.action) conditions.push(eq(auditEvent.action, filters.action));
+  if (filters.entityType) conditions.push(eq(auditEvent.entityType, filters.entityType));
+  if (filters.entityId) conditions.push(eq(auditEvent.entityId, filters.entityId));
+  if (filters.requestId) conditions.push(eq(auditEvent.requestId, filters.requestId));
+  if (filters.from) conditions.push(gte(auditEvent.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(auditEvent.createdAt, filters.to));
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * Actor columns shown alongside events
+ */
+const actorColumns = { id: true, name: true, email: true, role: true } as const;
+
+/**
+ * List audit events, newest first (admin)
+ *
+ * @param filters - Actor, action, entity, request, date range and pagination
+ * @returns Paginated audit events with actor info
+ */
+export async function getAuditEvents(filters: AuditQueryFiltersType) {
+  const where = buildAuditWhere(filters);
+  const offset = (filters.page - 1) * filters.pageSize;
+
+  const events = await db.query.auditEvent.findMany({
+    where,
+    with: { actor: { columns: actorColumns } },
+    orderBy: (events, { desc }) => [desc(events.createdAt)],
+    limit: filters.pageSize,
+    offset,
+  });
+
+  const [countResult] = await db
+    .select({ count: count() })
+    .from(auditEvent)
+    .where(where);
+
+  const total = Number(countResult?.count ?? 0);
+
+  return {
+    data: events,
+    pagination: {
+      page: filters.page,
+      pageSize: filters.pageSize,
+      total,
+      totalPages: Math.ceil(total / filters.pageSize),
+    },
+  };
+}
+
+/**
+ * Count audit events matching filters (audit report)
+ *
+ * @param filters - Actor, action, entity, request and date range
+ */
+export async function countAuditEvents(filters: AuditFiltersType) {
+  const [result] = await db
+    .select({ count: count() })
+    .from(auditEvent)
+    .where(buildAuditWhere(filters));
+
+  return Number(result?.count ?? 0);
+}
+
+/**
+ * Page through audit events, oldest first (audit report)
+ *
+ * @param filters - Actor, action, entity, request and date range
+ * @param page - Offset and limit
+ * @returns Audit events with actor info
+ */
+export async function findAuditEvents(filters: AuditFiltersType, page: { offset: number; limit: number }) {
+  return db.query.auditEvent.findMany({
+    where: buildAuditWhere(filters),
+    with: { actor: { columns: actorColumns } },
+    orderBy: (events, { asc }) => [asc(events.createdAt), asc(events.id)],
+    limit: page.limit,
+    offset: page.offset,
+  });
+}
+
+/**
+ * Export audit events, oldest first (admin)
+ *
+ * @param query - Filters and format (csv or json)
+ * @returns File body, content type and a suggested file name
+ */
+export async function exportAuditEvents(query: AuditExportQueryType) {
+  const events = await db.query.auditEvent.findMany({
+    where: buildAuditWhere(query),
+    with: { actor: { columns: actorColumns } },
+    orderBy: (events, { asc }) => [asc(events.createdAt)],
+    limit: AUDIT_EXPORT_LIMIT,
+  });
+
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (query.format === 'json') {
+    return {
+      body: JSON.stringify(events, null, 2),
+      contentType: 'application/json',
+      fileName: `audit-${stamp}.json`,
+    };
+  }
+
+  const header = [
+    'createdAt', 'actorId', 'actorEmail', 'impersonatedBy', 'action',
+    'entityType', 'entityId', 'changes', 'ipAddress', 'userAgent', 'requestId',
+  ];
+
+  const rows = events.map((event) => csvRow([
+    event.createdAt.toISOString(),
+    event.actorId,
+    event.actor?.email,
+    event.impersonatedBy,
+    event.action,
+    event.entityType,
+    event.entityId,
+    JSON.stringify(event.changes),
+    event.ipAddress,
+    event.userAgent,
+    event.requestId,
+  ]));
+
+  return {
+    body: [csvRow(header), ...rows].join('\r\n'),
+    contentType: 'text/csv; charset=utf-8',
+    fileName: `audit-${stamp}.csv`,
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Bank Transfer Service
+ *
+ * Manual bank transfer payments (PAY-004, PAY-007):
+ * - Checkout issues a unique transfer reference and the school's bank details
+ * - Admins work a queue of pending transfers and record what arrived,
+ *   optionally with a proof document
+ *
+ * Business Rules:
+ * - A transfer may arrive in parts; the payment succeeds once the
+ *   receipts cover the amount due
+ * - An over-payment is credited to the student's escrow
+ * - Money received for a payment that is no longer pending (expired or
+ *   already paid), or whose registration can no longer be confirmed, is
+ *   credited to escrow in full
+ * - When a partly paid transfer expires, what was received is credited
+ *   to escrow
+ */
+
+import {
+  db,
+  bankTransferReceipt,
+  payment,
+  eq,
+  and,
+  count,
+  sum,
+  type DbTransaction,
+} from '@repo/db';
+import { randomInt, randomUUID } from 'crypto';
+import { BANK_TRANSFER, addMoney, money, subtractMoney } from '@repo/validations';
+import type { BankTransferQueueQueryType, ConfirmBankTransferType } from '@repo/validations';
+import { env } from '../env';
+import { creditStudent } from './escrow.services';
+import { applyPaymentStatus } from './payment.services';
+import { recordAudit } from './audit.services';
+
+/**
+ * How long a payer has to make the transfer
+ */
+const BANK_TRANSFER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Reference alphabet without look-alike characters (0/O, 1/I/L)
+ */
+const REFERENCE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+/**
+ * Get the school's bank account, or null when not configured
+ */
+function getBankDetails() {
+  if (!env.BANK_TRANSFER_BANK_NAME || !env.BANK_TRANSFER_ACCOUNT_NAME || !env.BANK_TRANSFER_IBAN) {
+    return null;
+  }
+
+  return {
+    bankName: env.BANK_TRANSFER_BANK_NAME,
+    accountName: env.BANK_TRANSFER_ACCOUNT_NAME,
+    accountNumber: env.BANK_TRANSFER_ACCOUNT_NUMBER ?? null,
+    iban: env.BANK_TRANSFER_IBAN,
+    swift: env.BANK_TRANSFER_SWIFT ?? null,
+  };
+}
+
+/**
+ * Generate a transfer reference, e.g. BT-7KQ2-MX9D
+ */
+function generateReference() {
+  const chars = Array.from(
+    { length: 8 },
+    () => REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)]
+  ).join('');
+
+  return `BT-${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+/**
+ * Build the checkout instructions for a bank transfer
+ *
+ * Shaped like a provider intent so checkout can treat both alike.
+ *
+ * @param amount - Amount due in piastres
+ * @throws Error if no bank account is configured
+ */
+export function createBankTransferIntent(amount: number) {
+  const bank = getBankDetails();
+
+  if (!bank) {
+    throw new Error('Bank transfer is not available');
+  }
+
+  const providerReference = generateReference();
+
+  return {
+    providerReference,
+    amount,
+    expiresAt: new Date(Date.now() + BANK_TRANSFER_TTL_MS),
+    nextAction: {
+      type: 'bank_transfer' as const,
+      // Payer must quote this in the transfer description
+      reference: providerReference,
+      amount,
+      ...bank,
+    },
+  };
+}
+
+/**
+ * Total received so far for a payment
+ */
+async function getAmountReceived(paymentId: string, executor: DbTransaction) {
+  const [row] = await executor
+    .select({ total: sum(bankTransferReceipt.amount) })
+    .from(bankTransferReceipt)
+    .where(eq(bankTransferReceipt.paymentId, paymentId));
+
+  return Number(row?.total ?? 0);
+}
+
+/**
+ * Get the student a payment is for
+ */
+async function getStudentId(current: typeof payment.$inferSelect, tx: DbTransaction) {
+  const target = await tx.query.registration.findFirst({
+    where: (registrations, { eq }) => eq(registrations.id, current.registrationId!),
+    columns: { studentId: true },
+  });
+
+  return target!.studentId;
+}
+
+/**
+ * List bank transfers for the admin queue
+ *
+ * Oldest first, so transfers are confirmed in the order they were issued.
+ *
+ * @param filters - Status (default pending) and pagination
+ * @returns Transfers with amount received and receipts, paginated
+ */
+export async function getBankTransfers(filters: BankTransferQueueQueryType) {
+  const where = and(
+    eq(payment.provider, BANK_TRANSFER),
+    eq(payment.status, filters.status)
+  );
+  const offset = (filters.page - 1) * filters.pageSize;
+
+  const transfers = await db.query.payment.findMany({
+    where,
+    with: {
+      registration: {
+        columns: { id: true, studentId: true, status: true, totalAmount: true },
+        with: { student: { columns: { id: true, name: true, email: true, studentId: true } } },
+      },
+      payer: { columns: { id: true, name: true, email: true } },
+      receipts: true,
+    },
+    orderBy: (payments, { asc }) => [asc(payments.createdAt)],
+    limit: filters.pageSize,
+    offset,
+  });
+
+  const [countResult] = await db
+    .select({ count: count() })
+    .from(payment)
+    .where(where);
+
+  const total = Number(countResult?.count ?? 0);
+
+  return {
+    data: transfers.map((transfer) => ({
+      ...transfer,
+      amountReceived: transfer.receipts.reduce((acc, receipt) => acc + receipt.amount, 0),
+    })),
+    pagination: {
+      page: filters.page,
+      pageSize: filters.pageSize,
+      total,
+      totalPages: Math.ceil(total / filters.pageSize),
+    },
+  };
+}
+
+/**
+ * Get a bank transfer by ID (admin)
+ *
+ * @param paymentId - The payment's ID
+ * @returns The transfer with registration and receipts, or undefined
+ */
+export async function getBankTransferById(paymentId: string) {
+  const transfer = await db.query.payment.findFirst({
+    where: (payments, { eq, and }) => and(
+      eq(payments.id, paymentId),
+      eq(payments.provider, BANK_TRANSFER)
+    ),
+    with: {
+      registration: {
+        columns: { id: true, studentId: true, status: true, totalAmount: true },
+        with: { student: { columns: { id: true, name: true, email: true, studentId: true } } },
+      },
+      payer: { columns: { id: true, name: true, email: true } },
+      receipts: { with: { proofFile: true } },
+    },
+  });
+
+  if (!transfer) return undefined;
+
+  return {
+    ...transfer,
+    amountReceived: transfer.receipts.reduce((acc, receipt) => acc + receipt.amount, 0),
+  };
+}
+
+/**
+ * Record money received for a bank transfer (admin)
+ *
+ * Once the receipts cover the amount due the payment succeeds, which
+ * confirms its registration (or settles its registration change) in the
+ * same transaction. Any excess is credited to the student's escrow.
+ *
+ * @param paymentId - The bank transfer payment's ID
+ * @param data - Amount received, value date, notes and proof file
+ * @param confirmedBy - The admin's ID
+ * @returns The transfer with its receipts
+ * @throws Error if the payment is not a bank transfer
+ */
+export async function confirmBankTransfer(
+  paymentId: string,
+  data: Omit<ConfirmBankTransferType, 'file'> & { proofFileId?: string },
+  confirmedBy: string
+) {
+  await db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(payment)
+      .where(and(
+        eq(payment.id, paymentId),
+        eq(payment.provider, BANK_TRANSFER)
+      ))
+      .for('update');
+
+    if (!current) {
+      throw new Error('Bank transfer not found');
+    }
+
+    const studentId = await getStudentId(current, tx);
+    const received = addMoney(money(await getAmountReceived(current.id, tx)), money(data.amount)).amount;
+
+    // Nothing left to pay for: keep the whole amount for the student
+    let escrowCredit = data.amount;
+
+    if (current.status === 'pending') {
+      escrowCredit = 0;
+
+      if (received >= current.amount) {
+        const applied = await applyPaymentStatus(tx, current, {
+          status: 'succeeded',
+          paidAt: data.valueDate,
+        });
+
+        escrowCredit = applied?.confirmed ? subtractMoney(money(received), money(current.amount)).amount : received;
+      }
+    }
+
+    const receiptId = randomUUID();
+
+    await tx.insert(bankTransferReceipt).values({
+      id: receiptId,
+      paymentId: current.id,
+      amount: data.amount,
+      valueDate: data.valueDate,
+      notes: data.notes,
+      proofFileId: data.proofFileId,
+      escrowCredit,
+      confirmedBy,
+      createdAt: new Date(),
+    });
+
+    await recordAudit({
+      action: 'bank_transfer.record_receipt',
+      entityType: 'payment',
+      entityId: current.id,
+      after: {
+        receiptId,
+        amount: data.amount,
+        valueDate: data.valueDate,
+        amountReceived: received,
+        escrowCredit,
+        proofFileId: data.proofFileId ?? null,
+      },
+    }, tx);
+
+    if (escrowCredit > 0) {
+      await creditStudent(studentId, escrowCredit, {
+        entryType: 'payment_credit',
+        referenceType: 'bank_transfer_receipt',
+        referenceId: receiptId,
+        memo: `Bank transfer ${current.providerReference}: credit of unapplied amount`,
+        createdBy: confirmedBy,
+      }, tx);
+    }
+  });
+
+  return getBankTransferById(paymentId);
+}
+
+/**
+ * Credit partial receipts of an expired bank transfer to escrow
+ *
+ * Called by the payment service in the expiry transaction.
+ *
+ * @param expired - The bank transfer that just expired
+ * @param tx - The expiry transaction
+ */
+export async function creditUnappliedReceipts(expired: typeof payment.$inferSelect, tx: DbTransaction) {
+  const receipts = await tx
+    .select()
+    .from(bankTransferReceipt)
+    .where(eq(bankTransferReceipt.paymentId, expired.id));
+
+  const unapplied = receipts.reduce((acc, receipt) => acc + receipt.amount - receipt.escrowCredit, 0);
+  if (unapplied <= 0) return;
+
+  const studentId = await getStudentId(expired, tx);
+
+  for (const receipt of receipts) {
+    await tx
+      .update(bankTransferReceipt)
+      .set({ escrowCredit: receipt.amount })
+      .where(eq(bankTransferReceipt.id, receipt.id));
+  }
+
+  await creditStudent(studentId, unapplied, {
+    entryType: 'payment_credit',
+    referenceType: 'payment',
+    referenceId: expired.id,
+    memo: `Bank transfer ${expired.providerReference} expired before it was paid in full`,
+  }, tx);
+}
@@ -0,0 +1,203 @@
+/**
+ * Dashboard Service
+ *
+ * Admin dashboard metrics (REP-008), all computed with aggregate queries:
+ * - Students: enrolled (not graduated or banned) and active in the
+ *   current session (holding a confirmed or pending registration)
+ * - Registrations in the current session by status, grade and day
+ * - Revenue from confirmed registrations (active items at their price
+ *   snapshot), in total and by council
+ * - Escrow liability (student balances plus amounts held for open
+ *   withdrawal requests), pending withdrawals and withdrawals payable
+ *
+ * The current session is the active window, or the most recently
+ * opened one between sessions. Results are cached in memory for
+ * DASHBOARD_CACHE_TTL_MS, so a dashboard left open does not re-run the
+ * queries on every refetch.
+ */
+
+import {
+  db,
+  council,
+  escrowAccount,
+  escrowWithdrawal,
+  registration,
+  registrationItem,
+  subject,
+  user,
+  eq,
+  and,
+  asc,
+  count,
+  sum,
+  sql,
+  inArray,
+  isNull,
+  isNotNull,
+  or,
+} from '@repo/db';
+import { OPEN_WITHDRAWAL_STATUSES, ROLES } from '@repo/validations';
+import { SYSTEM_ACCOUNTS } from './escrow.services';
+
+// How long computed metrics are served from memory
+export const DASHBOARD_CACHE_TTL_MS = 60 * 1000;
+
+type DashboardMetrics = Awaited<ReturnType<typeof computeDashboardMetrics>>;
+
+let cached: { value: DashboardMetrics; expiresAt: number } | undefined;
+
+/**
+ * The window the dashboard reports on
+ */
+async function getCurrentSession() {
+  return db.query.registrationWindow.findFirst({
+    where: (windows, { inArray }) => inArray(windows.status, ['active', 'closed']),
+    columns: {
+      id: true,
+      sessionType: true,
+      year: true,
+      status: true,
+      startsAt: true,
+      endsAt: true,
+    },
+    // 'active' sorts first; otherwise the latest opened window
+    orderBy: (windows, { asc, desc }) => [asc(windows.status), desc(windows.openedAt), desc(windows.startsAt)],
+  });
+}
+
+async function computeDashboardMetrics() {
+  const session = await getCurrentSession();
+
+  const [[students], [escrow], [payable], [withdrawals]] = await Promise.all([
+    db
+      .select({ enrolled: count() })
+      .from(user)
+      .where(and(
+        eq(user.role, ROLES.STUDENT),
+        isNull(user.graduatedAt),
+        or(isNull(user.banned), eq(user.banned, false))
+      )),
+    db
+      .select({
+        liability: sum(escrowAccount.balance).mapWith(Number),
+        accounts: sql<number>`count(*) filter (where ${escrowAccount.balance} > 0)`.mapWith(Number),
+      })
+      .from(escrowAccount)
+      .where(eq(escrowAccount.kind, 'student')),
+    db
+      .select({ balance: escrowAccount.balance })
+      .from(escrowAccount)
+      .where(eq(escrowAccount.code, SYSTEM_ACCOUNTS.WITHDRAWALS_PAYABLE)),
+    db
+      .select({
+        pending: count(),
+        held: sql<number>`coalesce(sum(${escrowWithdrawal.amount} - ${escrowWithdrawal.fulfilledAmount}), 0)`.mapWith(Number),
+      })
+      .from(escrowWithdrawal)
+      .where(inArray(escrowWithdrawal.status, [...OPEN_WITHDRAWAL_STATUSES])),
+  ]);
+
+  const held = withdrawals?.held ?? 0;
+
+  const escrowMetrics = {
+    liability: (escrow?.liability ?? 0) + held,
+    accountsWithBalance: escrow?.accounts ?? 0,
+    withdrawalsPending: withdrawals?.pending ?? 0,
+    withdrawalsHeld: held,
+    withdrawalsPayable: payable?.balance ?? 0,
+  };
+
+  if (!session) {
+    return {
+      generatedAt: new Date(),
+      session: null,
+      students: { enrolled: students?.enrolled ?? 0, active: 0 },
+      registrations: { total: 0, byStatus: [], byGrade: [], daily: [] },
+      revenue: { total: 0, byCouncil: [] },
+      escrow: escrowMetrics,
+    };
+  }
+
+  const inSession = eq(registration.windowId, session.id);
+  const openRegistrations = and(inSession, inArray(registration.status, ['confirmed', 'pending_payment']));
+  const confirmedItems = and(
+    eq(registrationItem.windowId, session.id),
+    eq(registrationItem.status, 'active'),
+    eq(registration.status, 'confirmed')
+  );
+  const day = sql<string>`to_char(date_trunc('day', ${registration.createdAt}), 'YYYY-MM-DD')`;
+
+  const [[active], byStatus, byGrade, daily, byCouncil] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(distinct ${registration.studentId})`.mapWith(Number) })
+      .from(registration)
+      .where(openRegistrations),
+    db
+      .select({ status: registration.status, count: count() })
+      .from(registration)
+      .where(inSession)
+      .groupBy(registration.status)
+      .orderBy(asc(registration.status)),
+    db
+      .select({ grade: user.grade, count: count() })
+      .from(registration)
+      .innerJoin(user, eq(user.id, registration.studentId))
+      .where(and(openRegistrations, isNotNull(user.grade)))
+      .groupBy(user.grade)
+      .orderBy(asc(user.grade)),
+    db
+      .select({ date: day, count: count() })
+      .from(registration)
+      .where(inSession)
+      .groupBy(day)
+      .orderBy(asc(day)),
+    db
+      .select({
+        council: council.name,
+        items: count(),
+        amount: sql<number>`coalesce(sum(${registrationItem.unitPrice}), 0)`.mapWith(Number),
+      })
+      .from(registrationItem)
+      .innerJoin(registration, eq(registration.id, registrationItem.registrationId))
+      .innerJoin(subject, eq(subject.id, registrationItem.subjectId))
+      .innerJoin(council, eq(council.id, subject.councilId))
+      .where(confirmedItems)
+      .groupBy(council.name)
+      .orderBy(asc(council.name)),
+  ]);
+
+  return {
+    generatedAt: new Date(),
+    session,
+    students: { enrolled: students?.enrolled ?? 0, active: active?.count ?? 0 },
+    registrations: {
+      total: byStatus.reduce((total, row) => total + row.count, 0),
+      byStatus,
+      byGrade,
+      daily,
+    },
+    revenue: {
+      total: byCouncil.reduce((total, row) => total + row.amount, 0),
+      byCouncil,
+    },
+    escrow: escrowMetrics,
+  };
+}
+
+/**
+ * Get the admin dashboard metrics
+ *
+ * @param options.refresh - Skip the cache and recompute
+ * @returns Metrics for the current session; amounts in piastres
+ */
+export async function getDashboardMetrics(options: { refresh?: boolean } = {}) {
+  const now = Date.now();
+  if (!options.refresh && cached && cached.expiresAt > now) {
+    return cached.value;
+  }
+
+  const value = await computeDashboardMetrics();
+  cached = { value, expiresAt: now + DASHBOARD_CACHE_TTL_MS };
+
+  return value;
+}
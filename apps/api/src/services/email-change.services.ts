@@ -0,0 +1,191 @@
+/**
+ * Email Change Service
+ *
+ * Changing a user's email with re-verification (AUTH-007):
+ * - The signed-in user asks for a new address; a confirmation link goes
+ *   to the new address and a notice to the current one
+ * - The email is swapped only when the link is used
+ *
+ * Business Rules:
+ * - Links expire after EMAIL_CHANGE_EXPIRY_HOURS and work once
+ * - A new request replaces the user's pending one
+ * - The new address must not belong to another account, both when asked
+ *   for and when confirmed
+ * - Confirming marks the new address verified and revokes every session
+ *   except the one that asked for the change
+ * - Requests and changes are recorded in the audit trail
+ * - Parent link lookups by email keep finding the student by the old
+ *   address for a while after the change is confirmed, never by an
+ *   unconfirmed new one (see link.services.ts)
+ */
+
+import { db, emailChange, session, user, eq, and, ne, isNull, isUniqueViolation } from '@repo/db';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import type { RequestEmailChangeType } from '@repo/validations';
+import { corsOrigins } from '../env';
+import { recordAudit } from './audit.services';
+import { notifyUser } from './notification.services';
+
+export const EMAIL_CHANGE_EXPIRY_HOURS = 24;
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The link must open one of our own apps
+ */
+function isAllowedCallbackURL(callbackURL: string) {
+  return corsOrigins.includes(new URL(callbackURL).origin);
+}
+
+/**
+ * Ask to change the signed-in user's email
+ *
+ * @param userId - The user changing their email
+ * @param sessionId - The session making the request (kept on confirm)
+ * @param data - New address and the page the link should open
+ * @returns The pending address and when the link expires
+ * @throws Error if the callback URL, the address or the user is not acceptable
+ */
+export async function requestEmailChange(userId: string, sessionId: string | null, data: RequestEmailChangeType) {
+  if (!isAllowedCallbackURL(data.callbackURL)) {
+    throw new Error('Callback URL is not allowed');
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + EMAIL_CHANGE_EXPIRY_HOURS * 60 * 60 * 1000);
+
+  const url = new URL(data.callbackURL);
+  url.searchParams.set('token', token);
+
+  return db.transaction(async (tx) => {
+    const current = await tx.query.user.findFirst({
+      where: (users, { eq }) => eq(users.id, userId),
+      columns: { email: true },
+    });
+
+    if (!current) {
+      throw new Error('User not found');
+    }
+
+    if (data.newEmail === current.email.toLowerCase()) {
+      throw new Error('This is already your email address');
+    }
+
+    const taken = await tx.query.user.findFirst({
+      where: (users, { eq }) => eq(users.email, data.newEmail),
+      columns: { id: true },
+    });
+
+    if (taken) {
+      throw new Error('Email is already in use');
+    }
+
+    // Only the latest request's link works
+    await tx
+      .delete(emailChange)
+      .where(and(eq(emailChange.userId, userId), isNull(emailChange.confirmedAt)));
+
+    const [created] = await tx
+      .insert(emailChange)
+      .values({
+        id: randomUUID(),
+        userId,
+        previousEmail: current.email.toLowerCase(),
+        newEmail: data.newEmail,
+        tokenHash: hashToken(token),
+        requestedSessionId: sessionId,
+        expiresAt,
+      })
+      .returning();
+
+    await notifyUser(userId, 'auth.confirm-email-change', {
+      url: url.toString(),
+      newEmail: data.newEmail,
+      expiresInHours: EMAIL_CHANGE_EXPIRY_HOURS,
+    }, tx, { recipientEmail: data.newEmail });
+
+    await notifyUser(userId, 'auth.email-change-requested', {
+      newEmail: data.newEmail,
+      expiresInHours: EMAIL_CHANGE_EXPIRY_HOURS,
+    }, tx, { includeParents: false });
+
+    await recordAudit({
+      action: 'user.email_change_request',
+      entityType: 'user',
+      entityId: userId,
+      after: { newEmail: data.newEmail, expiresAt },
+    }, tx);
+
+    return { newEmail: created!.newEmail, expiresAt: created!.expiresAt };
+  });
+}
+
+/**
+ * Swap in the new email using the emailed link's token
+ *
+ * Needs no session: the token proves the new address was received.
+ *
+ * @param token - Token from the confirmation link
+ * @returns The new email and how many sessions were revoked
+ * @throws Error if the link is invalid, expired or already used, or the
+ *         address was taken in the meantime
+ */
+export async function confirmEmailChange(token: string) {
+  try {
+    return await db.transaction(async (tx) => {
+      // Row lock: a link double-clicked is confirmed once
+      const [pending] = await tx
+        .select()
+        .from(emailChange)
+        .where(eq(emailChange.tokenHash, hashToken(token)))
+        .for('update');
+
+      if (!pending || pending.confirmedAt || pending.expiresAt <= new Date()) {
+        throw new Error('Invalid or expired confirmation link');
+      }
+
+      const [before] = await tx
+        .select({ email: user.email, emailVerified: user.emailVerified })
+        .from(user)
+        .where(eq(user.id, pending.userId));
+
+      const [updated] = await tx
+        .update(user)
+        .set({ email: pending.newEmail, emailVerified: true })
+        .where(eq(user.id, pending.userId))
+        .returning({ email: user.email, emailVerified: user.emailVerified });
+
+      await tx
+        .update(emailChange)
+        .set({ confirmedAt: new Date() })
+        .where(eq(emailChange.id, pending.id));
+
+      // Sign out other devices; the device that asked stays signed in
+      const revoked = await tx
+        .delete(session)
+        .where(pending.requestedSessionId
+          ? and(eq(session.userId, pending.userId), ne(session.id, pending.requestedSessionId))
+          : eq(session.userId, pending.userId))
+        .returning({ id: session.id });
+
+      await recordAudit({
+        action: 'user.email_change',
+        entityType: 'user',
+        entityId: pending.userId,
+        before,
+        after: updated,
+        actorId: pending.userId,
+      }, tx);
+
+      return { email: pending.newEmail, revokedSessions: revoked.length };
+    });
+  } catch (err) {
+    if (isUniqueViolation(err, 'user_email_unique')) {
+      throw new Error('Email is already in use');
+    }
+    throw err;
+  }
+}
+
@@ -0,0 +1,101 @@
+/**
+ * Escrow Transfer Service
+ *
+ * Parents move escrow between their linked children (ESC-003).
+ *
+ * Business Rules:
+ * - Both children must have an approved link to the calling parent
+ * - The transfer cannot exceed the source child's balance; the balance
+ *   is checked by the ledger posting in the same serializable transaction
+ * - The paired ledger entries notify both children (and their parents)
+ *   through the escrow balance-changed email
+ * - The route rejects a transfer without an Idempotency-Key header
+ *   (EscrowTransferHeaders), so the idempotency middleware replays a
+ *   retry instead of running it again (see middleware/idempotency.middleware.ts)
+ */
+
+import { db, escrowTransfer, serializableTransaction } from '@repo/db';
+import { randomUUID } from 'crypto';
+import { ESCROW_ENTRY_TYPES, type CreateEscrowTransferType } from '@repo/validations';
+import { recordAudit } from './audit.services';
+import { transferBetweenStudents } from './escrow.services';
+import { isParentLinkedToStudent } from './link.services';
+
+/**
+ * Transfer escrow from one linked child to another
+ *
+ * @param parentId - The calling parent's ID
+ * @param data - Source and destination children, amount in piastres, optional note
+ * @returns The transfer
+ * @throws Error if either child is not linked or the source balance is insufficient
+ */
+export async function transferEscrow(parentId: string, data: CreateEscrowTransferType) {
+  const id = await serializableTransaction(async (tx) => {
+    const fromLinked = await isParentLinkedToStudent(parentId, data.fromStudentId, tx);
+    const toLinked = await isParentLinkedToStudent(parentId, data.toStudentId, tx);
+
+    if (!fromLinked || !toLinked) {
+      throw new Error('Student not found');
+    }
+
+    const transferId = randomUUID();
+
+    let journalId: string;
+    try {
+      journalId = await transferBetweenStudents(data.fromStudentId, data.toStudentId, data.amount, {
+        entryType: ESCROW_ENTRY_TYPES.TRANSFER,
+        referenceType: 'escrow_transfer',
+        referenceId: transferId,
+        memo: data.note,
+        createdBy: parentId,
+      }, tx);
+    } catch (err) {
+      if (err instanceof Error && err.message === 'Insufficient escrow balance') {
+        throw new Error('Amount exceeds the source child\'s escrow balance');
+      }
+      throw err;
+    }
+
+    await tx.insert(escrowTransfer).values({
+      id: transferId,
+      parentId,
+      fromStudentId: data.fromStudentId,
+      toStudentId: data.toStudentId,
+      amount: data.amount,
+      note: data.note,
+      journalId,
+    });
+
+    await recordAudit({
+      action: 'escrow_transfer.create',
+      entityType: 'escrow_transfer',
+      entityId: transferId,
+      after: {
+        fromStudentId: data.fromStudentId,
+        toStudentId: data.toStudentId,
+        amount: data.amount,
+        journalId,
+      },
+    }, tx);
+
+    return transferId;
+  });
+
+  return (await getEscrowTransferById(id))!;
+}
+
+/**
+ * Get a transfer with both children
+ *
+ * @param transferId - The transfer's ID
+ * @returns The transfer, or undefined
+ */
+export async function getEscrowTransferById(transferId: string) {
+  return db.query.escrowTransfer.findFirst({
+    where: (transfers, { eq }) => eq(transfers.id, transferId),
+    with: {
+      fromStudent: { columns: { id: true, name: true, studentId: true } },
+      toStudent: { columns: { id: true, name: true, studentId: true } },
+    },
+  });
+}
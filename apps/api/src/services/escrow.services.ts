@@ -0,0 +1,512 @@
+/**
+ * Escrow Service
+ *
+ * Escrow is an append-only double-entry journal (ESC-001..008):
+ * - Credits when a paid subject is dropped or swapped
+ * - Debits when escrow is spent at checkout
+ * - Transfers between a parent's linked children
+ * - Withdrawals: held when requested, then paid out by an admin or
+ *   released on cancel (see withdrawal.services.ts)
+ *
+ * Business Rules:
+ * - Every posting is two or more entries that sum to zero
+ * - Entries are never updated or deleted (enforced by a trigger);
+ *   mistakes are corrected with a new posting
+ * - escrow_account.balance is a snapshot maintained by each posting;
+ *   `escrowAccount_student_balance_check` stops it going negative
+ * - Postings run in SERIALIZABLE transactions (retried on conflict)
+ *   unless the caller passes its own transaction
+ * - Student accounts are created on first use
+ */
+
+import {
+  db,
+  escrowAccount,
+  escrowEntry,
+  escrowWithdrawal,
+  eq,
+  and,
+  count,
+  inArray,
+  sum,
+  sql,
+  isCheckViolation,
+  serializableTransaction,
+  type DbExecutor,
+  type DbTransaction,
+} from '@repo/db';
+import { randomUUID } from 'crypto';
+import {
+  OPEN_WITHDRAWAL_STATUSES,
+  addMoney,
+  money,
+  type EscrowEntryTypeType,
+  type EscrowStatementQueryType,
+} from '@repo/validations';
+import { logger } from '../lib/logger';
+import { notifyUser } from './notification.services';
+import { recordAudit } from './audit.services';
+
+/**
+ * System counter-accounts (seeded by migration)
+ */
+export const SYSTEM_ACCOUNTS = {
+  // Money the school has earned from confirmed registrations
+  REGISTRATION_REVENUE: 'registration_revenue',
+  // Escrow set aside for open withdrawal requests
+  WITHDRAWALS_HELD: 'withdrawals_held',
+  // Money owed to students for approved withdrawals
+  WITHDRAWALS_PAYABLE: 'withdrawals_payable',
+} as const;
+
+type SystemAccountCode = (typeof SYSTEM_ACCOUNTS)[keyof typeof SYSTEM_ACCOUNTS];
+
+export type PostingDetails = {
+  entryType: EscrowEntryTypeType;
+  // Domain record that caused the posting
+  referenceType?: string;
+  referenceId?: string;
+  memo?: string;
+  createdBy?: string;
+};
+
+type PostingLine = {
+  accountId: string;
+  amount: number;
+};
+
+/**
+ * Run in the caller's transaction, or in a new serializable one
+ */
+function withLedgerTransaction<T>(
+  executor: DbTransaction | undefined,
+  fn: (tx: DbTransaction) => Promise<T>
+): Promise<T> {
+  return executor ? fn(executor) : serializableTransaction(fn);
+}
+
+/**
+ * Get (or create) a student's escrow account
+ */
+async function getStudentAccountId(studentId: string, executor: DbExecutor): Promise<string> {
+  await executor
+    .insert(escrowAccount)
+    .values({
+      id: randomUUID(),
+      kind: 'student',
+      studentId,
+      balance: 0,
+    })
+    .onConflictDoNothing({ target: escrowAccount.studentId });
+
+  const [account] = await executor
+    .select({ id: escrowAccount.id })
+    .from(escrowAccount)
+    .where(eq(escrowAccount.studentId, studentId));
+
+  return account!.id;
+}
+
+/**
+ * Get (or create) a system account
+ */
+async function getSystemAccountId(code: SystemAccountCode, executor: DbExecutor): Promise<string> {
+  await executor
+    .insert(escrowAccount)
+    .values({
+      id: randomUUID(),
+      kind: 'system',
+      code,
+      balance: 0,
+    })
+    .onConflictDoNothing({ target: escrowAccount.code });
+
+  const [account] = await executor
+    .select({ id: escrowAccount.id })
+    .from(escrowAccount)
+    .where(eq(escrowAccount.code, code));
+
+  return account!.id;
+}
+
+/**
+ * Write a balanced posting
+ *
+ * Updates each account's snapshot and appends one entry per line with
+ * the resulting balance. Accounts are touched in ID order so concurrent
+ * postings lock rows in the same order. Each student whose balance
+ * changes (and their parents) is emailed.
+ *
+ * @returns The journal ID
+ * @throws Error if the lines do not balance or an account would go negative
+ */
+async function post(tx: DbTransaction, lines: PostingLine[], details: PostingDetails) {
+  if (lines.some((line) => !Number.isSafeInteger(line.amount) || line.amount === 0)) {
+    throw new Error('Escrow amounts must be non-zero whole piastres');
+  }
+
+  if (lines.length < 2 || addMoney(money(0), ...lines.map((line) => money(line.amount))).amount !== 0) {
+    throw new Error('Escrow posting must balance');
+  }
+
+  const journalId = randomUUID();
+  const now = new Date();
+  const ordered = [...lines].sort((a, b) => a.accountId.localeCompare(b.accountId));
+  const posted: Array<{ accountId: string; amount: number; balanceAfter: number }> = [];
+
+  try {
+    for (const line of ordered) {
+      const [account] = await tx
+        .update(escrowAccount)
+        .set({
+          balance: sql`${escrowAccount.balance} + ${line.amount}`,
+          updatedAt: now,
+        })
+        .where(eq(escrowAccount.id, line.accountId))
+        .returning({
+          balance: escrowAccount.balance,
+          kind: escrowAccount.kind,
+          studentId: escrowAccount.studentId,
+        });
+
+      await tx.insert(escrowEntry).values({
+        id: randomUUID(),
+        journalId,
+        accountId: line.accountId,
+        amount: line.amount,
+        balanceAfter: account!.balance,
+        entryType: details.entryType,
+        referenceType: details.referenceType,
+        referenceId: details.referenceId,
+        memo: details.memo,
+        createdBy: details.createdBy,
+        createdAt: now,
+      });
+
+      posted.push({ accountId: line.accountId, amount: line.amount, balanceAfter: account!.balance });
+
+      if (account!.kind === 'student') {
+        await notifyUser(account!.studentId!, 'escrow.balance-changed', {
+          previousBalance: account!.balance - line.amount,
+          amount: line.amount,
+          newBalance: account!.balance,
+          reason: details.entryType,
+          memo: details.memo,
+        }, tx);
+      }
+    }
+  } catch (err) {
+    if (isCheckViolation(err, 'escrowAccount_student_balance_check')) {
+      throw new Error('Insufficient escrow balance');
+    }
+    throw err;
+  }
+
+  await recordAudit({
+    action: `escrow.${details.entryType}`,
+    entityType: 'escrow_journal',
+    entityId: journalId,
+    after: {
+      referenceType: details.referenceType ?? null,
+      referenceId: details.referenceId ?? null,
+      memo: details.memo ?? null,
+      lines: posted,
+    },
+    actorId: details.createdBy,
+  }, tx);
+
+  return journalId;
+}
+
+/**
+ * Credit a student's escrow (drop / swap refunds)
+ *
+ * @param studentId - The student's ID
+ * @param amount - Piastres to credit (positive)
+ * @param details - Entry type and reference
+ * @param executor - Open transaction (optional)
+ * @returns The journal ID
+ */
+export async function creditStudent(
+  studentId: string,
+  amount: number,
+  details: PostingDetails,
+  executor?: DbTransaction
+) {
+  return withLedgerTransaction(executor, async (tx) => {
+    const studentAccount = await getStudentAccountId(studentId, tx);
+    const revenue = await getSystemAccountId(SYSTEM_ACCOUNTS.REGISTRATION_REVENUE, tx);
+
+    return post(tx, [
+      { accountId: studentAccount, amount },
+      { accountId: revenue, amount: -amount },
+    ], details);
+  });
+}
+
+/**
+ * Debit a student's escrow (spent at checkout)
+ *
+ * @param studentId - The student's ID
+ * @param amount - Piastres to debit (positive)
+ * @param details - Entry type and reference
+ * @param executor - Open transaction (optional)
+ * @returns The journal ID
+ * @throws Error if the balance is insufficient
+ */
+export async function debitStudent(
+  studentId: string,
+  amount: number,
+  details: PostingDetails,
+  executor?: DbTransaction
+) {
+  return withLedgerTransaction(executor, async (tx) => {
+    const studentAccount = await getStudentAccountId(studentId, tx);
+    const revenue = await getSystemAccountId(SYSTEM_ACCOUNTS.REGISTRATION_REVENUE, tx);
+
+    return post(tx, [
+      { accountId: studentAccount, amount: -amount },
+      { accountId: revenue, amount },
+    ], details);
+  });
+}
+
+/**
+ * Move escrow between two students (parent transfers)
+ *
+ * @param fromStudentId - Student giving escrow
+ * @param toStudentId - Student receiving escrow
+ * @param amount - Piastres to move (positive)
+ * @param details - Entry type and reference
+ * @param executor - Open transaction (optional)
+ * @returns The journal ID
+ * @throws Error if the sender's balance is insufficient
+ */
+export async function transferBetweenStudents(
+  fromStudentId: string,
+  toStudentId: string,
+  amount: number,
+  details: PostingDetails,
+  executor?: DbTransaction
+) {
+  if (fromStudentId === toStudentId) {
+    throw new Error('Cannot transfer escrow to the same student');
+  }
+
+  return withLedgerTransaction(executor, async (tx) => {
+    const from = await getStudentAccountId(fromStudentId, tx);
+    const to = await getStudentAccountId(toStudentId, tx);
+
+    return post(tx, [
+      { accountId: from, amount: -amount },
+      { accountId: to, amount },
+    ], details);
+  });
+}
+
+/**
+ * Set escrow aside for a withdrawal request
+ *
+ * The student's balance drops by the amount, so it cannot be spent at
+ * checkout while the request is open.
+ *
+ * @param studentId - The student's ID
+ * @param amount - Piastres requested (positive)
+ * @param details - Entry type and reference
+ * @param executor - Open transaction (optional)
+ * @returns The journal ID
+ * @throws Error if the balance is insufficient
+ */
+export async function holdForWithdrawal(
+  studentId: string,
+  amount: number,
+  details: PostingDetails,
+  executor?: DbTransaction
+) {
+  return withLedgerTransaction(executor, async (tx) => {
+    const studentAccount = await getStudentAccountId(studentId, tx);
+    const held = await getSystemAccountId(SYSTEM_ACCOUNTS.WITHDRAWALS_HELD, tx);
+
+    return post(tx, [
+      { accountId: studentAccount, amount: -amount },
+      { accountId: held, amount },
+    ], details);
+  });
+}
+
+/**
+ * Return held escrow to a student (withdrawal cancelled)
+ *
+ * @param studentId - The student's ID
+ * @param amount - Piastres to return (positive)
+ * @param details - Entry type and reference
+ * @param executor - Open transaction (optional)
+ * @returns The journal ID
+ */
+export async function releaseWithdrawalHold(
+  studentId: string,
+  amount: number,
+  details: PostingDetails,
+  executor?: DbTransaction
+) {
+  return withLedgerTransaction(executor, async (tx) => {
+    const studentAccount = await getStudentAccountId(studentId, tx);
+    const held = await getSystemAccountId(SYSTEM_ACCOUNTS.WITHDRAWALS_HELD, tx);
+
+    return post(tx, [
+      { accountId: held, amount: -amount },
+      { accountId: studentAccount, amount },
+    ], details);
+  });
+}
+
+/**
+ * Move held escrow to withdrawals payable (admin-fulfilled withdrawal)
+ *
+ * The student's balance already dropped when the amount was held.
+ *
+ * @param amount - Piastres released (positive)
+ * @param details - Entry type and reference
+ * @param executor - Open transaction (optional)
+ * @returns The journal ID
+ */
+export async function withdrawFromHold(
+  amount: number,
+  details: PostingDetails,
+  executor?: DbTransaction
+) {
+  return withLedgerTransaction(executor, async (tx) => {
+    const held = await getSystemAccountId(SYSTEM_ACCOUNTS.WITHDRAWALS_HELD, tx);
+    const payable = await getSystemAccountId(SYSTEM_ACCOUNTS.WITHDRAWALS_PAYABLE, tx);
+
+    return post(tx, [
+      { accountId: held, amount: -amount },
+      { accountId: payable, amount },
+    ], details);
+  });
+}
+
+/**
+ * Get a student's escrow balance (snapshot)
+ *
+ * @param studentId - The student's ID
+ * @param executor - Database client or open transaction
+ * @returns Balance in piastres (0 when the student has no account yet)
+ */
+export async function getBalance(studentId: string, executor: DbExecutor = db) {
+  const [account] = await executor
+    .select({ balance: escrowAccount.balance })
+    .from(escrowAccount)
+    .where(eq(escrowAccount.studentId, studentId));
+
+  return account?.balance ?? 0;
+}
+
+/**
+ * Get a student's escrow statement
+ *
+ * The balance is derived from the entries and checked against the
+ * snapshot; a mismatch is logged and the derived balance wins. held is
+ * what open withdrawal requests have set aside (not in the balance).
+ *
+ * @param studentId - The student's ID
+ * @param query - Pagination
+ * @returns Balance, held amount and paginated entries, newest first
+ */
+export async function getEscrowStatement(studentId: string, query: EscrowStatementQueryType) {
+  const account = await db.query.escrowAccount.findFirst({
+    where: (accounts, { eq }) => eq(accounts.studentId, studentId),
+  });
+
+  if (!account) {
+    return {
+      studentId,
+      balance: 0,
+      held: 0,
+      entries: [],
+      pagination: { page: query.page, pageSize: query.pageSize, total: 0, totalPages: 0 },
+    };
+  }
+
+  const [totals] = await db
+    .select({ derived: sum(escrowEntry.amount), entries: count() })
+    .from(escrowEntry)
+    .where(eq(escrowEntry.accountId, account.id));
+
+  const derived = Number(totals?.derived ?? 0);
+  const total = Number(totals?.entries ?? 0);
+
+  const [withdrawals] = await db
+    .select({
+      held: sql<number>`coalesce(sum(${escrowWithdrawal.amount} - ${escrowWithdrawal.fulfilledAmount}), 0)`.mapWith(Number),
+    })
+    .from(escrowWithdrawal)
+    .where(and(
+      eq(escrowWithdrawal.studentId, studentId),
+      inArray(escrowWithdrawal.status, [...OPEN_WITHDRAWAL_STATUSES])
+    ));
+
+  if (derived !== account.balance) {
+    logger.error(`[escrow] Snapshot mismatch for account ${account.id}: snapshot ${account.balance}, entries ${derived}`);
+  }
+
+  const entries = await db.query.escrowEntry.findMany({
+    where: (entries, { eq }) => eq(entries.accountId, account.id),
+    columns: {
+      id: true,
+      journalId: true,
+      amount: true,
+      balanceAfter: true,
+      entryType: true,
+      referenceType: true,
+      referenceId: true,
+      memo: true,
+      createdAt: true,
+    },
+    orderBy: (entries, { desc }) => [desc(entries.createdAt)],
+    limit: query.pageSize,
+    offset: (query.page - 1) * query.pageSize,
+  });
+
+  return {
+    studentId,
+    balance: derived,
+    held: withdrawals?.held ?? 0,
+    entries,
+    pagination: {
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+      totalPages: Math.ceil(total / query.pageSize),
+    },
+  };
+}
+
+/**
+ * Check whether a posting already exists for a domain record
+ *
+ * Lets callers make credits idempotent (e.g. one drop credit per item).
+ *
+ * @param entryType - Entry type
+ * @param referenceType - Domain record type
+ * @param referenceId - Domain record ID
+ * @param executor - Database client or open transaction
+ */
+export async function hasPosting(
+  entryType: EscrowEntryTypeType,
+  referenceType: string,
+  referenceId: string,
+  executor: DbExecutor = db
+): Promise<boolean> {
+  const [existing] = await executor
+    .select({ id: escrowEntry.id })
+    .from(escrowEntry)
+    .where(and(
+      eq(escrowEntry.entryType, entryType),
+      eq(escrowEntry.referenceType, referenceType),
+      eq(escrowEntry.referenceId, referenceId)
+    ))
+    .limit(1);
+
+  return !!existing;
+}
@@ -17,11 +17,12 @@
  * Never import from 'drizzle-orm' directly in services.
  * All drizzle operators are re-exported from @repo/db.
  */
-import { db, file, fileVariant, eq, and, desc, count } from '@repo/db'
+import { db, file, fileVariant, eq, and, desc, count, type DbExecutor } from '@repo/db'
 import { randomUUID } from 'crypto'
 import { createR2Client } from '@repo/storage'
 import { env } from '../env.js'
 import type { FileType } from '@repo/storage'
+import { recordAudit } from './audit.services.js'
 
 /**
  * Initialize R2 client
@@ -75,7 +76,7 @@ export async function uploadFile(
       id: fileId,
       name: uploadedFile.name,
       mimeType: uploadResult.mimeType,
-      size: uploadResult.size.toString(),
+      size: uploadResult.size,
       storageKey: uploadResult.key,
       // No url field - files accessed via signed URLs only
       fileType,
@@ -95,17 +96,77 @@ export async function uploadFile(
       // No url field - will generate signed URLs on-demand
       width: v.width.toString(),
       height: v.height.toString(),
-      size: v.size.toString(),
+      size: v.size,
       createdAt: now,
     }))
 
     await db.insert(fileVariant).values(variantRecords)
   }
 
+  await recordAudit({
+    action: 'file.upload',
+    entityType: 'file',
+    entityId: fileId,
+    after: fileRecord,
+  })
+
   // Return file with variants
   return getUserFile(fileId, userId)
 }
 
+/**
+ * Store a file the server generated (e.g. a PDF receipt) under a fixed key
+ *
+ * The object is written under the caller's key and the file row is
+ * inserted with the caller's executor. A retry with the same key
+ * overwrites the object instead of leaving another copy behind, and no
+ * file row exists unless the caller's transaction commits.
+ *
+ * @param data - Object key, file name, content and owner
+ * @param executor - Database client or open transaction
+ * @returns The file record
+ */
+export async function saveGeneratedFile(
+  data: {
+    storageKey: string
+    name: string
+    content: Buffer
+    mimeType: string
+    fileType: FileType
+    userId: string
+  },
+  executor: DbExecutor = db
+) {
+  await r2Client.uploadBuffer(data.storageKey, data.content, data.mimeType)
+
+  const fileId = randomUUID()
+  const now = new Date()
+
+  const [fileRecord] = await executor
+    .insert(file)
+    .values({
+      id: fileId,
+      name: data.name,
+      mimeType: data.mimeType,
+      size: data.content.length,
+      storageKey: data.storageKey,
+      fileType: data.fileType,
+      userId: data.userId,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning()
+
+  await recordAudit({
+    action: 'file.upload',
+    entityType: 'file',
+    entityId: fileId,
+    after: fileRecord,
+  }, executor)
+
+  return fileRecord!
+}
+
 /**
  * Get file by ID with ownership check
  *
@@ -240,7 +301,17 @@ export async function deleteFile(fileId: string, userId: string) {
   }
 
   // Delete from database (cascade will handle variants)
-  await db.delete(file).where(eq(file.id, fileId))
+  await db.transaction(async (tx) => {
+    await tx.delete(file).where(eq(file.id, fileId))
+
+    const { variants, ...deleted } = fileRecord
+    await recordAudit({
+      action: 'file.delete',
+      entityType: 'file',
+      entityId: fileId,
+      before: deleted,
+    }, tx)
+  })
 }
 
 /**
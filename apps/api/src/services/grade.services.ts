@@ -0,0 +1,287 @@
+/**
+ * Grade Service
+ *
+ * Grade progression: moves students up a grade when an exam session
+ * closes (GRADE-001):
+ * - November closes: Grade 12 -> Graduated, then Grade 10 -> 11
+ * - June closes:     Grade 11 -> 12
+ * - January closes:  no change
+ *
+ * Closing a window enqueues a grades.progress job in the same
+ * transaction. The job locks the window and stamps gradesProgressedAt,
+ * so progression runs at most once per window even if the job is
+ * retried or enqueued twice.
+ *
+ * Manual adjustment (GRADE-002): an admin moves a student with a
+ * reason. Refused while the student has registrations awaiting payment
+ * in the active window, unless forced, since their price and core
+ * subjects depend on the grade.
+ *
+ * Every change is appended to grade_history, recorded in the audit log
+ * and emailed to the student and their linked parents.
+ */
+
+import {
+  db,
+  gradeHistory,
+  registration,
+  registrationWindow,
+  user,
+  eq,
+  and,
+  isNull,
+  type DbExecutor,
+} from '@repo/db';
+import { randomUUID } from 'crypto';
+import {
+  GRADE_CHANGE_SOURCES,
+  GRADUATED,
+  ROLES,
+  SESSION_TYPES,
+  getStudentGrade,
+  type AdjustGradeType,
+  type Grade,
+  type SessionTypeType,
+  type StudentGrade,
+} from '@repo/validations';
+import { enqueueJob } from './job.services';
+import { recordAudit } from './audit.services';
+import { notifyUser } from './notification.services';
+
+export const GRADE_PROGRESSION_JOB = 'grades.progress';
+
+type Progression = { from: Grade; to: StudentGrade };
+
+/**
+ * The student has registrations awaiting payment in the active window
+ */
+export class PendingRegistrationsError extends Error {
+  constructor(public readonly registrationIds: string[]) {
+    super('Student has registrations awaiting payment in the active window');
+    this.name = 'PendingRegistrationsError';
+  }
+}
+
+/**
+ * Describe a grade for error messages, e.g. "Grade 11"
+ */
+function formatGrade(grade: StudentGrade | null) {
+  return grade === null ? 'none' : grade === GRADUATED ? 'Graduated' : `Grade ${grade}`;
+}
+
+/**
+ * Promotions per session type, applied in order
+ * (12 graduates before 10 moves up, so no student moves twice)
+ */
+const PROGRESSIONS: Record<SessionTypeType, Progression[]> = {
+  [SESSION_TYPES.NOVEMBER]: [
+    { from: 12, to: GRADUATED },
+    { from: 10, to: 11 },
+  ],
+  [SESSION_TYPES.JUNE]: [
+    { from: 11, to: 12 },
+  ],
+  [SESSION_TYPES.JANUARY]: [],
+};
+
+/**
+ * Queue grade progression for a closed window
+ *
+ * @param windowId - The closed window's ID
+ * @param executor - The transaction that closed the window
+ */
+export async function enqueueGradeProgression(windowId: string, executor: DbExecutor = db) {
+  return enqueueJob(
+    GRADE_PROGRESSION_JOB,
+    { windowId },
+    { dedupeKey: `${GRADE_PROGRESSION_JOB}:${windowId}` },
+    executor
+  );
+}
+
+/**
+ * Apply grade progression for a closed window
+ *
+ * @param windowId - The closed window's ID
+ * @returns Number of students moved, or null if progression already ran
+ *          or the window is not closed
+ */
+export async function progressGrades(windowId: string) {
+  return db.transaction(async (tx) => {
+    const [window] = await tx
+      .select()
+      .from(registrationWindow)
+      .where(eq(registrationWindow.id, windowId))
+      .for('update');
+
+    if (!window || window.status !== 'closed' || window.gradesProgressedAt) {
+      return null;
+    }
+
+    const now = new Date();
+    const session = `${window.sessionType} ${window.year}`;
+    let moved = 0;
+
+    for (const step of PROGRESSIONS[window.sessionType as SessionTypeType] ?? []) {
+      const graduating = step.to === GRADUATED;
+
+      const promoted = await tx
+        .update(user)
+        .set({
+          grade: graduating ? null : step.to as Grade,
+          graduatedAt: graduating ? now : null,
+          updatedAt: now,
+        })
+        .where(and(
+          eq(user.role, ROLES.STUDENT),
+          eq(user.grade, step.from),
+          isNull(user.graduatedAt)
+        ))
+        .returning({ id: user.id, grade: user.grade, graduatedAt: user.graduatedAt });
+
+      if (promoted.length > 0) {
+        await tx.insert(gradeHistory).values(promoted.map((student) => ({
+          id: randomUUID(),
+          studentId: student.id,
+          fromGrade: String(step.from),
+          toGrade: String(step.to),
+          source: GRADE_CHANGE_SOURCES.PROGRESSION,
+          reason: `${session} session closed`,
+          windowId: window.id,
+          createdAt: now,
+        })));
+      }
+
+      for (const student of promoted) {
+        await recordAudit({
+          action: 'user.grade_progression',
+          entityType: 'user',
+          entityId: student.id,
+          before: { grade: step.from, graduatedAt: null },
+          after: { grade: student.grade, graduatedAt: student.graduatedAt },
+          // System change, even when an admin closed the window
+          actorId: null,
+        }, tx);
+
+        await notifyUser(student.id, 'grade.changed', {
+          previousGrade: step.from,
+          newGrade: step.to,
+          reason: 'progression',
+          session,
+        }, tx);
+      }
+
+      moved += promoted.length;
+    }
+
+    await tx
+      .update(registrationWindow)
+      .set({ gradesProgressedAt: now, updatedAt: now })
+      .where(eq(registrationWindow.id, windowId));
+
+    return moved;
+  });
+}
+
+/**
+ * Adjust a student's grade (admin only)
+ *
+ * @param studentId - The student's ID
+ * @param data - New grade (or 'graduated'), reason and force flag
+ * @param adminId - The adjusting admin's ID
+ * @returns The student's updated grade fields
+ * @throws PendingRegistrationsError if registrations await payment and force is not set
+ * @throws Error if the user is not a student or already has that grade
+ */
+export async function adjustGrade(studentId: string, data: AdjustGradeType, adminId: string) {
+  return db.transaction(async (tx) => {
+    const [student] = await tx
+      .select({ id: user.id, role: user.role, grade: user.grade, graduatedAt: user.graduatedAt })
+      .from(user)
+      .where(eq(user.id, studentId))
+      .for('update');
+
+    if (!student || student.role !== ROLES.STUDENT) {
+      throw new Error('Student not found');
+    }
+
+    const previous = getStudentGrade(student);
+    if (previous === data.grade) {
+      throw new Error(`Student is already ${formatGrade(data.grade)}`);
+    }
+
+    if (!data.force) {
+      const pending = await tx
+        .select({ id: registration.id })
+        .from(registration)
+        .innerJoin(registrationWindow, eq(registrationWindow.id, registration.windowId))
+        .where(and(
+          eq(registration.studentId, studentId),
+          eq(registration.status, 'pending_payment'),
+          eq(registrationWindow.status, 'active')
+        ));
+
+      if (pending.length > 0) {
+        throw new PendingRegistrationsError(pending.map((row) => row.id));
+      }
+    }
+
+    const now = new Date();
+    const graduating = data.grade === GRADUATED;
+
+    const [updated] = await tx
+      .update(user)
+      .set({
+        grade: graduating ? null : data.grade as Grade,
+        graduatedAt: graduating ? student.graduatedAt ?? now : null,
+        updatedAt: now,
+      })
+      .where(eq(user.id, studentId))
+      .returning({ id: user.id, grade: user.grade, graduatedAt: user.graduatedAt });
+
+    await tx.insert(gradeHistory).values({
+      id: randomUUID(),
+      studentId,
+      fromGrade: previous === null ? null : String(previous),
+      toGrade: String(data.grade),
+      source: GRADE_CHANGE_SOURCES.ADJUSTMENT,
+      reason: data.reason,
+      changedBy: adminId,
+      createdAt: now,
+    });
+
+    await recordAudit({
+      action: 'user.adjust_grade',
+      entityType: 'user',
+      entityId: studentId,
+      before: { grade: student.grade, graduatedAt: student.graduatedAt },
+      after: { grade: updated!.grade, graduatedAt: updated!.graduatedAt, reason: data.reason },
+    }, tx);
+
+    await notifyUser(studentId, 'grade.changed', {
+      previousGrade: previous,
+      newGrade: data.grade,
+      reason: 'adjustment',
+      note: data.reason,
+    }, tx);
+
+    return updated!;
+  });
+}
+
+/**
+ * Get a student's grade timeline, oldest first
+ *
+ * @param studentId - The student's ID
+ * @returns Grade changes with the adjusting admin and triggering window
+ */
+export async function getGradeHistory(studentId: string) {
+  return db.query.gradeHistory.findMany({
+    where: (history, { eq }) => eq(history.studentId, studentId),
+    with: {
+      changer: { columns: { id: true, name: true } },
+      window: { columns: { id: true, sessionType: true, year: true } },
+    },
+    orderBy: (history, { asc }) => [asc(history.createdAt), asc(history.id)],
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Idempotency Service
+ *
+ * Stores responses to mutating requests sent with an Idempotency-Key
+ * header (see idempotency.middleware.ts):
+ * - The first request claims the key, runs, and stores its response
+ * - A retry with the same key and request gets the stored response
+ * - A retry while the first is still running is told to wait
+ * - The same key with a different request is rejected
+ *
+ * Business Rules:
+ * - Keys are scoped to the user
+ * - An attempt still in progress after IDEMPOTENCY_LOCK_TIMEOUT_MS is
+ *   treated as abandoned (e.g. the server restarted) and may be taken over
+ * - Server errors are not stored, so the client can retry them
+ * - Keys are purged after the retention period (maintenance job)
+ */
+
+import { db, idempotencyKey, eq, and, lt } from '@repo/db';
+import { randomUUID } from 'crypto';
+
+// How long an unfinished attempt blocks retries
+export const IDEMPOTENCY_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type IdempotentRequest = {
+  userId: string;
+  key: string;
+  method: string;
+  path: string;
+  requestHash: string;
+};
+
+export type StoredResponse = {
+  status: number;
+  contentType: string | null;
+  body: string;
+};
+
+export type ClaimResult =
+  | { outcome: 'claimed'; id: string }
+  | { outcome: 'replay'; response: StoredResponse }
+  | { outcome: 'in_progress' }
+  | { outcome: 'mismatch' };
+
+/**
+ * Claim an Idempotency-Key for a request
+ *
+ * @param request - User, key and request fingerprint
+ * @returns 'claimed' when the request should run, 'replay' with the
+ *          stored response, 'in_progress' while another attempt runs, or
+ *          'mismatch' when the key belongs to a different request
+ */
+export async function claimIdempotencyKey(request: IdempotentRequest): Promise<ClaimResult> {
+  const [inserted] = await db
+    .insert(idempotencyKey)
+    // Set lockedAt here (millisecond precision) so the take-over compare below matches
+    .values({ id: randomUUID(), ...request, lockedAt: new Date() })
+    .onConflictDoNothing({ target: [idempotencyKey.userId, idempotencyKey.key] })
+    .returning({ id: idempotencyKey.id });
+
+  if (inserted) {
+    return { outcome: 'claimed', id: inserted.id };
+  }
+
+  const existing = await db.query.idempotencyKey.findFirst({
+    where: (keys, { and, eq }) => and(eq(keys.userId, request.userId), eq(keys.key, request.key)),
+  });
+
+  // Purged between the insert and the read; the client can retry
+  if (!existing) {
+    return { outcome: 'in_progress' };
+  }
+
+  if (existing.requestHash !== request.requestHash) {
+    return { outcome: 'mismatch' };
+  }
+
+  if (existing.status === 'completed') {
+    return {
+      outcome: 'replay',
+      response: {
+        status: existing.responseStatus!,
+        contentType: existing.responseContentType,
+        body: existing.responseBody ?? '',
+      },
+    };
+  }
+
+  // Take over an abandoned attempt; only one retry wins the update
+  const stale = new Date(Date.now() - IDEMPOTENCY_LOCK_TIMEOUT_MS);
+  if (existing.lockedAt < stale) {
+    const [taken] = await db
+      .update(idempotencyKey)
+      .set({ lockedAt: new Date() })
+      .where(and(
+        eq(idempotencyKey.id, existing.id),
+        eq(idempotencyKey.status, 'in_progress'),
+        eq(idempotencyKey.lockedAt, existing.lockedAt)
+      ))
+      .returning({ id: idempotencyKey.id });
+
+    if (taken) {
+      return { outcome: 'claimed', id: taken.id };
+    }
+  }
+
+  return { outcome: 'in_progress' };
+}
+
+/**
+ * Store the response for a claimed key
+ *
+ * @param id - The claimed key's row ID
+ * @param response - Status, content type and body to replay
+ */
+export async function completeIdempotencyKey(id: string, response: StoredResponse) {
+  await db
+    .update(idempotencyKey)
+    .set({
+      status: 'completed',
+      responseStatus: response.status,
+      responseContentType: response.contentType,
+      responseBody: response.body,
+      completedAt: new Date(),
+    })
+    .where(eq(idempotencyKey.id, id));
+}
+
+/**
+ * Give up a claimed key so the request can be retried (server error)
+ *
+ * @param id - The claimed key's row ID
+ */
+export async function releaseIdempotencyKey(id: string) {
+  await db
+    .delete(idempotencyKey)
+    .where(and(eq(idempotencyKey.id, id), eq(idempotencyKey.status, 'in_progress')));
+}
+
+/**
+ * Delete keys older than the retention period
+ *
+ * @param retentionMs - How long keys are kept
+ * @returns Number of deleted keys
+ */
+export async function purgeExpiredIdempotencyKeys(retentionMs: number) {
+  const cutoff = new Date(Date.now() - retentionMs);
+
+  const deleted = await db
+    .delete(idempotencyKey)
+    .where(lt(idempotencyKey.createdAt, cutoff))
+    .returning({ id: idempotencyKey.id });
+
+  return deleted.length;
+}
@@ -0,0 +1,326 @@
+/**
+ * Job Service
+ *
+ * Data access for the Postgres-backed background job queue:
+ * - Enqueuing jobs (optionally inside a caller's transaction)
+ * - Claiming due jobs with FOR UPDATE SKIP LOCKED
+ * - Completing / failing jobs with exponential backoff and dead-lettering
+ * - Admin inspection and re-running of dead jobs
+ *
+ * The worker loop that drives these functions lives in `src/jobs/runner.ts`.
+ *
+ * Pooling note: every operation here is a single statement (or a short
+ * transaction), and nothing relies on session state such as advisory locks
+ * or LISTEN/NOTIFY, so it works behind PgBouncer in transaction mode.
+ */
+
+import { db, job, eq, and, lte, lt, inArray, count, sql, type DbExecutor } from '@repo/db';
+import { randomUUID } from 'crypto';
+import type { JobQueryFiltersType } from '@repo/validations';
+import { logger } from '../lib/logger';
+import { recordAudit } from './audit.services';
+
+/**
+ * Retry backoff: 30s, 1m, 2m, 4m, ... capped at 1 hour
+ */
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+export type EnqueueJobOptions = {
+  // Earliest run time (default: now)
+  runAt?: Date;
+  // Attempts before the job is dead-lettered (default: 5)
+  maxAttempts?: number;
+  // Skip enqueuing if a job with this key already exists
+  dedupeKey?: string;
+};
+
+/**
+ * Enqueue a job
+ *
+ * Pass a transaction as `executor` to enqueue atomically with a domain change.
+ *
+ * @param type - Registered handler name
+ * @param payload - Handler input (must be JSON-serializable)
+ * @param options - Scheduling options
+ * @param executor - Database client or open transaction
+ * @returns The created job, or undefined if the dedupe key already exists
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, unknown> = {},
+  options: EnqueueJobOptions = {},
+  executor: DbExecutor = db
+) {
+  const now = new Date();
+
+  const [created] = await executor
+    .insert(job)
+    .values({
+      id: randomUUID(),
+      type,
+      payload,
+      status: 'pending',
+      runAt: options.runAt ?? now,
+      maxAttempts: options.maxAttempts ?? 5,
+      dedupeKey: options.dedupeKey,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoNothing({ target: job.dedupeKey })
+    .returning();
+
+  return created;
+}
+
+/**
+ * Claim due jobs for a worker
+ *
+ * A single UPDATE ... WHERE id IN (SELECT ... FOR UPDATE SKIP LOCKED)
+ * so concurrent workers never claim the same job.
+ *
+ * @param workerId - Identifier of the claiming worker
+ * @param limit - Maximum number of jobs to claim
+ * @returns The claimed jobs (status 'running', attempts incremented)
+ */
+export async function claimDueJobs(workerId: string, limit: number) {
+  const now = new Date();
+
+  const due = db
+    .select({ id: job.id })
+    .from(job)
+    .where(and(
+      eq(job.status, 'pending'),
+      lte(job.runAt, now)
+    ))
+    .orderBy(job.runAt)
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  return db
+    .update(job)
+    .set({
+      status: 'running',
+      lockedBy: workerId,
+      lockedAt: now,
+      attempts: sql`${job.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(inArray(job.id, due))
+    .returning();
+}
+
+/**
+ * Mark a job as completed
+ *
+ * @param jobId - The job's ID
+ */
+export async function completeJob(jobId: string) {
+  const now = new Date();
+
+  await db
+    .update(job)
+    .set({
+      status: 'completed',
+      completedAt: now,
+      lockedBy: null,
+      lockedAt: null,
+      lastError: null,
+      updatedAt: now,
+    })
+    .where(eq(job.id, jobId));
+}
+
+/**
+ * Record a failed attempt
+ *
+ * Reschedules with exponential backoff, or dead-letters the job once
+ * it has used all of its attempts.
+ *
+ * @param claimed - The job as returned by claimDueJobs()
+ * @param message - Error message to store
+ * @param retryable - false to dead-letter immediately
+ * @returns The new status ('pending' or 'dead')
+ */
+export async function failJob(
+  claimed: { id: string; attempts: number; maxAttempts: number },
+  message: string,
+  retryable = true
+) {
+  const now = new Date();
+  const exhausted = !retryable || claimed.attempts >= claimed.maxAttempts;
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(claimed.attempts - 1, 0), BACKOFF_MAX_MS);
+
+  const status = exhausted ? 'dead' : 'pending';
+
+  await db
+    .update(job)
+    .set({
+      status,
+      runAt: exhausted ? undefined : new Date(now.getTime() + delay),
+      lastError: message.slice(0, 2000),
+      lockedBy: null,
+      lockedAt: null,
+      updatedAt: now,
+    })
+    .where(eq(job.id, claimed.id));
+
+  return status;
+}
+
+/**
+ * Release jobs whose worker died mid-run
+ *
+ * Jobs stuck in 'running' longer than the lock timeout go back to 'pending',
+ * unless that was their last attempt: a job that keeps crashing the worker
+ * is dead-lettered instead of being claimed again.
+ *
+ * @param lockTimeoutMs - How long a job may stay running
+ * @returns Number of released jobs (pending again or dead)
+ */
+export async function releaseStaleJobs(lockTimeoutMs: number) {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - lockTimeoutMs);
+
+  const released = await db
+    .update(job)
+    .set({
+      status: sql`case when ${job.attempts} >= ${job.maxAttempts} then 'dead' else 'pending' end`,
+      lockedBy: null,
+      lockedAt: null,
+      lastError: 'Lock expired (worker stopped before finishing)',
+      updatedAt: now,
+    })
+    .where(and(
+      eq(job.status, 'running'),
+      lt(job.lockedAt, cutoff)
+    ))
+    .returning({ id: job.id, status: job.status });
+
+  const dead = released.filter((stale) => stale.status === 'dead').length;
+  if (dead > 0) {
+    logger.error(`[jobs] Dead-lettered ${dead} job(s) that used their last attempt on a stopped worker`);
+  }
+
+  return released.length;
+}
+
+/**
+ * List jobs (admin)
+ *
+ * @param filters - Status / type filters and pagination
+ * @returns Paginated job list, newest first
+ */
+export async function getJobs(filters: JobQueryFiltersType) {
+  const conditions = [];
+  if (filters.status) conditions.push(eq(job.status, filters.status));
+  if (filters.type) conditions.push(eq(job.type, filters.type));
+
+  const where = conditions.length > 0 ? and(...conditions) : undefined;
+  const offset = (filters.page - 1) * filters.pageSize;
+
+  const jobs = await db.query.job.findMany({
+    where,
+    orderBy: (jobs, { desc }) => [desc(jobs.createdAt)],
+    limit: filters.pageSize,
+    offset,
+  });
+
+  const [countResult] = await db
+    .select({ count: count() })
+    .from(job)
+    .where(where);
+
+  const total = Number(countResult?.count ?? 0);
+
+  return {
+    data: jobs,
+    pagination: {
+      page: filters.page,
+      pageSize: filters.pageSize,
+      total,
+      totalPages: Math.ceil(total / filters.pageSize),
+    },
+  };
+}
+
+/**
+ * Get a job by ID (admin)
+ *
+ * @param jobId - The job's ID
+ * @returns The job or undefined
+ */
+export async function getJobById(jobId: string) {
+  return db.query.job.findFirst({
+    where: (jobs, { eq }) => eq(jobs.id, jobId),
+  });
+}
+
+/**
+ * Re-run a dead job (admin)
+ *
+ * Resets attempts and schedules the job to run immediately.
+ *
+ * @param jobId - The job's ID
+ * @returns The rescheduled job, or undefined if it is not dead
+ */
+export async function retryJob(jobId: string) {
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(job)
+      .where(and(
+        eq(job.id, jobId),
+        eq(job.status, 'dead')
+      ))
+      .for('update');
+
+    if (!current) return undefined;
+
+    const [retried] = await tx
+      .update(job)
+      .set({
+        status: 'pending',
+        attempts: 0,
+        runAt: now,
+        lastError: null,
+        updatedAt: now,
+      })
+      .where(eq(job.id, jobId))
+      .returning();
+
+    await recordAudit({
+      action: 'job.retry',
+      entityType: 'job',
+      entityId: jobId,
+      before: { status: current.status, attempts: current.attempts, lastError: current.lastError },
+      after: { status: retried!.status, attempts: retried!.attempts, lastError: retried!.lastError },
+    }, tx);
+
+    return retried;
+  });
+}
+
+/**
+ * Delete completed jobs older than the retention period
+ *
+ * Dead jobs are kept so admins can inspect and re-run them.
+ *
+ * @param retentionMs - How long completed jobs are kept
+ * @returns Number of deleted jobs
+ */
+export async function purgeCompletedJobs(retentionMs: number) {
+  const cutoff = new Date(Date.now() - retentionMs);
+
+  const deleted = await db
+    .delete(job)
+    .where(and(
+      eq(job.status, 'completed'),
+      lt(job.completedAt, cutoff)
+    ))
+    .returning({ id: job.id });
+
+  return deleted.length;
+}
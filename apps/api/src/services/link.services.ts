@@ -11,11 +11,43 @@
  * - Only students can respond to link requests
  * - A parent-student pair can only have one active (pending/approved) link
  * - Admins can remove any link
+ * - Requests, responses and removals are recorded in the audit trail
+ * - A student who changed their email can still be found by the old
+ *   address for CHANGED_EMAIL_LOOKUP_GRACE_DAYS after the change is
+ *   confirmed; an unconfirmed new address never matches
  */
 
-import { db, parentStudentLink, user, eq, and, or } from '@repo/db';
+import { db, parentStudentLink, user, eq, and, or, type DbExecutor } from '@repo/db';
 import { randomUUID } from 'crypto';
 import type { CreateLinkRequestType, RespondToLinkType } from '@repo/validations';
+import { recordAudit } from './audit.services';
+
+const CHANGED_EMAIL_LOOKUP_GRACE_DAYS = 30;
+
+/**
+ * Find a user by an address they recently changed away from
+ *
+ * Only confirmed changes count: an address someone asked to change to
+ * is not proven to be theirs until they confirm it.
+ *
+ * @param email - Address to look up (any case)
+ * @returns The user ID, or undefined if no confirmed change in the grace period left the address
+ */
+async function findUserIdByPreviousEmail(email: string) {
+  const address = email.trim().toLowerCase();
+  const graceStart = new Date(Date.now() - CHANGED_EMAIL_LOOKUP_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+  const change = await db.query.emailChange.findFirst({
+    where: (changes, { and, eq, gt }) => and(
+      eq(changes.previousEmail, address),
+      gt(changes.confirmedAt, graceStart)
+    ),
+    orderBy: (changes, { desc }) => [desc(changes.confirmedAt)],
+    columns: { userId: true },
+  });
+
+  return change?.userId;
+}
 
 /**
  * Create a link request from parent to student
@@ -30,7 +62,7 @@ export async function createLinkRequest(
   identifier: { studentEmail?: string; studentIdentifier?: string }
 ) {
   // Find the student by email or studentId
-  const student = await db.query.user.findFirst({
+  let student = await db.query.user.findFirst({
     where: (users, { or, eq, and }) => and(
       eq(users.role, 'student'),
       or(
@@ -40,6 +72,16 @@ export async function createLinkRequest(
     ),
   });
 
+  // The student may have recently changed their email: try the old address
+  if (!student && identifier.studentEmail) {
+    const previousOwnerId = await findUserIdByPreviousEmail(identifier.studentEmail);
+    student = previousOwnerId
+      ? await db.query.user.findFirst({
+          where: (users, { eq, and }) => and(eq(users.role, 'student'), eq(users.id, previousOwnerId)),
+        })
+      : undefined;
+  }
+
   if (!student) {
     throw new Error('Student not found');
   }
@@ -67,20 +109,29 @@ export async function createLinkRequest(
   const id = randomUUID();
   const now = new Date();
 
-  const [created] = await db
-    .insert(parentStudentLink)
-    .values({
-      id,
-      parentId,
-      studentId: student.id,
-      status: 'pending',
-      requestedAt: now,
-      createdAt: now,
-      updatedAt: now,
-    })
-    .returning();
+  return db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(parentStudentLink)
+      .values({
+        id,
+        parentId,
+        studentId: student.id,
+        status: 'pending',
+        requestedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    await recordAudit({
+      action: 'link.request',
+      entityType: 'parent_student_link',
+      entityId: id,
+      after: created,
+    }, tx);
 
-  return created;
+    return created;
+  });
 }
 
 /**
@@ -163,17 +214,34 @@ export async function respondToLinkRequest(
   }
 
   // Update the link status
-  const [updated] = await db
-    .update(parentStudentLink)
-    .set({
-      status: response.status,
-      respondedAt: new Date(),
-      updatedAt: new Date(),
-    })
-    .where(eq(parentStudentLink.id, linkId))
-    .returning();
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(parentStudentLink)
+      .set({
+        status: response.status,
+        respondedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(and(
+        eq(parentStudentLink.id, linkId),
+        eq(parentStudentLink.status, 'pending')
+      ))
+      .returning();
+
+    if (!updated) {
+      throw new Error('Link request not found or already processed');
+    }
+
+    await recordAudit({
+      action: response.status === 'approved' ? 'link.approve' : 'link.reject',
+      entityType: 'parent_student_link',
+      entityId: linkId,
+      before: link,
+      after: updated,
+    }, tx);
 
-  return updated;
+    return updated;
+  });
 }
 
 /**
@@ -195,6 +263,7 @@ export async function getLinkedChildren(parentId: string) {
           name: true,
           email: true,
           grade: true,
+          graduatedAt: true,
           studentId: true,
           phone: true,
         },
@@ -208,10 +277,11 @@ export async function getLinkedChildren(parentId: string) {
  * Get all linked parents for a student
  * 
  * @param studentId - The student's user ID
+ * @param executor - Database client or open transaction
  * @returns Array of approved links with parent info
  */
-export async function getLinkedParents(studentId: string) {
-  return db.query.parentStudentLink.findMany({
+export async function getLinkedParents(studentId: string, executor: DbExecutor = db) {
+  return executor.query.parentStudentLink.findMany({
     where: (links, { and, eq }) => and(
       eq(links.studentId, studentId),
       eq(links.status, 'approved')
@@ -235,13 +305,15 @@ export async function getLinkedParents(studentId: string) {
  * 
  * @param parentId - The parent's user ID
  * @param studentId - The student's user ID
+ * @param executor - Database client or open transaction
  * @returns true if the parent is linked (approved) to the student
  */
 export async function isParentLinkedToStudent(
   parentId: string,
-  studentId: string
+  studentId: string,
+  executor: DbExecutor = db
 ): Promise<boolean> {
-  const link = await db.query.parentStudentLink.findFirst({
+  const link = await executor.query.parentStudentLink.findFirst({
     where: (links, { and, eq }) => and(
       eq(links.parentId, parentId),
       eq(links.studentId, studentId),
@@ -252,6 +324,27 @@ export async function isParentLinkedToStudent(
   return !!link;
 }
 
+/**
+ * Check if a user may act on a student's behalf
+ *
+ * - Students may act for themselves
+ * - Parents may act for linked (approved) students
+ * - Admins may act for any student
+ *
+ * @param actor - The acting user
+ * @param studentId - The student's user ID
+ * @returns true if the actor may access the student's data
+ */
+export async function canActForStudent(
+  actor: { id: string; role?: string | null },
+  studentId: string
+): Promise<boolean> {
+  if (actor.role === 'admin') return true;
+  if (actor.role === 'student') return actor.id === studentId;
+  if (actor.role === 'parent') return isParentLinkedToStudent(actor.id, studentId);
+  return false;
+}
+
 /**
  * Get a link by ID
  * 
@@ -288,7 +381,21 @@ export async function getLinkById(linkId: string) {
  * @param linkId - The link request ID
  */
 export async function deleteLink(linkId: string) {
-  await db.delete(parentStudentLink).where(eq(parentStudentLink.id, linkId));
+  await db.transaction(async (tx) => {
+    const [deleted] = await tx
+      .delete(parentStudentLink)
+      .where(eq(parentStudentLink.id, linkId))
+      .returning();
+
+    if (deleted) {
+      await recordAudit({
+        action: 'link.delete',
+        entityType: 'parent_student_link',
+        entityId: linkId,
+        before: deleted,
+      }, tx);
+    }
+  });
 }
 
 /**
@@ -0,0 +1,326 @@
+/**
+ * Notification Service
+ *
+ * Transactional email outbox (NOT-001..NOT-007):
+ * - Queuing notifications inside the caller's transaction
+ * - Dispatching queued notifications through the configured transport
+ *
+ * Business Rules:
+ * - A notification is queued in the same transaction as the domain
+ *   change, so it exists if and only if the change commits
+ * - When the recipient is a student, every linked parent gets a copy
+ *   naming the child it concerns (NOT-007); account emails carrying
+ *   sign-in links (verification, password reset) go to the user only
+ * - Templates are rendered at send time from the stored props;
+ *   attachments are stored files, downloaded from R2 at send time
+ * - Failed sends are retried with exponential backoff; permanent
+ *   failures (rejected address, unknown template) stop immediately
+ *
+ * Pooling note: claims are a single UPDATE ... FOR UPDATE SKIP LOCKED and
+ * sending happens outside any transaction, so this works behind PgBouncer
+ * in transaction mode.
+ */
+
+import {
+  db,
+  notification,
+  eq,
+  and,
+  lte,
+  lt,
+  inArray,
+  sql,
+  type DbExecutor,
+  type NotificationAttachment,
+} from '@repo/db';
+import {
+  createEmailTransport,
+  isEmailTemplate,
+  renderEmail,
+  EmailTransportError,
+  type BaseEmailProps,
+  type EmailTemplateName,
+  type EmailTemplateProps,
+} from '@repo/emails';
+import { createR2Client } from '@repo/storage';
+import { randomUUID } from 'crypto';
+import { env } from '../env';
+import { logger } from '../lib/logger';
+import { getLinkedParents } from './link.services';
+
+/**
+ * Email transport (singleton)
+ */
+const transport = createEmailTransport({
+  transport: env.EMAIL_TRANSPORT,
+  smtp: env.SMTP_HOST
+    ? {
+        host: env.SMTP_HOST,
+        port: env.SMTP_PORT,
+        secure: env.SMTP_SECURE,
+        user: env.SMTP_USER || undefined,
+        password: env.SMTP_PASSWORD || undefined,
+      }
+    : undefined,
+  fileDirectory: env.EMAIL_FILE_DIR,
+});
+
+/**
+ * Storage for attachments
+ */
+const r2Client = createR2Client({
+  accountId: env.R2_ACCOUNT_ID,
+  accessKeyId: env.R2_ACCESS_KEY_ID,
+  secretAccessKey: env.R2_SECRET_ACCESS_KEY,
+  bucketName: env.R2_BUCKET_NAME,
+});
+
+/**
+ * Retry backoff: 1m, 2m, 4m, ... capped at 1 hour
+ */
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Sends stuck in 'sending' longer than this are retried
+ */
+const SEND_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Template props supplied by the caller (recipient fields are filled in)
+ */
+export type NotificationData<N extends EmailTemplateName> =
+  Omit<EmailTemplateProps<N>, keyof BaseEmailProps>;
+
+/**
+ * Queue an email to a user
+ *
+ * Pass the domain change's transaction as `executor`. Students' linked
+ * parents receive a copy, with the same attachments, unless
+ * `includeParents` is false (account emails such as sign-in links).
+ * `recipientEmail` sends to an address the user does not have yet (a
+ * new email awaiting confirmation); parents are then never copied.
+ *
+ * @param userId - Recipient user ID
+ * @param template - @repo/emails template name
+ * @param data - Template props
+ * @param executor - Database client or open transaction
+ * @param options.attachments - Stored files to attach
+ * @param options.includeParents - Copy linked parents (default true)
+ * @param options.recipientEmail - Send here instead of the user's email
+ * @returns Number of notifications queued (0 if the user does not exist)
+ */
+export async function notifyUser<N extends EmailTemplateName>(
+  userId: string,
+  template: N,
+  data: NotificationData<N>,
+  executor: DbExecutor = db,
+  options: { attachments?: NotificationAttachment[]; includeParents?: boolean; recipientEmail?: string } = {}
+) {
+  const attachments = options.attachments?.length ? options.attachments : null;
+
+  const recipient = await executor.query.user.findFirst({
+    where: (users, { eq }) => eq(users.id, userId),
+    columns: { id: true, name: true, email: true, role: true },
+  });
+
+  if (!recipient) return 0;
+
+  const now = new Date();
+  const rows: (typeof notification.$inferInsert)[] = [{
+    id: randomUUID(),
+    userId: recipient.id,
+    recipientEmail: options.recipientEmail ?? recipient.email,
+    template,
+    data: { ...data, recipientName: recipient.name },
+    attachments,
+    createdAt: now,
+    updatedAt: now,
+  }];
+
+  if (recipient.role === 'student' && options.includeParents !== false && !options.recipientEmail) {
+    const links = await getLinkedParents(recipient.id, executor);
+
+    for (const link of links) {
+      rows.push({
+        id: randomUUID(),
+        userId: link.parent.id,
+        recipientEmail: link.parent.email,
+        template,
+        data: {
+          ...data,
+          recipientName: link.parent.name,
+          regarding: { name: recipient.name },
+        },
+        attachments,
+        regardingStudentId: recipient.id,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  }
+
+  await executor.insert(notification).values(rows);
+
+  return rows.length;
+}
+
+/**
+ * Claim due notifications for sending
+ *
+ * @param limit - Maximum number to claim
+ * @returns Claimed notifications (status 'sending', attempts incremented)
+ */
+async function claimDueNotifications(limit: number) {
+  const now = new Date();
+
+  const due = db
+    .select({ id: notification.id })
+    .from(notification)
+    .where(and(
+      eq(notification.status, 'pending'),
+      lte(notification.nextAttemptAt, now)
+    ))
+    .orderBy(notification.nextAttemptAt)
+    .limit(limit)
+    .for('update', { skipLocked: true });
+
+  return db
+    .update(notification)
+    .set({
+      status: 'sending',
+      lockedAt: now,
+      attempts: sql`${notification.attempts} + 1`,
+      updatedAt: now,
+    })
+    .where(inArray(notification.id, due))
+    .returning();
+}
+
+/**
+ * Put notifications whose send never finished back in the queue
+ */
+async function releaseStaleNotifications() {
+  const now = new Date();
+
+  const released = await db
+    .update(notification)
+    .set({
+      status: 'pending',
+      lockedAt: null,
+      lastError: 'Send did not finish (dispatcher stopped)',
+      updatedAt: now,
+    })
+    .where(and(
+      eq(notification.status, 'sending'),
+      lt(notification.lockedAt, new Date(now.getTime() - SEND_LOCK_TIMEOUT_MS))
+    ))
+    .returning({ id: notification.id });
+
+  return released.length;
+}
+
+/**
+ * Record a failed attempt (retry with backoff, or give up)
+ */
+async function failNotification(
+  claimed: typeof notification.$inferSelect,
+  message: string,
+  retryable: boolean
+) {
+  const now = new Date();
+  const exhausted = !retryable || claimed.attempts >= claimed.maxAttempts;
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(claimed.attempts - 1, 0), BACKOFF_MAX_MS);
+
+  await db
+    .update(notification)
+    .set({
+      status: exhausted ? 'failed' : 'pending',
+      nextAttemptAt: exhausted ? undefined : new Date(now.getTime() + delay),
+      lockedAt: null,
+      lastError: message.slice(0, 2000),
+      updatedAt: now,
+    })
+    .where(eq(notification.id, claimed.id));
+
+  return exhausted ? 'failed' : 'pending';
+}
+
+/**
+ * Render and send one claimed notification
+ */
+async function sendNotification(claimed: typeof notification.$inferSelect) {
+  if (!isEmailTemplate(claimed.template)) {
+    await failNotification(claimed, `Unknown template ${claimed.template}`, false);
+    return false;
+  }
+
+  try {
+    const rendered = await renderEmail(
+      claimed.template,
+      claimed.data as unknown as EmailTemplateProps<typeof claimed.template>
+    );
+
+    const attachments = await Promise.all(
+      (claimed.attachments ?? []).map(async (attachment) => ({
+        filename: attachment.fileName,
+        content: await r2Client.downloadFile(attachment.storageKey),
+        contentType: attachment.contentType,
+      }))
+    );
+
+    const result = await transport.send({
+      to: claimed.recipientEmail,
+      from: env.EMAIL_FROM,
+      ...rendered,
+      headers: { 'X-Notification-Id': claimed.id },
+      attachments,
+    });
+
+    const now = new Date();
+
+    await db
+      .update(notification)
+      .set({
+        status: 'sent',
+        messageId: result.messageId,
+        sentAt: now,
+        lockedAt: null,
+        lastError: null,
+        updatedAt: now,
+      })
+      .where(eq(notification.id, claimed.id));
+
+    return true;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const retryable = !(err instanceof EmailTransportError && err.permanent);
+    const status = await failNotification(claimed, message, retryable);
+
+    logger.warn(`[notifications] ${claimed.template} to ${claimed.recipientEmail} failed, now ${status}: ${message}`);
+    return false;
+  }
+}
+
+/**
+ * Send due notifications (dispatcher job)
+ *
+ * @param limit - Maximum number to send in this run
+ * @returns Counts of sent and failed notifications
+ */
+export async function dispatchNotifications(limit = 50) {
+  const released = await releaseStaleNotifications();
+  if (released > 0) {
+    logger.warn(`[notifications] Released ${released} stale send(s)`);
+  }
+
+  const claimed = await claimDueNotifications(limit);
+  let sent = 0;
+
+  // One at a time to stay within SMTP relay rate limits
+  for (const item of claimed) {
+    if (await sendNotification(item)) sent++;
+  }
+
+  return { sent, failed: claimed.length - sent };
+}
@@ -0,0 +1,609 @@
+/**
+ * Payment Service
+ *
+ * Manages registration payments through @repo/payments providers:
+ * - Starting a checkout for a pending registration
+ * - Applying provider webhooks (idempotent)
+ * - Expiring unpaid payments (background job)
+ * - Top-up payments for registration changes (see registration-change.services.ts)
+ * - Bank transfers, confirmed by an admin (see bank-transfer.services.ts)
+ * - Settling simulated payments outside production
+ *
+ * Business Rules:
+ * - Only registrations awaiting payment in an open window can be paid
+ * - Checkout is rejected while a core subject is missing (CORE-002)
+ * - One pending payment per registration (`payment_single_pending_idx`)
+ * - Each webhook event is stored once per (provider, eventId); a
+ *   re-delivered event is acknowledged without being applied again
+ * - A succeeded payment confirms its registration in the same transaction;
+ *   a top-up payment settles its registration change instead
+ * - Money captured for a registration that is no longer awaiting payment
+ *   (expired, cancelled or paid another way) is credited to the
+ *   student's escrow in the same transaction
+ * - Refunds reported by a gateway are not applied: the registration
+ *   stays confirmed, so an admin must resolve them
+ * - Every succeeded payment gets a PDF receipt (see receipt.services.ts)
+ * - Paying from escrow debits the ledger and confirms the registration
+ *   in one serializable transaction, and gets a receipt too
+ */
+
+import {
+  db,
+  payment,
+  paymentWebhookEvent,
+  eq,
+  and,
+  isUniqueViolation,
+  registration,
+  serializableTransaction,
+  type DbTransaction,
+} from '@repo/db';
+import { createPaymentProviders, PaymentProviderError } from '@repo/payments';
+import type { WebhookRequest } from '@repo/payments';
+import { randomUUID } from 'crypto';
+import { BANK_TRANSFER } from '@repo/validations';
+import type {
+  CheckoutMethodType,
+  CreatePaymentType,
+  PayWithEscrowType,
+  PaymentProviderNameType,
+  PaymentStatusType,
+  SimulatePaymentType,
+} from '@repo/validations';
+import { env } from '../env';
+import { logger } from '../lib/logger';
+import { enqueueJob } from './job.services';
+import { confirmRegistrations } from './registration.services';
+import { recordAudit } from './audit.services';
+import { assertCoreSubjectsHeld, assertNotGraduated } from './registration-rules.services';
+import { creditStudent, debitStudent } from './escrow.services';
+import { settleTopUp } from './registration-change.services';
+import { createBankTransferIntent, creditUnappliedReceipts } from './bank-transfer.services';
+import { enqueueEscrowReceipt, enqueueReceipt } from './receipt.services';
+
+/**
+ * Provider adapters (singleton)
+ *
+ * All providers currently run against the local simulator.
+ */
+const providers = createPaymentProviders({
+  webhookSecret: env.PAYMENTS_WEBHOOK_SECRET,
+});
+
+/**
+ * Job type that expires an unpaid payment
+ */
+export const EXPIRE_PAYMENT_JOB = 'payments.expire';
+
+/**
+ * Allowed status transitions (webhooks and bank transfer confirmation)
+ *
+ * A gateway may report success after we expired a payment locally
+ * (e.g. a Fawry code paid at the last minute), so succeeded is
+ * accepted from failed / expired as well.
+ *
+ * refunded is not accepted: nothing here would unconfirm the
+ * registration it paid for.
+ */
+const PAYMENT_TRANSITIONS: Record<string, string[]> = {
+  succeeded: ['pending', 'failed', 'expired'],
+  failed: ['pending'],
+  expired: ['pending'],
+};
+
+/**
+ * A payment to start inside a transaction
+ */
+export type StartPaymentInput = {
+  registrationId: string;
+  // Set when the payment tops up a drop / swap / switch
+  registrationChangeId?: string;
+  payerId: string;
+  provider: CheckoutMethodType;
+  walletNumber?: string;
+  amount: number;
+  description: string;
+  customer: { name: string; email: string };
+};
+
+/**
+ * Create a provider intent and record the pending payment
+ *
+ * Runs in the caller's transaction together with the expiry job, so the
+ * payment only exists if whatever it pays for was committed too.
+ *
+ * @param tx - Open transaction
+ * @param input - What to charge and who pays
+ * @returns The new payment's ID
+ * @throws Error if the provider rejects the payment or one is already pending
+ */
+export async function startPayment(tx: DbTransaction, input: StartPaymentInput) {
+  const id = randomUUID();
+
+  let intent;
+  try {
+    intent = input.provider === BANK_TRANSFER
+      ? createBankTransferIntent(input.amount)
+      : await providers[input.provider].createIntent({
+          reference: id,
+          amount: input.amount,
+          description: input.description,
+          customer: { ...input.customer, phone: input.walletNumber },
+        });
+  } catch (err) {
+    if (err instanceof PaymentProviderError) {
+      throw new Error(err.message);
+    }
+    throw err;
+  }
+
+  const now = new Date();
+
+  try {
+    await tx.insert(payment).values({
+      id,
+      registrationId: input.registrationId,
+      registrationChangeId: input.registrationChangeId,
+      payerId: input.payerId,
+      provider: input.provider,
+      providerReference: intent.providerReference,
+      status: 'pending',
+      amount: intent.amount,
+      nextAction: intent.nextAction,
+      expiresAt: intent.expiresAt,
+      createdAt: now,
+      updatedAt: now,
+    });
+  } catch (err) {
+    if (isUniqueViolation(err, 'payment_single_pending_idx')) {
+      throw new Error('A payment is already in progress for this registration');
+    }
+    throw err;
+  }
+
+  await recordAudit({
+    action: 'payment.create',
+    entityType: 'payment',
+    entityId: id,
+    after: {
+      registrationId: input.registrationId,
+      registrationChangeId: input.registrationChangeId ?? null,
+      payerId: input.payerId,
+      provider: input.provider,
+      providerReference: intent.providerReference,
+      status: 'pending',
+      amount: intent.amount,
+      expiresAt: intent.expiresAt,
+    },
+  }, tx);
+
+  await enqueueJob(EXPIRE_PAYMENT_JOB, { paymentId: id }, {
+    runAt: intent.expiresAt,
+    dedupeKey: `payment-expire:${id}`,
+  }, tx);
+
+  return id;
+}
+
+/**
+ * Start a checkout for a registration
+ *
+ * @param data - Registration, provider and wallet number
+ * @param payerId - The paying user's ID (student or parent)
+ * @returns The pending payment with next action for the payer
+ * @throws Error if the registration cannot be paid
+ */
+export async function createPayment(data: CreatePaymentType, payerId: string) {
+  const target = await db.query.registration.findFirst({
+    where: (registrations, { eq }) => eq(registrations.id, data.registrationId),
+    with: {
+      window: true,
+      student: { columns: { id: true, name: true, email: true, grade: true, graduatedAt: true } },
+    },
+  });
+
+  if (!target) {
+    throw new Error('Registration not found');
+  }
+
+  if (target.status !== 'pending_payment') {
+    throw new Error('Registration is not awaiting payment');
+  }
+
+  if (target.window.status !== 'active' || target.window.endsAt <= new Date()) {
+    throw new Error('Registration is closed');
+  }
+
+  assertNotGraduated(target.student);
+  await assertCoreSubjectsHeld(target.student, target.window, target.id);
+
+  const existing = await db.query.payment.findFirst({
+    where: (payments, { eq, and }) => and(
+      eq(payments.registrationId, target.id),
+      eq(payments.status, 'pending')
+    ),
+    columns: { id: true },
+  });
+
+  if (existing) {
+    throw new Error('A payment is already in progress for this registration');
+  }
+
+  const id = await db.transaction((tx) => startPayment(tx, {
+    registrationId: target.id,
+    payerId,
+    provider: data.provider,
+    walletNumber: data.walletNumber,
+    amount: target.totalAmount,
+    description: `Exam registration ${target.window.sessionType} ${target.window.year}`,
+    customer: { name: target.student.name, email: target.student.email },
+  }));
+
+  return getPaymentById(id);
+}
+
+/**
+ * Pay a registration from the student's escrow balance
+ *
+ * The registration row is locked so a concurrent gateway checkout or
+ * escrow payment cannot confirm it twice. The receipt is queued in the
+ * same transaction.
+ *
+ * @param data - Registration to pay
+ * @param payerId - The paying user's ID (student or parent)
+ * @returns The confirmed registration
+ * @throws Error if the registration cannot be paid or escrow is insufficient
+ */
+export async function payWithEscrow(data: PayWithEscrowType, payerId: string) {
+  return serializableTransaction(async (tx) => {
+    const [target] = await tx
+      .select()
+      .from(registration)
+      .where(eq(registration.id, data.registrationId))
+      .for('update');
+
+    if (!target) {
+      throw new Error('Registration not found');
+    }
+
+    if (target.status !== 'pending_payment') {
+      throw new Error('Registration is not awaiting payment');
+    }
+
+    const [window, student, pending] = await Promise.all([
+      tx.query.registrationWindow.findFirst({
+        where: (windows, { eq }) => eq(windows.id, target.windowId),
+      }),
+      tx.query.user.findFirst({
+        where: (users, { eq }) => eq(users.id, target.studentId),
+        columns: { id: true, grade: true, graduatedAt: true },
+      }),
+      tx.query.payment.findFirst({
+        where: (payments, { eq, and }) => and(
+          eq(payments.registrationId, target.id),
+          eq(payments.status, 'pending')
+        ),
+        columns: { id: true },
+      }),
+    ]);
+
+    if (!window || window.status !== 'active' || window.endsAt <= new Date()) {
+      throw new Error('Registration is closed');
+    }
+
+    if (pending) {
+      throw new Error('A payment is already in progress for this registration');
+    }
+
+    assertNotGraduated(student!);
+    await assertCoreSubjectsHeld(student!, window, target.id, tx);
+
+    if (target.totalAmount > 0) {
+      await debitStudent(target.studentId, target.totalAmount, {
+        entryType: 'checkout_debit',
+        referenceType: 'registration',
+        referenceId: target.id,
+        memo: `Exam registration ${window.sessionType} ${window.year}`,
+        createdBy: payerId,
+      }, tx);
+    }
+
+    const [confirmed] = await confirmRegistrations([target.id], 'escrow', tx);
+
+    if (target.totalAmount > 0) {
+      await enqueueEscrowReceipt(target.id, tx);
+    }
+
+    return confirmed;
+  });
+}
+
+/**
+ * Get a payment by ID
+ *
+ * @param paymentId - The payment's ID
+ * @returns The payment with its registration, or undefined
+ */
+export async function getPaymentById(paymentId: string) {
+  return db.query.payment.findFirst({
+    where: (payments, { eq }) => eq(payments.id, paymentId),
+    with: {
+      registration: {
+        columns: { id: true, studentId: true, status: true, totalAmount: true },
+      },
+    },
+  });
+}
+
+/**
+ * Keep a captured payment whose registration can no longer be confirmed
+ *
+ * Credits the full amount to the student's escrow, in the caller's
+ * transaction, so the money can be spent on another registration or
+ * withdrawn.
+ *
+ * @param paid - The payment that just succeeded
+ * @param tx - Open transaction holding the payment row lock
+ */
+async function creditUnconfirmedPayment(paid: typeof payment.$inferSelect, tx: DbTransaction) {
+  const target = await tx.query.registration.findFirst({
+    where: (registrations, { eq }) => eq(registrations.id, paid.registrationId!),
+    columns: { studentId: true, status: true },
+  });
+
+  logger.warn(`[payments] Payment ${paid.id} succeeded but registration ${paid.registrationId} is ${target!.status}; crediting escrow`);
+
+  const journalId = await creditStudent(target!.studentId, paid.amount, {
+    entryType: 'payment_credit',
+    referenceType: 'payment',
+    referenceId: paid.id,
+    memo: `Payment ${paid.providerReference} received after the registration was ${target!.status}`,
+  }, tx);
+
+  await recordAudit({
+    action: 'payment.credit_escrow',
+    entityType: 'payment',
+    entityId: paid.id,
+    after: {
+      registrationId: paid.registrationId,
+      registrationStatus: target!.status,
+      studentId: target!.studentId,
+      amount: paid.amount,
+      journalId,
+    },
+  }, tx);
+}
+
+/**
+ * Move a payment to a new status and apply its effect
+ *
+ * - succeeded: confirms the registration, or settles the registration
+ *   change the payment tops up, and queues the receipt; if the
+ *   registration is no longer awaiting payment the amount is credited
+ *   to the student's escrow instead
+ * - failed / expired: cancels a pending registration change
+ * - refunded: not applied (logged for an admin)
+ *
+ * @param tx - Open transaction holding the payment row lock
+ * @param current - The payment as locked
+ * @param update - New status, paid date and failure reason
+ * @returns The updated payment and whether a checkout confirmed its
+ *          registration, or undefined if the transition is not allowed
+ */
+export async function applyPaymentStatus(
+  tx: DbTransaction,
+  current: typeof payment.$inferSelect,
+  update: { status: PaymentStatusType; paidAt?: Date; failureReason?: string | null }
+) {
+  if (update.status === 'refunded') {
+    logger.error(`[payments] Gateway reported a refund for ${current.id}; not applied, the registration stays confirmed`);
+    return undefined;
+  }
+
+  if (!PAYMENT_TRANSITIONS[update.status]?.includes(current.status)) {
+    logger.warn(`[payments] Ignoring ${update.status} for ${current.id} in status ${current.status}`);
+    return undefined;
+  }
+
+  const now = new Date();
+
+  const [updated] = await tx
+    .update(payment)
+    .set({
+      status: update.status,
+      paidAt: update.status === 'succeeded' ? update.paidAt ?? now : current.paidAt,
+      failureReason: update.failureReason ?? null,
+      updatedAt: now,
+    })
+    .where(eq(payment.id, current.id))
+    .returning();
+
+  await recordAudit({
+    action: `payment.${update.status}`,
+    entityType: 'payment',
+    entityId: current.id,
+    before: { status: current.status, paidAt: current.paidAt, failureReason: current.failureReason },
+    after: { status: updated!.status, paidAt: updated!.paidAt, failureReason: updated!.failureReason },
+  }, tx);
+
+  let confirmed = true;
+
+  if (update.status === 'succeeded') {
+    await enqueueReceipt(current.id, tx);
+  }
+
+  if (current.registrationChangeId) {
+    await settleTopUp(updated!, tx);
+  } else if (update.status === 'succeeded' && current.registrationId) {
+    const registrations = await confirmRegistrations([current.registrationId], current.provider, tx);
+    confirmed = registrations.length > 0;
+
+    // Bank transfers credit what they received per receipt (see bank-transfer.services.ts)
+    if (!confirmed && current.provider !== BANK_TRANSFER) {
+      await creditUnconfirmedPayment(updated!, tx);
+    }
+  }
+
+  return { payment: updated!, confirmed };
+}
+
+/**
+ * Handle a provider webhook
+ *
+ * Verifies the signature, records the event and applies it in one
+ * transaction. Duplicate deliveries are acknowledged and skipped.
+ *
+ * @param providerName - Provider from the webhook URL
+ * @param request - Raw headers and body
+ * @returns Whether the event was a duplicate and the resulting payment status
+ * @throws WebhookSignatureError if the signature is invalid
+ * @throws Error if the event does not match the payment
+ */
+export async function handleWebhook(providerName: PaymentProviderNameType, request: WebhookRequest) {
+  const event = await providers[providerName].handleWebhook(request);
+
+  return db.transaction(async (tx) => {
+    const [recorded] = await tx
+      .insert(paymentWebhookEvent)
+      .values({
+        id: randomUUID(),
+        provider: providerName,
+        eventId: event.eventId,
+        payload: { ...event, occurredAt: event.occurredAt.toISOString() },
+        createdAt: new Date(),
+      })
+      .onConflictDoNothing()
+      .returning({ id: paymentWebhookEvent.id });
+
+    if (!recorded) {
+      return { duplicate: true, status: null };
+    }
+
+    const [current] = await tx
+      .select()
+      .from(payment)
+      .where(and(
+        eq(payment.provider, providerName),
+        eq(payment.providerReference, event.providerReference)
+      ))
+      .for('update');
+
+    if (!current) {
+      logger.warn(`[payments] Webhook for unknown ${providerName} payment ${event.providerReference}`);
+      return { duplicate: false, status: null };
+    }
+
+    if (current.id !== event.reference || current.amount !== event.amount) {
+      throw new Error('Webhook does not match the payment');
+    }
+
+    await tx
+      .update(paymentWebhookEvent)
+      .set({ paymentId: current.id })
+      .where(eq(paymentWebhookEvent.id, recorded.id));
+
+    const applied = await applyPaymentStatus(tx, current, {
+      status: event.status,
+      paidAt: event.occurredAt,
+      failureReason: event.failureReason,
+    });
+
+    return { duplicate: false, status: applied?.payment.status ?? current.status };
+  });
+}
+
+/**
+ * Expire a payment that was not completed in time (background job)
+ *
+ * Asks the provider first so a payment completed at the last minute
+ * is not expired; its webhook will settle it instead.
+ *
+ * @param paymentId - The payment's ID
+ * @returns true if the payment was expired
+ */
+export async function expirePayment(paymentId: string) {
+  const current = await getPaymentById(paymentId);
+
+  if (!current || current.status !== 'pending') {
+    return false;
+  }
+
+  // Bank transfers have no gateway to ask; an admin confirms them
+  if (current.provider !== BANK_TRANSFER) {
+    const remote = await providers[current.provider as PaymentProviderNameType].getStatus(current.providerReference);
+    if (remote.status === 'succeeded') {
+      return false;
+    }
+  }
+
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const [expired] = await tx
+      .update(payment)
+      .set({
+        status: 'expired',
+        failureReason: 'Payment was not completed in time',
+        updatedAt: now,
+      })
+      .where(and(
+        eq(payment.id, paymentId),
+        eq(payment.status, 'pending')
+      ))
+      .returning();
+
+    if (expired) {
+      await recordAudit({
+        action: 'payment.expired',
+        entityType: 'payment',
+        entityId: paymentId,
+        before: { status: 'pending', failureReason: null },
+        after: { status: expired.status, failureReason: expired.failureReason },
+      }, tx);
+    }
+
+    if (expired?.registrationChangeId) {
+      await settleTopUp(expired, tx);
+    }
+
+    if (expired?.provider === BANK_TRANSFER) {
+      await creditUnappliedReceipts(expired, tx);
+    }
+
+    return !!expired;
+  });
+}
+
+/**
+ * Settle a payment in the provider simulator (non-production only)
+ *
+ * Produces the same signed webhook the provider would send and runs it
+ * through handleWebhook(), so the full flow can be exercised offline.
+ *
+ * @param paymentId - The payment's ID
+ * @param outcome - Simulated result
+ * @returns The webhook handling result
+ */
+export async function simulatePayment(paymentId: string, outcome: SimulatePaymentType['outcome']) {
+  const current = await getPaymentById(paymentId);
+
+  if (!current) {
+    throw new Error('Payment not found');
+  }
+
+  if (current.provider === BANK_TRANSFER) {
+    throw new Error('Bank transfers are confirmed by an admin');
+  }
+
+  const providerName = current.provider as PaymentProviderNameType;
+  const request = providers[providerName].simulate(
+    {
+      providerReference: current.providerReference,
+      reference: current.id,
+      amount: current.amount,
+    },
+    outcome
+  );
+
+  return handleWebhook(providerName, request);
+}
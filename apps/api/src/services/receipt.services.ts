@@ -0,0 +1,407 @@
+/**
+ * Receipt Service
+ *
+ * PDF receipts for succeeded payments (PAY-006):
+ * - A payment that succeeds enqueues a payments.receipt job in the same
+ *   transaction; so does a registration paid from escrow, which has no
+ *   payment row
+ * - The job assigns the next receipt number, renders the PDF, stores it
+ *   as a 'document' file owned by the student and emails it (with a
+ *   copy to linked parents)
+ * - Clients download it through the file signed-URL path
+ *
+ * Business Rules:
+ * - One receipt per payment (unique paymentId) or escrow checkout
+ *   (unique registrationId); numbers never repeat
+ * - The number is committed before rendering, so a retried job reuses it
+ * - The PDF is stored under a key derived from the receipt row, so a
+ *   retried job overwrites its own upload rather than leaving a copy
+ * - Checkout receipts list the registration's active subjects at their
+ *   price snapshot; top-up receipts list the replacement subject and
+ *   the credit for the one it replaced
+ */
+
+import {
+  db,
+  bankTransferReceipt,
+  escrowAccount,
+  escrowEntry,
+  paymentReceipt,
+  registrationItem,
+  eq,
+  and,
+  or,
+  inArray,
+  sql,
+  type DbExecutor,
+} from '@repo/db';
+import { MIME_TYPES } from '@repo/storage';
+import { randomUUID } from 'crypto';
+import { formatExamType } from '@repo/emails';
+import { logger } from '../lib/logger';
+import { renderReceiptPdf, type ReceiptDocument, type ReceiptLine } from '../lib/receipt-pdf';
+import { enqueueJob } from './job.services';
+import { recordAudit } from './audit.services';
+import { notifyUser } from './notification.services';
+import * as fileService from './file.services';
+
+export const RECEIPT_JOB = 'payments.receipt';
+
+/**
+ * Format a receipt number for display, e.g. 42 -> "RCT-000042"
+ */
+export function formatReceiptNumber(receiptNumber: number) {
+  return `RCT-${String(receiptNumber).padStart(6, '0')}`;
+}
+
+/**
+ * Queue the receipt for a succeeded payment
+ *
+ * @param paymentId - The payment's ID
+ * @param executor - The transaction that marked the payment succeeded
+ */
+export async function enqueueReceipt(paymentId: string, executor: DbExecutor = db) {
+  return enqueueJob(
+    RECEIPT_JOB,
+    { paymentId },
+    { dedupeKey: `${RECEIPT_JOB}:${paymentId}` },
+    executor
+  );
+}
+
+/**
+ * Queue the receipt for a registration paid from escrow
+ *
+ * @param registrationId - The registration's ID
+ * @param executor - The transaction that confirmed the registration
+ */
+export async function enqueueEscrowReceipt(registrationId: string, executor: DbExecutor = db) {
+  return enqueueJob(
+    RECEIPT_JOB,
+    { registrationId },
+    { dedupeKey: `${RECEIPT_JOB}:registration:${registrationId}` },
+    executor
+  );
+}
+
+/**
+ * Load a payment with everything printed on its receipt
+ */
+async function loadReceiptPayment(paymentId: string) {
+  return db.query.payment.findFirst({
+    where: (payments, { eq }) => eq(payments.id, paymentId),
+    with: {
+      registration: {
+        with: {
+          student: { columns: { id: true, name: true, email: true, studentId: true, grade: true } },
+          window: { columns: { sessionType: true, year: true } },
+          items: {
+            where: (items, { eq }) => eq(items.status, 'active'),
+            orderBy: (items, { asc }) => [asc(items.subjectCode)],
+          },
+        },
+      },
+      registrationChange: { with: { item: true } },
+      payer: { columns: { id: true, name: true } },
+    },
+  });
+}
+
+type ReceiptPayment = NonNullable<Awaited<ReturnType<typeof loadReceiptPayment>>>;
+
+function describeItem(item: typeof registrationItem.$inferSelect) {
+  return `${item.subjectCode} - ${formatExamType(item.examType)}`;
+}
+
+/**
+ * Checkout receipt lines: the registration's active subjects
+ */
+function checkoutLines(items: (typeof registrationItem.$inferSelect)[]): ReceiptLine[] {
+  return items.map((item) => ({
+    description: item.subjectName,
+    detail: describeItem(item),
+    amount: item.unitPrice,
+  }));
+}
+
+/**
+ * Receipt lines: what the payment paid for
+ */
+async function buildLines(found: ReceiptPayment): Promise<ReceiptLine[]> {
+  const change = found.registrationChange;
+
+  if (!change) {
+    return checkoutLines(found.registration!.items);
+  }
+
+  const replacement = change.newItemId
+    ? await db.query.registrationItem.findFirst({
+        where: (items, { eq }) => eq(items.id, change.newItemId!),
+      })
+    : undefined;
+
+  // Change was cancelled before the top-up arrived (amount went to escrow)
+  if (!replacement) {
+    return [{ description: 'Registration change top-up', amount: found.amount }];
+  }
+
+  return [
+    { description: replacement.subjectName, detail: describeItem(replacement), amount: replacement.unitPrice },
+    {
+      description: `Replaces ${change.item.subjectName}`,
+      detail: `${describeItem(change.item)} (already paid)`,
+      amount: -change.item.unitPrice,
+    },
+  ];
+}
+
+/**
+ * Escrow spent on and credited from a payment, from the student's ledger
+ *
+ * - Applied: checkout debits for the registration (checkout receipts)
+ * - Credited: over-payments and top-ups for cancelled changes
+ */
+async function getEscrowMovements(found: ReceiptPayment) {
+  const bankReceipts = await db
+    .select({ id: bankTransferReceipt.id })
+    .from(bankTransferReceipt)
+    .where(eq(bankTransferReceipt.paymentId, found.id));
+
+  const references = [
+    and(eq(escrowEntry.referenceType, 'payment'), eq(escrowEntry.referenceId, found.id)),
+  ];
+  if (bankReceipts.length > 0) {
+    references.push(and(
+      eq(escrowEntry.referenceType, 'bank_transfer_receipt'),
+      inArray(escrowEntry.referenceId, bankReceipts.map((receipt) => receipt.id))
+    ));
+  }
+  if (!found.registrationChangeId && found.registrationId) {
+    references.push(and(
+      eq(escrowEntry.entryType, 'checkout_debit'),
+      eq(escrowEntry.referenceType, 'registration'),
+      eq(escrowEntry.referenceId, found.registrationId)
+    ));
+  }
+
+  const [movements] = await db
+    .select({
+      applied: sql<number>`coalesce(sum(-${escrowEntry.amount}) filter (where ${escrowEntry.amount} < 0), 0)`.mapWith(Number),
+      credited: sql<number>`coalesce(sum(${escrowEntry.amount}) filter (where ${escrowEntry.amount} > 0), 0)`.mapWith(Number),
+    })
+    .from(escrowEntry)
+    .innerJoin(escrowAccount, eq(escrowAccount.id, escrowEntry.accountId))
+    .where(and(
+      eq(escrowAccount.studentId, found.registration!.studentId),
+      or(...references)
+    ));
+
+  return { applied: movements?.applied ?? 0, credited: movements?.credited ?? 0 };
+}
+
+type ReceiptSource = { paymentId: string } | { registrationId: string };
+
+/**
+ * What a receipt prints and who it is emailed to
+ */
+type ReceiptContents = Omit<ReceiptDocument, 'receiptNumber' | 'issuedAt'> & {
+  studentId: string;
+  // Amount in the email, in piastres
+  amount: number;
+  // What the receipt was issued for (audit trail)
+  entityType: 'payment' | 'registration';
+  entityId: string;
+};
+
+function receiptFor(source: ReceiptSource) {
+  return 'paymentId' in source
+    ? eq(paymentReceipt.paymentId, source.paymentId)
+    : eq(paymentReceipt.registrationId, source.registrationId);
+}
+
+/**
+ * Number, render, store and email a receipt
+ *
+ * @param source - The payment or escrow-paid registration
+ * @param contents - What the receipt prints
+ * @returns The receipt
+ */
+async function storeReceipt(source: ReceiptSource, contents: ReceiptContents) {
+  // Take the number first; a retry finds the same row
+  await db
+    .insert(paymentReceipt)
+    .values({ id: randomUUID(), ...source })
+    .onConflictDoNothing();
+
+  const receipt = (await db.query.paymentReceipt.findFirst({ where: receiptFor(source) }))!;
+  if (receipt.fileId) return receipt;
+
+  const { studentId, amount, entityType, entityId, ...document } = contents;
+  const receiptNumber = formatReceiptNumber(receipt.receiptNumber);
+  const issuedAt = new Date();
+  const pdf = await renderReceiptPdf({ ...document, receiptNumber, issuedAt });
+  const fileName = `receipt-${receiptNumber}.pdf`;
+
+  return db.transaction(async (tx) => {
+    // Row lock: a job running twice stores the file once
+    const [current] = await tx
+      .select()
+      .from(paymentReceipt)
+      .where(eq(paymentReceipt.id, receipt.id))
+      .for('update');
+
+    if (current!.fileId) return current!;
+
+    const stored = await fileService.saveGeneratedFile({
+      storageKey: `document/${studentId}/receipt-${receipt.id}.pdf`,
+      name: fileName,
+      content: pdf,
+      mimeType: MIME_TYPES.PDF,
+      fileType: 'document',
+      userId: studentId,
+    }, tx);
+
+    const [issued] = await tx
+      .update(paymentReceipt)
+      .set({ fileId: stored.id, issuedAt })
+      .where(eq(paymentReceipt.id, receipt.id))
+      .returning();
+
+    await recordAudit({
+      action: `${entityType}.receipt_issued`,
+      entityType,
+      entityId,
+      after: { receiptNumber, fileId: stored.id },
+    }, tx);
+
+    await notifyUser(studentId, 'payment.receipt', {
+      receiptNumber,
+      session: document.session,
+      amount,
+      paymentMethod: document.paymentMethod,
+    }, tx, {
+      attachments: [{ storageKey: stored.storageKey, fileName, contentType: MIME_TYPES.PDF }],
+    });
+
+    logger.info(`[payments] Issued receipt ${receiptNumber} for ${entityType} ${entityId}`);
+    return issued!;
+  });
+}
+
+/**
+ * Issue the receipt for a succeeded payment (receipt job)
+ *
+ * @param paymentId - The payment's ID
+ * @returns The receipt, or undefined if the payment has not succeeded
+ */
+export async function issueReceipt(paymentId: string) {
+  const found = await loadReceiptPayment(paymentId);
+
+  if (!found || !found.registration || !['succeeded', 'refunded'].includes(found.status)) {
+    return undefined;
+  }
+
+  const { student, window } = found.registration;
+  const escrow = await getEscrowMovements(found);
+
+  return storeReceipt({ paymentId }, {
+    studentId: student.id,
+    amount: found.amount,
+    entityType: 'payment',
+    entityId: paymentId,
+    paidAt: found.paidAt ?? found.updatedAt,
+    student,
+    payerName: found.payer && found.payer.id !== student.id ? found.payer.name : undefined,
+    session: window,
+    paymentMethod: found.provider,
+    providerReference: found.providerReference,
+    lines: await buildLines(found),
+    total: found.amount,
+    escrowApplied: escrow.applied,
+    escrowCredited: escrow.credited,
+  });
+}
+
+/**
+ * Issue the receipt for a registration paid from escrow (receipt job)
+ *
+ * @param registrationId - The registration's ID
+ * @returns The receipt, or undefined if the registration is not confirmed
+ */
+export async function issueEscrowReceipt(registrationId: string) {
+  const found = await db.query.registration.findFirst({
+    where: (registrations, { eq }) => eq(registrations.id, registrationId),
+    with: {
+      student: { columns: { id: true, name: true, email: true, studentId: true, grade: true } },
+      window: { columns: { sessionType: true, year: true } },
+      items: {
+        where: (items, { eq }) => eq(items.status, 'active'),
+        orderBy: (items, { asc }) => [asc(items.subjectCode)],
+      },
+    },
+  });
+
+  if (!found || found.status !== 'confirmed') {
+    return undefined;
+  }
+
+  return storeReceipt({ registrationId }, {
+    studentId: found.student.id,
+    amount: found.totalAmount,
+    entityType: 'registration',
+    entityId: registrationId,
+    paidAt: found.confirmedAt ?? found.updatedAt,
+    student: found.student,
+    session: found.window,
+    paymentMethod: 'escrow',
+    providerReference: registrationId,
+    lines: checkoutLines(found.items),
+    // Nothing paid through a gateway: the escrow debit is the whole amount
+    total: 0,
+    escrowApplied: found.totalAmount,
+    escrowCredited: 0,
+  });
+}
+
+/**
+ * A stored receipt with a signed download URL
+ */
+async function getStoredReceipt(source: ReceiptSource) {
+  const receipt = await db.query.paymentReceipt.findFirst({
+    where: receiptFor(source),
+    with: { file: { columns: { id: true, userId: true } } },
+  });
+
+  if (!receipt?.file) return undefined;
+
+  const stored = await fileService.getUserFileWithSignedUrls(receipt.file.id, receipt.file.userId);
+  if (!stored) return undefined;
+
+  return {
+    receiptNumber: formatReceiptNumber(receipt.receiptNumber),
+    issuedAt: receipt.issuedAt,
+    file: stored,
+  };
+}
+
+/**
+ * Get a payment's receipt with a signed download URL
+ *
+ * @param paymentId - The payment's ID
+ * @returns Receipt number and the stored file with its URL, or undefined
+ *          until the receipt has been issued
+ */
+export async function getPaymentReceipt(paymentId: string) {
+  return getStoredReceipt({ paymentId });
+}
+
+/**
+ * Get the receipt of a registration paid from escrow
+ *
+ * @param registrationId - The registration's ID
+ * @returns Receipt number and the stored file with its URL, or undefined
+ *          until the receipt has been issued
+ */
+export async function getRegistrationReceipt(registrationId: string) {
+  return getStoredReceipt({ registrationId });
+}
@@ -0,0 +1,592 @@
+/**
+ * Registration Change Service
+ *
+ * Changes to paid registration items while the window is open
+ * (SWAP-001..004):
+ * - Drop an item; its price is credited to escrow
+ * - Swap an item for another subject
+ * - Switch an item between in-school and external
+ *
+ * Business Rules:
+ * - Only active items of confirmed registrations can be changed, and only
+ *   while the registration's window is open
+ * - The price difference is the new catalog price minus the original
+ *   item's price snapshot, never the subject's current price
+ * - A refund (difference < 0) is credited to the student's escrow
+ * - A shortfall (difference > 0) needs a top-up payment. The change waits
+ *   as pending_payment and is applied by the top-up's webhook in the same
+ *   transaction; a failed or expired top-up cancels it and the original
+ *   item is kept
+ * - A registration has one pending payment at a time, so a change needing
+ *   a top-up is rejected while another change's top-up is pending
+ * - If a top-up succeeds but the change can no longer be applied (window
+ *   closed, subject taken), the amount paid is credited to escrow
+ * - Core items cannot be dropped or swapped (see registration-rules)
+ */
+
+import {
+  db,
+  payment,
+  registration,
+  registrationChange,
+  registrationItem,
+  registrationWindow,
+  eq,
+  and,
+  sql,
+  isUniqueViolation,
+  serializableTransaction,
+  type DbTransaction,
+} from '@repo/db';
+import { randomUUID } from 'crypto';
+import { REGISTRATION_RULE_CODES, addMoney, money, subtractMoney } from '@repo/validations';
+import type {
+  ExamTypeType,
+  RegistrationChangeTypeType,
+  SwapRegistrationItemType,
+  SwitchExamTypeType,
+} from '@repo/validations';
+import { logger } from '../lib/logger';
+import { creditStudent } from './escrow.services';
+import { notifyUser } from './notification.services';
+import { recordAudit } from './audit.services';
+import { getPaymentById, startPayment } from './payment.services';
+import { getRegistrationById } from './registration.services';
+import {
+  RegistrationRuleError,
+  assertItemRemovable,
+  assertNotGraduated,
+  getHeldSubjectIds,
+} from './registration-rules.services';
+
+type Subject = NonNullable<Awaited<ReturnType<typeof db.query.subject.findFirst>>>;
+type RegistrationChange = typeof registrationChange.$inferSelect;
+type RegistrationItem = typeof registrationItem.$inferSelect;
+
+/**
+ * What the item becomes (no target = drop)
+ */
+type ChangePlan = {
+  type: RegistrationChangeTypeType;
+  target?: { subject: Subject; examType: ExamTypeType };
+};
+
+/**
+ * Catalog price for an exam type (null = not offered)
+ */
+function priceFor(subject: Subject, examType: ExamTypeType) {
+  return examType === 'external' ? subject.priceExternal : subject.priceInSchool;
+}
+
+/**
+ * Lock the registration and load everything a change needs
+ *
+ * @throws RegistrationRuleError if the item cannot be changed
+ */
+async function loadChangeContext(tx: DbTransaction, registrationId: string, itemId: string) {
+  const [target] = await tx
+    .select()
+    .from(registration)
+    .where(eq(registration.id, registrationId))
+    .for('update');
+
+  if (!target) {
+    throw new Error('Registration not found');
+  }
+
+  const item = await tx.query.registrationItem.findFirst({
+    where: (items, { eq, and }) => and(
+      eq(items.id, itemId),
+      eq(items.registrationId, registrationId)
+    ),
+  });
+
+  if (!item) {
+    throw new Error('Registration item not found');
+  }
+
+  if (target.status !== 'confirmed' || item.status !== 'active') {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.ITEM_NOT_CHANGEABLE,
+      'Only paid subjects can be dropped, swapped or switched'
+    );
+  }
+
+  // Share lock so the window cannot close mid-change
+  const [window] = await tx
+    .select()
+    .from(registrationWindow)
+    .where(eq(registrationWindow.id, target.windowId))
+    .for('share');
+
+  if (!window || window.status !== 'active' || window.endsAt <= new Date()) {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.REGISTRATION_CLOSED,
+      'Registration is closed'
+    );
+  }
+
+  const pending = await tx.query.registrationChange.findFirst({
+    where: (changes, { eq, and }) => and(
+      eq(changes.itemId, item.id),
+      eq(changes.status, 'pending_payment')
+    ),
+    columns: { id: true },
+  });
+
+  if (pending) {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.CHANGE_IN_PROGRESS,
+      `A change to ${item.subjectName} is already awaiting payment`
+    );
+  }
+
+  const student = await tx.query.user.findFirst({
+    where: (users, { eq }) => eq(users.id, target.studentId),
+    columns: { id: true, name: true, email: true, grade: true, graduatedAt: true },
+  });
+
+  assertNotGraduated(student!);
+
+  return { target, item, window, student: student! };
+}
+
+/**
+ * Apply a change: retire the original item, add the replacement,
+ * adjust the registration total and credit any refund to escrow
+ */
+async function applyChange(tx: DbTransaction, change: RegistrationChange, item: RegistrationItem) {
+  const now = new Date();
+
+  await tx
+    .update(registrationItem)
+    .set({ status: 'cancelled', updatedAt: now })
+    .where(eq(registrationItem.id, item.id));
+
+  let newItemId: string | null = null;
+  let replacementName: string | undefined;
+
+  if (change.targetSubjectId && change.targetExamType) {
+    const target = await tx.query.subject.findFirst({
+      where: (subjects, { eq }) => eq(subjects.id, change.targetSubjectId!),
+    });
+
+    newItemId = randomUUID();
+    replacementName = target!.name;
+
+    // The new snapshot is the price the difference was worked out from
+    await tx.insert(registrationItem).values({
+      id: newItemId,
+      registrationId: item.registrationId,
+      subjectId: change.targetSubjectId,
+      studentId: item.studentId,
+      windowId: item.windowId,
+      examType: change.targetExamType,
+      unitPrice: addMoney(money(item.unitPrice), money(change.priceDifference)).amount,
+      subjectName: target!.name,
+      subjectCode: target!.code,
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  await tx
+    .update(registration)
+    .set({
+      totalAmount: sql`${registration.totalAmount} + ${change.priceDifference}`,
+      updatedAt: now,
+    })
+    .where(eq(registration.id, change.registrationId));
+
+  if (change.priceDifference < 0) {
+    await creditStudent(item.studentId, -change.priceDifference, {
+      entryType: change.type === 'drop' ? 'drop_credit' : 'swap_credit',
+      referenceType: 'registration_change',
+      referenceId: change.id,
+      memo: `${change.type === 'drop' ? 'Dropped' : 'Changed'} ${item.subjectName}`,
+      createdBy: change.requestedBy ?? undefined,
+    }, tx);
+  }
+
+  await notifyUser(item.studentId, 'registration.changed', {
+    changeType: change.type as RegistrationChangeTypeType,
+    original: { subjectName: item.subjectName, examType: item.examType },
+    replacement: replacementName
+      ? { subjectName: replacementName, examType: change.targetExamType! }
+      : undefined,
+    priceDifference: change.priceDifference,
+  }, tx);
+
+  const [completed] = await tx
+    .update(registrationChange)
+    .set({
+      status: 'completed',
+      newItemId,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(eq(registrationChange.id, change.id))
+    .returning();
+
+  await recordAudit({
+    action: 'registration_change.complete',
+    entityType: 'registration_change',
+    entityId: change.id,
+    before: { status: change.status, newItemId: null, completedAt: null },
+    after: { status: completed!.status, newItemId, completedAt: completed!.completedAt },
+  }, tx);
+
+  return completed!;
+}
+
+/**
+ * Reject a change that needs a top-up while another one is pending
+ *
+ * The registration allows one pending payment (`payment_single_pending_idx`);
+ * the caller holds the registration's row lock.
+ *
+ * @throws RegistrationRuleError if a top-up is awaiting payment
+ */
+async function assertNoPendingTopUp(tx: DbTransaction, registrationId: string) {
+  const [pending] = await tx
+    .select({ subjectName: registrationItem.subjectName })
+    .from(payment)
+    .innerJoin(registrationChange, eq(registrationChange.id, payment.registrationChangeId))
+    .innerJoin(registrationItem, eq(registrationItem.id, registrationChange.itemId))
+    .where(and(
+      eq(payment.registrationId, registrationId),
+      eq(payment.status, 'pending')
+    ))
+    .limit(1);
+
+  if (pending) {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.TOP_UP_PENDING,
+      `A top-up for ${pending.subjectName} is already pending. Complete it or let it expire before making another change that costs more`
+    );
+  }
+}
+
+/**
+ * Run a change as one serializable unit
+ *
+ * Applied immediately when it costs the same or less; otherwise held
+ * with a top-up payment for the difference.
+ */
+async function changeItem(
+  registrationId: string,
+  itemId: string,
+  requestedBy: string,
+  topUp: SwitchExamTypeType,
+  plan: (ctx: Awaited<ReturnType<typeof loadChangeContext>>, tx: DbTransaction) => Promise<ChangePlan>
+) {
+  try {
+    const result = await serializableTransaction(async (tx) => {
+      const ctx = await loadChangeContext(tx, registrationId, itemId);
+      const { type, target } = await plan(ctx, tx);
+
+      const newPrice = target ? priceFor(target.subject, target.examType)! : 0;
+      const priceDifference = subtractMoney(money(newPrice), money(ctx.item.unitPrice)).amount;
+      const now = new Date();
+
+      if (priceDifference > 0) {
+        await assertNoPendingTopUp(tx, registrationId);
+      }
+
+      const [change] = await tx
+        .insert(registrationChange)
+        .values({
+          id: randomUUID(),
+          registrationId,
+          itemId,
+          type,
+          status: 'pending_payment',
+          targetSubjectId: target?.subject.id,
+          targetExamType: target?.examType,
+          priceDifference,
+          requestedBy,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+
+      await recordAudit({
+        action: `registration_change.request_${type}`,
+        entityType: 'registration_change',
+        entityId: change!.id,
+        after: change,
+      }, tx);
+
+      if (priceDifference <= 0) {
+        return { change: await applyChange(tx, change!, ctx.item), paymentId: null };
+      }
+
+      if (!topUp.provider) {
+        throw new RegistrationRuleError(
+          REGISTRATION_RULE_CODES.TOP_UP_REQUIRED,
+          'This change costs more; choose how to pay the difference',
+          { amount: priceDifference }
+        );
+      }
+
+      const paymentId = await startPayment(tx, {
+        registrationId,
+        registrationChangeId: change!.id,
+        payerId: requestedBy,
+        provider: topUp.provider,
+        walletNumber: topUp.walletNumber,
+        amount: priceDifference,
+        description: `Registration change: ${ctx.item.subjectName} (${ctx.window.sessionType} ${ctx.window.year})`,
+        customer: { name: ctx.student.name, email: ctx.student.email },
+      });
+
+      return { change: change!, paymentId };
+    });
+
+    return {
+      change: result.change,
+      payment: result.paymentId ? await getPaymentById(result.paymentId) : null,
+      registration: await getRegistrationById(registrationId),
+    };
+  } catch (err) {
+    if (isUniqueViolation(err, 'registrationItem_student_window_subject_idx')) {
+      throw new RegistrationRuleError(
+        REGISTRATION_RULE_CODES.SUBJECT_ALREADY_REGISTERED,
+        'The subject is already registered for this session'
+      );
+    }
+    if (isUniqueViolation(err, 'registrationChange_item_pending_idx')) {
+      throw new RegistrationRuleError(
+        REGISTRATION_RULE_CODES.CHANGE_IN_PROGRESS,
+        'A change to this subject is already awaiting payment'
+      );
+    }
+    throw err;
+  }
+}
+
+/**
+ * Load a catalog subject that can be registered as the given exam type
+ *
+ * @throws RegistrationRuleError if inactive or the exam type is not offered
+ */
+async function getRegistrableSubject(tx: DbTransaction, subjectId: string, examType: ExamTypeType) {
+  const found = await tx.query.subject.findFirst({
+    where: (subjects, { eq }) => eq(subjects.id, subjectId),
+  });
+
+  if (!found || !found.isActive) {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.SUBJECT_UNAVAILABLE,
+      'The subject is not available for registration',
+      { subjectId }
+    );
+  }
+
+  if (priceFor(found, examType) === null) {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.EXTERNAL_UNAVAILABLE,
+      `${found.name} is not available as an external exam`,
+      { subjectId }
+    );
+  }
+
+  return found;
+}
+
+/**
+ * Drop a paid item (SWAP-001)
+ *
+ * @param registrationId - The registration's ID
+ * @param itemId - The item to drop
+ * @param requestedBy - The student or linked parent
+ * @returns The completed change and updated registration
+ * @throws RegistrationRuleError if the item cannot be dropped
+ */
+export async function dropItem(registrationId: string, itemId: string, requestedBy: string) {
+  return changeItem(registrationId, itemId, requestedBy, {}, async (ctx, tx) => {
+    await assertItemRemovable(ctx.item, ctx.student, ctx.window.sessionType, tx);
+    return { type: 'drop' };
+  });
+}
+
+/**
+ * Swap a paid item for another subject (SWAP-002, SWAP-003)
+ *
+ * @param registrationId - The registration's ID
+ * @param itemId - The item to replace
+ * @param data - Replacement subject, exam type and top-up provider
+ * @param requestedBy - The student or linked parent
+ * @returns The change (completed or awaiting payment), top-up payment
+ *          and updated registration
+ * @throws RegistrationRuleError if the swap is not allowed
+ */
+export async function swapItem(
+  registrationId: string,
+  itemId: string,
+  data: SwapRegistrationItemType,
+  requestedBy: string
+) {
+  return changeItem(registrationId, itemId, requestedBy, data, async (ctx, tx) => {
+    if (data.subjectId === ctx.item.subjectId) {
+      throw new Error('Choose a different subject, or switch the exam type instead');
+    }
+
+    await assertItemRemovable(ctx.item, ctx.student, ctx.window.sessionType, tx);
+
+    const held = await getHeldSubjectIds(ctx.target.studentId, ctx.window.id, tx);
+    const subject = await getRegistrableSubject(tx, data.subjectId, data.examType);
+
+    if (held.has(subject.id)) {
+      throw new RegistrationRuleError(
+        REGISTRATION_RULE_CODES.SUBJECT_ALREADY_REGISTERED,
+        `${subject.name} is already registered for this session`,
+        { subjectId: subject.id }
+      );
+    }
+
+    return { type: 'swap', target: { subject, examType: data.examType } };
+  });
+}
+
+/**
+ * Switch a paid item between in-school and external (SWAP-004)
+ *
+ * @param registrationId - The registration's ID
+ * @param itemId - The item to switch
+ * @param data - Top-up provider (when external costs more)
+ * @param requestedBy - The student or linked parent
+ * @returns The change (completed or awaiting payment), top-up payment
+ *          and updated registration
+ * @throws RegistrationRuleError if the other exam type is not offered
+ */
+export async function switchItemType(
+  registrationId: string,
+  itemId: string,
+  data: SwitchExamTypeType,
+  requestedBy: string
+) {
+  return changeItem(registrationId, itemId, requestedBy, data, async (ctx, tx) => {
+    const examType: ExamTypeType = ctx.item.examType === 'external' ? 'in_school' : 'external';
+    const subject = await getRegistrableSubject(tx, ctx.item.subjectId, examType);
+
+    return { type: 'switch_type', target: { subject, examType } };
+  });
+}
+
+/**
+ * Why a pending change can no longer be applied (null = it can)
+ */
+async function getInapplicableReason(tx: DbTransaction, change: RegistrationChange) {
+  const item = await tx.query.registrationItem.findFirst({
+    where: (items, { eq }) => eq(items.id, change.itemId),
+    with: { registration: { with: { window: true } } },
+  });
+
+  if (!item || item.status !== 'active' || item.registration.status !== 'confirmed') {
+    return 'The original subject is no longer held';
+  }
+
+  const window = item.registration.window;
+  if (window.status !== 'active' || window.endsAt <= new Date()) {
+    return 'Registration closed before the top-up was paid';
+  }
+
+  if (change.type === 'swap' && change.targetSubjectId) {
+    const held = await getHeldSubjectIds(item.studentId, item.windowId, tx);
+    if (held.has(change.targetSubjectId)) {
+      return 'The new subject was registered before the top-up was paid';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Cancel a change that is awaiting payment
+ */
+async function cancelChange(tx: DbTransaction, change: RegistrationChange, reason: string) {
+  const now = new Date();
+
+  const [cancelled] = await tx
+    .update(registrationChange)
+    .set({
+      status: 'cancelled',
+      cancelReason: reason,
+      cancelledAt: now,
+      updatedAt: now,
+    })
+    .where(and(
+      eq(registrationChange.id, change.id),
+      eq(registrationChange.status, 'pending_payment')
+    ))
+    .returning();
+
+  if (cancelled) {
+    await recordAudit({
+      action: 'registration_change.cancel',
+      entityType: 'registration_change',
+      entityId: change.id,
+      before: { status: change.status, cancelReason: null, cancelledAt: null },
+      after: { status: cancelled.status, cancelReason: reason, cancelledAt: cancelled.cancelledAt },
+    }, tx);
+  }
+}
+
+/**
+ * Settle a registration change after its top-up payment changes status
+ *
+ * Called by the payment service inside the webhook / expiry transaction:
+ * - succeeded: apply the change, or credit the amount to escrow if the
+ *   change can no longer be applied
+ * - failed / expired: cancel the change; the original item is kept
+ *
+ * @param topUp - The top-up payment with its new status
+ * @param tx - The payment's transaction
+ */
+export async function settleTopUp(topUp: typeof payment.$inferSelect, tx: DbTransaction) {
+  const [change] = await tx
+    .select()
+    .from(registrationChange)
+    .where(eq(registrationChange.id, topUp.registrationChangeId!))
+    .for('update');
+
+  if (!change || change.status === 'completed') return;
+
+  if (topUp.status === 'failed' || topUp.status === 'expired') {
+    await cancelChange(tx, change, `Top-up payment ${topUp.status}`);
+    return;
+  }
+
+  if (topUp.status !== 'succeeded') return;
+
+  if (change.status === 'pending_payment') {
+    const reason = await getInapplicableReason(tx, change);
+
+    if (!reason) {
+      const item = await tx.query.registrationItem.findFirst({
+        where: (items, { eq }) => eq(items.id, change.itemId),
+      });
+      await applyChange(tx, change, item!);
+      return;
+    }
+
+    await cancelChange(tx, change, reason);
+  }
+
+  // Paid, but the change was not applied: keep the money for the student
+  const target = await tx.query.registration.findFirst({
+    where: (registrations, { eq }) => eq(registrations.id, change.registrationId),
+    columns: { studentId: true },
+  });
+
+  logger.warn(`[registrations] Top-up ${topUp.id} paid for cancelled change ${change.id}; crediting escrow`);
+
+  await creditStudent(target!.studentId, topUp.amount, {
+    entryType: 'swap_credit',
+    referenceType: 'payment',
+    referenceId: topUp.id,
+    memo: 'Top-up paid after the change was cancelled',
+  }, tx);
+}
@@ -0,0 +1,203 @@
+/**
+ * Registration Rules
+ *
+ * Server-side rules for what a student may register, drop or swap.
+ * Every rejection carries a machine-readable code from
+ * REGISTRATION_RULE_CODES so clients can explain it to the user.
+ *
+ * Core subjects (CORE-001..004, SWAP-005):
+ * - A subject is core for a grade in a session type (subject_core_rule),
+ *   e.g. Grade 10 in the June session
+ * - Core subjects are auto-included and locked in new registrations
+ * - Checkout is rejected while any core subject is missing
+ * - Core items cannot be dropped or swapped
+ *
+ * Graduated students cannot register, pay for or change registrations
+ * (GRADE-003).
+ */
+
+import { db, registration, registrationItem, eq, and, ne, or, type DbExecutor } from '@repo/db';
+import { REGISTRATION_RULE_CODES, type RegistrationRuleCode } from '@repo/validations';
+
+/**
+ * A registration action that breaks a rule
+ */
+export class RegistrationRuleError extends Error {
+  constructor(
+    public readonly code: RegistrationRuleCode,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'RegistrationRuleError';
+  }
+}
+
+/**
+ * Get the active core subjects for a grade in a session type
+ *
+ * @param grade - The student's grade (null for graduated / unknown)
+ * @param sessionType - The window's session type
+ * @param executor - Database client or open transaction
+ * @returns Core subjects (empty when no rules apply)
+ */
+export async function getCoreSubjects(
+  grade: number | null,
+  sessionType: string,
+  executor: DbExecutor = db
+) {
+  if (grade === null) return [];
+
+  const rules = await executor.query.subjectCoreRule.findMany({
+    where: (rules, { eq, and }) => and(
+      eq(rules.grade, grade),
+      eq(rules.sessionType, sessionType)
+    ),
+    with: { subject: true },
+  });
+
+  return rules
+    .map((rule) => rule.subject)
+    .filter((subject) => subject.isActive);
+}
+
+/**
+ * Check whether a subject is core for a grade in a session type
+ *
+ * @param subjectId - The subject's ID
+ * @param grade - The student's grade
+ * @param sessionType - The window's session type
+ * @param executor - Database client or open transaction
+ */
+export async function isCoreSubject(
+  subjectId: string,
+  grade: number | null,
+  sessionType: string,
+  executor: DbExecutor = db
+): Promise<boolean> {
+  if (grade === null) return false;
+
+  const rule = await executor.query.subjectCoreRule.findFirst({
+    where: (rules, { eq, and }) => and(
+      eq(rules.subjectId, subjectId),
+      eq(rules.grade, grade),
+      eq(rules.sessionType, sessionType)
+    ),
+    columns: { id: true },
+  });
+
+  return !!rule;
+}
+
+/**
+ * Get the subject IDs a student holds in a window
+ *
+ * Counts active items of registrations that are not cancelled.
+ *
+ * @param studentId - The student's ID
+ * @param windowId - The window's ID
+ * @param executor - Database client or open transaction
+ */
+export async function getHeldSubjectIds(
+  studentId: string,
+  windowId: string,
+  executor: DbExecutor = db
+): Promise<Set<string>> {
+  const rows = await executor
+    .select({ subjectId: registrationItem.subjectId })
+    .from(registrationItem)
+    .innerJoin(registration, eq(registration.id, registrationItem.registrationId))
+    .where(and(
+      eq(registrationItem.studentId, studentId),
+      eq(registrationItem.windowId, windowId),
+      eq(registrationItem.status, 'active'),
+      ne(registration.status, 'cancelled')
+    ));
+
+  return new Set(rows.map((row) => row.subjectId));
+}
+
+/**
+ * Reject registration actions for graduated students (GRADE-003)
+ *
+ * Graduated students keep read access to their history and escrow.
+ *
+ * @param student - The student's graduation time
+ * @throws RegistrationRuleError STUDENT_GRADUATED
+ */
+export function assertNotGraduated(student: { graduatedAt: Date | null }) {
+  if (student.graduatedAt) {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.STUDENT_GRADUATED,
+      'Graduated students can no longer register for exams'
+    );
+  }
+}
+
+/**
+ * Reject checkout while any core subject is missing (CORE-002)
+ *
+ * Only paid-for subjects count: the student's confirmed registrations
+ * in the window plus the registration being checked out. Items of other
+ * unpaid registrations may never be paid for.
+ *
+ * @param student - The student's ID and grade
+ * @param window - The window's ID and session type
+ * @param registrationId - The registration being checked out
+ * @param executor - Database client or open transaction
+ * @throws RegistrationRuleError CORE_SUBJECT_MISSING
+ */
+export async function assertCoreSubjectsHeld(
+  student: { id: string; grade: number | null },
+  window: { id: string; sessionType: string },
+  registrationId: string,
+  executor: DbExecutor = db
+) {
+  const core = await getCoreSubjects(student.grade, window.sessionType, executor);
+  if (core.length === 0) return;
+
+  const rows = await executor
+    .select({ subjectId: registrationItem.subjectId })
+    .from(registrationItem)
+    .innerJoin(registration, eq(registration.id, registrationItem.registrationId))
+    .where(and(
+      eq(registrationItem.studentId, student.id),
+      eq(registrationItem.windowId, window.id),
+      eq(registrationItem.status, 'active'),
+      or(eq(registration.status, 'confirmed'), eq(registration.id, registrationId))
+    ));
+
+  const held = new Set(rows.map((row) => row.subjectId));
+  const missing = core.filter((subject) => !held.has(subject.id));
+
+  if (missing.length > 0) {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.CORE_SUBJECT_MISSING,
+      `Core subjects missing: ${missing.map((s) => s.name).join(', ')}`,
+      { subjectIds: missing.map((s) => s.id) }
+    );
+  }
+}
+
+/**
+ * Reject dropping or swapping a core item (CORE-003, CORE-004, SWAP-005)
+ *
+ * @param item - The registration item being removed
+ * @param student - The student's grade
+ * @param sessionType - The window's session type
+ * @param executor - Database client or open transaction
+ * @throws RegistrationRuleError CORE_SUBJECT_LOCKED
+ */
+export async function assertItemRemovable(
+  item: { subjectId: string; subjectName: string },
+  student: { grade: number | null },
+  sessionType: string,
+  executor: DbExecutor = db
+) {
+  if (await isCoreSubject(item.subjectId, student.grade, sessionType, executor)) {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.CORE_SUBJECT_LOCKED,
+      `${item.subjectName} is a core subject and cannot be dropped or swapped`
+    );
+  }
+}
@@ -0,0 +1,509 @@
+/**
+ * Registration Service
+ *
+ * Manages subject registrations:
+ * - Creating a registration in the active window (student or linked parent)
+ * - Cancelling an unpaid registration
+ * - Confirming a registration once its payment succeeds
+ * - Registration history per session and across all sessions
+ * - Drops, swaps and exam-type switches live in registration-change.services.ts
+ *
+ * Business Rules:
+ * - Registrations can only be created while a window is open
+ * - Only active subjects can be registered; external requires a
+ *   subject with an external price
+ * - Each item freezes the subject's price, name and code at registration
+ *   time (SUB-003), so catalog edits never change what was charged
+ * - A student holds each subject at most once per window. The partial
+ *   unique index `registrationItem_student_window_subject_idx` enforces
+ *   this under concurrent requests
+ * - New registrations are pending_payment until a payment confirms them
+ * - Core subject rules live in registration-rules.services.ts
+ */
+
+import {
+  db,
+  registration,
+  registrationItem,
+  registrationWindow,
+  eq,
+  and,
+  gt,
+  inArray,
+  isUniqueViolation,
+  type DbExecutor,
+} from '@repo/db';
+import { randomUUID } from 'crypto';
+import { REGISTRATION_RULE_CODES, addMoney, money } from '@repo/validations';
+import type {
+  CreateRegistrationType,
+  RegistrationQueryFiltersType,
+} from '@repo/validations';
+import {
+  RegistrationRuleError,
+  assertNotGraduated,
+  getCoreSubjects,
+  getHeldSubjectIds,
+} from './registration-rules.services';
+import { notifyUser } from './notification.services';
+import { recordAudit } from './audit.services';
+
+/**
+ * Columns returned for the window relation
+ */
+const windowColumns = {
+  id: true,
+  sessionType: true,
+  year: true,
+  status: true,
+  startsAt: true,
+  endsAt: true,
+} as const;
+
+/**
+ * Translate constraint violations into rule errors
+ */
+function toRegistrationError(err: unknown): Error {
+  if (isUniqueViolation(err, 'registrationItem_student_window_subject_idx')) {
+    return new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.SUBJECT_ALREADY_REGISTERED,
+      'One or more subjects are already registered for this session'
+    );
+  }
+  return err instanceof Error ? err : new Error('Registration failed');
+}
+
+/**
+ * Get the open window, optionally share-locked
+ */
+async function getOpenWindow(executor: DbExecutor, lock: boolean) {
+  const query = executor
+    .select()
+    .from(registrationWindow)
+    .where(and(
+      eq(registrationWindow.status, 'active'),
+      gt(registrationWindow.endsAt, new Date())
+    ));
+
+  const [window] = lock ? await query.for('share') : await query;
+  return window;
+}
+
+/**
+ * Get the subjects a student can register in the open window
+ *
+ * Core subjects for the student's grade are flagged as locked so the
+ * client can pre-select them and disable removal.
+ *
+ * @param studentId - The student's ID
+ * @returns The open window and annotated subjects
+ * @throws RegistrationRuleError if no window is open
+ */
+export async function getRegistrationOptions(studentId: string) {
+  const window = await getOpenWindow(db, false);
+
+  if (!window) {
+    throw new RegistrationRuleError(
+      REGISTRATION_RULE_CODES.REGISTRATION_CLOSED,
+      'Registration is closed'
+    );
+  }
+
+  const student = await db.query.user.findFirst({
+    where: (users, { eq }) => eq(users.id, studentId),
+    columns: { id: true, grade: true, graduatedAt: true },
+  });
+
+  if (!student) {
+    throw new Error('Student not found');
+  }
+
+  assertNotGraduated(student);
+
+  const [subjects, core, held] = await Promise.all([
+    db.query.subject.findMany({
+      where: (subjects, { eq }) => eq(subjects.isActive, true),
+      with: { council: { columns: { id: true, code: true, name: true } } },
+      orderBy: (subjects, { asc }) => [asc(subjects.name)],
+    }),
+    getCoreSubjects(student.grade, window.sessionType),
+    getHeldSubjectIds(studentId, window.id),
+  ]);
+
+  const coreIds = new Set(core.map((subject) => subject.id));
+
+  return {
+    window: {
+      id: window.id,
+      sessionType: window.sessionType,
+      year: window.year,
+      endsAt: window.endsAt,
+    },
+    subjects: subjects.map((subject) => {
+      const isCore = coreIds.has(subject.id);
+      const alreadyRegistered = held.has(subject.id);
+
+      return {
+        ...subject,
+        isCore,
+        alreadyRegistered,
+        // Core subjects are pre-selected and cannot be removed
+        locked: isCore,
+        reasonCode: alreadyRegistered
+          ? REGISTRATION_RULE_CODES.SUBJECT_ALREADY_REGISTERED
+          : isCore
+            ? REGISTRATION_RULE_CODES.CORE_SUBJECT_LOCKED
+            : null,
+      };
+    }),
+  };
+}
+
+/**
+ * Create a registration in the open window
+ *
+ * The window row is share-locked for the duration of the transaction so
+ * the window cannot close between the check and the insert.
+ *
+ * Core subjects for the student's grade that are not yet held are
+ * auto-included as in-school items (CORE-001).
+ *
+ * @param studentId - The registering student's ID
+ * @param items - Selected subjects and exam types
+ * @param createdBy - The user placing the registration (student or parent)
+ * @returns The created registration with items
+ * @throws RegistrationRuleError if no window is open, a subject is
+ *         unavailable, or a subject is already registered
+ */
+export async function createRegistration(
+  studentId: string,
+  items: CreateRegistrationType['items'],
+  createdBy: string
+) {
+  const now = new Date();
+
+  try {
+    const registrationId = await db.transaction(async (tx) => {
+      const window = await getOpenWindow(tx, true);
+
+      if (!window) {
+        throw new RegistrationRuleError(
+          REGISTRATION_RULE_CODES.REGISTRATION_CLOSED,
+          'Registration is closed'
+        );
+      }
+
+      const student = await tx.query.user.findFirst({
+        where: (users, { eq }) => eq(users.id, studentId),
+        columns: { id: true, role: true, grade: true, graduatedAt: true },
+      });
+
+      if (!student || student.role !== 'student') {
+        throw new Error('Student not found');
+      }
+
+      assertNotGraduated(student);
+
+      // Auto-include missing core subjects
+      const core = await getCoreSubjects(student.grade, window.sessionType, tx);
+      const held = await getHeldSubjectIds(studentId, window.id, tx);
+      const selected = new Set(items.map((item) => item.subjectId));
+      const withCore = [
+        ...items,
+        ...core
+          .filter((subject) => !selected.has(subject.id) && !held.has(subject.id))
+          .map((subject) => ({ subjectId: subject.id, examType: 'in_school' as const })),
+      ];
+
+      const subjectIds = withCore.map((item) => item.subjectId);
+      const subjects = await tx.query.subject.findMany({
+        where: (subjects, { inArray }) => inArray(subjects.id, subjectIds),
+      });
+      const subjectsById = new Map(subjects.map((s) => [s.id, s]));
+
+      const lines = withCore.map((item) => {
+        const found = subjectsById.get(item.subjectId);
+
+        if (!found || !found.isActive) {
+          throw new RegistrationRuleError(
+            REGISTRATION_RULE_CODES.SUBJECT_UNAVAILABLE,
+            'One or more subjects are not available for registration',
+            { subjectId: item.subjectId }
+          );
+        }
+
+        if (held.has(found.id)) {
+          throw new RegistrationRuleError(
+            REGISTRATION_RULE_CODES.SUBJECT_ALREADY_REGISTERED,
+            `${found.name} is already registered for this session`,
+            { subjectId: found.id }
+          );
+        }
+
+        const unitPrice = item.examType === 'external' ? found.priceExternal : found.priceInSchool;
+
+        if (unitPrice === null) {
+          throw new RegistrationRuleError(
+            REGISTRATION_RULE_CODES.EXTERNAL_UNAVAILABLE,
+            `${found.name} is not available as an external exam`,
+            { subjectId: found.id }
+          );
+        }
+
+        return {
+          id: randomUUID(),
+          subjectId: found.id,
+          studentId,
+          windowId: window.id,
+          examType: item.examType,
+          unitPrice,
+          subjectName: found.name,
+          subjectCode: found.code,
+          status: 'active',
+          createdAt: now,
+          updatedAt: now,
+        };
+      });
+
+      const id = randomUUID();
+
+      const [created] = await tx.insert(registration).values({
+        id,
+        studentId,
+        windowId: window.id,
+        status: 'pending_payment',
+        totalAmount: addMoney(money(0), ...lines.map((line) => money(line.unitPrice))).amount,
+        createdBy,
+        createdAt: now,
+        updatedAt: now,
+      }).returning();
+
+      await tx.insert(registrationItem).values(
+        lines.map((line) => ({ ...line, registrationId: id }))
+      );
+
+      await recordAudit({
+        action: 'registration.create',
+        entityType: 'registration',
+        entityId: id,
+        after: {
+          ...created,
+          items: lines.map((line) => `${line.subjectCode}:${line.examType}:${line.unitPrice}`),
+        },
+      }, tx);
+
+      return id;
+    });
+
+    return getRegistrationById(registrationId);
+  } catch (err) {
+    throw toRegistrationError(err);
+  }
+}
+
+/**
+ * Get registrations with optional filters
+ *
+ * @param filters - Student / window / status filters
+ * @returns Array of registrations with items and window, newest first
+ */
+export async function getRegistrations(filters: RegistrationQueryFiltersType) {
+  return db.query.registration.findMany({
+    where: (registrations, { eq, and }) => {
+      const conditions = [];
+
+      if (filters.studentId) {
+        conditions.push(eq(registrations.studentId, filters.studentId));
+      }
+
+      if (filters.windowId) {
+        conditions.push(eq(registrations.windowId, filters.windowId));
+      }
+
+      if (filters.status) {
+        conditions.push(eq(registrations.status, filters.status));
+      }
+
+      return conditions.length > 0 ? and(...conditions) : undefined;
+    },
+    with: {
+      items: true,
+      window: { columns: windowColumns },
+    },
+    orderBy: (registrations, { desc }) => [desc(registrations.createdAt)],
+  });
+}
+
+/**
+ * Get a registration by ID
+ *
+ * @param registrationId - The registration's ID
+ * @returns The registration with items and window, or undefined
+ */
+export async function getRegistrationById(registrationId: string) {
+  return db.query.registration.findFirst({
+    where: (registrations, { eq }) => eq(registrations.id, registrationId),
+    with: {
+      items: true,
+      window: { columns: windowColumns },
+      changes: true,
+    },
+  });
+}
+
+/**
+ * Get a student's registration history across all sessions (REG-005)
+ *
+ * Registrations are grouped by window, newest session first. Totals
+ * only count confirmed registrations and active items.
+ *
+ * @param studentId - The student's ID
+ * @returns One entry per session the student registered in
+ */
+export async function getRegistrationHistory(studentId: string) {
+  const registrations = await getRegistrations({ studentId });
+
+  const sessions = new Map<string, {
+    window: (typeof registrations)[number]['window'];
+    registrations: typeof registrations;
+    subjectCount: number;
+    totalPaid: number;
+  }>();
+
+  for (const entry of registrations) {
+    const session = sessions.get(entry.windowId) ?? {
+      window: entry.window,
+      registrations: [],
+      subjectCount: 0,
+      totalPaid: 0,
+    };
+
+    session.registrations.push(entry);
+
+    if (entry.status === 'confirmed') {
+      const activeItems = entry.items.filter((item) => item.status === 'active');
+      session.subjectCount += activeItems.length;
+      session.totalPaid += activeItems.reduce((sum, item) => sum + item.unitPrice, 0);
+    }
+
+    sessions.set(entry.windowId, session);
+  }
+
+  return [...sessions.values()].sort(
+    (a, b) => b.window.startsAt.getTime() - a.window.startsAt.getTime()
+  );
+}
+
+/**
+ * Cancel an unpaid registration
+ *
+ * Releases its subjects so they can be registered again.
+ *
+ * @param registrationId - The registration's ID
+ * @returns The cancelled registration
+ * @throws Error if the registration is not pending payment
+ */
+export async function cancelRegistration(registrationId: string) {
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    const [cancelled] = await tx
+      .update(registration)
+      .set({
+        status: 'cancelled',
+        cancelledAt: now,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(registration.id, registrationId),
+        eq(registration.status, 'pending_payment')
+      ))
+      .returning({ id: registration.id });
+
+    if (!cancelled) {
+      throw new Error('Only registrations awaiting payment can be cancelled');
+    }
+
+    await recordAudit({
+      action: 'registration.cancel',
+      entityType: 'registration',
+      entityId: registrationId,
+      before: { status: 'pending_payment' },
+      after: { status: 'cancelled' },
+    }, tx);
+
+    await tx
+      .update(registrationItem)
+      .set({ status: 'cancelled', updatedAt: now })
+      .where(eq(registrationItem.registrationId, registrationId));
+  });
+
+  return getRegistrationById(registrationId);
+}
+
+/**
+ * Confirm a registration after its payment succeeds
+ *
+ * Called by the payment flow, usually inside its own transaction.
+ * Queues a confirmation email to each student and their parents.
+ *
+ * @param registrationIds - Registrations covered by the payment
+ * @param paymentMethod - Provider, bank_transfer or escrow (for the email)
+ * @param executor - Database client or open transaction
+ * @returns The confirmed registrations
+ */
+export async function confirmRegistrations(
+  registrationIds: string[],
+  paymentMethod: string,
+  executor: DbExecutor = db
+) {
+  if (registrationIds.length === 0) return [];
+
+  const now = new Date();
+
+  const confirmed = await executor
+    .update(registration)
+    .set({
+      status: 'confirmed',
+      confirmedAt: now,
+      updatedAt: now,
+    })
+    .where(and(
+      inArray(registration.id, registrationIds),
+      eq(registration.status, 'pending_payment')
+    ))
+    .returning();
+
+  for (const entry of confirmed) {
+    await recordAudit({
+      action: 'registration.confirm',
+      entityType: 'registration',
+      entityId: entry.id,
+      before: { status: 'pending_payment', confirmedAt: null },
+      after: { status: entry.status, confirmedAt: entry.confirmedAt, paymentMethod },
+    }, executor);
+
+    const details = await executor.query.registration.findFirst({
+      where: (registrations, { eq }) => eq(registrations.id, entry.id),
+      with: {
+        window: { columns: { sessionType: true, year: true } },
+        items: { where: (items, { eq }) => eq(items.status, 'active') },
+      },
+    });
+
+    await notifyUser(entry.studentId, 'registration.confirmed', {
+      confirmationNumber: entry.id,
+      session: details!.window,
+      items: details!.items.map((item) => ({
+        subjectName: item.subjectName,
+        subjectCode: item.subjectCode,
+        examType: item.examType,
+        unitPrice: item.unitPrice,
+      })),
+      totalAmount: entry.totalAmount,
+      paymentMethod,
+    }, executor);
+  }
+
+  return confirmed;
+}
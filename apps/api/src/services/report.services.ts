@@ -0,0 +1,205 @@
+/**
+ * Report Service Layer
+ *
+ * Background report exports (REP-001..REP-007):
+ * - Small exports stream straight to the response (routes/report.routes.ts)
+ * - Exports over the size limits are queued as a reports.export job,
+ *   stored in R2 and downloaded through a short-lived signed URL
+ * - Stored files are purged after REPORT_EXPORT_RETENTION_MS
+ */
+
+import { db, reportExport, eq, and, lte, isNotNull } from '@repo/db';
+import { createR2Client } from '@repo/storage';
+import { randomUUID } from 'crypto';
+import { PassThrough } from 'stream';
+import { REPORT_EXPORT_STATUSES } from '@repo/validations';
+import { env } from '../env';
+import { logger } from '../lib/logger';
+import { enqueueJob } from './job.services';
+import {
+  EXPORTERS,
+  exportReport,
+  getReport,
+  reportFileName,
+  type AnyReportDefinition,
+  type FileFormat,
+} from '../reports';
+
+export const REPORT_EXPORT_JOB = 'reports.export';
+
+/**
+ * Largest report streamed in the request; bigger ones run in the background.
+ * PDF layout is much slower than CSV / XLSX, so it has a lower limit.
+ */
+export const REPORT_STREAM_ROW_LIMITS: Record<FileFormat, number> = {
+  csv: 10_000,
+  xlsx: 10_000,
+  pdf: 2_000,
+};
+
+// How long finished exports stay downloadable
+const REPORT_EXPORT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Lifetime of a download link
+const DOWNLOAD_URL_EXPIRES_IN = 60 * 60;
+
+const r2Client = createR2Client({
+  accountId: env.R2_ACCOUNT_ID,
+  accessKeyId: env.R2_ACCESS_KEY_ID,
+  secretAccessKey: env.R2_SECRET_ACCESS_KEY,
+  bucketName: env.R2_BUCKET_NAME,
+});
+
+/**
+ * Check whether an export is too large to stream in the request
+ *
+ * @param rowCount - Rows the report would produce
+ * @param format - File format
+ */
+export function shouldRunInBackground(rowCount: number, format: FileFormat) {
+  return rowCount > REPORT_STREAM_ROW_LIMITS[format];
+}
+
+/**
+ * Queue a background export
+ *
+ * @param report - Report definition
+ * @param filters - Parsed report filters
+ * @param format - File format
+ * @param requestedBy - Admin requesting the export
+ * @returns The export record (status 'pending')
+ */
+export async function createReportExport(
+  report: AnyReportDefinition,
+  filters: Record<string, unknown>,
+  format: FileFormat,
+  requestedBy: string
+) {
+  return db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(reportExport)
+      .values({
+        id: randomUUID(),
+        reportId: report.id,
+        format,
+        filters,
+        status: REPORT_EXPORT_STATUSES.PENDING,
+        fileName: reportFileName(report, format),
+        requestedBy,
+      })
+      .returning();
+
+    await enqueueJob(REPORT_EXPORT_JOB, { exportId: created!.id }, { dedupeKey: `report-export:${created!.id}` }, tx);
+
+    return created!;
+  });
+}
+
+/**
+ * Run a queued export: generate the file, store it in R2 and mark it completed
+ *
+ * Filters are parsed again so the stored JSON (dates as strings) gets
+ * the same types as in the request. A failure marks the export failed;
+ * the job itself is not retried because report queries are deterministic.
+ *
+ * @param exportId - The export's ID
+ */
+export async function runReportExport(exportId: string) {
+  const current = await db.query.reportExport.findFirst({
+    where: (exports, { eq }) => eq(exports.id, exportId),
+  });
+
+  if (!current || current.status === REPORT_EXPORT_STATUSES.COMPLETED) return;
+
+  await db
+    .update(reportExport)
+    .set({ status: REPORT_EXPORT_STATUSES.RUNNING, error: null })
+    .where(eq(reportExport.id, exportId));
+
+  try {
+    const report = getReport(current.reportId as AnyReportDefinition['id']);
+    if (!report) {
+      throw new Error(`Unknown report: ${current.reportId}`);
+    }
+
+    const format = current.format as FileFormat;
+    const filters = report.filters.parse(current.filters);
+
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    const rowCount = await exportReport(report, filters, format, out);
+
+    const storageKey = `reports/${exportId}.${EXPORTERS[format].extension}`;
+    await r2Client.uploadBuffer(storageKey, Buffer.concat(chunks), EXPORTERS[format].contentType);
+
+    const now = new Date();
+    await db
+      .update(reportExport)
+      .set({
+        status: REPORT_EXPORT_STATUSES.COMPLETED,
+        rowCount,
+        storageKey,
+        completedAt: now,
+        expiresAt: new Date(now.getTime() + REPORT_EXPORT_RETENTION_MS),
+      })
+      .where(eq(reportExport.id, exportId));
+
+    logger.info(`[reports] Export ${exportId} (${current.reportId}.${format}) completed with ${rowCount} row(s)`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+
+    await db
+      .update(reportExport)
+      .set({
+        status: REPORT_EXPORT_STATUSES.FAILED,
+        error: message,
+        expiresAt: new Date(Date.now() + REPORT_EXPORT_RETENTION_MS),
+      })
+      .where(eq(reportExport.id, exportId));
+
+    logger.error(`[reports] Export ${exportId} failed: ${message}`);
+  }
+}
+
+/**
+ * Get a background export with a download link once it is ready
+ *
+ * @param exportId - The export's ID
+ * @returns The export with downloadUrl (null until completed), or undefined
+ */
+export async function getReportExport(exportId: string) {
+  const found = await db.query.reportExport.findFirst({
+    where: (exports, { eq }) => eq(exports.id, exportId),
+  });
+
+  if (!found) return undefined;
+
+  const { storageKey, ...rest } = found;
+  const downloadUrl = storageKey && found.status === REPORT_EXPORT_STATUSES.COMPLETED
+    ? await r2Client.getSignedUrl(storageKey, DOWNLOAD_URL_EXPIRES_IN, found.fileName ?? undefined)
+    : null;
+
+  return { ...rest, downloadUrl };
+}
+
+/**
+ * Delete expired exports and their stored files
+ *
+ * @returns Number of exports purged
+ */
+export async function purgeExpiredReportExports() {
+  const expired = await db
+    .select({ id: reportExport.id, storageKey: reportExport.storageKey })
+    .from(reportExport)
+    .where(and(isNotNull(reportExport.expiresAt), lte(reportExport.expiresAt, new Date())));
+
+  for (const row of expired) {
+    if (row.storageKey) {
+      await r2Client.deleteFile(row.storageKey);
+    }
+    await db.delete(reportExport).where(eq(reportExport.id, row.id));
+  }
+
+  return expired.length;
+}
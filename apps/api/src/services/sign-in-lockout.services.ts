@@ -0,0 +1,195 @@
+/**
+ * Sign-in Lockout Service
+ *
+ * Per-account protection against password guessing (AUTH-005). The
+ * per-IP auth rate limit does not stop guesses spread over many
+ * addresses; this counts failures per account instead.
+ *
+ * Business Rules:
+ * - SIGN_IN_MAX_FAILED_ATTEMPTS consecutive failures lock the account
+ * - The first lockout lasts 15 minutes and each further one doubles,
+ *   up to 24 hours; a successful sign-in starts over
+ * - Counters and lockouts are stored in the database, so they survive
+ *   restarts and are shared by every API instance
+ * - Unknown emails are counted and locked exactly like real accounts,
+ *   so a lockout never reveals whether an email is registered
+ * - Lockouts and admin unlocks are audited against the user
+ * - Counters with no recent failures are purged (maintenance job)
+ */
+
+import { db, signInLockout, user, eq, and, lt, or, isNull, type DbExecutor } from '@repo/db';
+import { recordAudit } from './audit.services';
+
+export const SIGN_IN_MAX_FAILED_ATTEMPTS = 5;
+
+const BASE_LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_LOCKOUT_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Emails are compared case-insensitively
+ */
+function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Length of the next lockout: 15m, 30m, 1h, ... capped at 24h
+ */
+function lockoutDuration(previousLockouts: number) {
+  return Math.min(BASE_LOCKOUT_MS * 2 ** previousLockouts, MAX_LOCKOUT_MS);
+}
+
+async function findUserIdByEmail(email: string, executor: DbExecutor) {
+  const [row] = await executor
+    .select({ id: user.id })
+    .from(user)
+    .where(eq(user.email, email));
+
+  return row?.id;
+}
+
+/**
+ * When the account's current lockout ends
+ *
+ * @param email - Email used to sign in
+ * @returns The end of the lockout, or null if the account is not locked
+ */
+export async function getLockedUntil(email: string) {
+  const row = await db.query.signInLockout.findFirst({
+    where: (lockouts, { eq }) => eq(lockouts.email, normalizeEmail(email)),
+    columns: { lockedUntil: true },
+  });
+
+  return row?.lockedUntil && row.lockedUntil > new Date() ? row.lockedUntil : null;
+}
+
+/**
+ * Count a failed sign-in, locking the account on the last allowed attempt
+ *
+ * @param email - Email used to sign in
+ * @returns The end of the lockout if this failure locked the account, else null
+ */
+export async function recordFailedSignIn(email: string) {
+  const key = normalizeEmail(email);
+
+  return db.transaction(async (tx) => {
+    await tx.insert(signInLockout).values({ email: key }).onConflictDoNothing();
+
+    // Row lock: concurrent failures for one account are counted one at a time
+    const [current] = await tx
+      .select()
+      .from(signInLockout)
+      .where(eq(signInLockout.email, key))
+      .for('update');
+
+    const now = new Date();
+
+    if (current!.lockedUntil && current!.lockedUntil > now) {
+      return current!.lockedUntil;
+    }
+
+    const failedAttempts = current!.failedAttempts + 1;
+
+    if (failedAttempts < SIGN_IN_MAX_FAILED_ATTEMPTS) {
+      await tx
+        .update(signInLockout)
+        .set({ failedAttempts, lastFailedAt: now })
+        .where(eq(signInLockout.email, key));
+      return null;
+    }
+
+    const lockedUntil = new Date(now.getTime() + lockoutDuration(current!.lockoutCount));
+    const lockoutCount = current!.lockoutCount + 1;
+
+    await tx
+      .update(signInLockout)
+      .set({ failedAttempts: 0, lockoutCount, lockedUntil, lastFailedAt: now })
+      .where(eq(signInLockout.email, key));
+
+    const userId = await findUserIdByEmail(key, tx);
+    if (userId) {
+      await recordAudit({
+        action: 'user.lock',
+        entityType: 'user',
+        entityId: userId,
+        after: { lockedUntil, lockoutCount, failedAttempts: SIGN_IN_MAX_FAILED_ATTEMPTS },
+        actorId: null,
+      }, tx);
+    }
+
+    return lockedUntil;
+  });
+}
+
+/**
+ * Forget the account's failures after a successful sign-in
+ *
+ * @param email - Email used to sign in
+ */
+export async function clearFailedSignIns(email: string) {
+  await db.delete(signInLockout).where(eq(signInLockout.email, normalizeEmail(email)));
+}
+
+/**
+ * Unlock an account and reset its failure count (admin)
+ *
+ * @param userId - The locked user's ID
+ * @returns Whether the account was locked
+ * @throws Error if the user does not exist
+ */
+export async function unlockUser(userId: string) {
+  return db.transaction(async (tx) => {
+    const [target] = await tx
+      .select({ email: user.email })
+      .from(user)
+      .where(eq(user.id, userId));
+
+    if (!target) {
+      throw new Error('User not found');
+    }
+
+    const [removed] = await tx
+      .delete(signInLockout)
+      .where(eq(signInLockout.email, normalizeEmail(target.email)))
+      .returning();
+
+    const wasLocked = !!removed?.lockedUntil && removed.lockedUntil > new Date();
+
+    if (removed) {
+      await recordAudit({
+        action: 'user.unlock',
+        entityType: 'user',
+        entityId: userId,
+        before: {
+          lockedUntil: removed.lockedUntil,
+          lockoutCount: removed.lockoutCount,
+          failedAttempts: removed.failedAttempts,
+        },
+        after: { lockedUntil: null, lockoutCount: 0, failedAttempts: 0 },
+      }, tx);
+    }
+
+    return wasLocked;
+  });
+}
+
+/**
+ * Delete counters with no recent failures and no active lockout
+ *
+ * @param retentionMs - How long failures are remembered after the last one
+ * @returns Number of deleted rows
+ */
+export async function purgeStaleSignInLockouts(retentionMs: number) {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - retentionMs);
+
+  const deleted = await db
+    .delete(signInLockout)
+    .where(and(
+      lt(signInLockout.lastFailedAt, cutoff),
+      or(isNull(signInLockout.lockedUntil), lt(signInLockout.lockedUntil, now))
+    ))
+    .returning({ email: signInLockout.email });
+
+  return deleted.length;
+}
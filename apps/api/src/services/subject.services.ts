@@ -0,0 +1,344 @@
+/**
+ * Subject Service
+ *
+ * Manages the subject catalog:
+ * - Creating and editing subjects (admin)
+ * - Deactivating / reactivating subjects (admin)
+ * - Core designation per grade and session type (admin)
+ * - Browsing subjects with council filter and name/code search
+ *
+ * Business Rules:
+ * - Subject codes are unique across the catalog
+ * - Subjects are never hard-deleted; deactivation hides them from
+ *   new registrations while existing registrations are unaffected
+ * - A null priceExternal means the external option is not available
+ * - Prices are integer piastres
+ */
+
+import { db, subject, subjectCoreRule, eq } from '@repo/db';
+import { randomUUID } from 'crypto';
+import type {
+  CreateSubjectType,
+  UpdateSubjectType,
+  SubjectQueryFiltersType,
+  SetCoreRulesType,
+  CouncilCodeType,
+} from '@repo/validations';
+import { recordAudit } from './audit.services';
+
+/**
+ * Columns returned for the council relation
+ */
+const councilColumns = {
+  id: true,
+  code: true,
+  name: true,
+} as const;
+
+/**
+ * Get all councils
+ *
+ * @returns Array of councils ordered by name
+ */
+export async function getCouncils() {
+  return db.query.council.findMany({
+    columns: councilColumns,
+    orderBy: (councils, { asc }) => [asc(councils.name)],
+  });
+}
+
+/**
+ * Resolve a council code to its ID
+ *
+ * @param code - The council code
+ * @returns The council ID
+ * @throws Error if the council does not exist
+ */
+async function getCouncilIdByCode(code: CouncilCodeType): Promise<string> {
+  const found = await db.query.council.findFirst({
+    where: (councils, { eq }) => eq(councils.code, code),
+    columns: { id: true },
+  });
+
+  if (!found) {
+    throw new Error('Council not found');
+  }
+
+  return found.id;
+}
+
+/**
+ * Check whether a subject code is already taken
+ *
+ * @param code - The subject code
+ * @param excludeId - Subject ID to ignore (for updates)
+ * @returns true if another subject uses the code
+ */
+async function isCodeTaken(code: string, excludeId?: string): Promise<boolean> {
+  const existing = await db.query.subject.findFirst({
+    where: (subjects, { eq }) => eq(subjects.code, code),
+    columns: { id: true },
+  });
+
+  return !!existing && existing.id !== excludeId;
+}
+
+/**
+ * Match a search term literally: %, _ and \ are LIKE wildcards
+ */
+function escapeLikePattern(term: string) {
+  return term.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * Get subjects with optional filters
+ *
+ * @param filters - Council, search term and inactive toggle
+ * @returns Array of subjects with council info
+ */
+export async function getSubjects(filters?: SubjectQueryFiltersType) {
+  const councilId = filters?.council
+    ? await getCouncilIdByCode(filters.council)
+    : undefined;
+
+  return db.query.subject.findMany({
+    where: (subjects, { eq, and, or, ilike }) => {
+      const conditions = [];
+
+      if (!filters?.includeInactive) {
+        conditions.push(eq(subjects.isActive, true));
+      }
+
+      if (councilId) {
+        conditions.push(eq(subjects.councilId, councilId));
+      }
+
+      if (filters?.search) {
+        const pattern = `%${escapeLikePattern(filters.search)}%`;
+        conditions.push(
+          or(
+            ilike(subjects.name, pattern),
+            ilike(subjects.code, pattern)
+          )
+        );
+      }
+
+      return conditions.length > 0 ? and(...conditions) : undefined;
+    },
+    with: {
+      council: { columns: councilColumns },
+    },
+    orderBy: (subjects, { asc }) => [asc(subjects.name)],
+  });
+}
+
+/**
+ * Get a subject by ID
+ *
+ * @param subjectId - The subject's ID
+ * @returns Subject with council info and core rules, or undefined
+ */
+export async function getSubjectById(subjectId: string) {
+  return db.query.subject.findFirst({
+    where: (subjects, { eq }) => eq(subjects.id, subjectId),
+    with: {
+      council: { columns: councilColumns },
+      coreRules: {
+        columns: { grade: true, sessionType: true },
+      },
+    },
+  });
+}
+
+/**
+ * Create a subject (admin only)
+ *
+ * @param data - Subject data
+ * @returns The created subject with council info
+ * @throws Error if the code is taken or the council does not exist
+ */
+export async function createSubject(data: CreateSubjectType) {
+  if (await isCodeTaken(data.code)) {
+    throw new Error('Subject code already exists');
+  }
+
+  const councilId = await getCouncilIdByCode(data.council);
+  const id = randomUUID();
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    const [created] = await tx.insert(subject).values({
+      id,
+      name: data.name,
+      code: data.code,
+      councilId,
+      priceInSchool: data.priceInSchool,
+      priceExternal: data.priceExternal ?? null,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+
+    await recordAudit({
+      action: 'subject.create',
+      entityType: 'subject',
+      entityId: id,
+      after: created,
+    }, tx);
+  });
+
+  return getSubjectById(id);
+}
+
+/**
+ * Update a subject (admin only)
+ *
+ * Registrations snapshot their price, so edits only affect
+ * future registrations.
+ *
+ * @param subjectId - The subject's ID
+ * @param data - Fields to update
+ * @returns The updated subject with council info
+ * @throws Error if the new code is taken or the council does not exist
+ */
+export async function updateSubject(subjectId: string, data: UpdateSubjectType) {
+  if (data.code && await isCodeTaken(data.code, subjectId)) {
+    throw new Error('Subject code already exists');
+  }
+
+  const { council: councilCode, ...fields } = data;
+  const councilId = councilCode ? await getCouncilIdByCode(councilCode) : undefined;
+
+  await db.transaction(async (tx) => {
+    const [before] = await tx
+      .select()
+      .from(subject)
+      .where(eq(subject.id, subjectId))
+      .for('update');
+
+    const [updated] = await tx
+      .update(subject)
+      .set({
+        ...fields,
+        ...(councilId ? { councilId } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(subject.id, subjectId))
+      .returning();
+
+    if (updated) {
+      await recordAudit({
+        action: 'subject.update',
+        entityType: 'subject',
+        entityId: subjectId,
+        before,
+        after: updated,
+      }, tx);
+    }
+  });
+
+  return getSubjectById(subjectId);
+}
+
+/**
+ * Activate or deactivate a subject (admin only)
+ *
+ * @param subjectId - The subject's ID
+ * @param isActive - New active state
+ * @returns The updated subject
+ */
+export async function setSubjectActive(subjectId: string, isActive: boolean) {
+  return db.transaction(async (tx) => {
+    const [before] = await tx
+      .select({ isActive: subject.isActive })
+      .from(subject)
+      .where(eq(subject.id, subjectId))
+      .for('update');
+
+    const [updated] = await tx
+      .update(subject)
+      .set({
+        isActive,
+        updatedAt: new Date(),
+      })
+      .where(eq(subject.id, subjectId))
+      .returning();
+
+    if (updated) {
+      await recordAudit({
+        action: isActive ? 'subject.activate' : 'subject.deactivate',
+        entityType: 'subject',
+        entityId: subjectId,
+        before,
+        after: { isActive: updated.isActive },
+      }, tx);
+    }
+
+    return updated;
+  });
+}
+
+/**
+ * Core rules as sorted 'grade:sessionType' labels (for the audit diff)
+ */
+function describeRules(rules: Array<{ grade: number; sessionType: string }>) {
+  return rules.map((rule) => `${rule.grade}:${rule.sessionType}`).sort();
+}
+
+/**
+ * Replace a subject's core rules (admin only)
+ *
+ * Only affects future registrations. Items already registered keep
+ * their current state.
+ *
+ * @param subjectId - The subject's ID
+ * @param data - Grade / session type combinations the subject is core for
+ * @returns The updated subject with core rules
+ */
+export async function setCoreRules(subjectId: string, data: SetCoreRulesType) {
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    const previous = await tx
+      .delete(subjectCoreRule)
+      .where(eq(subjectCoreRule.subjectId, subjectId))
+      .returning({ grade: subjectCoreRule.grade, sessionType: subjectCoreRule.sessionType });
+
+    await recordAudit({
+      action: 'subject.set_core_rules',
+      entityType: 'subject',
+      entityId: subjectId,
+      before: { coreRules: describeRules(previous) },
+      after: { coreRules: describeRules(data.rules) },
+    }, tx);
+
+    if (data.rules.length > 0) {
+      await tx.insert(subjectCoreRule).values(
+        data.rules.map((rule) => ({
+          id: randomUUID(),
+          subjectId,
+          grade: rule.grade,
+          sessionType: rule.sessionType,
+          createdAt: now,
+        }))
+      );
+    }
+  });
+
+  return getSubjectById(subjectId);
+}
+
+/**
+ * Check if subject exists
+ *
+ * @param subjectId - The subject's ID
+ * @returns true if subject exists
+ */
+export async function subjectExists(subjectId: string): Promise<boolean> {
+  const existing = await db.query.subject.findFirst({
+    where: (subjects, { eq }) => eq(subjects.id, subjectId),
+    columns: { id: true },
+  });
+
+  return !!existing;
+}
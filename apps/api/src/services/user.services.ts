@@ -4,13 +4,45 @@
  * Manages user profile operations:
  * - Viewing user profiles
  * - Updating user profiles
- * - Generating unique student IDs
+ * - Role, grade and student ID for new sign-ups
+ * - Finishing sign-ups left without a role by the old two-step flow
  * - Admin user management
+ *
+ * Every change is recorded in the audit trail.
  */
 
 import { db, user, eq, ilike, or, and } from '@repo/db';
 import { randomUUID } from 'crypto';
-import type { UpdateProfileType, AdminUpdateUserType, UserQueryFiltersType } from '@repo/validations';
+import { ROLES, needsSignUpCompletion } from '@repo/validations';
+import type { UpdateProfileType, AdminUpdateUserType, UserQueryFiltersType, SignUpDataType } from '@repo/validations';
+import { recordAudit } from './audit.services';
+
+/**
+ * Profile columns returned by updates (excludes password/tokens)
+ */
+const profileColumns = {
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  emailVerified: user.emailVerified,
+  image: user.image,
+  role: user.role,
+  grade: user.grade,
+  graduatedAt: user.graduatedAt,
+  studentId: user.studentId,
+  phone: user.phone,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+};
+
+/**
+ * Profile columns plus admin-managed fields
+ */
+const adminColumns = {
+  ...profileColumns,
+  banned: user.banned,
+  banReason: user.banReason,
+};
 
 /**
  * Get user profile by ID
@@ -29,6 +61,7 @@ export async function getUserProfile(userId: string) {
       image: true,
       role: true,
       grade: true,
+      graduatedAt: true,
       studentId: true,
       phone: true,
       createdAt: true,
@@ -87,28 +120,34 @@ export async function getUserByStudentId(studentId: string) {
  * @returns The updated user profile
  */
 export async function updateUserProfile(userId: string, data: UpdateProfileType) {
-  const [updated] = await db
-    .update(user)
-    .set({
-      ...data,
-      updatedAt: new Date(),
-    })
-    .where(eq(user.id, userId))
-    .returning({
-      id: user.id,
-      name: user.name,
-      email: user.email,
-      emailVerified: user.emailVerified,
-      image: user.image,
-      role: user.role,
-      grade: user.grade,
-      studentId: user.studentId,
-      phone: user.phone,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt,
-    });
+  return db.transaction(async (tx) => {
+    const [before] = await tx
+      .select(profileColumns)
+      .from(user)
+      .where(eq(user.id, userId))
+      .for('update');
+
+    const [updated] = await tx
+      .update(user)
+      .set({
+        ...data,
+        updatedAt: new Date(),
+      })
+      .where(eq(user.id, userId))
+      .returning(profileColumns);
+
+    if (updated) {
+      await recordAudit({
+        action: 'user.update_profile',
+        entityType: 'user',
+        entityId: userId,
+        before,
+        after: updated,
+      }, tx);
+    }
 
-  return updated;
+    return updated;
+  });
 }
 
 /**
@@ -119,30 +158,34 @@ export async function updateUserProfile(userId: string, data: UpdateProfileType)
  * @returns The updated user profile
  */
 export async function adminUpdateUser(userId: string, data: AdminUpdateUserType) {
-  const [updated] = await db
-    .update(user)
-    .set({
-      ...data,
-      updatedAt: new Date(),
-    })
-    .where(eq(user.id, userId))
-    .returning({
-      id: user.id,
-      name: user.name,
-      email: user.email,
-      emailVerified: user.emailVerified,
-      image: user.image,
-      role: user.role,
-      grade: user.grade,
-      studentId: user.studentId,
-      phone: user.phone,
-      banned: user.banned,
-      banReason: user.banReason,
-      createdAt: user.createdAt,
-      updatedAt: user.updatedAt,
-    });
+  return db.transaction(async (tx) => {
+    const [before] = await tx
+      .select(adminColumns)
+      .from(user)
+      .where(eq(user.id, userId))
+      .for('update');
+
+    const [updated] = await tx
+      .update(user)
+      .set({
+        ...data,
+        updatedAt: new Date(),
+      })
+      .where(eq(user.id, userId))
+      .returning(adminColumns);
+
+    if (updated) {
+      await recordAudit({
+        action: 'user.admin_update',
+        entityType: 'user',
+        entityId: userId,
+        before,
+        after: updated,
+      }, tx);
+    }
 
-  return updated;
+    return updated;
+  });
 }
 
 /**
@@ -177,49 +220,102 @@ export async function generateUniqueStudentId(): Promise<string> {
 }
 
 /**
- * Set student-specific fields
- * 
- * Used after sign-up to set grade and studentId for students
- * 
- * @param userId - The user's ID
- * @param grade - The student's grade (10, 11, or 12)
- * @returns The updated user
+ * Role-specific fields for a new self-service account
+ *
+ * Called from the better-auth user create hook, so the fields are part
+ * of the same insert as the user row: an account can never exist
+ * without its role (or a student without a grade and studentId).
+ *
+ * @param data - Validated sign-up fields
+ * @returns Columns to add to the new user
  */
-export async function setStudentFields(userId: string, grade: number) {
-  const studentId = await generateUniqueStudentId();
-  
-  const [updated] = await db
-    .update(user)
-    .set({
-      grade,
-      studentId,
-      role: 'student',
-      updatedAt: new Date(),
-    })
-    .where(eq(user.id, userId))
-    .returning();
+export async function getSignUpFields(data: SignUpDataType) {
+  if (data.accountType === ROLES.STUDENT) {
+    return {
+      role: ROLES.STUDENT,
+      grade: data.grade,
+      studentId: await generateUniqueStudentId(),
+      phone: data.phone ?? null,
+    };
+  }
 
-  return updated;
+  return {
+    role: ROLES.PARENT,
+    grade: null,
+    studentId: null,
+    phone: data.phone ?? null,
+  };
 }
 
 /**
- * Set user role
- * 
- * @param userId - The user's ID
- * @param role - The new role
- * @returns The updated user
+ * Finish signing up an account that has no role yet
+ *
+ * For accounts from the old two-step sign-up that never picked student
+ * or parent: the same fields a new sign-up gets are saved now.
+ *
+ * @param userId - The signed-in user
+ * @param data - Validated sign-up fields
+ * @returns The updated user profile
+ * @throws Error if the user is not found or already finished signing up
  */
-export async function setUserRole(userId: string, role: string) {
-  const [updated] = await db
-    .update(user)
-    .set({
-      role,
-      updatedAt: new Date(),
-    })
-    .where(eq(user.id, userId))
-    .returning();
+export async function completeSignUp(userId: string, data: SignUpDataType) {
+  const fields = await getSignUpFields(data);
+
+  return db.transaction(async (tx) => {
+    const [before] = await tx
+      .select(profileColumns)
+      .from(user)
+      .where(eq(user.id, userId))
+      .for('update');
+
+    if (!before) {
+      throw new Error('User not found');
+    }
+
+    if (!needsSignUpCompletion(before.role)) {
+      throw new Error('Sign-up is already complete');
+    }
 
-  return updated;
+    const [updated] = await tx
+      .update(user)
+      .set({
+        ...fields,
+        updatedAt: new Date(),
+      })
+      .where(eq(user.id, userId))
+      .returning(profileColumns);
+
+    await recordAudit({
+      action: 'user.complete_sign_up',
+      entityType: 'user',
+      entityId: userId,
+      before,
+      after: updated,
+    }, tx);
+
+    return updated!;
+  });
+}
+
+/**
+ * Record a completed sign-up in the audit trail
+ *
+ * There is no session yet, so the new user is recorded as the actor.
+ *
+ * @param created - The new user
+ */
+export async function recordSignUp(created: { id: string; role?: string | null; grade?: number | null; studentId?: string | null }) {
+  await recordAudit({
+    action: 'user.sign_up',
+    entityType: 'user',
+    entityId: created.id,
+    after: {
+      role: created.role ?? null,
+      grade: created.grade ?? null,
+      studentId: created.studentId ?? null,
+    },
+    actorId: created.id,
+  });
 }
 
 /**
@@ -260,6 +356,7 @@ export async function getAllUsers(filters?: UserQueryFiltersType) {
       emailVerified: true,
       role: true,
       grade: true,
+      graduatedAt: true,
       studentId: true,
       phone: true,
       banned: true,
@@ -0,0 +1,505 @@
+/**
+ * Registration Window Service
+ *
+ * Manages registration window lifecycle:
+ * - Creating and editing draft windows (admin)
+ * - Opening a draft window (draft -> active)
+ * - Closing an active window early with a confirmation token (active -> closed)
+ * - Reporting the current window status to students and parents
+ *
+ * Business Rules:
+ * - Only draft windows can be edited
+ * - Only one window can be active at a time. The partial unique index
+ *   `registrationWindow_single_active_idx` is the source of truth, so the
+ *   rule holds even when two admins open windows concurrently
+ * - One window per session type and year
+ * - Early close needs a short-lived token from requestCloseConfirmation()
+ * - Closing a window queues grade progression (grade.services.ts)
+ */
+
+import {
+  db,
+  registrationWindow,
+  verification,
+  eq,
+  and,
+  gt,
+  lte,
+  isUniqueViolation,
+} from '@repo/db';
+import { randomUUID, randomBytes } from 'crypto';
+import type {
+  CreateWindowType,
+  UpdateWindowType,
+  WindowQueryFiltersType,
+} from '@repo/validations';
+import { recordAudit } from './audit.services';
+import { enqueueGradeProgression } from './grade.services';
+
+/**
+ * How long an early-close confirmation token stays valid
+ */
+const CLOSE_CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Translate constraint violations into user-facing errors
+ */
+function toWindowError(err: unknown): Error {
+  if (isUniqueViolation(err, 'registrationWindow_single_active_idx')) {
+    return new Error('Another registration window is already active');
+  }
+  if (isUniqueViolation(err, 'registrationWindow_session_year_idx')) {
+    return new Error('A window for this session already exists');
+  }
+  return err instanceof Error ? err : new Error('Registration window operation failed');
+}
+
+/**
+ * Verification identifier for an early-close token
+ */
+function closeTokenIdentifier(windowId: string, adminId: string) {
+  return `window-close:${windowId}:${adminId}`;
+}
+
+/**
+ * Get all windows with optional filters
+ *
+ * @param filters - Optional status / session type filters
+ * @returns Array of windows, newest start first
+ */
+export async function getWindows(filters?: WindowQueryFiltersType) {
+  return db.query.registrationWindow.findMany({
+    where: (windows, { eq, and }) => {
+      const conditions = [];
+
+      if (filters?.status) {
+        conditions.push(eq(windows.status, filters.status));
+      }
+
+      if (filters?.sessionType) {
+        conditions.push(eq(windows.sessionType, filters.sessionType));
+      }
+
+      return conditions.length > 0 ? and(...conditions) : undefined;
+    },
+    orderBy: (windows, { desc }) => [desc(windows.startsAt)],
+  });
+}
+
+/**
+ * Get a window by ID
+ *
+ * @param windowId - The window's ID
+ * @returns The window or undefined
+ */
+export async function getWindowById(windowId: string) {
+  return db.query.registrationWindow.findFirst({
+    where: (windows, { eq }) => eq(windows.id, windowId),
+  });
+}
+
+/**
+ * Get the active window
+ *
+ * @returns The active window or undefined
+ */
+export async function getActiveWindow() {
+  return db.query.registrationWindow.findFirst({
+    where: (windows, { eq }) => eq(windows.status, 'active'),
+  });
+}
+
+/**
+ * Get the current window status for students and parents
+ *
+ * Returns the active window (if any) with its closing time so clients can
+ * render a countdown, plus the next scheduled window when none is open.
+ *
+ * @returns Current window status
+ */
+export async function getCurrentWindowStatus() {
+  const now = new Date();
+  const active = await getActiveWindow();
+
+  const nextWindow = active
+    ? undefined
+    : await db.query.registrationWindow.findFirst({
+        where: (windows, { eq, and, gt }) => and(
+          eq(windows.status, 'draft'),
+          gt(windows.startsAt, now)
+        ),
+        columns: {
+          id: true,
+          sessionType: true,
+          year: true,
+          startsAt: true,
+          endsAt: true,
+        },
+        orderBy: (windows, { asc }) => [asc(windows.startsAt)],
+      });
+
+  const isOpen = !!active && active.endsAt > now;
+
+  return {
+    isOpen,
+    serverTime: now,
+    closesAt: active?.endsAt ?? null,
+    window: active
+      ? {
+          id: active.id,
+          sessionType: active.sessionType,
+          year: active.year,
+          status: active.status,
+          startsAt: active.startsAt,
+          endsAt: active.endsAt,
+        }
+      : null,
+    nextWindow: nextWindow ?? null,
+  };
+}
+
+/**
+ * Create a draft window (admin only)
+ *
+ * @param data - Session type, year and schedule
+ * @param adminId - The creating admin's ID
+ * @returns The created window
+ * @throws Error if a window for the same session already exists
+ */
+export async function createWindow(data: CreateWindowType, adminId: string) {
+  const now = new Date();
+
+  try {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(registrationWindow)
+        .values({
+          id: randomUUID(),
+          sessionType: data.sessionType,
+          year: data.year,
+          startsAt: data.startsAt,
+          endsAt: data.endsAt,
+          status: 'draft',
+          createdBy: adminId,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+
+      await recordAudit({
+        action: 'window.create',
+        entityType: 'registration_window',
+        entityId: created!.id,
+        after: created,
+      }, tx);
+
+      return created;
+    });
+  } catch (err) {
+    throw toWindowError(err);
+  }
+}
+
+/**
+ * Update a draft window (admin only)
+ *
+ * The row is locked for the duration of the check so a concurrent
+ * openWindow() cannot slip in between the status check and the update.
+ *
+ * @param windowId - The window's ID
+ * @param data - Fields to update
+ * @returns The updated window
+ * @throws Error if the window is not a draft or the schedule is invalid
+ */
+export async function updateWindow(windowId: string, data: UpdateWindowType) {
+  try {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(registrationWindow)
+        .where(eq(registrationWindow.id, windowId))
+        .for('update');
+
+      if (!current) {
+        throw new Error('Registration window not found');
+      }
+
+      if (current.status !== 'draft') {
+        throw new Error('Only draft windows can be edited');
+      }
+
+      const startsAt = data.startsAt ?? current.startsAt;
+      const endsAt = data.endsAt ?? current.endsAt;
+
+      if (endsAt <= startsAt) {
+        throw new Error('End time must be after start time');
+      }
+
+      const [updated] = await tx
+        .update(registrationWindow)
+        .set({
+          ...data,
+          updatedAt: new Date(),
+        })
+        .where(eq(registrationWindow.id, windowId))
+        .returning();
+
+      await recordAudit({
+        action: 'window.update',
+        entityType: 'registration_window',
+        entityId: windowId,
+        before: current,
+        after: updated,
+      }, tx);
+
+      return updated;
+    });
+  } catch (err) {
+    throw toWindowError(err);
+  }
+}
+
+/**
+ * Open a draft window (admin only)
+ *
+ * @param windowId - The window's ID
+ * @returns The activated window
+ * @throws Error if the window is not a draft, has already ended,
+ *         or another window is active
+ */
+export async function openWindow(windowId: string) {
+  const now = new Date();
+
+  try {
+    return await db.transaction(async (tx) => {
+      const [opened] = await tx
+        .update(registrationWindow)
+        .set({
+          status: 'active',
+          openedAt: now,
+          updatedAt: now,
+        })
+        .where(and(
+          eq(registrationWindow.id, windowId),
+          eq(registrationWindow.status, 'draft'),
+          gt(registrationWindow.endsAt, now)
+        ))
+        .returning();
+
+      if (!opened) {
+        throw new Error('Only draft windows that have not ended can be opened');
+      }
+
+      await recordAudit({
+        action: 'window.open',
+        entityType: 'registration_window',
+        entityId: windowId,
+        before: { status: 'draft', openedAt: null },
+        after: { status: opened.status, openedAt: opened.openedAt },
+      }, tx);
+
+      return opened;
+    });
+  } catch (err) {
+    throw toWindowError(err);
+  }
+}
+
+/**
+ * Issue an early-close confirmation token (admin only)
+ *
+ * The token is bound to the window and the requesting admin and
+ * expires after a few minutes.
+ *
+ * @param windowId - The window's ID
+ * @param adminId - The requesting admin's ID
+ * @returns The confirmation token and its expiry
+ * @throws Error if the window is not active
+ */
+export async function requestCloseConfirmation(windowId: string, adminId: string) {
+  const window = await getWindowById(windowId);
+
+  if (!window || window.status !== 'active') {
+    throw new Error('Only active windows can be closed');
+  }
+
+  const identifier = closeTokenIdentifier(windowId, adminId);
+  const token = randomBytes(24).toString('base64url');
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + CLOSE_CONFIRMATION_TTL_MS);
+
+  await db.transaction(async (tx) => {
+    // Only the latest token is valid
+    await tx.delete(verification).where(eq(verification.identifier, identifier));
+    await tx.insert(verification).values({
+      id: randomUUID(),
+      identifier,
+      value: token,
+      expiresAt,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+
+  return { confirmationToken: token, expiresAt };
+}
+
+/**
+ * Close an active window early (admin only)
+ *
+ * @param windowId - The window's ID
+ * @param adminId - The closing admin's ID
+ * @param confirmationToken - Token from requestCloseConfirmation()
+ * @returns The closed window
+ * @throws Error if the token is invalid/expired or the window is not active
+ */
+export async function closeWindow(
+  windowId: string,
+  adminId: string,
+  confirmationToken: string
+) {
+  const identifier = closeTokenIdentifier(windowId, adminId);
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    // Consume the token (single use)
+    const [consumed] = await tx
+      .delete(verification)
+      .where(and(
+        eq(verification.identifier, identifier),
+        eq(verification.value, confirmationToken),
+        gt(verification.expiresAt, now)
+      ))
+      .returning({ id: verification.id });
+
+    if (!consumed) {
+      throw new Error('Invalid or expired confirmation token');
+    }
+
+    const [closed] = await tx
+      .update(registrationWindow)
+      .set({
+        status: 'closed',
+        closedAt: now,
+        closedBy: adminId,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(registrationWindow.id, windowId),
+        eq(registrationWindow.status, 'active')
+      ))
+      .returning();
+
+    if (!closed) {
+      throw new Error('Only active windows can be closed');
+    }
+
+    await recordAudit({
+      action: 'window.close',
+      entityType: 'registration_window',
+      entityId: windowId,
+      before: { status: 'active', closedAt: null, closedBy: null },
+      after: { status: closed.status, closedAt: closed.closedAt, closedBy: closed.closedBy },
+    }, tx);
+
+    await enqueueGradeProgression(closed.id, tx);
+
+    return closed;
+  });
+}
+
+/**
+ * Delete a draft window (admin only)
+ *
+ * @param windowId - The window's ID
+ * @returns true if a draft window was deleted
+ */
+export async function deleteDraftWindow(windowId: string): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [deleted] = await tx
+      .delete(registrationWindow)
+      .where(and(
+        eq(registrationWindow.id, windowId),
+        eq(registrationWindow.status, 'draft')
+      ))
+      .returning();
+
+    if (!deleted) return false;
+
+    await recordAudit({
+      action: 'window.delete',
+      entityType: 'registration_window',
+      entityId: windowId,
+      before: deleted,
+    }, tx);
+
+    return true;
+  });
+}
+
+/**
+ * Close active windows whose end time has passed (scheduler)
+ *
+ * Windows closed on schedule have no closedBy.
+ *
+ * @returns The windows that were closed
+ */
+export async function closeExpiredWindows() {
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const closed = await tx
+      .update(registrationWindow)
+      .set({
+        status: 'closed',
+        closedAt: now,
+        updatedAt: now,
+      })
+      .where(and(
+        eq(registrationWindow.status, 'active'),
+        lte(registrationWindow.endsAt, now)
+      ))
+      .returning();
+
+    for (const window of closed) {
+      await recordAudit({
+        action: 'window.close',
+        entityType: 'registration_window',
+        entityId: window.id,
+        before: { status: 'active', closedAt: null },
+        after: { status: window.status, closedAt: window.closedAt },
+      }, tx);
+
+      await enqueueGradeProgression(window.id, tx);
+    }
+
+    return closed;
+  });
+}
+
+/**
+ * Open the draft window whose start time has arrived (scheduler)
+ *
+ * Does nothing while another window is still active; a later run
+ * picks the draft up once that window closes.
+ *
+ * @returns The opened window, or undefined if nothing was opened
+ */
+export async function openScheduledWindow() {
+  const now = new Date();
+
+  if (await getActiveWindow()) return undefined;
+
+  const due = await db.query.registrationWindow.findFirst({
+    where: (windows, { eq, and, lte, gt }) => and(
+      eq(windows.status, 'draft'),
+      lte(windows.startsAt, now),
+      gt(windows.endsAt, now)
+    ),
+    orderBy: (windows, { asc }) => [asc(windows.startsAt)],
+  });
+
+  if (!due) return undefined;
+
+  return openWindow(due.id);
+}
@@ -0,0 +1,353 @@
+/**
+ * Withdrawal Service
+ *
+ * Escrow withdrawal requests (ESC-004..ESC-008):
+ * - Students, and parents for linked children, request a withdrawal
+ * - Admins release it in one or more parts, with notes
+ * - The requester or an admin cancels what is still outstanding
+ *
+ * Business Rules:
+ * - At most the available escrow balance can be requested
+ * - The requested amount is held in the ledger while the request is
+ *   open, so it cannot be spent at checkout
+ * - Every state change is a ledger posting in the same serializable
+ *   transaction (hold, payout from the hold, release on cancel)
+ * - The student and their linked parents are emailed when a request is
+ *   received and each time money is released (NOT-006)
+ */
+
+import {
+  db,
+  escrowWithdrawal,
+  escrowWithdrawalFulfilment,
+  eq,
+  and,
+  inArray,
+  count,
+  serializableTransaction,
+  type DbTransaction,
+} from '@repo/db';
+import { randomUUID } from 'crypto';
+import {
+  ESCROW_ENTRY_TYPES,
+  OPEN_WITHDRAWAL_STATUSES,
+  ROLES,
+  WITHDRAWAL_STATUSES,
+  type CreateWithdrawalType,
+  type FulfilWithdrawalType,
+  type WithdrawalStatusType,
+} from '@repo/validations';
+import { recordAudit } from './audit.services';
+import { notifyUser } from './notification.services';
+import {
+  getBalance,
+  holdForWithdrawal,
+  releaseWithdrawalHold,
+  withdrawFromHold,
+} from './escrow.services';
+
+type Actor = { id: string; name: string; role?: string | null };
+
+const WITHDRAWAL_REFERENCE = 'escrow_withdrawal';
+
+/**
+ * Lock an open withdrawal for a state change
+ *
+ * @throws Error if it does not exist or is no longer open
+ */
+async function lockOpenWithdrawal(tx: DbTransaction, withdrawalId: string) {
+  const [current] = await tx
+    .select()
+    .from(escrowWithdrawal)
+    .where(eq(escrowWithdrawal.id, withdrawalId))
+    .for('update');
+
+  if (!current) {
+    throw new Error('Withdrawal not found');
+  }
+
+  if (!(OPEN_WITHDRAWAL_STATUSES as readonly string[]).includes(current.status)) {
+    throw new Error(`Withdrawal is already ${current.status}`);
+  }
+
+  return current;
+}
+
+/**
+ * Request a withdrawal
+ *
+ * @param studentId - The student whose escrow is withdrawn
+ * @param data - Amount in piastres and an optional note
+ * @param requester - The student or a linked parent
+ * @returns The pending withdrawal
+ * @throws Error if the amount exceeds the available balance
+ */
+export async function createWithdrawal(
+  studentId: string,
+  data: Omit<CreateWithdrawalType, 'studentId'>,
+  requester: Actor
+) {
+  const id = await serializableTransaction(async (tx) => {
+    const student = await tx.query.user.findFirst({
+      where: (users, { eq }) => eq(users.id, studentId),
+      columns: { id: true, role: true },
+    });
+
+    if (!student || student.role !== ROLES.STUDENT) {
+      throw new Error('Student not found');
+    }
+
+    const withdrawalId = randomUUID();
+
+    await tx.insert(escrowWithdrawal).values({
+      id: withdrawalId,
+      studentId,
+      amount: data.amount,
+      note: data.note,
+      status: WITHDRAWAL_STATUSES.PENDING,
+      requestedBy: requester.id,
+    });
+
+    try {
+      await holdForWithdrawal(studentId, data.amount, {
+        entryType: ESCROW_ENTRY_TYPES.WITHDRAWAL_HOLD,
+        referenceType: WITHDRAWAL_REFERENCE,
+        referenceId: withdrawalId,
+        memo: 'Withdrawal requested',
+        createdBy: requester.id,
+      }, tx);
+    } catch (err) {
+      if (err instanceof Error && err.message === 'Insufficient escrow balance') {
+        throw new Error('Amount exceeds the available escrow balance');
+      }
+      throw err;
+    }
+
+    await recordAudit({
+      action: 'escrow_withdrawal.request',
+      entityType: 'escrow_withdrawal',
+      entityId: withdrawalId,
+      after: { studentId, amount: data.amount, note: data.note ?? null },
+    }, tx);
+
+    await notifyUser(studentId, 'escrow.withdrawal-requested', {
+      withdrawalId,
+      amount: data.amount,
+      availableBalance: await getBalance(studentId, tx),
+      requestedByName: requester.id === studentId ? undefined : requester.name,
+    }, tx);
+
+    return withdrawalId;
+  });
+
+  return getWithdrawalById(id);
+}
+
+/**
+ * Release money for a withdrawal (admin only)
+ *
+ * Releasing less than the outstanding amount leaves the request
+ * partially_fulfilled; releasing the rest fulfils it.
+ *
+ * @param withdrawalId - The withdrawal's ID
+ * @param data - Amount released in piastres and optional notes
+ * @param adminId - The releasing admin's ID
+ * @returns The updated withdrawal with its fulfilments
+ * @throws Error if the withdrawal is not open or the amount exceeds what is outstanding
+ */
+export async function fulfilWithdrawal(withdrawalId: string, data: FulfilWithdrawalType, adminId: string) {
+  await serializableTransaction(async (tx) => {
+    const current = await lockOpenWithdrawal(tx, withdrawalId);
+    const outstanding = current.amount - current.fulfilledAmount;
+
+    if (data.amount > outstanding) {
+      throw new Error(`Amount exceeds the ${outstanding} piastres outstanding`);
+    }
+
+    const journalId = await withdrawFromHold(data.amount, {
+      entryType: ESCROW_ENTRY_TYPES.WITHDRAWAL,
+      referenceType: WITHDRAWAL_REFERENCE,
+      referenceId: withdrawalId,
+      memo: data.notes ?? 'Withdrawal released',
+      createdBy: adminId,
+    }, tx);
+
+    await tx.insert(escrowWithdrawalFulfilment).values({
+      id: randomUUID(),
+      withdrawalId,
+      amount: data.amount,
+      notes: data.notes,
+      journalId,
+      fulfilledBy: adminId,
+    });
+
+    const now = new Date();
+    const fulfilledAmount = current.fulfilledAmount + data.amount;
+    const complete = fulfilledAmount === current.amount;
+
+    const [updated] = await tx
+      .update(escrowWithdrawal)
+      .set({
+        fulfilledAmount,
+        status: complete ? WITHDRAWAL_STATUSES.FULFILLED : WITHDRAWAL_STATUSES.PARTIALLY_FULFILLED,
+        fulfilledAt: complete ? now : null,
+        updatedAt: now,
+      })
+      .where(eq(escrowWithdrawal.id, withdrawalId))
+      .returning();
+
+    await recordAudit({
+      action: 'escrow_withdrawal.fulfil',
+      entityType: 'escrow_withdrawal',
+      entityId: withdrawalId,
+      before: { status: current.status, fulfilledAmount: current.fulfilledAmount },
+      after: { status: updated!.status, fulfilledAmount, released: data.amount, notes: data.notes ?? null },
+    }, tx);
+
+    await notifyUser(current.studentId, 'escrow.withdrawal-fulfilled', {
+      withdrawalId,
+      amountReleased: data.amount,
+      requestedAmount: current.amount,
+      outstandingAmount: current.amount - fulfilledAmount,
+      remainingBalance: await getBalance(current.studentId, tx),
+      notes: data.notes,
+    }, tx);
+  });
+
+  return getWithdrawalById(withdrawalId);
+}
+
+/**
+ * Cancel an open withdrawal
+ *
+ * Whatever is still outstanding returns to the student's escrow. Money
+ * already released stays released.
+ *
+ * @param withdrawalId - The withdrawal's ID
+ * @param reason - Optional reason
+ * @param actorId - The requester, a linked parent or an admin
+ * @returns The cancelled withdrawal
+ * @throws Error if the withdrawal is not open
+ */
+export async function cancelWithdrawal(withdrawalId: string, reason: string | undefined, actorId: string) {
+  await serializableTransaction(async (tx) => {
+    const current = await lockOpenWithdrawal(tx, withdrawalId);
+    const outstanding = current.amount - current.fulfilledAmount;
+
+    await releaseWithdrawalHold(current.studentId, outstanding, {
+      entryType: ESCROW_ENTRY_TYPES.WITHDRAWAL_RELEASE,
+      referenceType: WITHDRAWAL_REFERENCE,
+      referenceId: withdrawalId,
+      memo: reason ?? 'Withdrawal request cancelled',
+      createdBy: actorId,
+    }, tx);
+
+    const now = new Date();
+
+    await tx
+      .update(escrowWithdrawal)
+      .set({
+        status: WITHDRAWAL_STATUSES.CANCELLED,
+        cancelReason: reason,
+        cancelledBy: actorId,
+        cancelledAt: now,
+        updatedAt: now,
+      })
+      .where(eq(escrowWithdrawal.id, withdrawalId));
+
+    await recordAudit({
+      action: 'escrow_withdrawal.cancel',
+      entityType: 'escrow_withdrawal',
+      entityId: withdrawalId,
+      before: { status: current.status },
+      after: { status: WITHDRAWAL_STATUSES.CANCELLED, released: outstanding, reason: reason ?? null },
+    }, tx);
+  });
+
+  return getWithdrawalById(withdrawalId);
+}
+
+/**
+ * Get a withdrawal with its fulfilments
+ *
+ * @param withdrawalId - The withdrawal's ID
+ * @returns The withdrawal, or undefined
+ */
+export async function getWithdrawalById(withdrawalId: string) {
+  return db.query.escrowWithdrawal.findFirst({
+    where: (withdrawals, { eq }) => eq(withdrawals.id, withdrawalId),
+    with: {
+      student: { columns: { id: true, name: true, email: true, studentId: true } },
+      requester: { columns: { id: true, name: true, role: true } },
+      fulfilments: {
+        with: { fulfiller: { columns: { id: true, name: true } } },
+        orderBy: (fulfilments, { asc }) => [asc(fulfilments.createdAt)],
+      },
+    },
+  });
+}
+
+/**
+ * List withdrawals
+ *
+ * @param filters - Students to include (all when omitted), status and pagination
+ * @param options.openByDefault - Only open requests when no status is given (admin queue)
+ * @returns Withdrawals, newest first for history and oldest first for the open queue
+ */
+export async function getWithdrawals(
+  filters: {
+    studentIds?: string[];
+    status?: WithdrawalStatusType;
+    page: number;
+    pageSize: number;
+  },
+  options: { openByDefault?: boolean } = {}
+) {
+  const statuses = filters.status
+    ? [filters.status]
+    : options.openByDefault ? [...OPEN_WITHDRAWAL_STATUSES] : undefined;
+
+  const conditions = [];
+  if (filters.studentIds) conditions.push(inArray(escrowWithdrawal.studentId, filters.studentIds));
+  if (statuses) conditions.push(inArray(escrowWithdrawal.status, statuses));
+  const where = and(...conditions);
+
+  const withdrawals = await db.query.escrowWithdrawal.findMany({
+    where,
+    with: {
+      student: { columns: { id: true, name: true, email: true, studentId: true } },
+      requester: { columns: { id: true, name: true, role: true } },
+      fulfilments: {
+        with: { fulfiller: { columns: { id: true, name: true } } },
+        orderBy: (fulfilments, { asc }) => [asc(fulfilments.createdAt)],
+      },
+    },
+    orderBy: (withdrawals, { asc, desc }) => options.openByDefault && !filters.status
+      ? [asc(withdrawals.createdAt)]
+      : [desc(withdrawals.createdAt)],
+    limit: filters.pageSize,
+    offset: (filters.page - 1) * filters.pageSize,
+  });
+
+  const [countResult] = await db
+    .select({ count: count() })
+    .from(escrowWithdrawal)
+    .where(where);
+
+  const total = Number(countResult?.count ?? 0);
+
+  return {
+    data: withdrawals.map((withdrawal) => ({
+      ...withdrawal,
+      outstandingAmount: (OPEN_WITHDRAWAL_STATUSES as readonly string[]).includes(withdrawal.status)
+        ? withdrawal.amount - withdrawal.fulfilledAmount
+        : 0,
+    })),
+    pagination: {
+      page: filters.page,
+      pageSize: filters.pageSize,
+      total,
+      totalPages: Math.ceil(total / filters.pageSize),
+    },
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Test Fixtures
+ *
+ * Inserts rows straight into the test database, skipping the flows that
+ * normally create them (sign-up, window setup, checkout).
+ */
+
+import { randomUUID } from 'crypto';
+import { generateId } from 'better-auth';
+import {
+  db,
+  council,
+  payment,
+  registration,
+  registrationItem,
+  registrationWindow,
+  subject,
+  user,
+  sql,
+} from '@repo/db';
+
+/**
+ * A student; the ID is generated the way better-auth does (not a UUID)
+ */
+export async function createStudent(overrides: Partial<typeof user.$inferInsert> = {}) {
+  const id = generateId();
+  const [created] = await db
+    .insert(user)
+    .values({
+      id,
+      name: 'Test Student',
+      email: `student-${id.toLowerCase()}@example.com`,
+      emailVerified: true,
+      role: 'student',
+      grade: 11,
+      studentId: `STU-${id.slice(0, 8).toUpperCase()}`,
+      ...overrides,
+    })
+    .returning();
+  return created!;
+}
+
+/**
+ * A closed window in a year of its own (one window per session and year)
+ */
+export async function createWindow(overrides: Partial<typeof registrationWindow.$inferInsert> = {}) {
+  const [latest] = await db
+    .select({ year: sql<number>`coalesce(max(${registrationWindow.year}), 2100)` })
+    .from(registrationWindow);
+
+  const [created] = await db
+    .insert(registrationWindow)
+    .values({
+      id: randomUUID(),
+      sessionType: 'june',
+      year: latest!.year + 1,
+      startsAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
+      endsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      status: 'closed',
+      ...overrides,
+    })
+    .returning();
+  return created!;
+}
+
+export async function createSubject(overrides: Partial<typeof subject.$inferInsert> = {}) {
+  const code = randomUUID().slice(0, 8).toUpperCase();
+  const [board] = await db
+    .insert(council)
+    .values({ id: randomUUID(), code: `C-${code}`, name: 'Test Council' })
+    .returning();
+  const [created] = await db
+    .insert(subject)
+    .values({
+      id: randomUUID(),
+      name: `Subject ${code}`,
+      code,
+      councilId: board!.id,
+      priceInSchool: 100_000,
+      priceExternal: 150_000,
+      ...overrides,
+    })
+    .returning();
+  return created!;
+}
+
+export async function createRegistration(
+  studentId: string,
+  overrides: Partial<typeof registration.$inferInsert> = {}
+) {
+  const window = overrides.windowId ? null : await createWindow();
+  const [created] = await db
+    .insert(registration)
+    .values({
+      id: randomUUID(),
+      studentId,
+      windowId: window?.id ?? overrides.windowId!,
+      totalAmount: 150_000,
+      createdBy: studentId,
+      ...overrides,
+    })
+    .returning();
+  return created!;
+}
+
+export async function createPayment(
+  registrationId: string,
+  overrides: Partial<typeof payment.$inferInsert> = {}
+) {
+  const id = randomUUID();
+  const [created] = await db
+    .insert(payment)
+    .values({
+      id,
+      registrationId,
+      provider: 'card',
+      providerReference: `card_${id.replaceAll('-', '').slice(0, 24)}`,
+      amount: 150_000,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      ...overrides,
+    })
+    .returning();
+  return created!;
+}
+
+export async function createItem(
+  target: typeof registration.$inferSelect,
+  item: typeof subject.$inferSelect,
+  overrides: Partial<typeof registrationItem.$inferInsert> = {}
+) {
+  const [created] = await db
+    .insert(registrationItem)
+    .values({
+      id: randomUUID(),
+      registrationId: target.id,
+      subjectId: item.id,
+      studentId: target.studentId,
+      windowId: target.windowId,
+      examType: 'in_school',
+      unitPrice: item.priceInSchool,
+      subjectName: item.name,
+      subjectCode: item.code,
+      ...overrides,
+    })
+    .returning();
+  return created!;
+}
@@ -0,0 +1,46 @@
+/**
+ * Test Database
+ *
+ * Starts an in-memory Postgres (PGlite) behind a wire-protocol server,
+ * so @repo/db's regular `pg` pool connects to it unchanged, and applies
+ * the migrations in packages/db/drizzle in journal order. Services under
+ * test therefore run against the real schema, constraints and triggers.
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { PGlite } from '@electric-sql/pglite';
+import type { TestProject } from 'vitest/node';
+import { startPgliteServer } from './pglite-server';
+
+const MIGRATIONS_DIR = resolve(import.meta.dirname, '../../../packages/db/drizzle');
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    databaseUrl: string;
+  }
+}
+
+export default async function setup(project: TestProject) {
+  const pglite = await PGlite.create();
+
+  const journal = JSON.parse(readFileSync(`${MIGRATIONS_DIR}/meta/_journal.json`, 'utf8')) as {
+    entries: Array<{ tag: string }>;
+  };
+
+  for (const { tag } of journal.entries) {
+    const sql = readFileSync(`${MIGRATIONS_DIR}/${tag}.sql`, 'utf8');
+    for (const statement of sql.split('--> statement-breakpoint')) {
+      if (statement.trim()) await pglite.exec(statement);
+    }
+  }
+
+  const server = await startPgliteServer(pglite);
+
+  project.provide('databaseUrl', server.url);
+
+  return async () => {
+    await server.stop();
+    await pglite.close();
+  };
+}
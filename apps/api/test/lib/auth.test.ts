@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { randomUUID } from 'crypto';
+import { makeSignature } from 'better-auth/crypto';
+import { db, eq, user } from '@repo/db';
+import { auth } from '../../src/lib/auth';
+
+async function signUpStudent(body: Record<string, unknown> = {}) {
+  const email = `sign-up-${randomUUID()}@example.com`;
+  await auth.api.signUpEmail({
+    body: {
+      name: 'Sign Up Student',
+      email,
+      password: 'Correct-Horse-Battery-9',
+      signUp: { accountType: 'student', grade: 11, phone: null },
+      ...body,
+    },
+  });
+  const [created] = await db.select().from(user).where(eq(user.email, email));
+  return created!;
+}
+
+/** Session cookie for a user, without going through sign-in */
+async function sessionHeaders(userId: string) {
+  const ctx = await auth.$context;
+  const session = await ctx.internalAdapter.createSession(userId);
+  const signed = `${session.token}.${await makeSignature(session.token, ctx.secret)}`;
+  return new Headers({ cookie: `${ctx.authCookies.sessionToken.name}=${encodeURIComponent(signed)}` });
+}
+
+describe('sign-up fields', () => {
+  it('saves grade and role from the signUp body', async () => {
+    const created = await signUpStudent();
+
+    expect(created).toMatchObject({ role: 'student', grade: 11 });
+    expect(created.studentId).toMatch(/^STU-\d{8}-[0-9A-F]{5}$/);
+  });
+
+  it('refuses grade at the top level of the body', async () => {
+    await expect(signUpStudent({ grade: 12 })).rejects.toThrow('grade is not allowed to be set');
+  });
+
+  it('does not let a signed-in user change their own grade', async () => {
+    const created = await signUpStudent();
+    const headers = await sessionHeaders(created.id);
+
+    await expect(auth.api.updateUser({ body: { grade: 12 }, headers }))
+      .rejects.toThrow('grade is not allowed to be set');
+
+    const [after] = await db.select().from(user).where(eq(user.id, created.id));
+    expect(after!.grade).toBe(11);
+  });
+});
@@ -0,0 +1,114 @@
+import { randomUUID } from 'crypto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import type { HonoEnv } from '../../src/lib/types';
+import {
+  idempotency,
+  IDEMPOTENCY_HEADER,
+  IDEMPOTENT_REPLAYED_HEADER,
+} from '../../src/middleware/idempotency.middleware';
+import { createStudent } from '../fixtures';
+
+/**
+ * An app whose POST /orders counts its runs and can be held open
+ */
+function createApp(userId: string) {
+  const calls = { count: 0 };
+  let hold: Promise<void> | null = null;
+
+  const app = new Hono<HonoEnv>()
+    .use('*', async (c, next) => {
+      c.set('user', { id: userId } as NonNullable<HonoEnv['Variables']['user']>);
+      await next();
+    })
+    .use('*', idempotency())
+    .post('/orders', async (c) => {
+      calls.count++;
+      if (hold) await hold;
+      return c.json({ order: calls.count, body: await c.req.json() }, 201);
+    });
+
+  return {
+    calls,
+    holdRequests() {
+      let release!: () => void;
+      hold = new Promise((resolve) => { release = resolve; });
+      return () => {
+        hold = null;
+        release();
+      };
+    },
+    post(key: string, body: unknown) {
+      return app.request('/orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [IDEMPOTENCY_HEADER]: key },
+        body: JSON.stringify(body),
+      });
+    },
+  };
+}
+
+describe('idempotency middleware', () => {
+  let userId: string;
+
+  beforeAll(async () => {
+    userId = (await createStudent()).id;
+  });
+
+  it('replays the stored response for a retried request', async () => {
+    const app = createApp(userId);
+    const key = randomUUID();
+
+    const first = await app.post(key, { item: 'a' });
+    const retry = await app.post(key, { item: 'a' });
+
+    expect(first.status).toBe(201);
+    expect(first.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBeNull();
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBe('true');
+    expect(await retry.json()).toEqual(await first.json());
+    expect(app.calls.count).toBe(1);
+  });
+
+  it('answers 409 while the first request is still running', async () => {
+    const app = createApp(userId);
+    const key = randomUUID();
+    const release = app.holdRequests();
+
+    const first = app.post(key, { item: 'a' });
+    await expect.poll(() => app.calls.count).toBe(1);
+
+    const concurrent = await app.post(key, { item: 'a' });
+    expect(concurrent.status).toBe(409);
+    expect(await concurrent.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_IN_PROGRESS' });
+
+    release();
+    expect((await first).status).toBe(201);
+    expect(app.calls.count).toBe(1);
+  });
+
+  it('answers 422 when the key is reused with a different body', async () => {
+    const app = createApp(userId);
+    const key = randomUUID();
+
+    await app.post(key, { item: 'a' });
+    const reused = await app.post(key, { item: 'b' });
+
+    expect(reused.status).toBe(422);
+    expect(await reused.json()).toMatchObject({ code: 'IDEMPOTENCY_KEY_REUSED' });
+    expect(app.calls.count).toBe(1);
+  });
+
+  it('scopes keys to the user', async () => {
+    const other = createApp((await createStudent()).id);
+    const app = createApp(userId);
+    const key = randomUUID();
+
+    await app.post(key, { item: 'a' });
+    const response = await other.post(key, { item: 'a' });
+
+    expect(response.status).toBe(201);
+    expect(response.headers.get(IDEMPOTENT_REPLAYED_HEADER)).toBeNull();
+    expect(other.calls.count).toBe(1);
+  });
+});
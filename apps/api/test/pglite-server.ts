@@ -0,0 +1,146 @@
+/**
+ * PGlite Wire Server
+ *
+ * Serves one in-memory PGlite database to `pg` clients over TCP.
+ *
+ * PGlite runs one query at a time, so connections share it:
+ * - Messages are buffered per connection and handed over a batch at a
+ *   time, up to Sync / Query / Flush, the way PGlite's own drivers do
+ *   (message by message, an error answered before Sync desyncs `pg`)
+ * - While a connection has a transaction open, only its batches run
+ * - A connection that drops mid-transaction is rolled back
+ */
+
+import { createServer, type AddressInfo, type Socket } from 'net';
+import type { PGlite } from '@electric-sql/pglite';
+
+const SSL_REQUEST_CODE = 80877103;
+const CANCEL_REQUEST_CODE = 80877102;
+
+// Messages that end a batch: Sync, simple Query, Flush
+const BATCH_END = new Set(['S', 'Q', 'H']);
+const TERMINATE = 'X';
+
+type Batch = {
+  connection: number;
+  bytes: Uint8Array;
+  socket: Socket;
+};
+
+export async function startPgliteServer(pglite: PGlite) {
+  const queue: Batch[] = [];
+  let running = false;
+  // Connection whose batch ran last (owns any open transaction)
+  let owner: number | null = null;
+  let nextConnection = 1;
+  const sockets = new Set<Socket>();
+
+  async function drain() {
+    if (running) return;
+    running = true;
+
+    try {
+      while (queue.length > 0) {
+        const index = pglite.isInTransaction()
+          ? queue.findIndex((batch) => batch.connection === owner)
+          : 0;
+
+        if (index === -1) break;
+
+        const [batch] = queue.splice(index, 1);
+        const reply = await pglite.runExclusive(() => pglite.execProtocolRaw(batch!.bytes));
+        owner = batch!.connection;
+
+        if (reply.length > 0 && batch!.socket.writable) {
+          batch!.socket.write(reply);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  }
+
+  async function release(connection: number) {
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (queue[i]!.connection === connection) queue.splice(i, 1);
+    }
+
+    if (owner === connection && pglite.isInTransaction()) {
+      await pglite.runExclusive(() => pglite.exec('ROLLBACK'));
+    }
+
+    if (owner === connection) owner = null;
+    await drain();
+  }
+
+  const server = createServer((socket) => {
+    const connection = nextConnection++;
+    let buffer = Buffer.alloc(0);
+    let pending: Buffer[] = [];
+    let started = false;
+
+    sockets.add(socket);
+    socket.setNoDelay(true);
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      // Startup-phase messages have no type byte
+      while (!started && buffer.length >= 8) {
+        const length = buffer.readInt32BE(0);
+        if (buffer.length < length) return;
+
+        const code = buffer.readInt32BE(4);
+        const message = buffer.subarray(0, length);
+        buffer = buffer.subarray(length);
+
+        if (code === SSL_REQUEST_CODE) {
+          socket.write('N');
+        } else if (code !== CANCEL_REQUEST_CODE) {
+          started = true;
+          queue.push({ connection, bytes: message, socket });
+          void drain();
+        }
+      }
+
+      while (started && buffer.length >= 5) {
+        const length = buffer.readInt32BE(1) + 1;
+        if (buffer.length < length) return;
+
+        const type = String.fromCharCode(buffer[0]!);
+        const message = buffer.subarray(0, length);
+        buffer = buffer.subarray(length);
+
+        if (type === TERMINATE) {
+          socket.end();
+          return;
+        }
+
+        pending.push(message);
+
+        if (BATCH_END.has(type)) {
+          queue.push({ connection, bytes: Buffer.concat(pending), socket });
+          pending = [];
+          void drain();
+        }
+      }
+    });
+
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      sockets.delete(socket);
+      void release(connection);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `postgres://postgres@127.0.0.1:${port}/postgres`,
+    stop: () => new Promise<void>((resolve) => {
+      for (const socket of sockets) socket.destroy();
+      server.close(() => resolve());
+    }),
+  };
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import { db, parentStudentLink } from '@repo/db';
+import type { HonoEnv } from '../../src/lib/types';
+import { escrow } from '../../src/routes/escrow.routes';
+import { idempotency, IDEMPOTENCY_HEADER } from '../../src/middleware/idempotency.middleware';
+import { creditStudent, getBalance } from '../../src/services/escrow.services';
+import { createStudent } from '../fixtures';
+
+type SignedIn = NonNullable<HonoEnv['Variables']['user']>;
+
+/**
+ * The escrow routes behind the idempotency middleware, signed in as `signedIn`
+ */
+function createApp(signedIn: { id: string; role: string }) {
+  return new Hono<HonoEnv>()
+    .use('*', async (c, next) => {
+      c.set('user', signedIn as SignedIn);
+      c.set('session', { id: 'test-session', userId: signedIn.id } as NonNullable<HonoEnv['Variables']['session']>);
+      await next();
+    })
+    .use('*', idempotency())
+    .route('/escrow', escrow);
+}
+
+describe('POST /escrow/transfers', () => {
+  let app: ReturnType<typeof createApp>;
+  let from: string;
+  let to: string;
+
+  beforeAll(async () => {
+    const parent = await createStudent({ name: 'Test Parent', role: 'parent', grade: null, studentId: null });
+    from = (await createStudent()).id;
+    to = (await createStudent()).id;
+
+    await db.insert(parentStudentLink).values([
+      { id: randomUUID(), parentId: parent.id, studentId: from, status: 'approved' },
+      { id: randomUUID(), parentId: parent.id, studentId: to, status: 'approved' },
+    ]);
+    await creditStudent(from, 10_000, { entryType: 'drop_credit' });
+
+    app = createApp(parent);
+  });
+
+  function transfer(headers: Record<string, string>) {
+    return app.request('/escrow/transfers', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ fromStudentId: from, toStudentId: to, amount: 4_000 }),
+    });
+  }
+
+  it('requires an Idempotency-Key header', async () => {
+    const response = await transfer({});
+
+    expect(response.status).toBe(400);
+    expect(await getBalance(from)).toBe(10_000);
+  });
+
+  it('moves escrow between children with better-auth IDs once per key', async () => {
+    const key = randomUUID();
+
+    expect((await transfer({ [IDEMPOTENCY_HEADER]: key })).status).toBe(201);
+    expect((await transfer({ [IDEMPOTENCY_HEADER]: key })).status).toBe(201);
+
+    expect(await getBalance(from)).toBe(6_000);
+    expect(await getBalance(to)).toBe(4_000);
+  });
+});
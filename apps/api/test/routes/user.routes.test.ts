@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { Hono } from 'hono';
+import type { HonoEnv } from '../../src/lib/types';
+import { users } from '../../src/routes/user.routes';
+import {
+  SIGN_IN_MAX_FAILED_ATTEMPTS,
+  getLockedUntil,
+  recordFailedSignIn,
+} from '../../src/services/sign-in-lockout.services';
+import { createStudent } from '../fixtures';
+
+type SignedIn = NonNullable<HonoEnv['Variables']['user']>;
+
+/**
+ * The user routes with `signedIn` as the session's user
+ */
+function createApp(signedIn: { id: string; role: string }) {
+  return new Hono<HonoEnv>()
+    .use('*', async (c, next) => {
+      c.set('user', signedIn as SignedIn);
+      c.set('session', { id: 'test-session', userId: signedIn.id } as NonNullable<HonoEnv['Variables']['session']>);
+      await next();
+    })
+    .route('/users', users);
+}
+
+describe('user routes by better-auth user ID', () => {
+  let app: ReturnType<typeof createApp>;
+
+  beforeAll(async () => {
+    const admin = await createStudent({ name: 'Test Admin', role: 'admin', grade: null, studentId: null });
+    app = createApp(admin);
+  });
+
+  it('adjusts a student\'s grade', async () => {
+    const student = await createStudent({ grade: 10 });
+
+    const response = await app.request(`/users/${student.id}/grade`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ grade: 11, reason: 'Placed in the wrong grade' }),
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toMatchObject({ grade: 11 });
+  });
+
+  it('returns a student\'s grade history', async () => {
+    const student = await createStudent({ grade: 10 });
+    await app.request(`/users/${student.id}/grade`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ grade: 11, reason: 'Placed in the wrong grade' }),
+    });
+
+    const response = await app.request(`/users/${student.id}/grade-history`);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toHaveLength(1);
+  });
+
+  it('unlocks an account locked after failed sign-ins', async () => {
+    const student = await createStudent();
+    for (let attempt = 0; attempt < SIGN_IN_MAX_FAILED_ATTEMPTS; attempt++) {
+      await recordFailedSignIn(student.email);
+    }
+    expect(await getLockedUntil(student.email)).toBeInstanceOf(Date);
+
+    const response = await app.request(`/users/${student.id}/unlock`, { method: 'POST' });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data).toEqual({ wasLocked: true });
+    expect(await getLockedUntil(student.email)).toBeNull();
+  });
+});
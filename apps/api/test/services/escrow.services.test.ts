@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { db, escrowAccount, escrowEntry, eq, sql } from '@repo/db';
+import {
+  creditStudent,
+  debitStudent,
+  getBalance,
+  transferBetweenStudents,
+} from '../../src/services/escrow.services';
+import { createStudent } from '../fixtures';
+
+/**
+ * Postgres' message, whether or not the driver error is wrapped
+ */
+function databaseMessage(err: unknown) {
+  const error = err as Error & { cause?: Error };
+  return error.cause?.message ?? error.message;
+}
+
+describe('escrow ledger', () => {
+  it('writes balanced journals with running balances', async () => {
+    const student = await createStudent();
+
+    const journalId = await creditStudent(student.id, 25_000, { entryType: 'drop_credit' });
+
+    const lines = await db.select().from(escrowEntry).where(eq(escrowEntry.journalId, journalId));
+    expect(lines).toHaveLength(2);
+    expect(lines.reduce((acc, line) => acc + line.amount, 0)).toBe(0);
+
+    const [studentLine] = lines.filter((line) => line.amount > 0);
+    expect(studentLine).toMatchObject({ amount: 25_000, balanceAfter: 25_000, entryType: 'drop_credit' });
+
+    // Every journal in the ledger nets to zero, and so do the account snapshots
+    const [unbalanced] = await db.execute<{ count: number }>(sql`
+      select count(*)::int as count from (
+        select journal_id from escrow_entry group by journal_id having sum(amount) <> 0
+      ) journals
+    `).then((result) => result.rows);
+    expect(unbalanced!.count).toBe(0);
+
+    const [snapshots] = await db
+      .select({ total: sql<string>`coalesce(sum(${escrowAccount.balance}), 0)` })
+      .from(escrowAccount);
+    expect(Number(snapshots!.total)).toBe(0);
+  });
+
+  it('leaves the expected balances after credits, debits and transfers', async () => {
+    const sender = await createStudent();
+    const receiver = await createStudent();
+
+    await creditStudent(sender.id, 50_000, { entryType: 'drop_credit' });
+    await debitStudent(sender.id, 10_000, { entryType: 'checkout_debit' });
+    await transferBetweenStudents(sender.id, receiver.id, 15_000, { entryType: 'transfer' });
+
+    expect(await getBalance(sender.id)).toBe(25_000);
+    expect(await getBalance(receiver.id)).toBe(15_000);
+  });
+
+  it('rejects an overdraft and posts nothing', async () => {
+    const sender = await createStudent();
+    const receiver = await createStudent();
+
+    await creditStudent(sender.id, 5_000, { entryType: 'drop_credit' });
+
+    await expect(
+      transferBetweenStudents(sender.id, receiver.id, 5_001, { entryType: 'transfer' })
+    ).rejects.toThrow('Insufficient escrow balance');
+    await expect(
+      debitStudent(receiver.id, 1, { entryType: 'checkout_debit' })
+    ).rejects.toThrow('Insufficient escrow balance');
+
+    expect(await getBalance(sender.id)).toBe(5_000);
+    expect(await getBalance(receiver.id)).toBe(0);
+  });
+
+  it('rejects amounts that are not whole positive piastres', async () => {
+    const student = await createStudent();
+
+    await expect(creditStudent(student.id, 0, { entryType: 'drop_credit' }))
+      .rejects.toThrow('Escrow amounts must be non-zero whole piastres');
+    await expect(creditStudent(student.id, 10.5, { entryType: 'drop_credit' }))
+      .rejects.toThrow('Escrow amounts must be non-zero whole piastres');
+  });
+
+  it('refuses to update or delete ledger entries', async () => {
+    const student = await createStudent();
+    const journalId = await creditStudent(student.id, 1_000, { entryType: 'drop_credit' });
+
+    const update = db
+      .update(escrowEntry)
+      .set({ amount: 2_000 })
+      .where(eq(escrowEntry.journalId, journalId));
+    await expect(update.then(() => null, databaseMessage)).resolves.toBe('escrow_entry is append-only');
+
+    const remove = db.delete(escrowEntry).where(eq(escrowEntry.journalId, journalId));
+    await expect(remove.then(() => null, databaseMessage)).resolves.toBe('escrow_entry is append-only');
+
+    const lines = await db.select().from(escrowEntry).where(eq(escrowEntry.journalId, journalId));
+    expect(lines.map((line) => Math.abs(line.amount))).toEqual([1_000, 1_000]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { db, job, eq } from '@repo/db';
+import { claimDueJobs, enqueueJob, releaseStaleJobs } from '../../src/services/job.services';
+
+async function findJob(id: string) {
+  const [row] = await db.select().from(job).where(eq(job.id, id));
+  return row!;
+}
+
+/**
+ * Claim the job and leave it running as if its worker had stopped
+ */
+async function crashWorker(id: string) {
+  const claimed = await claimDueJobs('crashed-worker', 1000);
+  expect(claimed.map((running) => running.id)).toContain(id);
+  await db.update(job).set({ lockedAt: new Date(Date.now() - 60 * 60 * 1000) }).where(eq(job.id, id));
+}
+
+describe('releaseStaleJobs', () => {
+  it('puts a stale job with attempts left back to pending', async () => {
+    const created = await enqueueJob('test.crash', {}, { maxAttempts: 2 });
+
+    await crashWorker(created!.id);
+    await releaseStaleJobs(60 * 1000);
+
+    expect(await findJob(created!.id)).toMatchObject({ status: 'pending', attempts: 1, lockedBy: null });
+  });
+
+  it('dead-letters a job that crashed the worker on its last attempt', async () => {
+    const created = await enqueueJob('test.crash', {}, { maxAttempts: 2 });
+
+    await crashWorker(created!.id);
+    await releaseStaleJobs(60 * 1000);
+    await crashWorker(created!.id);
+    await releaseStaleJobs(60 * 1000);
+
+    expect(await findJob(created!.id)).toMatchObject({ status: 'dead', attempts: 2 });
+
+    const claimed = await claimDueJobs('next-worker', 1000);
+    expect(claimed.map((running) => running.id)).not.toContain(created!.id);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { randomUUID } from 'crypto';
+import { db, emailChange } from '@repo/db';
+import { createLinkRequest } from '../../src/services/link.services';
+import { createStudent } from '../fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function createParent() {
+  return createStudent({ name: 'Test Parent', role: 'parent', grade: null, studentId: null });
+}
+
+async function createEmailChange(
+  userId: string,
+  values: { previousEmail: string; newEmail: string; confirmedAt?: Date | null }
+) {
+  await db.insert(emailChange).values({
+    id: randomUUID(),
+    userId,
+    tokenHash: randomUUID(),
+    expiresAt: new Date(Date.now() + DAY),
+    ...values,
+  });
+}
+
+describe('createLinkRequest by email', () => {
+  it('finds a student by the address they recently changed away from', async () => {
+    const parent = await createParent();
+    const student = await createStudent();
+    const previousEmail = `old-${randomUUID()}@example.com`;
+    await createEmailChange(student.id, { previousEmail, newEmail: student.email, confirmedAt: new Date() });
+
+    const link = await createLinkRequest(parent.id, { studentEmail: previousEmail });
+
+    expect(link.studentId).toBe(student.id);
+  });
+
+  it('stops matching the old address after the grace period', async () => {
+    const parent = await createParent();
+    const student = await createStudent();
+    const previousEmail = `old-${randomUUID()}@example.com`;
+    await createEmailChange(student.id, {
+      previousEmail,
+      newEmail: student.email,
+      confirmedAt: new Date(Date.now() - 31 * DAY),
+    });
+
+    await expect(createLinkRequest(parent.id, { studentEmail: previousEmail }))
+      .rejects.toThrow('Student not found');
+  });
+
+  it('never matches an unconfirmed new address', async () => {
+    const parent = await createParent();
+    const student = await createStudent();
+    const newEmail = `new-${randomUUID()}@example.com`;
+    await createEmailChange(student.id, { previousEmail: student.email, newEmail });
+
+    await expect(createLinkRequest(parent.id, { studentEmail: newEmail }))
+      .rejects.toThrow('Student not found');
+  });
+});
@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { auditEvent, db, job, payment, registration, registrationWindow, eq, and } from '@repo/db';
+import { applyPaymentStatus, payWithEscrow, simulatePayment } from '../../src/services/payment.services';
+import { creditStudent, getBalance } from '../../src/services/escrow.services';
+import { RECEIPT_JOB } from '../../src/services/receipt.services';
+import { createPayment, createRegistration, createStudent, createWindow } from '../fixtures';
+
+async function findPayment(id: string) {
+  const [row] = await db.select().from(payment).where(eq(payment.id, id));
+  return row!;
+}
+
+async function findRegistration(id: string) {
+  const [row] = await db.select().from(registration).where(eq(registration.id, id));
+  return row!;
+}
+
+describe('handleWebhook', () => {
+  it('confirms the registration once and acknowledges a re-delivered event', async () => {
+    const student = await createStudent();
+    const pending = await createRegistration(student.id);
+    const started = await createPayment(pending.id);
+
+    await expect(simulatePayment(started.id, 'succeeded')).resolves.toEqual({
+      duplicate: false,
+      status: 'succeeded',
+    });
+    await expect(simulatePayment(started.id, 'succeeded')).resolves.toEqual({
+      duplicate: true,
+      status: null,
+    });
+
+    expect((await findRegistration(pending.id)).status).toBe('confirmed');
+    expect(await getBalance(student.id)).toBe(0);
+  });
+});
+
+describe('applyPaymentStatus', () => {
+  it('credits escrow when money arrives after the registration stopped awaiting payment', async () => {
+    const student = await createStudent();
+    const cancelled = await createRegistration(student.id, { status: 'cancelled', cancelledAt: new Date() });
+    const expired = await createPayment(cancelled.id, { status: 'expired' });
+
+    await simulatePayment(expired.id, 'succeeded');
+
+    expect((await findPayment(expired.id)).status).toBe('succeeded');
+    expect((await findRegistration(cancelled.id)).status).toBe('cancelled');
+    expect(await getBalance(student.id)).toBe(expired.amount);
+
+    const audits = await db
+      .select()
+      .from(auditEvent)
+      .where(and(eq(auditEvent.action, 'payment.credit_escrow'), eq(auditEvent.entityId, expired.id)));
+    expect(audits).toHaveLength(1);
+  });
+
+  it('does not apply a gateway refund to a confirmed registration', async () => {
+    const student = await createStudent();
+    const confirmed = await createRegistration(student.id, { status: 'confirmed', confirmedAt: new Date() });
+    const paid = await createPayment(confirmed.id, { status: 'succeeded', paidAt: new Date() });
+
+    const applied = await db.transaction((tx) => applyPaymentStatus(tx, paid, { status: 'refunded' }));
+
+    expect(applied).toBeUndefined();
+    expect((await findPayment(paid.id)).status).toBe('succeeded');
+    expect((await findRegistration(confirmed.id)).status).toBe('confirmed');
+  });
+});
+
+describe('payWithEscrow', () => {
+  let windowId: string;
+
+  beforeAll(async () => {
+    windowId = (await createWindow({ status: 'active' })).id;
+  });
+
+  afterAll(async () => {
+    await db.update(registrationWindow).set({ status: 'closed' }).where(eq(registrationWindow.id, windowId));
+  });
+
+  it('confirms the registration and queues its receipt', async () => {
+    const student = await createStudent();
+    const pending = await createRegistration(student.id, { windowId });
+    await creditStudent(student.id, pending.totalAmount, { entryType: 'drop_credit' });
+
+    const confirmed = await payWithEscrow({ registrationId: pending.id }, student.id);
+
+    expect(confirmed).toMatchObject({ status: 'confirmed' });
+    expect(await getBalance(student.id)).toBe(0);
+
+    const receipts = await db
+      .select()
+      .from(job)
+      .where(eq(job.dedupeKey, `${RECEIPT_JOB}:registration:${pending.id}`));
+    expect(receipts).toHaveLength(1);
+    expect(receipts[0]!.payload).toEqual({ registrationId: pending.id });
+  });
+});
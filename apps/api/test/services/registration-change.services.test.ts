@@ -0,0 +1,46 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { db, registrationWindow, eq } from '@repo/db';
+import { REGISTRATION_RULE_CODES } from '@repo/validations';
+import { dropItem, switchItemType } from '../../src/services/registration-change.services';
+import { createItem, createRegistration, createStudent, createSubject, createWindow } from '../fixtures';
+
+describe('registration changes with a pending top-up', () => {
+  let windowId: string;
+
+  beforeAll(async () => {
+    windowId = (await createWindow({ status: 'active' })).id;
+  });
+
+  afterAll(async () => {
+    await db.update(registrationWindow).set({ status: 'closed' }).where(eq(registrationWindow.id, windowId));
+  });
+
+  async function confirmedRegistration() {
+    const student = await createStudent();
+    const target = await createRegistration(student.id, { windowId, status: 'confirmed', confirmedAt: new Date() });
+    const first = await createItem(target, await createSubject());
+    const second = await createItem(target, await createSubject());
+    return { student, target, first, second };
+  }
+
+  it('rejects another change that needs a top-up with a clear error', async () => {
+    const { student, target, first, second } = await confirmedRegistration();
+
+    const started = await switchItemType(target.id, first.id, { provider: 'card' }, student.id);
+    expect(started.payment).toMatchObject({ status: 'pending', amount: 50_000 });
+
+    await expect(switchItemType(target.id, second.id, { provider: 'card' }, student.id)).rejects.toMatchObject({
+      code: REGISTRATION_RULE_CODES.TOP_UP_PENDING,
+      message: expect.stringContaining(`A top-up for ${first.subjectName} is already pending`),
+    });
+  });
+
+  it('still applies a change that needs no top-up', async () => {
+    const { student, target, first, second } = await confirmedRegistration();
+
+    await switchItemType(target.id, first.id, { provider: 'card' }, student.id);
+
+    const dropped = await dropItem(target.id, second.id, student.id);
+    expect(dropped.change).toMatchObject({ status: 'completed', type: 'drop' });
+  });
+});
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { randomUUID } from 'crypto';
+import { db, subjectCoreRule, eq } from '@repo/db';
+import { assertCoreSubjectsHeld } from '../../src/services/registration-rules.services';
+import { createItem, createRegistration, createStudent, createSubject, createWindow } from '../fixtures';
+
+// Core rules apply to every student of a grade and session type: use a
+// pair no other test relies on, and remove the rule afterwards
+const GRADE = 12;
+const SESSION_TYPE = 'january';
+
+describe('assertCoreSubjectsHeld', () => {
+  let core: Awaited<ReturnType<typeof createSubject>>;
+  let ruleId: string;
+
+  beforeAll(async () => {
+    core = await createSubject();
+    ruleId = randomUUID();
+    await db.insert(subjectCoreRule).values({ id: ruleId, subjectId: core.id, grade: GRADE, sessionType: SESSION_TYPE });
+  });
+
+  afterAll(async () => {
+    await db.delete(subjectCoreRule).where(eq(subjectCoreRule.id, ruleId));
+  });
+
+  async function setUp() {
+    const student = await createStudent({ grade: GRADE });
+    const window = await createWindow({ sessionType: SESSION_TYPE });
+    const checkout = await createRegistration(student.id, { windowId: window.id });
+    await createItem(checkout, await createSubject());
+    return { student, window, checkout };
+  }
+
+  it('counts the core item in the registration being checked out', async () => {
+    const { student, window, checkout } = await setUp();
+    await createItem(checkout, core);
+
+    await expect(assertCoreSubjectsHeld(student, window, checkout.id)).resolves.toBeUndefined();
+  });
+
+  it('counts core items from confirmed registrations', async () => {
+    const { student, window, checkout } = await setUp();
+    const paid = await createRegistration(student.id, { windowId: window.id, status: 'confirmed', confirmedAt: new Date() });
+    await createItem(paid, core);
+
+    await expect(assertCoreSubjectsHeld(student, window, checkout.id)).resolves.toBeUndefined();
+  });
+
+  it('ignores core items from another unpaid registration', async () => {
+    const { student, window, checkout } = await setUp();
+    const unpaid = await createRegistration(student.id, { windowId: window.id });
+    await createItem(unpaid, core);
+
+    await expect(assertCoreSubjectsHeld(student, window, checkout.id))
+      .rejects.toMatchObject({ code: 'CORE_SUBJECT_MISSING', details: { subjectIds: [core.id] } });
+  });
+});
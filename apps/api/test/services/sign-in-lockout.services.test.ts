@@ -0,0 +1,118 @@
+import { randomUUID } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { auditEvent, db, signInLockout, eq, and } from '@repo/db';
+import {
+  SIGN_IN_MAX_FAILED_ATTEMPTS,
+  clearFailedSignIns,
+  getLockedUntil,
+  recordFailedSignIn,
+  unlockUser,
+} from '../../src/services/sign-in-lockout.services';
+import { createStudent } from '../fixtures';
+
+const MINUTE = 60 * 1000;
+
+function randomEmail() {
+  return `lockout-${randomUUID()}@example.com`;
+}
+
+/**
+ * Fail sign-in until the account locks; returns how long the lockout lasts
+ */
+async function failUntilLocked(email: string) {
+  for (let attempt = 1; attempt < SIGN_IN_MAX_FAILED_ATTEMPTS; attempt++) {
+    expect(await recordFailedSignIn(email)).toBeNull();
+  }
+
+  const startedAt = Date.now();
+  const lockedUntil = await recordFailedSignIn(email);
+  expect(lockedUntil).toBeInstanceOf(Date);
+
+  return lockedUntil!.getTime() - startedAt;
+}
+
+/**
+ * Let the current lockout run out
+ */
+async function expireLockout(email: string) {
+  await db
+    .update(signInLockout)
+    .set({ lockedUntil: new Date(Date.now() - 1000) })
+    .where(eq(signInLockout.email, email));
+}
+
+describe('sign-in lockout', () => {
+  it('locks on the last allowed failure, whatever the email case', async () => {
+    const email = randomEmail();
+
+    for (let attempt = 1; attempt < SIGN_IN_MAX_FAILED_ATTEMPTS; attempt++) {
+      expect(await recordFailedSignIn(attempt % 2 ? email.toUpperCase() : email)).toBeNull();
+      expect(await getLockedUntil(email)).toBeNull();
+    }
+
+    const lockedUntil = await recordFailedSignIn(email);
+
+    expect(lockedUntil).toBeInstanceOf(Date);
+    expect(await getLockedUntil(` ${email.toUpperCase()} `)).toEqual(lockedUntil);
+  });
+
+  it('does not extend a lockout with failures made while locked', async () => {
+    const email = randomEmail();
+    const first = new Date(Date.now() + await failUntilLocked(email));
+
+    const again = await recordFailedSignIn(email);
+
+    expect(again!.getTime()).toBeLessThanOrEqual(first.getTime() + 1000);
+    const [row] = await db.select().from(signInLockout).where(eq(signInLockout.email, email));
+    expect(row).toMatchObject({ failedAttempts: 0, lockoutCount: 1 });
+  });
+
+  it('doubles each lockout from 15 minutes up to 24 hours', async () => {
+    const email = randomEmail();
+    const durations: number[] = [];
+
+    for (let lockout = 0; lockout < 4; lockout++) {
+      durations.push(await failUntilLocked(email));
+      await expireLockout(email);
+    }
+
+    const minutes = durations.map((ms) => Math.round(ms / MINUTE));
+    expect(minutes).toEqual([15, 30, 60, 120]);
+
+    // Far along the sequence the window stops growing
+    await db.update(signInLockout).set({ lockoutCount: 20 }).where(eq(signInLockout.email, email));
+    expect(Math.round(await failUntilLocked(email) / MINUTE)).toBe(24 * 60);
+  });
+
+  it('starts over after a successful sign-in', async () => {
+    const email = randomEmail();
+
+    await failUntilLocked(email);
+    await expireLockout(email);
+    for (let attempt = 1; attempt < SIGN_IN_MAX_FAILED_ATTEMPTS; attempt++) {
+      await recordFailedSignIn(email);
+    }
+
+    await clearFailedSignIns(email);
+
+    expect(await db.select().from(signInLockout).where(eq(signInLockout.email, email))).toHaveLength(0);
+    // A full set of attempts again, and the first lockout's length
+    expect(Math.round(await failUntilLocked(email) / MINUTE)).toBe(15);
+  });
+
+  it('audits the lockout of a real account and lets an admin unlock it', async () => {
+    const student = await createStudent();
+
+    await failUntilLocked(student.email);
+
+    const locks = await db
+      .select()
+      .from(auditEvent)
+      .where(and(eq(auditEvent.action, 'user.lock'), eq(auditEvent.entityId, student.id)));
+    expect(locks).toHaveLength(1);
+
+    expect(await unlockUser(student.id)).toBe(true);
+    expect(await getLockedUntil(student.email)).toBeNull();
+    expect(await unlockUser(student.id)).toBe(false);
+  });
+});
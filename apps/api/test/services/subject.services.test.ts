@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { randomUUID } from 'crypto';
+import { getSubjects } from '../../src/services/subject.services';
+import { createSubject } from '../fixtures';
+
+describe('getSubjects', () => {
+  it('matches LIKE wildcards in the search term literally', async () => {
+    const tag = randomUUID().slice(0, 8);
+    const percent = await createSubject({ name: `Maths ${tag} 100% Prep` });
+    const underscore = await createSubject({ name: `Maths ${tag} Core_A` });
+    const backslash = await createSubject({ name: `Maths ${tag} A\\B` });
+    await createSubject({ name: `Maths ${tag} 1000 Prep` });
+    await createSubject({ name: `Maths ${tag} CoreXA` });
+
+    const ids = async (search: string) =>
+      (await getSubjects({ search, includeInactive: false })).map((found) => found.id);
+
+    expect(await ids(`${tag} 100%`)).toEqual([percent.id]);
+    expect(await ids(`${tag} Core_`)).toEqual([underscore.id]);
+    expect(await ids(`${tag} A\\B`)).toEqual([backslash.id]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { auditEvent, db, and, eq } from '@repo/db';
+import { completeSignUp } from '../../src/services/user.services';
+import { createStudent } from '../fixtures';
+
+describe('completeSignUp', () => {
+  it('gives an account without a role the student fields', async () => {
+    const incomplete = await createStudent({ role: null, grade: null, studentId: null });
+
+    const updated = await completeSignUp(incomplete.id, { accountType: 'student', grade: 10, phone: null });
+
+    expect(updated).toMatchObject({ role: 'student', grade: 10 });
+    expect(updated.studentId).toMatch(/^STU-\d{8}-[0-9A-F]{5}$/);
+
+    const audits = await db
+      .select()
+      .from(auditEvent)
+      .where(and(eq(auditEvent.action, 'user.complete_sign_up'), eq(auditEvent.entityId, incomplete.id)));
+    expect(audits).toHaveLength(1);
+  });
+
+  it('treats better-auth\'s default role as incomplete', async () => {
+    const incomplete = await createStudent({ role: 'user', grade: null, studentId: null });
+
+    const updated = await completeSignUp(incomplete.id, { accountType: 'parent', phone: '+20 100 000 0000' });
+
+    expect(updated).toMatchObject({ role: 'parent', grade: null, studentId: null, phone: '+20 100 000 0000' });
+  });
+
+  it('refuses to change the role of a finished account', async () => {
+    const student = await createStudent();
+
+    await expect(completeSignUp(student.id, { accountType: 'parent', phone: null }))
+      .rejects.toThrow('Sign-up is already complete');
+  });
+});
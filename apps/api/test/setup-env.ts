@@ -0,0 +1,26 @@
+/**
+ * Environment for the API under test
+ *
+ * Runs before each test file imports the services (src/env.ts reads
+ * process.env at import time).
+ */
+
+import { afterAll, inject } from 'vitest';
+
+Object.assign(process.env, {
+  NODE_ENV: 'test',
+  DATABASE_URL: inject('databaseUrl'),
+  R2_ACCOUNT_ID: 'test',
+  R2_ACCESS_KEY_ID: 'test',
+  R2_SECRET_ACCESS_KEY: 'test',
+  R2_BUCKET_NAME: 'test',
+  PAYMENTS_WEBHOOK_SECRET: 'test-webhook-secret-0123456789',
+  EMAIL_TRANSPORT: 'console',
+  JOBS_ENABLED: 'false',
+});
+
+// Each test file gets its own @repo/db pool; close it so connections don't pile up
+afterAll(async () => {
+  const { db } = await import('@repo/db');
+  await db.$client.end();
+});
@@ -0,0 +1,218 @@
+/**
+ * Admin Dashboard Client Component
+ *
+ * Metric cards and charts for the current session (REP-008). The API
+ * caches metrics for a minute, so the query refetches on that interval;
+ * Refresh asks the API to recompute straight away.
+ */
+
+'use client'
+
+import { useSuspenseQuery, useMutation, useQueryClient } from "@tanstack/react-query"
+import { api } from "~/lib/hono"
+import { apiResponse, formatMoney } from "@repo/validations"
+import { Button } from "~/components/ui/button"
+
+const DASHBOARD_QUERY_KEY = ['admin', 'dashboard']
+const REFETCH_INTERVAL_MS = 60 * 1000
+
+const STATUS_LABELS: Record<string, string> = {
+  confirmed: 'Confirmed',
+  pending_payment: 'Awaiting payment',
+  cancelled: 'Cancelled',
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1)
+}
+
+function MetricCard({ label, value, hint }: { label: string; value: string; hint?: string }): React.JSX.Element {
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-5 shadow-sm dark:border-slate-700 dark:bg-slate-800">
+      <p className="text-sm font-medium text-slate-500 dark:text-slate-400">{label}</p>
+      <p className="mt-2 text-2xl font-bold text-slate-900 dark:text-white">{value}</p>
+      {hint && <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">{hint}</p>}
+    </div>
+  )
+}
+
+function ChartCard({ title, children }: { title: string; children: React.ReactNode }): React.JSX.Element {
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-800">
+      <h2 className="mb-4 text-lg font-semibold text-slate-900 dark:text-white">{title}</h2>
+      {children}
+    </div>
+  )
+}
+
+/**
+ * Horizontal bar chart, bars scaled to the largest value
+ */
+function BarChart({
+  data,
+  format = (value) => value.toLocaleString('en-US'),
+}: {
+  data: { label: string; value: number }[]
+  format?: (value: number) => string
+}): React.JSX.Element {
+  if (data.length === 0) {
+    return <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">No data yet</p>
+  }
+
+  const max = Math.max(...data.map((row) => row.value), 1)
+
+  return (
+    <ul className="space-y-3">
+      {data.map((row) => (
+        <li key={row.label}>
+          <div className="mb-1 flex justify-between text-sm">
+            <span className="text-slate-700 dark:text-slate-300">{row.label}</span>
+            <span className="font-medium text-slate-900 dark:text-white">{format(row.value)}</span>
+          </div>
+          <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-700">
+            <div
+              className="h-2 rounded-full bg-blue-600"
+              style={{ width: `${(row.value / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+/**
+ * Column chart of a daily series
+ */
+function DailyChart({ data }: { data: { date: string; count: number }[] }): React.JSX.Element {
+  if (data.length === 0) {
+    return <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">No registrations yet</p>
+  }
+
+  const max = Math.max(...data.map((row) => row.count), 1)
+  const height = 120
+  const barWidth = 100 / data.length
+
+  return (
+    <div>
+      <svg viewBox={`0 0 100 ${height}`} preserveAspectRatio="none" className="h-40 w-full" role="img">
+        {data.map((row, index) => {
+          const barHeight = (row.count / max) * (height - 4)
+          return (
+            <rect
+              key={row.date}
+              x={index * barWidth + barWidth * 0.15}
+              y={height - barHeight}
+              width={barWidth * 0.7}
+              height={barHeight}
+              className="fill-blue-600"
+            >
+              <title>{`${row.date}: ${row.count}`}</title>
+            </rect>
+          )
+        })}
+      </svg>
+      <div className="mt-2 flex justify-between text-xs text-slate-500 dark:text-slate-400">
+        <span>{data[0]!.date}</span>
+        {data.length > 1 && <span>{data[data.length - 1]!.date}</span>}
+      </div>
+    </div>
+  )
+}
+
+export default function DashboardClient(): React.JSX.Element {
+  const queryClient = useQueryClient()
+
+  const { data: metrics } = useSuspenseQuery({
+    queryKey: DASHBOARD_QUERY_KEY,
+    queryFn: async () => apiResponse(api.v1.admin.dashboard.$get({ query: {} })),
+    refetchInterval: REFETCH_INTERVAL_MS,
+  })
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => apiResponse(api.v1.admin.dashboard.$get({ query: { refresh: 'true' } })),
+    onSuccess: (data) => {
+      queryClient.setQueryData(DASHBOARD_QUERY_KEY, data)
+    },
+    onError: (error) => {
+      console.error('Failed to refresh dashboard:', error)
+    },
+  })
+
+  const { session, students, registrations, revenue, escrow } = metrics
+  const confirmed = registrations.byStatus.find((row) => row.status === 'confirmed')?.count ?? 0
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-900">
+      <div className="mx-auto max-w-6xl px-4 py-8">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Dashboard</h1>
+            <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+              {session
+                ? `${capitalize(session.sessionType)} ${session.year} session (${session.status})`
+                : 'No registration window has opened yet'}
+              {' · '}
+              Updated {new Date(metrics.generatedAt).toLocaleTimeString()}
+            </p>
+          </div>
+          <Button onClick={() => refreshMutation.mutate()} disabled={refreshMutation.isPending}>
+            {refreshMutation.isPending ? 'Refreshing...' : 'Refresh'}
+          </Button>
+        </div>
+
+        <div className="mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+          <MetricCard
+            label="Active students"
+            value={students.active.toLocaleString('en-US')}
+            hint={`of ${students.enrolled.toLocaleString('en-US')} enrolled`}
+          />
+          <MetricCard
+            label="Registrations"
+            value={registrations.total.toLocaleString('en-US')}
+            hint={`${confirmed.toLocaleString('en-US')} confirmed`}
+          />
+          <MetricCard label="Revenue" value={formatMoney(revenue.total)} hint="Confirmed registrations" />
+          <MetricCard
+            label="Escrow liability"
+            value={formatMoney(escrow.liability)}
+            hint={`${escrow.accountsWithBalance.toLocaleString('en-US')} students with a balance · ${formatMoney(escrow.withdrawalsPayable)} withdrawals payable`}
+          />
+          <MetricCard
+            label="Pending withdrawals"
+            value={escrow.withdrawalsPending.toLocaleString('en-US')}
+            hint={`${formatMoney(escrow.withdrawalsHeld)} held`}
+          />
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <ChartCard title="Registrations per day">
+            <DailyChart data={registrations.daily} />
+          </ChartCard>
+
+          <ChartCard title="Registrations by status">
+            <BarChart
+              data={registrations.byStatus.map((row) => ({
+                label: STATUS_LABELS[row.status] ?? row.status,
+                value: row.count,
+              }))}
+            />
+          </ChartCard>
+
+          <ChartCard title="Registrations by grade">
+            <BarChart
+              data={registrations.byGrade.map((row) => ({ label: `Grade ${row.grade}`, value: row.count }))}
+            />
+          </ChartCard>
+
+          <ChartCard title="Revenue by council">
+            <BarChart
+              data={revenue.byCouncil.map((row) => ({ label: row.council, value: row.amount }))}
+              format={(amount) => formatMoney(amount)}
+            />
+          </ChartCard>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { requireAdmin } from "~/lib/auth/session"
+
+/**
+ * Admin section layout
+ *
+ * Every page under /admin requires an admin; others are redirected
+ * to /sign-in or /unauthorized.
+ */
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}): Promise<React.JSX.Element> {
+  await requireAdmin()
+
+  return <>{children}</>
+}
@@ -0,0 +1,29 @@
+/**
+ * Admin Dashboard Page - Server Component
+ *
+ * Current session metrics (REP-008). The layout has already checked
+ * the admin role; metrics are pre-fetched so the charts render on the
+ * first paint.
+ */
+
+import { dehydrate, HydrationBoundary } from "@tanstack/react-query"
+import { getQueryClient } from "~/lib/query-client"
+import { getServerApi } from "~/lib/hono-server"
+import { apiResponse } from "@repo/validations"
+import DashboardClient from "./dashboard.client"
+
+export default async function AdminDashboardPage(): Promise<React.JSX.Element> {
+  const queryClient = getQueryClient()
+  const api = await getServerApi()
+
+  await queryClient.prefetchQuery({
+    queryKey: ['admin', 'dashboard'],
+    queryFn: async () => apiResponse(api.v1.admin.dashboard.$get({ query: {} })),
+  })
+
+  return (
+    <HydrationBoundary state={dehydrate(queryClient)}>
+      <DashboardClient />
+    </HydrationBoundary>
+  )
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "~/components/ui/button";
+
+export default function ConfirmEmailClient({ token }: { token?: string }): React.JSX.Element {
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [confirmedEmail, setConfirmedEmail] = useState<string | null>(null);
+
+  // Confirmed on click, not on load, so link scanners can't use the token
+  async function handleConfirm() {
+    setError("");
+    setLoading(true);
+
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001"}/v1/users/email-change/confirm`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({ token }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Could not change your email");
+      }
+
+      setConfirmedEmail(data.data.email);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not change your email");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (confirmedEmail) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <div className="w-full max-w-md space-y-6 p-8 text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+            Email changed
+          </h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Your account now uses <strong>{confirmedEmail}</strong>. Other devices have been
+            signed out; sign in there with your new email.
+          </p>
+          <Button asChild className="w-full">
+            <Link href="/profile">Go to your profile</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <div className="w-full max-w-md space-y-6 p-8 text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+            Confirmation link not valid
+          </h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            This link is incomplete. Open the link from the email again, or request a new one
+            from your profile.
+          </p>
+          <Button asChild className="w-full">
+            <Link href="/profile">Go to your profile</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="w-full max-w-md space-y-6 p-8 text-center">
+        <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+          Confirm your new email
+        </h1>
+        <p className="text-sm text-slate-600 dark:text-slate-400">
+          Your account will use this address from now on. You will be signed out on your other
+          devices.
+        </p>
+
+        {error && (
+          <div className="rounded-lg bg-red-50 p-4 text-left dark:bg-red-900/20">
+            <p className="text-sm text-red-800 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        <Button onClick={handleConfirm} className="w-full" disabled={loading}>
+          {loading ? "Confirming..." : "Confirm new email"}
+        </Button>
+      </div>
+    </div>
+  );
+}
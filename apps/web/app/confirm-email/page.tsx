@@ -0,0 +1,22 @@
+import ConfirmEmailClient from "./confirm-email.client";
+
+type ConfirmEmailSearchParams = {
+  // From the link emailed to the new address
+  token?: string;
+};
+
+/**
+ * Confirm Email Page
+ *
+ * Landing page for email change links. Works without a session, so the
+ * link can be opened on any device.
+ */
+export default async function ConfirmEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<ConfirmEmailSearchParams>;
+}): Promise<React.JSX.Element> {
+  const { token } = await searchParams;
+
+  return <ConfirmEmailClient token={token} />;
+}
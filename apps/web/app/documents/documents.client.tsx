@@ -246,8 +246,7 @@ export default function DocumentsClient(): React.JSX.Element {
   /**
    * Format file size
    */
-  const formatFileSize = (bytes: string): string => {
-    const size = parseInt(bytes)
+  const formatFileSize = (size: number): string => {
     if (size < 1024) return `${size} B`
     if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
     return `${(size / (1024 * 1024)).toFixed(1)} MB`
@@ -0,0 +1,98 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { authClient } from "~/lib/auth-client";
+import { resetPasswordRedirectURL } from "~/lib/auth/email-links";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+export default function ForgotPasswordClient(): React.JSX.Element {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState("");
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    // The API answers the same whether or not the account exists
+    await authClient.requestPasswordReset(
+      {
+        email,
+        redirectTo: resetPasswordRedirectURL(),
+      },
+      {
+        onSuccess: () => {
+          setSent(true);
+        },
+        onError: (ctx) => {
+          setError(ctx.error.message || "Could not send the reset email");
+        },
+      }
+    );
+
+    setLoading(false);
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="w-full max-w-md space-y-8 p-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+            Forgot your password?
+          </h1>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+            Enter your email address and we will send you a link to reset it.
+          </p>
+        </div>
+
+        {sent ? (
+          <div className="rounded-lg bg-blue-50 p-4 dark:bg-blue-900/20">
+            <p className="text-sm text-blue-800 dark:text-blue-300">
+              If an account exists for {email}, a reset link is on its way. It is valid for 24 hours
+              and can be used once.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            {error && (
+              <div className="rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
+                <p className="text-sm text-red-800 dark:text-red-400">{error}</p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="email">Email Address</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                required
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? "Sending..." : "Send reset link"}
+            </Button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-slate-600 dark:text-slate-400">
+          Remembered it?{" "}
+          <Link
+            href="/sign-in"
+            className="font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400"
+          >
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
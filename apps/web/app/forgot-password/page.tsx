@@ -0,0 +1,11 @@
+import { redirect } from "next/navigation";
+import { getSession } from "~/lib/auth/session";
+import ForgotPasswordClient from "./forgot-password.client";
+
+export default async function ForgotPasswordPage(): Promise<React.JSX.Element> {
+  const session = await getSession();
+
+  if (session && session.session) redirect("/");
+
+  return <ForgotPasswordClient />;
+}
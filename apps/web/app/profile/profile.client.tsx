@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { authClient } from "~/lib/auth-client";
+import { confirmEmailChangeCallbackURL } from "~/lib/auth/email-links";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
@@ -15,15 +16,31 @@ interface UserProfile {
   emailVerified: boolean;
   role: string | null;
   grade: number | null;
+  graduatedAt: string | null;
   studentId: string | null;
   phone: string | null;
   createdAt: string;
 }
 
+interface GradeChange {
+  id: string;
+  fromGrade: string | null;
+  toGrade: string;
+  source: "progression" | "adjustment";
+  reason: string;
+  createdAt: string;
+}
+
+function formatGrade(grade: string | null): string {
+  if (grade === null) return "No grade";
+  return grade === "graduated" ? "Graduated" : `Grade ${grade}`;
+}
+
 export default function ProfileClient(): React.JSX.Element {
   const router = useRouter();
 
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [gradeHistory, setGradeHistory] = useState<GradeChange[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState("");
@@ -34,33 +51,58 @@ export default function ProfileClient(): React.JSX.Element {
   const [name, setName] = useState("");
   const [phone, setPhone] = useState("");
 
+  // Email change state (the email changes once the new address confirms)
+  const [emailChangeMode, setEmailChangeMode] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
+  const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+  const [requestingEmailChange, setRequestingEmailChange] = useState(false);
+
   useEffect(() => {
-    fetchProfile();
-  }, []);
+    async function fetchProfile() {
+      try {
+        const response = await fetch(
+          `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001"}/v1/users/me`,
+          {
+            credentials: "include",
+          }
+        );
 
-  async function fetchProfile() {
-    try {
+        if (!response.ok) {
+          throw new Error("Failed to fetch profile");
+        }
+
+        const data = await response.json();
+        setProfile(data.data);
+        setName(data.data.name);
+        setPhone(data.data.phone || "");
+
+        if (data.data.role === "student") {
+          await fetchGradeHistory();
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load profile");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    async function fetchGradeHistory() {
       const response = await fetch(
-        `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001"}/v1/users/me`,
+        `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001"}/v1/users/me/grade-history`,
         {
           credentials: "include",
         }
       );
 
-      if (!response.ok) {
-        throw new Error("Failed to fetch profile");
+      // The timeline is optional; the profile still renders without it
+      if (response.ok) {
+        const data = await response.json();
+        setGradeHistory(data.data);
       }
-
-      const data = await response.json();
-      setProfile(data.data);
-      setName(data.data.name);
-      setPhone(data.data.phone || "");
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load profile");
-    } finally {
-      setLoading(false);
     }
-  }
+
+    fetchProfile();
+  }, []);
 
   async function handleSave(e: React.FormEvent) {
     e.preventDefault();
@@ -100,6 +142,44 @@ export default function ProfileClient(): React.JSX.Element {
     }
   }
 
+  async function handleEmailChange(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setSuccess("");
+    setRequestingEmailChange(true);
+
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001"}/v1/users/me/email-change`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify({
+            newEmail,
+            callbackURL: confirmEmailChangeCallbackURL(),
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to request email change");
+      }
+
+      setPendingEmail(data.data.newEmail);
+      setEmailChangeMode(false);
+      setNewEmail("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to request email change");
+    } finally {
+      setRequestingEmailChange(false);
+    }
+  }
+
   function handleSignOut() {
     authClient.signOut({
       fetchOptions: {
@@ -193,6 +273,11 @@ export default function ProfileClient(): React.JSX.Element {
                     Grade {profile.grade}
                   </span>
                 )}
+                {profile.graduatedAt && (
+                  <span className="inline-flex rounded-full bg-amber-100 px-2.5 py-0.5 text-xs font-medium text-amber-800 dark:bg-amber-900/30 dark:text-amber-400">
+                    Graduated
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -307,6 +392,91 @@ export default function ProfileClient(): React.JSX.Element {
           )}
         </div>
 
+        {/* Email Change */}
+        <div className="mt-6 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-800">
+          <h3 className="font-medium text-slate-900 dark:text-white">
+            Email Address
+          </h3>
+          <p className="mt-1 text-sm text-slate-600 dark:text-slate-400">
+            We send a confirmation link to the new address. Your email changes
+            once you use it, and your other devices are signed out.
+          </p>
+
+          {pendingEmail && (
+            <div className="mt-4 rounded-lg bg-blue-50 p-4 dark:bg-blue-900/20">
+              <p className="text-sm text-blue-800 dark:text-blue-400">
+                Check {pendingEmail} for a confirmation link. Until you use it,
+                keep signing in with {profile.email}.
+              </p>
+            </div>
+          )}
+
+          {emailChangeMode ? (
+            <form onSubmit={handleEmailChange} className="mt-4 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="newEmail">New Email</Label>
+                <Input
+                  id="newEmail"
+                  type="email"
+                  autoComplete="email"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={requestingEmailChange}>
+                  {requestingEmailChange ? "Sending..." : "Send Confirmation"}
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setEmailChangeMode(false);
+                    setNewEmail("");
+                  }}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <div className="pt-4">
+              <Button variant="outline" onClick={() => setEmailChangeMode(true)}>
+                Change Email
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Grade Timeline */}
+        {profile.role === "student" && gradeHistory.length > 0 && (
+          <div className="mt-6 rounded-xl border border-slate-200 bg-white p-6 shadow-sm dark:border-slate-700 dark:bg-slate-800">
+            <h3 className="mb-4 font-medium text-slate-900 dark:text-white">
+              Grade History
+            </h3>
+            <ol className="space-y-4 border-l border-slate-200 pl-4 dark:border-slate-700">
+              {gradeHistory.map((change) => (
+                <li key={change.id} className="relative">
+                  <span className="absolute -left-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-slate-400 dark:bg-slate-500"></span>
+                  <p className="text-sm font-medium text-slate-900 dark:text-white">
+                    {formatGrade(change.fromGrade)} &rarr; {formatGrade(change.toGrade)}
+                  </p>
+                  <p className="mt-0.5 text-sm text-slate-600 dark:text-slate-400">
+                    {change.source === "progression" ? "Automatic progression" : "Adjusted by the school"}
+                    {": "}
+                    {change.reason}
+                  </p>
+                  <p className="mt-0.5 text-xs text-slate-500 dark:text-slate-500">
+                    {new Date(change.createdAt).toLocaleDateString()}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
         {/* Quick Links */}
         <div className="mt-6 grid gap-4 sm:grid-cols-2">
           <Link href="/links">
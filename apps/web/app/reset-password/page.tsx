@@ -0,0 +1,24 @@
+import ResetPasswordClient from "./reset-password.client";
+
+type ResetPasswordSearchParams = {
+  // Added by the API when the reset link is valid
+  token?: string;
+  // Added by the API when the link is invalid or expired (INVALID_TOKEN)
+  error?: string;
+};
+
+/**
+ * Reset Password Page
+ *
+ * Landing page for password reset links: the API checks the token and
+ * redirects here with ?token= (or ?error= when it is invalid or expired).
+ */
+export default async function ResetPasswordPage({
+  searchParams,
+}: {
+  searchParams: Promise<ResetPasswordSearchParams>;
+}): Promise<React.JSX.Element> {
+  const { token, error } = await searchParams;
+
+  return <ResetPasswordClient token={error ? undefined : token} />;
+}
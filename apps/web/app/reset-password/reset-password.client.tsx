@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { authClient } from "~/lib/auth-client";
+import { checkPassword, PASSWORD_MIN_LENGTH } from "@repo/validations";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+export default function ResetPasswordClient({ token }: { token?: string }): React.JSX.Element {
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    // The API also checks the password against your email and name
+    const passwordProblem = checkPassword(password);
+    if (passwordProblem) {
+      setError(passwordProblem);
+      return;
+    }
+
+    setLoading(true);
+
+    await authClient.resetPassword(
+      {
+        newPassword: password,
+        token,
+      },
+      {
+        onSuccess: () => {
+          setDone(true);
+        },
+        onError: (ctx) => {
+          setError(ctx.error.message || "Could not reset your password");
+          setLoading(false);
+        },
+      }
+    );
+  };
+
+  if (done) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <div className="w-full max-w-md space-y-6 p-8 text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+            Password changed
+          </h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Your password has been reset. Sign in with your new password.
+          </p>
+          <Button asChild className="w-full">
+            <Link href="/sign-in">Sign in</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!token) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <div className="w-full max-w-md space-y-6 p-8 text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+            Reset link not valid
+          </h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            This password reset link is invalid, has expired or was already used.
+          </p>
+          <Button asChild className="w-full">
+            <Link href="/forgot-password">Request a new link</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="w-full max-w-md space-y-8 p-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+            Choose a new password
+          </h1>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+            You will be signed out on other devices.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {error && (
+            <div className="rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
+              <p className="text-sm text-red-800 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="password">New Password</Label>
+            <Input
+              id="password"
+              type="password"
+              placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
+              autoComplete="new-password"
+              required
+              minLength={PASSWORD_MIN_LENGTH}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              At least {PASSWORD_MIN_LENGTH} characters, with an uppercase letter and a number
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirm Password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              required
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Saving..." : "Reset password"}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
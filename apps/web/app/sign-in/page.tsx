@@ -35,6 +35,11 @@ export default function SignInPage(): React.JSX.Element {
           router.push('/')
         },
         onError: (ctx) => {
+          // Unverified accounts can't sign in; offer to resend the link
+          if (ctx.error.code === "EMAIL_NOT_VERIFIED") {
+            router.push(`/verify-email?email=${encodeURIComponent(email)}`)
+            return
+          }
           setError(ctx.error.message || "Sign in failed")
         }
       })
@@ -77,9 +82,14 @@ export default function SignInPage(): React.JSX.Element {
             </div>
 
             <div>
-              <label htmlFor="password" className="block text-sm font-medium">
-                Password
-              </label>
+              <div className="flex items-center justify-between">
+                <label htmlFor="password" className="block text-sm font-medium">
+                  Password
+                </label>
+                <a href="/forgot-password" className="text-sm font-medium text-blue-600 hover:text-blue-500">
+                  Forgot password?
+                </a>
+              </div>
               <input
                 id="password"
                 name="password"
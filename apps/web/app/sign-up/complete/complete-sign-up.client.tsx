@@ -0,0 +1,164 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ROLES, SignUpData } from "@repo/validations";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+const GRADES = [
+  { value: 10, label: "Grade 10" },
+  { value: 11, label: "Grade 11" },
+  { value: 12, label: "Grade 12" },
+];
+
+type AccountType = typeof ROLES.STUDENT | typeof ROLES.PARENT;
+
+export default function CompleteSignUpClient({ name }: { name: string }): React.JSX.Element {
+  const router = useRouter();
+
+  const [accountType, setAccountType] = useState<AccountType | "">("");
+  const [grade, setGrade] = useState<number | "">("");
+  const [phone, setPhone] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!accountType) {
+      setError("Please choose your account type");
+      return;
+    }
+
+    if (accountType === ROLES.STUDENT && !grade) {
+      setError("Please select your grade");
+      return;
+    }
+
+    // Same schema the API applies
+    const signUp = SignUpData.safeParse(
+      accountType === ROLES.STUDENT
+        ? { accountType, grade, phone: phone.trim() || null }
+        : { accountType, phone: phone.trim() || null }
+    );
+    if (!signUp.success) {
+      setError(signUp.error.issues[0]?.message ?? "Invalid details");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const response = await fetch(
+        `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001"}/v1/users/me/complete-sign-up`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          credentials: "include",
+          body: JSON.stringify(signUp.data),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Could not finish signing up");
+      }
+
+      router.push("/");
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not finish signing up");
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="w-full max-w-md space-y-8 p-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+            Finish signing up
+          </h1>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+            Welcome back, {name}. Your account setup was never finished; tell us who
+            the account is for to continue.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {error && (
+            <div className="rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
+              <p className="text-sm text-red-800 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <fieldset className="space-y-2">
+            <legend className="text-sm font-medium">Account Type</legend>
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                { value: ROLES.STUDENT, label: "Student" },
+                { value: ROLES.PARENT, label: "Parent" },
+              ].map((option) => (
+                <label
+                  key={option.value}
+                  className="flex cursor-pointer items-center gap-2 rounded-md border border-input px-3 py-2 text-sm has-[:checked]:border-blue-600"
+                >
+                  <input
+                    type="radio"
+                    name="accountType"
+                    value={option.value}
+                    checked={accountType === option.value}
+                    onChange={() => setAccountType(option.value)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {accountType === ROLES.STUDENT && (
+            <div className="space-y-2">
+              <Label htmlFor="grade">Current Grade</Label>
+              <select
+                id="grade"
+                required
+                value={grade}
+                onChange={(e) => setGrade(e.target.value ? Number(e.target.value) : "")}
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-xs transition-[color,box-shadow] outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30 md:text-sm"
+              >
+                <option value="">Select your grade</option>
+                {GRADES.map((g) => (
+                  <option key={g.value} value={g.value}>
+                    {g.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="phone">Phone Number (optional)</Label>
+            <Input
+              id="phone"
+              type="tel"
+              placeholder="+20 100 000 0000"
+              autoComplete="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Saving..." : "Continue"}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { redirect } from "next/navigation";
+import { needsSignUpCompletion } from "@repo/validations";
+import { getSession } from "~/lib/auth/session";
+import CompleteSignUpClient from "./complete-sign-up.client";
+
+/**
+ * Complete Sign-Up Page
+ *
+ * Accounts from the old two-step sign-up that never picked student or
+ * parent are sent here after signing in (see requireAuth).
+ */
+export default async function CompleteSignUpPage(): Promise<React.JSX.Element> {
+  const session = await getSession();
+
+  if (!session) redirect("/sign-in");
+  if (!needsSignUpCompletion(session.user.role)) redirect("/");
+
+  return <CompleteSignUpClient name={session.user.name} />;
+}
@@ -4,6 +4,8 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { authClient } from "~/lib/auth-client";
+import { verifyEmailCallbackURL } from "~/lib/auth/email-links";
+import { checkPassword, PASSWORD_MIN_LENGTH, ROLES, StudentRegistrationData } from "@repo/validations";
 import { Button } from "~/components/ui/button";
 import { Input } from "~/components/ui/input";
 import { Label } from "~/components/ui/label";
@@ -22,6 +24,7 @@ export default function StudentSignUpClient(): React.JSX.Element {
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [grade, setGrade] = useState<number | "">("");
+  const [phone, setPhone] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
 
@@ -35,9 +38,10 @@ export default function StudentSignUpClient(): React.JSX.Element {
       return;
     }
 
-    // Validate password requirements
-    if (password.length < 8) {
-      setError("Password must be at least 8 characters");
+    // Validate password requirements (the API enforces the same policy)
+    const passwordProblem = checkPassword(password, { email, name });
+    if (passwordProblem) {
+      setError(passwordProblem);
       return;
     }
 
@@ -47,22 +51,35 @@ export default function StudentSignUpClient(): React.JSX.Element {
       return;
     }
 
+    // Same schema the API applies to the sign-up
+    const registration = StudentRegistrationData.safeParse({
+      accountType: ROLES.STUDENT,
+      grade,
+      phone: phone.trim() || null,
+    });
+    if (!registration.success) {
+      setError(registration.error.issues[0]?.message ?? "Invalid registration details");
+      return;
+    }
+
     setLoading(true);
 
     try {
-      // Sign up with better-auth
+      // Sign up with better-auth; role, grade and student ID are saved with the account
       await authClient.signUp.email(
         {
           email,
           password,
           name,
+          // Role-specific fields, checked against SignUpData by the API
+          signUp: registration.data,
+          // The emailed link signs the user in
+          callbackURL: verifyEmailCallbackURL(),
         },
         {
           onSuccess: async () => {
-            // After sign-up, we need to update the user with role and grade
-            // This will be handled by the backend after sign-up
-            // For now, redirect to complete profile setup
-            router.push(`/sign-up/student/complete?grade=${grade}`);
+            // No session until the email is verified
+            router.push(`/verify-email?sent=1&email=${encodeURIComponent(email)}`);
           },
           onError: (ctx) => {
             setError(ctx.error.message || "Sign up failed");
@@ -154,20 +171,32 @@ export default function StudentSignUpClient(): React.JSX.Element {
             </select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="phone">Phone Number (optional)</Label>
+            <Input
+              id="phone"
+              type="tel"
+              placeholder="+20 100 000 0000"
+              autoComplete="tel"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="password">Password</Label>
             <Input
               id="password"
               type="password"
-              placeholder="At least 8 characters"
+              placeholder={`At least ${PASSWORD_MIN_LENGTH} characters`}
               autoComplete="new-password"
               required
-              minLength={8}
+              minLength={PASSWORD_MIN_LENGTH}
               value={password}
               onChange={(e) => setPassword(e.target.value)}
             />
             <p className="text-xs text-slate-500 dark:text-slate-400">
-              Minimum 8 characters required
+              At least {PASSWORD_MIN_LENGTH} characters, with an uppercase letter and a number
             </p>
           </div>
 
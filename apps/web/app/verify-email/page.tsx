@@ -0,0 +1,39 @@
+import { getSession } from "~/lib/auth/session";
+import { safeNextPath } from "~/lib/auth/email-links";
+import VerifyEmailClient from "./verify-email.client";
+
+type VerifyEmailSearchParams = {
+  email?: string;
+  // Set by the API when the verification link failed
+  error?: string;
+  // Where to continue once verified
+  next?: string;
+  // Set after sign-up, when the first email is already on its way
+  sent?: string;
+};
+
+/**
+ * Verify Email Page
+ *
+ * Landing page for verification links (the API verifies the token,
+ * signs the user in and redirects here), and where sign-up and sign-in
+ * send users whose email is not verified yet.
+ */
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<VerifyEmailSearchParams>;
+}): Promise<React.JSX.Element> {
+  const { email, error, next, sent } = await searchParams;
+  const session = await getSession();
+
+  return (
+    <VerifyEmailClient
+      verified={!error && !!session?.user.emailVerified}
+      email={email ?? ""}
+      error={error}
+      next={safeNextPath(next)}
+      sent={sent === "1"}
+    />
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { authClient } from "~/lib/auth-client";
+import { verifyEmailCallbackURL } from "~/lib/auth/email-links";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { Label } from "~/components/ui/label";
+
+const LINK_ERRORS: Record<string, string> = {
+  token_expired: "This verification link has expired. Request a new one below.",
+  invalid_token: "This verification link is not valid. Request a new one below.",
+  user_not_found: "We could not find an account for this verification link.",
+};
+
+type VerifyEmailClientProps = {
+  verified: boolean;
+  email: string;
+  error?: string;
+  next: string;
+  sent: boolean;
+};
+
+export default function VerifyEmailClient(props: VerifyEmailClientProps): React.JSX.Element {
+  const [email, setEmail] = useState(props.email);
+  const [error, setError] = useState(
+    props.error ? LINK_ERRORS[props.error] ?? "Email verification failed" : ""
+  );
+  const [sent, setSent] = useState(props.sent);
+  const [loading, setLoading] = useState(false);
+
+  const handleResend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    await authClient.sendVerificationEmail(
+      {
+        email,
+        callbackURL: verifyEmailCallbackURL(props.next),
+      },
+      {
+        onSuccess: () => {
+          setSent(true);
+        },
+        onError: (ctx) => {
+          setError(ctx.error.message || "Could not send the verification email");
+        },
+      }
+    );
+
+    setLoading(false);
+  };
+
+  if (props.verified) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+        <div className="w-full max-w-md space-y-6 p-8 text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+            Email verified
+          </h1>
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Thanks for confirming your email address. Your account is ready to use.
+          </p>
+          <Button asChild className="w-full">
+            <a href={props.next}>Continue</a>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
+      <div className="w-full max-w-md space-y-8 p-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold tracking-tight text-slate-900 dark:text-white">
+            Verify your email
+          </h1>
+          <p className="mt-2 text-sm text-slate-600 dark:text-slate-400">
+            You need to confirm your email address before you can sign in.
+          </p>
+        </div>
+
+        {sent && (
+          <div className="rounded-lg bg-blue-50 p-4 dark:bg-blue-900/20">
+            <p className="text-sm text-blue-800 dark:text-blue-300">
+              We sent a verification link{email ? ` to ${email}` : ""}. It is valid for 24 hours.
+              Check your inbox (and spam folder), then follow the link.
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={handleResend} className="space-y-5">
+          {error && (
+            <div className="rounded-lg bg-red-50 p-4 dark:bg-red-900/20">
+              <p className="text-sm text-red-800 dark:text-red-400">{error}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="email">Email Address</Label>
+            <Input
+              id="email"
+              type="email"
+              autoComplete="email"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Sending..." : sent ? "Send again" : "Send verification email"}
+          </Button>
+        </form>
+
+        <p className="text-center text-sm text-slate-600 dark:text-slate-400">
+          Already verified?{" "}
+          <Link
+            href="/sign-in"
+            className="font-medium text-blue-600 hover:text-blue-500 dark:text-blue-400"
+          >
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
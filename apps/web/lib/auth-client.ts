@@ -1,5 +1,6 @@
 import { nextCookies } from 'better-auth/next-js'
 import { createAuthClient } from "better-auth/react"
+import { inferAdditionalFields } from "better-auth/client/plugins"
 import { env } from "../env"
 
 export const authClient = createAuthClient({
@@ -8,5 +9,16 @@ export const authClient = createAuthClient({
         credentials: "include",
         mode: 'cors'
     },
-    plugins: [nextCookies()]
+    plugins: [
+        nextCookies(),
+        // Profile fields on the session user. Sign-up sends them in `signUp`
+        // (validated on the API by SignUpData); the API refuses them at the top level
+        inferAdditionalFields({
+            user: {
+                grade: { type: "number", required: false, input: false },
+                phone: { type: "string", required: false, input: false },
+                signUp: { type: "json", required: false, returned: false },
+            },
+        }),
+    ]
 })
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * Callback URLs for links the API emails (verification, password reset,
+ * email change)
+ *
+ * Verification and reset links point at the API, which checks the token
+ * and redirects the browser back to these pages; the email change link
+ * opens its page directly. They must be absolute because the API runs
+ * on a different origin; the origin must be in the API's CORS_ORIGINS
+ * (better-auth trusted origins).
+ */
+
+/**
+ * Only same-site paths are followed after verification
+ */
+export function safeNextPath(next: string | null | undefined): string {
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/'
+}
+
+/**
+ * Where the verification link lands: /verify-email, which then continues to `next`
+ */
+export function verifyEmailCallbackURL(next?: string): string {
+  const url = new URL('/verify-email', window.location.origin)
+  if (next) url.searchParams.set('next', safeNextPath(next))
+  return url.toString()
+}
+
+/**
+ * Where the password reset link lands (the API adds ?token= or ?error=)
+ */
+export function resetPasswordRedirectURL(): string {
+  return new URL('/reset-password', window.location.origin).toString()
+}
+
+/**
+ * Where the email change confirmation link lands (the API adds ?token=)
+ */
+export function confirmEmailChangeCallbackURL(): string {
+  return new URL('/confirm-email', window.location.origin).toString()
+}
@@ -1,7 +1,7 @@
 import { cache } from 'react'
 import { getServerApi } from '~/lib/hono-server'
 import { apiResponse } from '@repo/validations'
-import { ROLES, type Role } from '@repo/validations'
+import { ROLES, needsSignUpCompletion, type Role } from '@repo/validations'
 import { redirect } from 'next/navigation'
 
 // Shape inferred from API response; keeps RPC typing
@@ -47,6 +47,7 @@ export async function requireRole(allowed: Role[] | Role) {
   const roles = Array.isArray(allowed) ? allowed : [allowed]
   const session = await getSession()
   if (!session) redirect('/sign-in')
+  if (needsSignUpCompletion(session.user.role)) redirect('/sign-up/complete')
 
   const role = session.user.role ?? undefined
   if (!role || !roles.includes(role as Role)) {
@@ -60,11 +61,13 @@ export async function requireRole(allowed: Role[] | Role) {
  * Require any authenticated user
  *
  * Simpler than requireRole when you just need authentication
- * without caring about the specific role.
+ * without caring about the specific role. Accounts that never picked
+ * student or parent are sent to finish signing up first.
  */
 export async function requireAuth() {
   const session = await getSession()
   if (!session) redirect('/sign-in')
+  if (needsSignUpCompletion(session.user.role)) redirect('/sign-up/complete')
   return session
 }
 
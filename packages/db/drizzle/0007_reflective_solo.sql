@@ -0,0 +1,30 @@
+CREATE TABLE "council" (
+	"id" text PRIMARY KEY NOT NULL,
+	"code" text NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "council_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE "subject" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"code" text NOT NULL,
+	"council_id" text NOT NULL,
+	"price_in_school" integer NOT NULL,
+	"price_external" integer,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "subject_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "subject" ADD CONSTRAINT "subject_council_id_council_id_fk" FOREIGN KEY ("council_id") REFERENCES "public"."council"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "subject_councilId_idx" ON "subject" USING btree ("council_id");--> statement-breakpoint
+CREATE INDEX "subject_isActive_idx" ON "subject" USING btree ("is_active");--> statement-breakpoint
+INSERT INTO "council" ("id", "code", "name") VALUES
+	(gen_random_uuid()::text, 'pearson_edexcel', 'Pearson Edexcel'),
+	(gen_random_uuid()::text, 'cambridge', 'Cambridge'),
+	(gen_random_uuid()::text, 'oxford', 'Oxford')
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,20 @@
+CREATE TABLE "registration_window" (
+	"id" text PRIMARY KEY NOT NULL,
+	"session_type" text NOT NULL,
+	"year" integer NOT NULL,
+	"starts_at" timestamp NOT NULL,
+	"ends_at" timestamp NOT NULL,
+	"status" text DEFAULT 'draft' NOT NULL,
+	"opened_at" timestamp,
+	"closed_at" timestamp,
+	"closed_by" text,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "registration_window" ADD CONSTRAINT "registration_window_closed_by_user_id_fk" FOREIGN KEY ("closed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration_window" ADD CONSTRAINT "registration_window_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "registrationWindow_status_idx" ON "registration_window" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "registrationWindow_session_year_idx" ON "registration_window" USING btree ("session_type","year");--> statement-breakpoint
+CREATE UNIQUE INDEX "registrationWindow_single_active_idx" ON "registration_window" USING btree ("status") WHERE "registration_window"."status" = 'active';
\ No newline at end of file
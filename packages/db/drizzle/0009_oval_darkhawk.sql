@@ -0,0 +1,20 @@
+CREATE TABLE "job" (
+	"id" text PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"dedupe_key" text,
+	"last_error" text,
+	"locked_by" text,
+	"locked_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "job_dedupe_key_unique" UNIQUE("dedupe_key")
+);
+--> statement-breakpoint
+CREATE INDEX "job_status_runAt_idx" ON "job" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "job_type_idx" ON "job" USING btree ("type");
\ No newline at end of file
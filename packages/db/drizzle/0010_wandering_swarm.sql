@@ -0,0 +1,39 @@
+CREATE TABLE "registration" (
+	"id" text PRIMARY KEY NOT NULL,
+	"student_id" text NOT NULL,
+	"window_id" text NOT NULL,
+	"status" text DEFAULT 'pending_payment' NOT NULL,
+	"total_amount" integer NOT NULL,
+	"created_by" text,
+	"confirmed_at" timestamp,
+	"cancelled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "registration_item" (
+	"id" text PRIMARY KEY NOT NULL,
+	"registration_id" text NOT NULL,
+	"subject_id" text NOT NULL,
+	"student_id" text NOT NULL,
+	"window_id" text NOT NULL,
+	"exam_type" text NOT NULL,
+	"unit_price" integer NOT NULL,
+	"subject_name" text NOT NULL,
+	"subject_code" text NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "registration" ADD CONSTRAINT "registration_student_id_user_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."user"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration" ADD CONSTRAINT "registration_window_id_registration_window_id_fk" FOREIGN KEY ("window_id") REFERENCES "public"."registration_window"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration" ADD CONSTRAINT "registration_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration_item" ADD CONSTRAINT "registration_item_registration_id_registration_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."registration"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration_item" ADD CONSTRAINT "registration_item_subject_id_subject_id_fk" FOREIGN KEY ("subject_id") REFERENCES "public"."subject"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "registration_studentId_idx" ON "registration" USING btree ("student_id");--> statement-breakpoint
+CREATE INDEX "registration_windowId_idx" ON "registration" USING btree ("window_id");--> statement-breakpoint
+CREATE INDEX "registration_status_idx" ON "registration" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "registrationItem_registrationId_idx" ON "registration_item" USING btree ("registration_id");--> statement-breakpoint
+CREATE INDEX "registrationItem_subjectId_idx" ON "registration_item" USING btree ("subject_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "registrationItem_student_window_subject_idx" ON "registration_item" USING btree ("student_id","window_id","subject_id") WHERE "registration_item"."status" = 'active';
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "subject_core_rule" (
+	"id" text PRIMARY KEY NOT NULL,
+	"subject_id" text NOT NULL,
+	"grade" integer NOT NULL,
+	"session_type" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "subject_core_rule" ADD CONSTRAINT "subject_core_rule_subject_id_subject_id_fk" FOREIGN KEY ("subject_id") REFERENCES "public"."subject"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "subjectCoreRule_subject_grade_session_idx" ON "subject_core_rule" USING btree ("subject_id","grade","session_type");--> statement-breakpoint
+CREATE INDEX "subjectCoreRule_grade_session_idx" ON "subject_core_rule" USING btree ("grade","session_type");
\ No newline at end of file
@@ -0,0 +1,35 @@
+CREATE TABLE "payment" (
+	"id" text PRIMARY KEY NOT NULL,
+	"registration_id" text,
+	"payer_id" text,
+	"provider" text NOT NULL,
+	"provider_reference" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"amount" integer NOT NULL,
+	"next_action" jsonb,
+	"expires_at" timestamp NOT NULL,
+	"paid_at" timestamp,
+	"failure_reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_provider_reference_unique" UNIQUE("provider_reference")
+);
+--> statement-breakpoint
+CREATE TABLE "payment_webhook_event" (
+	"id" text PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"event_id" text NOT NULL,
+	"payment_id" text,
+	"payload" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_registration_id_registration_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."registration"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_payer_id_user_id_fk" FOREIGN KEY ("payer_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_webhook_event" ADD CONSTRAINT "payment_webhook_event_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "payment_registrationId_idx" ON "payment" USING btree ("registration_id");--> statement-breakpoint
+CREATE INDEX "payment_payerId_idx" ON "payment" USING btree ("payer_id");--> statement-breakpoint
+CREATE INDEX "payment_status_idx" ON "payment" USING btree ("status");--> statement-breakpoint
+CREATE UNIQUE INDEX "payment_single_pending_idx" ON "payment" USING btree ("registration_id") WHERE "payment"."status" = 'pending';--> statement-breakpoint
+CREATE UNIQUE INDEX "paymentWebhookEvent_provider_eventId_idx" ON "payment_webhook_event" USING btree ("provider","event_id");--> statement-breakpoint
+CREATE INDEX "paymentWebhookEvent_paymentId_idx" ON "payment_webhook_event" USING btree ("payment_id");
\ No newline at end of file
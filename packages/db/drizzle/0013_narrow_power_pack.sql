@@ -0,0 +1,45 @@
+CREATE TABLE "escrow_account" (
+	"id" text PRIMARY KEY NOT NULL,
+	"kind" text NOT NULL,
+	"student_id" text,
+	"code" text,
+	"balance" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "escrow_account_student_id_unique" UNIQUE("student_id"),
+	CONSTRAINT "escrow_account_code_unique" UNIQUE("code"),
+	CONSTRAINT "escrowAccount_student_balance_check" CHECK ("escrow_account"."kind" <> 'student' OR "escrow_account"."balance" >= 0)
+);
+--> statement-breakpoint
+CREATE TABLE "escrow_entry" (
+	"id" text PRIMARY KEY NOT NULL,
+	"journal_id" text NOT NULL,
+	"account_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"balance_after" integer NOT NULL,
+	"entry_type" text NOT NULL,
+	"reference_type" text,
+	"reference_id" text,
+	"memo" text,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "escrowEntry_amount_nonzero_check" CHECK ("escrow_entry"."amount" <> 0)
+);
+--> statement-breakpoint
+ALTER TABLE "escrow_account" ADD CONSTRAINT "escrow_account_student_id_user_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."user"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escrow_entry" ADD CONSTRAINT "escrow_entry_account_id_escrow_account_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."escrow_account"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escrow_entry" ADD CONSTRAINT "escrow_entry_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "escrowEntry_accountId_createdAt_idx" ON "escrow_entry" USING btree ("account_id","created_at");--> statement-breakpoint
+CREATE INDEX "escrowEntry_journalId_idx" ON "escrow_entry" USING btree ("journal_id");--> statement-breakpoint
+CREATE INDEX "escrowEntry_reference_idx" ON "escrow_entry" USING btree ("reference_type","reference_id");--> statement-breakpoint
+CREATE FUNCTION "escrow_entry_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'escrow_entry is append-only';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "escrow_entry_no_update_delete" BEFORE UPDATE OR DELETE ON "escrow_entry"
+	FOR EACH ROW EXECUTE FUNCTION "escrow_entry_append_only"();--> statement-breakpoint
+INSERT INTO "escrow_account" ("id", "kind", "code") VALUES
+	(gen_random_uuid()::text, 'system', 'registration_revenue'),
+	(gen_random_uuid()::text, 'system', 'withdrawals_payable')
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,27 @@
+CREATE TABLE "registration_change" (
+	"id" text PRIMARY KEY NOT NULL,
+	"registration_id" text NOT NULL,
+	"item_id" text NOT NULL,
+	"type" text NOT NULL,
+	"status" text NOT NULL,
+	"target_subject_id" text,
+	"target_exam_type" text,
+	"new_item_id" text,
+	"price_difference" integer NOT NULL,
+	"requested_by" text,
+	"cancel_reason" text,
+	"completed_at" timestamp,
+	"cancelled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "payment" ADD COLUMN "registration_change_id" text;--> statement-breakpoint
+ALTER TABLE "registration_change" ADD CONSTRAINT "registration_change_registration_id_registration_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."registration"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration_change" ADD CONSTRAINT "registration_change_item_id_registration_item_id_fk" FOREIGN KEY ("item_id") REFERENCES "public"."registration_item"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration_change" ADD CONSTRAINT "registration_change_target_subject_id_subject_id_fk" FOREIGN KEY ("target_subject_id") REFERENCES "public"."subject"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration_change" ADD CONSTRAINT "registration_change_new_item_id_registration_item_id_fk" FOREIGN KEY ("new_item_id") REFERENCES "public"."registration_item"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "registration_change" ADD CONSTRAINT "registration_change_requested_by_user_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "registrationChange_registrationId_idx" ON "registration_change" USING btree ("registration_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "registrationChange_item_pending_idx" ON "registration_change" USING btree ("item_id") WHERE "registration_change"."status" = 'pending_payment';--> statement-breakpoint
+ALTER TABLE "payment" ADD CONSTRAINT "payment_registration_change_id_registration_change_id_fk" FOREIGN KEY ("registration_change_id") REFERENCES "public"."registration_change"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
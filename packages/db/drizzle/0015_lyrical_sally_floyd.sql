@@ -0,0 +1,16 @@
+CREATE TABLE "bank_transfer_receipt" (
+	"id" text PRIMARY KEY NOT NULL,
+	"payment_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"value_date" timestamp NOT NULL,
+	"notes" text,
+	"proof_file_id" text,
+	"escrow_credit" integer DEFAULT 0 NOT NULL,
+	"confirmed_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "bank_transfer_receipt" ADD CONSTRAINT "bank_transfer_receipt_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_transfer_receipt" ADD CONSTRAINT "bank_transfer_receipt_proof_file_id_file_id_fk" FOREIGN KEY ("proof_file_id") REFERENCES "public"."file"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "bank_transfer_receipt" ADD CONSTRAINT "bank_transfer_receipt_confirmed_by_user_id_fk" FOREIGN KEY ("confirmed_by") REFERENCES "public"."user"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "bankTransferReceipt_paymentId_idx" ON "bank_transfer_receipt" USING btree ("payment_id");
\ No newline at end of file
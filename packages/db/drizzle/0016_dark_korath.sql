@@ -0,0 +1,23 @@
+CREATE TABLE "notification" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"recipient_email" text NOT NULL,
+	"template" text NOT NULL,
+	"data" jsonb NOT NULL,
+	"regarding_student_id" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"locked_at" timestamp,
+	"message_id" text,
+	"last_error" text,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification" ADD CONSTRAINT "notification_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification" ADD CONSTRAINT "notification_regarding_student_id_user_id_fk" FOREIGN KEY ("regarding_student_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "notification_status_nextAttemptAt_idx" ON "notification" USING btree ("status","next_attempt_at");--> statement-breakpoint
+CREATE INDEX "notification_userId_idx" ON "notification" USING btree ("user_id");
\ No newline at end of file
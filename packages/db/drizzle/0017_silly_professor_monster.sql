@@ -0,0 +1,24 @@
+CREATE TABLE "audit_event" (
+	"id" text PRIMARY KEY NOT NULL,
+	"actor_id" text,
+	"impersonated_by" text,
+	"action" text NOT NULL,
+	"entity_type" text NOT NULL,
+	"entity_id" text NOT NULL,
+	"changes" jsonb NOT NULL,
+	"ip_address" text,
+	"user_agent" text,
+	"request_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "auditEvent_createdAt_idx" ON "audit_event" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "auditEvent_entity_idx" ON "audit_event" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "auditEvent_actorId_idx" ON "audit_event" USING btree ("actor_id");--> statement-breakpoint
+CREATE FUNCTION "audit_event_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_event is append-only';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "audit_event_no_update_delete" BEFORE UPDATE OR DELETE ON "audit_event"
+	FOR EACH ROW EXECUTE FUNCTION "audit_event_append_only"();
@@ -0,0 +1,20 @@
+CREATE TABLE "report_export" (
+	"id" text PRIMARY KEY NOT NULL,
+	"report_id" text NOT NULL,
+	"format" text NOT NULL,
+	"filters" jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"row_count" integer,
+	"storage_key" text,
+	"file_name" text,
+	"error" text,
+	"requested_by" text NOT NULL,
+	"completed_at" timestamp,
+	"expires_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "report_export" ADD CONSTRAINT "report_export_requested_by_user_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "reportExport_requestedBy_idx" ON "report_export" USING btree ("requested_by");--> statement-breakpoint
+CREATE INDEX "reportExport_expiresAt_idx" ON "report_export" USING btree ("expires_at");
\ No newline at end of file
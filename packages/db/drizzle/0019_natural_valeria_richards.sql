@@ -0,0 +1,2 @@
+ALTER TABLE "registration_window" ADD COLUMN "grades_progressed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "user" ADD COLUMN "graduated_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "grade_history" (
+	"id" text PRIMARY KEY NOT NULL,
+	"student_id" text NOT NULL,
+	"from_grade" text,
+	"to_grade" text NOT NULL,
+	"source" text NOT NULL,
+	"reason" text NOT NULL,
+	"window_id" text,
+	"changed_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "grade_history" ADD CONSTRAINT "grade_history_student_id_user_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grade_history" ADD CONSTRAINT "grade_history_window_id_registration_window_id_fk" FOREIGN KEY ("window_id") REFERENCES "public"."registration_window"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "grade_history" ADD CONSTRAINT "grade_history_changed_by_user_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "gradeHistory_studentId_createdAt_idx" ON "grade_history" USING btree ("student_id","created_at");
\ No newline at end of file
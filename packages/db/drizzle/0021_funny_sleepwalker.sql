@@ -0,0 +1,14 @@
+CREATE TABLE "payment_receipt" (
+	"id" text PRIMARY KEY NOT NULL,
+	"payment_id" text NOT NULL,
+	"receipt_number" serial NOT NULL,
+	"file_id" text,
+	"issued_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "payment_receipt_payment_id_unique" UNIQUE("payment_id"),
+	CONSTRAINT "payment_receipt_receipt_number_unique" UNIQUE("receipt_number")
+);
+--> statement-breakpoint
+ALTER TABLE "notification" ADD COLUMN "attachments" jsonb;--> statement-breakpoint
+ALTER TABLE "payment_receipt" ADD CONSTRAINT "payment_receipt_payment_id_payment_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payment"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_receipt" ADD CONSTRAINT "payment_receipt_file_id_file_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."file"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
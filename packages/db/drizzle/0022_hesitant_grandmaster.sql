@@ -0,0 +1,36 @@
+CREATE TABLE "escrow_withdrawal" (
+	"id" text PRIMARY KEY NOT NULL,
+	"student_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"fulfilled_amount" integer DEFAULT 0 NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"note" text,
+	"requested_by" text,
+	"cancel_reason" text,
+	"cancelled_by" text,
+	"fulfilled_at" timestamp,
+	"cancelled_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "escrowWithdrawal_amount_check" CHECK ("escrow_withdrawal"."amount" > 0),
+	CONSTRAINT "escrowWithdrawal_fulfilledAmount_check" CHECK ("escrow_withdrawal"."fulfilled_amount" >= 0 AND "escrow_withdrawal"."fulfilled_amount" <= "escrow_withdrawal"."amount")
+);
+--> statement-breakpoint
+CREATE TABLE "escrow_withdrawal_fulfilment" (
+	"id" text PRIMARY KEY NOT NULL,
+	"withdrawal_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"notes" text,
+	"journal_id" text NOT NULL,
+	"fulfilled_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "escrow_withdrawal" ADD CONSTRAINT "escrow_withdrawal_student_id_user_id_fk" FOREIGN KEY ("student_id") REFERENCES "public"."user"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escrow_withdrawal" ADD CONSTRAINT "escrow_withdrawal_requested_by_user_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escrow_withdrawal" ADD CONSTRAINT "escrow_withdrawal_cancelled_by_user_id_fk" FOREIGN KEY ("cancelled_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escrow_withdrawal_fulfilment" ADD CONSTRAINT "escrow_withdrawal_fulfilment_withdrawal_id_escrow_withdrawal_id_fk" FOREIGN KEY ("withdrawal_id") REFERENCES "public"."escrow_withdrawal"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escrow_withdrawal_fulfilment" ADD CONSTRAINT "escrow_withdrawal_fulfilment_fulfilled_by_user_id_fk" FOREIGN KEY ("fulfilled_by") REFERENCES "public"."user"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "escrowWithdrawal_studentId_idx" ON "escrow_withdrawal" USING btree ("student_id");--> statement-breakpoint
+CREATE INDEX "escrowWithdrawal_status_createdAt_idx" ON "escrow_withdrawal" USING btree ("status","created_at");--> statement-breakpoint
+CREATE INDEX "escrowWithdrawalFulfilment_withdrawalId_idx" ON "escrow_withdrawal_fulfilment" USING btree ("withdrawal_id");
\ No newline at end of file
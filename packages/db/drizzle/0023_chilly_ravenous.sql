@@ -0,0 +1,20 @@
+CREATE TABLE "escrow_transfer" (
+	"id" text PRIMARY KEY NOT NULL,
+	"parent_id" text NOT NULL,
+	"from_student_id" text NOT NULL,
+	"to_student_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"note" text,
+	"idempotency_key" text NOT NULL,
+	"journal_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "escrowTransfer_amount_check" CHECK ("escrow_transfer"."amount" > 0),
+	CONSTRAINT "escrowTransfer_students_check" CHECK ("escrow_transfer"."from_student_id" <> "escrow_transfer"."to_student_id")
+);
+--> statement-breakpoint
+ALTER TABLE "escrow_transfer" ADD CONSTRAINT "escrow_transfer_parent_id_user_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."user"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escrow_transfer" ADD CONSTRAINT "escrow_transfer_from_student_id_user_id_fk" FOREIGN KEY ("from_student_id") REFERENCES "public"."user"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "escrow_transfer" ADD CONSTRAINT "escrow_transfer_to_student_id_user_id_fk" FOREIGN KEY ("to_student_id") REFERENCES "public"."user"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "escrowTransfer_parentId_idempotencyKey_idx" ON "escrow_transfer" USING btree ("parent_id","idempotency_key");--> statement-breakpoint
+CREATE INDEX "escrowTransfer_fromStudentId_idx" ON "escrow_transfer" USING btree ("from_student_id");--> statement-breakpoint
+CREATE INDEX "escrowTransfer_toStudentId_idx" ON "escrow_transfer" USING btree ("to_student_id");
\ No newline at end of file
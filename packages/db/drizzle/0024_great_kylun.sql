@@ -0,0 +1,19 @@
+CREATE TABLE "idempotency_key" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"key" text NOT NULL,
+	"method" text NOT NULL,
+	"path" text NOT NULL,
+	"request_hash" text NOT NULL,
+	"status" text DEFAULT 'in_progress' NOT NULL,
+	"response_status" integer,
+	"response_content_type" text,
+	"response_body" text,
+	"locked_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "idempotency_key" ADD CONSTRAINT "idempotency_key_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idempotencyKey_userId_key_idx" ON "idempotency_key" USING btree ("user_id","key");--> statement-breakpoint
+CREATE INDEX "idempotencyKey_createdAt_idx" ON "idempotency_key" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "file" ALTER COLUMN "size" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "file_variant" ALTER COLUMN "size" SET DATA TYPE bigint;
\ No newline at end of file
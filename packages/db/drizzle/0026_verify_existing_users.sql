@@ -0,0 +1,3 @@
+-- Sign-in now requires a verified email. Accounts created before
+-- verification existed could never verify, so treat them as verified.
+UPDATE "user" SET "email_verified" = true WHERE "email_verified" = false;
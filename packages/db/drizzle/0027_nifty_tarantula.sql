@@ -0,0 +1,10 @@
+CREATE TABLE "sign_in_lockout" (
+	"email" text PRIMARY KEY NOT NULL,
+	"failed_attempts" integer DEFAULT 0 NOT NULL,
+	"lockout_count" integer DEFAULT 0 NOT NULL,
+	"locked_until" timestamp,
+	"last_failed_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "signInLockout_lastFailedAt_idx" ON "sign_in_lockout" USING btree ("last_failed_at");
\ No newline at end of file
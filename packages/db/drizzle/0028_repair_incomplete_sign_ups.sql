@@ -0,0 +1,62 @@
+-- Role, grade and student ID are now saved with the user at sign-up.
+-- Repair accounts that signed up under the old two-step flow but never
+-- finished the setup step (role still unset or better-auth's default 'user').
+
+-- Students with a grade but no student ID: finish the student setup.
+-- IDs follow the app's STU-YYYYMMDD-XXXXX format; a clash with the unique
+-- student_id index is retried with a new suffix.
+DO $$
+DECLARE
+  pending RECORD;
+BEGIN
+  FOR pending IN
+    SELECT "id", "created_at" FROM "user"
+    WHERE ("role" IS NULL OR "role" = 'user') AND "grade" IS NOT NULL AND "student_id" IS NULL
+  LOOP
+    LOOP
+      BEGIN
+        UPDATE "user"
+        SET "role" = 'student',
+            "student_id" = 'STU-' || to_char(pending."created_at", 'YYYYMMDD') || '-' || upper(substr(md5(random()::text || pending."id"), 1, 5))
+        WHERE "id" = pending."id";
+        EXIT;
+      EXCEPTION WHEN unique_violation THEN
+        -- Try another suffix
+      END;
+    END LOOP;
+  END LOOP;
+END $$;
+--> statement-breakpoint
+-- Accounts that already sent parent link requests are parents
+UPDATE "user"
+SET "role" = 'parent'
+WHERE ("role" IS NULL OR "role" = 'user')
+  AND EXISTS (SELECT 1 FROM "parent_student_link" WHERE "parent_student_link"."parent_id" = "user"."id");
+--> statement-breakpoint
+-- Accounts linked to as a student are students (same retry as above)
+DO $$
+DECLARE
+  pending RECORD;
+BEGIN
+  FOR pending IN
+    SELECT "id", "created_at", "student_id" FROM "user"
+    WHERE ("role" IS NULL OR "role" = 'user')
+      AND EXISTS (SELECT 1 FROM "parent_student_link" WHERE "parent_student_link"."student_id" = "user"."id")
+  LOOP
+    LOOP
+      BEGIN
+        UPDATE "user"
+        SET "role" = 'student',
+            "student_id" = coalesce(pending."student_id", 'STU-' || to_char(pending."created_at", 'YYYYMMDD') || '-' || upper(substr(md5(random()::text || pending."id"), 1, 5)))
+        WHERE "id" = pending."id";
+        EXIT;
+      EXCEPTION WHEN unique_violation THEN
+        -- Try another suffix
+      END;
+    END LOOP;
+  END LOOP;
+END $$;
+
+-- Nothing else says which form was used, so remaining accounts keep their
+-- unset role: they are asked to finish signing up on their next sign-in
+-- (POST /users/me/complete-sign-up).
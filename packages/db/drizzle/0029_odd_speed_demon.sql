@@ -0,0 +1,17 @@
+CREATE TABLE "email_change" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"previous_email" text NOT NULL,
+	"new_email" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"requested_session_id" text,
+	"expires_at" timestamp NOT NULL,
+	"confirmed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "email_change_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "email_change" ADD CONSTRAINT "email_change_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "emailChange_userId_idx" ON "email_change" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "emailChange_newEmail_idx" ON "email_change" USING btree ("new_email");--> statement-breakpoint
+CREATE INDEX "emailChange_previousEmail_idx" ON "email_change" USING btree ("previous_email");
\ No newline at end of file
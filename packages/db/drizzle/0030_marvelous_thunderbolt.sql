@@ -0,0 +1,3 @@
+DROP INDEX "escrowTransfer_parentId_idempotencyKey_idx";--> statement-breakpoint
+CREATE INDEX "escrowTransfer_parentId_idx" ON "escrow_transfer" USING btree ("parent_id");--> statement-breakpoint
+ALTER TABLE "escrow_transfer" DROP COLUMN "idempotency_key";
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "payment_receipt" ALTER COLUMN "payment_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "payment_receipt" ADD COLUMN "registration_id" text;--> statement-breakpoint
+ALTER TABLE "payment_receipt" ADD CONSTRAINT "payment_receipt_registration_id_registration_id_fk" FOREIGN KEY ("registration_id") REFERENCES "public"."registration"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_receipt" ADD CONSTRAINT "payment_receipt_registration_id_unique" UNIQUE("registration_id");--> statement-breakpoint
+ALTER TABLE "payment_receipt" ADD CONSTRAINT "paymentReceipt_source_check" CHECK (("payment_receipt"."payment_id" IS NULL) <> ("payment_receipt"."registration_id" IS NULL));
\ No newline at end of file
@@ -0,0 +1,25 @@
+/**
+ * Column Helpers
+ *
+ * Column builders for values with an app-wide representation, so every
+ * table stores them the same way.
+ */
+
+import { bigint, integer } from 'drizzle-orm/pg-core'
+
+/**
+ * Money amount in integer piastres (1 EGP = 100 piastres)
+ *
+ * Pair with the Money helpers in @repo/validations for parsing,
+ * arithmetic and formatting.
+ */
+export function moneyColumn(name: string) {
+  return integer(name)
+}
+
+/**
+ * Size in bytes, read back as a number (not a numeric string)
+ */
+export function byteSizeColumn(name: string) {
+  return bigint(name, { mode: 'number' })
+}
@@ -2,6 +2,7 @@
 import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
 import * as schema from './schema'
+import { isSerializationFailure } from './errors'
 
 const pool = new Pool({
     connectionString: process.env.DATABASE_URL,
@@ -10,4 +11,38 @@ const pool = new Pool({
     allowExitOnIdle: false,
 })
 
-export const db = drizzle({ client: pool, schema, casing: 'snake_case' })
\ No newline at end of file
+export const db = drizzle({ client: pool, schema, casing: 'snake_case' })
+
+/**
+ * Transaction handle passed to db.transaction() callbacks
+ */
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+/**
+ * Anything that can run queries: the root client or an open transaction.
+ * Lets services take part in a caller's transaction when one is given.
+ */
+export type DbExecutor = typeof db | DbTransaction
+
+/**
+ * Run a callback in a SERIALIZABLE transaction, retrying on
+ * serialization failures (SQLSTATE 40001).
+ *
+ * Use for writes whose correctness depends on what was read, such as
+ * ledger postings that must never overdraw an account.
+ *
+ * @param fn - Transaction body (may run more than once)
+ * @param maxAttempts - Attempts before the failure is rethrown
+ */
+export async function serializableTransaction<T>(
+    fn: (tx: DbTransaction) => Promise<T>,
+    maxAttempts = 3
+): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await db.transaction(fn, { isolationLevel: 'serializable' })
+        } catch (err) {
+            if (attempt >= maxAttempts || !isSerializationFailure(err)) throw err
+        }
+    }
+}
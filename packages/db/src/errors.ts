@@ -0,0 +1,72 @@
+/**
+ * Database Error Helpers
+ *
+ * Drizzle wraps driver errors, so the Postgres error code may live on the
+ * error itself or on its `cause`. These helpers hide that detail from services.
+ */
+
+/**
+ * Postgres SQLSTATE codes used by the application
+ */
+export const PG_ERROR_CODES = {
+  UNIQUE_VIOLATION: '23505',
+  FOREIGN_KEY_VIOLATION: '23503',
+  CHECK_VIOLATION: '23514',
+  SERIALIZATION_FAILURE: '40001',
+} as const;
+
+/**
+ * Extract the Postgres SQLSTATE code from a (possibly wrapped) error
+ */
+export function getPgErrorCode(err: unknown): string | undefined {
+  let current: unknown = err;
+
+  // Walk the cause chain (Drizzle -> pg)
+  for (let depth = 0; current && depth < 5; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string') return code;
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the constraint name reported by Postgres, if any
+ */
+export function getPgConstraint(err: unknown): string | undefined {
+  let current: unknown = err;
+
+  for (let depth = 0; current && depth < 5; depth++) {
+    const constraint = (current as { constraint?: unknown }).constraint;
+    if (typeof constraint === 'string') return constraint;
+    current = (current as { cause?: unknown }).cause;
+  }
+
+  return undefined;
+}
+
+/**
+ * True when the error is a unique constraint violation.
+ * Optionally restrict to a specific constraint / index name.
+ */
+export function isUniqueViolation(err: unknown, constraint?: string): boolean {
+  if (getPgErrorCode(err) !== PG_ERROR_CODES.UNIQUE_VIOLATION) return false;
+  return !constraint || getPgConstraint(err) === constraint;
+}
+
+/**
+ * True when the error is a check constraint violation.
+ * Optionally restrict to a specific constraint name.
+ */
+export function isCheckViolation(err: unknown, constraint?: string): boolean {
+  if (getPgErrorCode(err) !== PG_ERROR_CODES.CHECK_VIOLATION) return false;
+  return !constraint || getPgConstraint(err) === constraint;
+}
+
+/**
+ * True when a serializable transaction was aborted and can be retried
+ */
+export function isSerializationFailure(err: unknown): boolean {
+  return getPgErrorCode(err) === PG_ERROR_CODES.SERIALIZATION_FAILURE;
+}
@@ -14,9 +14,15 @@ export * from './db'
 // Schema (tables, relations)
 export * from './schema'
 
+// Column helpers (money, byte sizes)
+export * from './columns'
+
 // Health checks
 export * from './health'
 
+// Error helpers (unique violations, serialization failures, ...)
+export * from './errors'
+
 /**
  * Drizzle ORM Query Builders
  *
@@ -17,8 +17,9 @@
  * 5. Use onDelete: "cascade" for automatic cleanup
  */
 
-import { relations } from "drizzle-orm";
-import { pgTable, text, timestamp, boolean, index, numeric, integer } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
+import { pgTable, text, timestamp, boolean, index, uniqueIndex, numeric, integer, serial, jsonb, check } from "drizzle-orm/pg-core";
+import { byteSizeColumn, moneyColumn } from "./columns";
 
 export const user = pgTable("user", {
   id: text("id").primaryKey(),
@@ -39,6 +40,7 @@ export const user = pgTable("user", {
   grade: integer("grade"), // 10, 11, 12, or null (for parents/admins/graduated)
   studentId: text("student_id").unique(), // Auto-generated unique ID for students
   phone: text("phone"), // Optional contact number
+  graduatedAt: timestamp("graduated_at"), // Set when a Grade 12 student graduates (grade becomes null)
 });
 
 export const session = pgTable(
@@ -197,7 +199,7 @@ export const file = pgTable(
     // File metadata
     name: text("name").notNull(),              // Original filename
     mimeType: text("mime_type").notNull(),     // Detected MIME type
-    size: numeric("size").notNull(),           // File size in bytes
+    size: byteSizeColumn("size").notNull(),           // File size in bytes
 
     // Storage information (PRIVATE bucket - use signed URLs)
     storageKey: text("storage_key").notNull(), // R2 object key for generating signed URLs
@@ -252,7 +254,7 @@ export const fileVariant = pgTable(
     // Dimensions (for images)
     width: numeric("width").notNull(),
     height: numeric("height").notNull(),
-    size: numeric("size").notNull(),           // Variant size in bytes
+    size: byteSizeColumn("size").notNull(),           // Variant size in bytes
 
     createdAt: timestamp("created_at").defaultNow().notNull(),
   },
@@ -289,6 +291,8 @@ export const userRelationsExtended = relations(user, ({ many }) => ({
   // Parent-Student Link Relations
   linkRequestsAsParent: many(parentStudentLink, { relationName: "parentLinks" }),
   linkRequestsAsStudent: many(parentStudentLink, { relationName: "studentLinks" }),
+  // Grade timeline (students)
+  gradeHistory: many(gradeHistory, { relationName: "gradeHistory" }),
 }));
 
 /**
@@ -349,3 +353,1296 @@ export const parentStudentLinkRelations = relations(parentStudentLink, ({ one })
     relationName: "studentLinks",
   }),
 }));
+
+/**
+ * ============================================
+ * GRADE HISTORY TABLE
+ * ============================================
+ *
+ * Every change to a student's grade (GRADE-001, GRADE-002), shown as a
+ * timeline on the profile.
+ *
+ * Grades are stored as text: '10' | '11' | '12' | 'graduated'.
+ *
+ * Source:
+ * - progression: automatic, after a session closed (windowId set)
+ * - adjustment:  manual, by an admin with a reason (changedBy set)
+ */
+export const gradeHistory = pgTable(
+  "grade_history",
+  {
+    id: text("id").primaryKey(),
+    studentId: text("student_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    // Grade before the change (null when none was set)
+    fromGrade: text("from_grade"),
+    toGrade: text("to_grade").notNull(),
+    // Source: 'progression' | 'adjustment'
+    source: text("source").notNull(),
+    reason: text("reason").notNull(),
+    // Window whose close triggered the progression
+    windowId: text("window_id").references(() => registrationWindow.id, { onDelete: "set null" }),
+    // Admin who made the adjustment (null for progression)
+    changedBy: text("changed_by").references(() => user.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("gradeHistory_studentId_createdAt_idx").on(table.studentId, table.createdAt),
+  ]
+);
+
+/**
+ * GRADE HISTORY RELATIONS
+ */
+export const gradeHistoryRelations = relations(gradeHistory, ({ one }) => ({
+  student: one(user, {
+    fields: [gradeHistory.studentId],
+    references: [user.id],
+    relationName: "gradeHistory",
+  }),
+  changer: one(user, {
+    fields: [gradeHistory.changedBy],
+    references: [user.id],
+    relationName: "gradeChanges",
+  }),
+  window: one(registrationWindow, {
+    fields: [gradeHistory.windowId],
+    references: [registrationWindow.id],
+  }),
+}));
+
+/**
+ * ============================================
+ * COUNCIL TABLE
+ * ============================================
+ *
+ * Examination boards that subjects are registered under.
+ * Seeded with Pearson Edexcel, Cambridge and Oxford by migration.
+ */
+export const council = pgTable(
+  "council",
+  {
+    id: text("id").primaryKey(),
+    // Stable machine code: 'pearson_edexcel' | 'cambridge' | 'oxford'
+    code: text("code").notNull().unique(),
+    // Display name shown to users
+    name: text("name").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+);
+
+/**
+ * ============================================
+ * SUBJECT TABLE
+ * ============================================
+ *
+ * Subject catalog available for registration.
+ *
+ * Pricing:
+ * - priceInSchool is always set
+ * - priceExternal is null when the subject has no external option
+ * - Prices are stored as integer piastres (1 EGP = 100 piastres)
+ *
+ * Subjects are never hard-deleted. Deactivating hides them from
+ * new registrations while existing registrations keep their data.
+ */
+export const subject = pgTable(
+  "subject",
+  {
+    id: text("id").primaryKey(),
+    name: text("name").notNull(),
+    // Subject code as published by the council (e.g. '4MA1')
+    code: text("code").notNull().unique(),
+    councilId: text("council_id")
+      .notNull()
+      .references(() => council.id, { onDelete: "restrict" }),
+    // In-school price in piastres
+    priceInSchool: moneyColumn("price_in_school").notNull(),
+    // External price in piastres (null = external option not available)
+    priceExternal: moneyColumn("price_external"),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("subject_councilId_idx").on(table.councilId),
+    index("subject_isActive_idx").on(table.isActive),
+  ]
+);
+
+/**
+ * ============================================
+ * SUBJECT CORE RULE TABLE
+ * ============================================
+ *
+ * Marks a subject as core (mandatory) for a grade in a session type,
+ * e.g. Grade 10 in the June session (CORE-001).
+ *
+ * Core subjects are auto-included and locked in registrations for
+ * matching students and cannot be dropped or swapped.
+ */
+export const subjectCoreRule = pgTable(
+  "subject_core_rule",
+  {
+    id: text("id").primaryKey(),
+    subjectId: text("subject_id")
+      .notNull()
+      .references(() => subject.id, { onDelete: "cascade" }),
+    // Student grade the rule applies to (10, 11, 12)
+    grade: integer("grade").notNull(),
+    // Session type the rule applies to: 'june' | 'november' | 'january'
+    sessionType: text("session_type").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("subjectCoreRule_subject_grade_session_idx").on(table.subjectId, table.grade, table.sessionType),
+    index("subjectCoreRule_grade_session_idx").on(table.grade, table.sessionType),
+  ]
+);
+
+/**
+ * COUNCIL / SUBJECT RELATIONS
+ */
+export const councilRelations = relations(council, ({ many }) => ({
+  subjects: many(subject),
+}));
+
+export const subjectRelations = relations(subject, ({ one, many }) => ({
+  council: one(council, {
+    fields: [subject.councilId],
+    references: [council.id],
+  }),
+  coreRules: many(subjectCoreRule),
+}));
+
+export const subjectCoreRuleRelations = relations(subjectCoreRule, ({ one }) => ({
+  subject: one(subject, {
+    fields: [subjectCoreRule.subjectId],
+    references: [subject.id],
+  }),
+}));
+
+/**
+ * ============================================
+ * REGISTRATION WINDOW TABLE
+ * ============================================
+ *
+ * A time-boxed window during which students register for an exam session.
+ *
+ * Status workflow: draft -> active -> closed
+ * - draft:  editable, not yet open for registration
+ * - active: registrations and swaps allowed, no longer editable
+ * - closed: terminal, all registration features disabled
+ *
+ * Closing a window queues grade progression for its session type
+ * (GRADE-001); gradesProgressedAt records that it ran.
+ *
+ * Only one window may be active at a time. This is enforced by a partial
+ * unique index so it holds under concurrent admin actions, not only in
+ * application-level checks.
+ */
+export const registrationWindow = pgTable(
+  "registration_window",
+  {
+    id: text("id").primaryKey(),
+    // Exam session: 'june' | 'november' | 'january'
+    sessionType: text("session_type").notNull(),
+    // Exam session year (e.g. 2026)
+    year: integer("year").notNull(),
+    // Registration opens / closes at these times
+    startsAt: timestamp("starts_at").notNull(),
+    endsAt: timestamp("ends_at").notNull(),
+    // Window status: 'draft' | 'active' | 'closed'
+    status: text("status").notNull().default("draft"),
+    // When the window was opened / closed (may differ from startsAt / endsAt)
+    openedAt: timestamp("opened_at"),
+    closedAt: timestamp("closed_at"),
+    // Admin who closed the window early (null when closed on schedule)
+    closedBy: text("closed_by").references(() => user.id, { onDelete: "set null" }),
+    // When grade progression ran for this window (GRADE-001); set once
+    gradesProgressedAt: timestamp("grades_progressed_at"),
+    createdBy: text("created_by").references(() => user.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("registrationWindow_status_idx").on(table.status),
+    // One window per exam session
+    uniqueIndex("registrationWindow_session_year_idx").on(table.sessionType, table.year),
+    // At most one active window (partial unique index)
+    uniqueIndex("registrationWindow_single_active_idx")
+      .on(table.status)
+      .where(sql`${table.status} = 'active'`),
+  ]
+);
+
+/**
+ * ============================================
+ * JOB TABLE
+ * ============================================
+ *
+ * Postgres-backed queue for background work (window auto-close,
+ * reminders, grade progression, payment expiry, ...).
+ *
+ * Status workflow:
+ *   pending -> running -> completed
+ *                      -> pending (retry with backoff)
+ *                      -> dead    (max attempts reached, dead-letter)
+ *
+ * Workers claim rows with `FOR UPDATE SKIP LOCKED` in a single statement,
+ * so several API instances can poll the same table safely, including
+ * behind PgBouncer in transaction pooling mode.
+ */
+export const job = pgTable(
+  "job",
+  {
+    id: text("id").primaryKey(),
+    // Handler name, e.g. 'windows.close-expired'
+    type: text("type").notNull(),
+    // Handler input
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull().default({}),
+    // Job status: 'pending' | 'running' | 'completed' | 'dead'
+    status: text("status").notNull().default("pending"),
+    // Earliest time the job may run
+    runAt: timestamp("run_at").defaultNow().notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    maxAttempts: integer("max_attempts").default(5).notNull(),
+    // Prevents enqueuing the same logical job twice (e.g. one cron tick)
+    dedupeKey: text("dedupe_key").unique(),
+    lastError: text("last_error"),
+    // Worker that currently holds the job
+    lockedBy: text("locked_by"),
+    lockedAt: timestamp("locked_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    // Claim query: pending jobs ordered by runAt
+    index("job_status_runAt_idx").on(table.status, table.runAt),
+    index("job_type_idx").on(table.type),
+  ]
+);
+
+/**
+ * ============================================
+ * IDEMPOTENCY KEY TABLE
+ * ============================================
+ *
+ * Responses to mutating requests sent with an Idempotency-Key header,
+ * so a retry replays the first response instead of repeating the change.
+ *
+ * Keys are scoped to the user. requestHash covers method, path and
+ * body: the same key with a different request is rejected.
+ *
+ * Status: 'in_progress' while the first request runs, then 'completed'
+ * with the stored response. Rows are purged after the retention period.
+ */
+export const idempotencyKey = pgTable(
+  "idempotency_key",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    // Client-chosen Idempotency-Key header value
+    key: text("key").notNull(),
+    method: text("method").notNull(),
+    path: text("path").notNull(),
+    // SHA-256 of method, path and body
+    requestHash: text("request_hash").notNull(),
+    // Status: 'in_progress' | 'completed'
+    status: text("status").notNull().default("in_progress"),
+    responseStatus: integer("response_status"),
+    responseContentType: text("response_content_type"),
+    responseBody: text("response_body"),
+    // When the current attempt started (reset when a stale attempt is taken over)
+    lockedAt: timestamp("locked_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("idempotencyKey_userId_key_idx").on(table.userId, table.key),
+    index("idempotencyKey_createdAt_idx").on(table.createdAt),
+  ]
+);
+
+/**
+ * ============================================
+ * SIGN-IN LOCKOUT TABLE
+ * ============================================
+ *
+ * Failed email/password sign-ins per account (AUTH-005). After
+ * SIGN_IN_MAX_FAILED_ATTEMPTS consecutive failures the account is locked
+ * until lockedUntil; each further lockout doubles the window.
+ *
+ * Keyed by lower-cased email, not user ID: unknown emails are counted
+ * and locked the same way, so a lockout does not reveal that an account
+ * exists. A successful sign-in or an admin unlock deletes the row.
+ */
+export const signInLockout = pgTable(
+  "sign_in_lockout",
+  {
+    email: text("email").primaryKey(),
+    // Consecutive failures since the last lockout (or success)
+    failedAttempts: integer("failed_attempts").notNull().default(0),
+    // Lockouts so far; sets the length of the next one
+    lockoutCount: integer("lockout_count").notNull().default(0),
+    lockedUntil: timestamp("locked_until"),
+    lastFailedAt: timestamp("last_failed_at").defaultNow().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("signInLockout_lastFailedAt_idx").on(table.lastFailedAt),
+  ]
+);
+
+/**
+ * ============================================
+ * EMAIL CHANGE TABLE
+ * ============================================
+ *
+ * Requests to change a user's email (AUTH-007). The email is swapped
+ * only when the link sent to the new address is used; until then the
+ * user keeps signing in with the old one. A user has at most one
+ * pending request: a new request replaces it.
+ *
+ * Confirmed rows are kept so link lookups by a just-replaced address
+ * can still find the student.
+ */
+export const emailChange = pgTable(
+  "email_change",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    // Lower-cased addresses
+    previousEmail: text("previous_email").notNull(),
+    newEmail: text("new_email").notNull(),
+    // SHA-256 of the emailed token; the token itself is never stored
+    tokenHash: text("token_hash").notNull().unique(),
+    // Session that asked for the change; every other session is revoked on confirm
+    requestedSessionId: text("requested_session_id"),
+    expiresAt: timestamp("expires_at").notNull(),
+    confirmedAt: timestamp("confirmed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("emailChange_userId_idx").on(table.userId),
+    index("emailChange_newEmail_idx").on(table.newEmail),
+    index("emailChange_previousEmail_idx").on(table.previousEmail),
+  ]
+);
+
+/**
+ * ============================================
+ * REGISTRATION TABLE
+ * ============================================
+ *
+ * A student's subject registration within a registration window.
+ * Placed by the student or by a linked parent on their behalf.
+ *
+ * Status workflow: pending_payment -> confirmed
+ *                                  -> cancelled
+ *
+ * Registrations are financial records: students and windows cannot be
+ * deleted while registrations reference them.
+ */
+export const registration = pgTable(
+  "registration",
+  {
+    id: text("id").primaryKey(),
+    studentId: text("student_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "restrict" }),
+    windowId: text("window_id")
+      .notNull()
+      .references(() => registrationWindow.id, { onDelete: "restrict" }),
+    // Registration status: 'pending_payment' | 'confirmed' | 'cancelled'
+    status: text("status").notNull().default("pending_payment"),
+    // Sum of the item price snapshots in piastres
+    totalAmount: moneyColumn("total_amount").notNull(),
+    // User who placed the registration (the student or a linked parent)
+    createdBy: text("created_by").references(() => user.id, { onDelete: "set null" }),
+    confirmedAt: timestamp("confirmed_at"),
+    cancelledAt: timestamp("cancelled_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("registration_studentId_idx").on(table.studentId),
+    index("registration_windowId_idx").on(table.windowId),
+    index("registration_status_idx").on(table.status),
+  ]
+);
+
+/**
+ * ============================================
+ * REGISTRATION ITEM TABLE
+ * ============================================
+ *
+ * One subject line of a registration.
+ *
+ * Price snapshot (SUB-003): unitPrice, subjectName and subjectCode are
+ * copied from the catalog when the registration is created, so later
+ * catalog edits never change what the student was charged.
+ *
+ * studentId and windowId are copied from the parent registration so a
+ * partial unique index can stop the same subject being held twice by
+ * one student in one window.
+ *
+ * Item status: 'active' | 'cancelled'
+ */
+export const registrationItem = pgTable(
+  "registration_item",
+  {
+    id: text("id").primaryKey(),
+    registrationId: text("registration_id")
+      .notNull()
+      .references(() => registration.id, { onDelete: "cascade" }),
+    subjectId: text("subject_id")
+      .notNull()
+      .references(() => subject.id, { onDelete: "restrict" }),
+    studentId: text("student_id").notNull(),
+    windowId: text("window_id").notNull(),
+    // Exam type: 'in_school' | 'external'
+    examType: text("exam_type").notNull(),
+    // Price snapshot in piastres
+    unitPrice: moneyColumn("unit_price").notNull(),
+    // Catalog snapshot (for receipts and history)
+    subjectName: text("subject_name").notNull(),
+    subjectCode: text("subject_code").notNull(),
+    status: text("status").notNull().default("active"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("registrationItem_registrationId_idx").on(table.registrationId),
+    index("registrationItem_subjectId_idx").on(table.subjectId),
+    // A student holds each subject at most once per window
+    uniqueIndex("registrationItem_student_window_subject_idx")
+      .on(table.studentId, table.windowId, table.subjectId)
+      .where(sql`${table.status} = 'active'`),
+  ]
+);
+
+/**
+ * REGISTRATION RELATIONS
+ */
+export const registrationRelations = relations(registration, ({ one, many }) => ({
+  student: one(user, {
+    fields: [registration.studentId],
+    references: [user.id],
+  }),
+  window: one(registrationWindow, {
+    fields: [registration.windowId],
+    references: [registrationWindow.id],
+  }),
+  items: many(registrationItem),
+  payments: many(payment),
+  changes: many(registrationChange),
+}));
+
+export const registrationItemRelations = relations(registrationItem, ({ one }) => ({
+  registration: one(registration, {
+    fields: [registrationItem.registrationId],
+    references: [registration.id],
+  }),
+  subject: one(subject, {
+    fields: [registrationItem.subjectId],
+    references: [subject.id],
+  }),
+}));
+
+/**
+ * ============================================
+ * REGISTRATION CHANGE TABLE
+ * ============================================
+ *
+ * A drop, swap or in-school/external switch of a paid registration item
+ * (SWAP-001..004).
+ *
+ * priceDifference = new price - the original item's price snapshot:
+ * - <= 0: applied immediately; any refund is credited to escrow
+ * - >  0: held as pending_payment with a top-up payment. It is only
+ *         applied when the top-up succeeds, so a failed or expired
+ *         top-up leaves the original item untouched
+ *
+ * Status workflow: pending_payment -> completed
+ *                                  -> cancelled
+ */
+export const registrationChange = pgTable(
+  "registration_change",
+  {
+    id: text("id").primaryKey(),
+    registrationId: text("registration_id")
+      .notNull()
+      .references(() => registration.id, { onDelete: "restrict" }),
+    // Item being dropped or replaced
+    itemId: text("item_id")
+      .notNull()
+      .references(() => registrationItem.id, { onDelete: "restrict" }),
+    // Change type: 'drop' | 'swap' | 'switch_type'
+    type: text("type").notNull(),
+    // Change status: 'pending_payment' | 'completed' | 'cancelled'
+    status: text("status").notNull(),
+    // Replacement subject and exam type (null for drops)
+    targetSubjectId: text("target_subject_id")
+      .references(() => subject.id, { onDelete: "restrict" }),
+    targetExamType: text("target_exam_type"),
+    // Replacement item, set once the change is applied
+    newItemId: text("new_item_id")
+      .references(() => registrationItem.id, { onDelete: "restrict" }),
+    // New price - original price snapshot, in piastres
+    priceDifference: moneyColumn("price_difference").notNull(),
+    // User who requested the change (the student or a linked parent)
+    requestedBy: text("requested_by").references(() => user.id, { onDelete: "set null" }),
+    // Why a pending change was cancelled
+    cancelReason: text("cancel_reason"),
+    completedAt: timestamp("completed_at"),
+    cancelledAt: timestamp("cancelled_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("registrationChange_registrationId_idx").on(table.registrationId),
+    // At most one change awaiting payment per item
+    uniqueIndex("registrationChange_item_pending_idx")
+      .on(table.itemId)
+      .where(sql`${table.status} = 'pending_payment'`),
+  ]
+);
+
+/**
+ * REGISTRATION CHANGE RELATIONS
+ */
+export const registrationChangeRelations = relations(registrationChange, ({ one }) => ({
+  registration: one(registration, {
+    fields: [registrationChange.registrationId],
+    references: [registration.id],
+  }),
+  item: one(registrationItem, {
+    fields: [registrationChange.itemId],
+    references: [registrationItem.id],
+  }),
+}));
+
+/**
+ * ============================================
+ * PAYMENT TABLE
+ * ============================================
+ *
+ * A payment attempt through a gateway provider (@repo/payments).
+ *
+ * Status workflow: pending -> succeeded -> refunded
+ *                          -> failed
+ *                          -> expired
+ *
+ * provider 'bank_transfer' is a manual method: providerReference is the
+ * transfer reference given to the payer and admins record what arrived
+ * as bank_transfer_receipt rows.
+ *
+ * A succeeded webhook confirms the linked registration in the same
+ * transaction, or applies the linked registration change when the
+ * payment is a swap / switch top-up. Only one pending payment may
+ * exist per registration.
+ */
+export const payment = pgTable(
+  "payment",
+  {
+    id: text("id").primaryKey(),
+    // Registration being paid for
+    registrationId: text("registration_id")
+      .references(() => registration.id, { onDelete: "restrict" }),
+    // Registration change this payment tops up (null for checkout)
+    registrationChangeId: text("registration_change_id")
+      .references(() => registrationChange.id, { onDelete: "restrict" }),
+    // User who started the payment (student or parent)
+    payerId: text("payer_id").references(() => user.id, { onDelete: "set null" }),
+    // Provider: 'fawry' | 'card' | 'vodafone_cash' | 'orange_cash' | 'etisalat_cash' | 'bank_transfer'
+    provider: text("provider").notNull(),
+    // Gateway's ID for this payment
+    providerReference: text("provider_reference").notNull().unique(),
+    // Payment status: 'pending' | 'succeeded' | 'failed' | 'expired' | 'refunded'
+    status: text("status").notNull().default("pending"),
+    // Amount in piastres
+    amount: moneyColumn("amount").notNull(),
+    // What the payer must do next (reference code, card form, wallet prompt)
+    nextAction: jsonb("next_action").$type<Record<string, unknown>>(),
+    expiresAt: timestamp("expires_at").notNull(),
+    paidAt: timestamp("paid_at"),
+    failureReason: text("failure_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("payment_registrationId_idx").on(table.registrationId),
+    index("payment_payerId_idx").on(table.payerId),
+    index("payment_status_idx").on(table.status),
+    // At most one in-flight payment per registration
+    uniqueIndex("payment_single_pending_idx")
+      .on(table.registrationId)
+      .where(sql`${table.status} = 'pending'`),
+  ]
+);
+
+/**
+ * ============================================
+ * PAYMENT WEBHOOK EVENT TABLE
+ * ============================================
+ *
+ * Every processed webhook notification, keyed by (provider, eventId).
+ * Inserting the event and applying it happen in one transaction, so a
+ * re-delivered webhook is detected and ignored.
+ */
+export const paymentWebhookEvent = pgTable(
+  "payment_webhook_event",
+  {
+    id: text("id").primaryKey(),
+    provider: text("provider").notNull(),
+    // Provider's event ID
+    eventId: text("event_id").notNull(),
+    paymentId: text("payment_id").references(() => payment.id, { onDelete: "set null" }),
+    // Normalized event as received
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("paymentWebhookEvent_provider_eventId_idx").on(table.provider, table.eventId),
+    index("paymentWebhookEvent_paymentId_idx").on(table.paymentId),
+  ]
+);
+
+/**
+ * ============================================
+ * BANK TRANSFER RECEIPT TABLE
+ * ============================================
+ *
+ * Money an admin confirmed as received for a bank transfer payment
+ * (PAY-004, PAY-007). A transfer may arrive in several parts; the
+ * payment succeeds once the receipts cover the amount due.
+ *
+ * escrowCredit is the part of this receipt credited to the student's
+ * escrow: an over-payment, or money for a payment that is no longer
+ * awaiting it.
+ */
+export const bankTransferReceipt = pgTable(
+  "bank_transfer_receipt",
+  {
+    id: text("id").primaryKey(),
+    paymentId: text("payment_id")
+      .notNull()
+      .references(() => payment.id, { onDelete: "restrict" }),
+    // Amount received in piastres
+    amount: moneyColumn("amount").notNull(),
+    // Date the bank credited the transfer
+    valueDate: timestamp("value_date").notNull(),
+    notes: text("notes"),
+    // Proof document (fileType 'document')
+    proofFileId: text("proof_file_id").references(() => file.id, { onDelete: "set null" }),
+    escrowCredit: moneyColumn("escrow_credit").notNull().default(0),
+    confirmedBy: text("confirmed_by")
+      .notNull()
+      .references(() => user.id, { onDelete: "restrict" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("bankTransferReceipt_paymentId_idx").on(table.paymentId),
+  ]
+);
+
+/**
+ * BANK TRANSFER RECEIPT RELATIONS
+ */
+export const bankTransferReceiptRelations = relations(bankTransferReceipt, ({ one }) => ({
+  payment: one(payment, {
+    fields: [bankTransferReceipt.paymentId],
+    references: [payment.id],
+  }),
+  proofFile: one(file, {
+    fields: [bankTransferReceipt.proofFileId],
+    references: [file.id],
+  }),
+  confirmer: one(user, {
+    fields: [bankTransferReceipt.confirmedBy],
+    references: [user.id],
+  }),
+}));
+
+/**
+ * PAYMENT RELATIONS
+ */
+export const paymentRelations = relations(payment, ({ one, many }) => ({
+  registration: one(registration, {
+    fields: [payment.registrationId],
+    references: [registration.id],
+  }),
+  registrationChange: one(registrationChange, {
+    fields: [payment.registrationChangeId],
+    references: [registrationChange.id],
+  }),
+  payer: one(user, {
+    fields: [payment.payerId],
+    references: [user.id],
+  }),
+  receipts: many(bankTransferReceipt),
+  paymentReceipt: one(paymentReceipt),
+}));
+
+/**
+ * ============================================
+ * PAYMENT RECEIPT TABLE
+ * ============================================
+ *
+ * PDF receipt for a succeeded payment (PAY-006), one per payment, or
+ * for a registration paid from escrow (which has no payment row).
+ *
+ * receiptNumber comes from a sequence and is assigned before the PDF is
+ * rendered, so a retried render keeps its number. The PDF is a
+ * 'document' file owned by the student; fileId is null until it has
+ * been stored.
+ */
+export const paymentReceipt = pgTable(
+  "payment_receipt",
+  {
+    id: text("id").primaryKey(),
+    // Gateway or bank transfer payment (null for escrow checkouts)
+    paymentId: text("payment_id")
+      .unique()
+      .references(() => payment.id, { onDelete: "restrict" }),
+    // Registration paid from escrow (null for payments)
+    registrationId: text("registration_id")
+      .unique()
+      .references(() => registration.id, { onDelete: "restrict" }),
+    // Sequential receipt number (shown as RCT-000001)
+    receiptNumber: serial("receipt_number").notNull().unique(),
+    fileId: text("file_id").references(() => file.id, { onDelete: "set null" }),
+    // When the PDF was stored and emailed
+    issuedAt: timestamp("issued_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    check("paymentReceipt_source_check", sql`(${table.paymentId} IS NULL) <> (${table.registrationId} IS NULL)`),
+  ]
+);
+
+/**
+ * PAYMENT RECEIPT RELATIONS
+ */
+export const paymentReceiptRelations = relations(paymentReceipt, ({ one }) => ({
+  payment: one(payment, {
+    fields: [paymentReceipt.paymentId],
+    references: [payment.id],
+  }),
+  registration: one(registration, {
+    fields: [paymentReceipt.registrationId],
+    references: [registration.id],
+  }),
+  file: one(file, {
+    fields: [paymentReceipt.fileId],
+    references: [file.id],
+  }),
+}));
+
+/**
+ * ============================================
+ * ESCROW ACCOUNT TABLE
+ * ============================================
+ *
+ * Ledger accounts for the escrow journal (ESC-001..008).
+ *
+ * Account kinds:
+ * - student: money held for a student (credits from drops / swaps,
+ *            spent at checkout, transferred or withdrawn)
+ * - system:  counter-accounts identified by code, e.g.
+ *            'registration_revenue', 'withdrawals_held' and
+ *            'withdrawals_payable'
+ *
+ * `balance` is a materialized snapshot of SUM(escrow_entry.amount),
+ * updated in the same serializable transaction as each posting.
+ * The check constraint stops a student balance going negative.
+ */
+export const escrowAccount = pgTable(
+  "escrow_account",
+  {
+    id: text("id").primaryKey(),
+    // Account kind: 'student' | 'system'
+    kind: text("kind").notNull(),
+    // Owning student (student accounts only)
+    studentId: text("student_id")
+      .unique()
+      .references(() => user.id, { onDelete: "restrict" }),
+    // Stable code (system accounts only)
+    code: text("code").unique(),
+    // Snapshot balance in piastres
+    balance: moneyColumn("balance").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    check("escrowAccount_student_balance_check", sql`${table.kind} <> 'student' OR ${table.balance} >= 0`),
+  ]
+);
+
+/**
+ * ============================================
+ * ESCROW ENTRY TABLE
+ * ============================================
+ *
+ * Append-only double-entry journal. Every posting writes two or more
+ * entries sharing a journalId whose amounts sum to zero.
+ *
+ * Amounts are signed piastres: positive increases the account balance,
+ * negative decreases it. UPDATE and DELETE are rejected by a trigger;
+ * corrections are new postings.
+ *
+ * Entry types:
+ * - drop_credit / swap_credit: refund of a dropped or swapped subject
+ * - checkout_debit: escrow spent on a registration
+ * - transfer: parent moves escrow between linked children
+ * - withdrawal_hold / withdrawal_release: escrow set aside for an open
+ *   withdrawal request, and returned when it is cancelled
+ * - withdrawal: admin-fulfilled cash withdrawal (paid from the hold)
+ */
+export const escrowEntry = pgTable(
+  "escrow_entry",
+  {
+    id: text("id").primaryKey(),
+    // Groups the balanced entries of one posting
+    journalId: text("journal_id").notNull(),
+    accountId: text("account_id")
+      .notNull()
+      .references(() => escrowAccount.id, { onDelete: "restrict" }),
+    // Signed amount in piastres
+    amount: moneyColumn("amount").notNull(),
+    // Account balance after this entry
+    balanceAfter: moneyColumn("balance_after").notNull(),
+    entryType: text("entry_type").notNull(),
+    // Domain record that caused the posting (e.g. 'registration_item', id)
+    referenceType: text("reference_type"),
+    referenceId: text("reference_id"),
+    memo: text("memo"),
+    // Restrict (not set null): entries are immutable
+    createdBy: text("created_by").references(() => user.id, { onDelete: "restrict" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("escrowEntry_accountId_createdAt_idx").on(table.accountId, table.createdAt),
+    index("escrowEntry_journalId_idx").on(table.journalId),
+    index("escrowEntry_reference_idx").on(table.referenceType, table.referenceId),
+    check("escrowEntry_amount_nonzero_check", sql`${table.amount} <> 0`),
+  ]
+);
+
+/**
+ * ESCROW RELATIONS
+ */
+export const escrowAccountRelations = relations(escrowAccount, ({ one, many }) => ({
+  student: one(user, {
+    fields: [escrowAccount.studentId],
+    references: [user.id],
+  }),
+  entries: many(escrowEntry),
+}));
+
+export const escrowEntryRelations = relations(escrowEntry, ({ one }) => ({
+  account: one(escrowAccount, {
+    fields: [escrowEntry.accountId],
+    references: [escrowAccount.id],
+  }),
+}));
+
+/**
+ * ============================================
+ * ESCROW TRANSFER TABLE
+ * ============================================
+ *
+ * A parent moving escrow from one linked child to another (ESC-003).
+ * The ledger posting (entry type 'transfer') is referenced by journalId.
+ *
+ * idempotencyKey is the client's Idempotency-Key header; it is unique
+ * per parent so a retried or double-clicked request transfers once.
+ */
+export const escrowTransfer = pgTable(
+  "escrow_transfer",
+  {
+    id: text("id").primaryKey(),
+    parentId: text("parent_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "restrict" }),
+    fromStudentId: text("from_student_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "restrict" }),
+    toStudentId: text("to_student_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "restrict" }),
+    // Piastres moved
+    amount: moneyColumn("amount").notNull(),
+    note: text("note"),
+    // Ledger posting that moved the money
+    journalId: text("journal_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("escrowTransfer_parentId_idx").on(table.parentId),
+    index("escrowTransfer_fromStudentId_idx").on(table.fromStudentId),
+    index("escrowTransfer_toStudentId_idx").on(table.toStudentId),
+    check("escrowTransfer_amount_check", sql`${table.amount} > 0`),
+    check("escrowTransfer_students_check", sql`${table.fromStudentId} <> ${table.toStudentId}`),
+  ]
+);
+
+/**
+ * ESCROW TRANSFER RELATIONS
+ */
+export const escrowTransferRelations = relations(escrowTransfer, ({ one }) => ({
+  parent: one(user, {
+    fields: [escrowTransfer.parentId],
+    references: [user.id],
+    relationName: "escrowTransfersMade",
+  }),
+  fromStudent: one(user, {
+    fields: [escrowTransfer.fromStudentId],
+    references: [user.id],
+    relationName: "escrowTransfersOut",
+  }),
+  toStudent: one(user, {
+    fields: [escrowTransfer.toStudentId],
+    references: [user.id],
+    relationName: "escrowTransfersIn",
+  }),
+}));
+
+/**
+ * ============================================
+ * ESCROW WITHDRAWAL TABLE
+ * ============================================
+ *
+ * A request to take money out of a student's escrow (ESC-004..ESC-008),
+ * made by the student or a linked parent and released by an admin.
+ *
+ * Status workflow: pending -> partially_fulfilled -> fulfilled
+ *                  pending | partially_fulfilled -> cancelled
+ *
+ * Every state change is a ledger posting:
+ * - request:  student -> 'withdrawals_held' (withdrawal_hold), so the
+ *             amount cannot be spent at checkout while the request is open
+ * - fulfil:   'withdrawals_held' -> 'withdrawals_payable' (withdrawal)
+ * - cancel:   outstanding amount 'withdrawals_held' -> student
+ *             (withdrawal_release)
+ *
+ * Outstanding (still held) = amount - fulfilledAmount while open.
+ */
+export const escrowWithdrawal = pgTable(
+  "escrow_withdrawal",
+  {
+    id: text("id").primaryKey(),
+    studentId: text("student_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "restrict" }),
+    // Requested amount in piastres
+    amount: moneyColumn("amount").notNull(),
+    // Released so far in piastres
+    fulfilledAmount: moneyColumn("fulfilled_amount").notNull().default(0),
+    // Status: 'pending' | 'partially_fulfilled' | 'fulfilled' | 'cancelled'
+    status: text("status").notNull().default("pending"),
+    note: text("note"),
+    // The student or a linked parent
+    requestedBy: text("requested_by").references(() => user.id, { onDelete: "set null" }),
+    cancelReason: text("cancel_reason"),
+    cancelledBy: text("cancelled_by").references(() => user.id, { onDelete: "set null" }),
+    fulfilledAt: timestamp("fulfilled_at"),
+    cancelledAt: timestamp("cancelled_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("escrowWithdrawal_studentId_idx").on(table.studentId),
+    index("escrowWithdrawal_status_createdAt_idx").on(table.status, table.createdAt),
+    check("escrowWithdrawal_amount_check", sql`${table.amount} > 0`),
+    check(
+      "escrowWithdrawal_fulfilledAmount_check",
+      sql`${table.fulfilledAmount} >= 0 AND ${table.fulfilledAmount} <= ${table.amount}`
+    ),
+  ]
+);
+
+/**
+ * ============================================
+ * ESCROW WITHDRAWAL FULFILMENT TABLE
+ * ============================================
+ *
+ * Money an admin released against a withdrawal request, with notes.
+ * A request may be released in several parts.
+ */
+export const escrowWithdrawalFulfilment = pgTable(
+  "escrow_withdrawal_fulfilment",
+  {
+    id: text("id").primaryKey(),
+    withdrawalId: text("withdrawal_id")
+      .notNull()
+      .references(() => escrowWithdrawal.id, { onDelete: "restrict" }),
+    // Released in piastres
+    amount: moneyColumn("amount").notNull(),
+    notes: text("notes"),
+    // Ledger posting that moved the money
+    journalId: text("journal_id").notNull(),
+    fulfilledBy: text("fulfilled_by")
+      .notNull()
+      .references(() => user.id, { onDelete: "restrict" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("escrowWithdrawalFulfilment_withdrawalId_idx").on(table.withdrawalId),
+  ]
+);
+
+/**
+ * ESCROW WITHDRAWAL RELATIONS
+ */
+export const escrowWithdrawalRelations = relations(escrowWithdrawal, ({ one, many }) => ({
+  student: one(user, {
+    fields: [escrowWithdrawal.studentId],
+    references: [user.id],
+    relationName: "withdrawals",
+  }),
+  requester: one(user, {
+    fields: [escrowWithdrawal.requestedBy],
+    references: [user.id],
+    relationName: "withdrawalRequests",
+  }),
+  canceller: one(user, {
+    fields: [escrowWithdrawal.cancelledBy],
+    references: [user.id],
+    relationName: "withdrawalCancellations",
+  }),
+  fulfilments: many(escrowWithdrawalFulfilment),
+}));
+
+export const escrowWithdrawalFulfilmentRelations = relations(escrowWithdrawalFulfilment, ({ one }) => ({
+  withdrawal: one(escrowWithdrawal, {
+    fields: [escrowWithdrawalFulfilment.withdrawalId],
+    references: [escrowWithdrawal.id],
+  }),
+  fulfiller: one(user, {
+    fields: [escrowWithdrawalFulfilment.fulfilledBy],
+    references: [user.id],
+  }),
+}));
+
+/**
+ * ============================================
+ * NOTIFICATION TABLE
+ * ============================================
+ *
+ * Transactional email outbox (NOT-001..NOT-007).
+ *
+ * Rows are inserted in the same transaction as the domain change that
+ * caused them, so an email is queued if and only if the change commits.
+ * The notifications.dispatch job renders the template (@repo/emails)
+ * and sends through the configured transport.
+ *
+ * When the subject of an event is a student, each linked parent gets
+ * their own row with regardingStudentId set (NOT-007).
+ *
+ * Status workflow: pending -> sending -> sent
+ *                          -> sending -> pending (retry) -> ... -> failed
+ */
+export type NotificationAttachment = {
+  // R2 object key
+  storageKey: string;
+  fileName: string;
+  contentType: string;
+};
+
+export const notification = pgTable(
+  "notification",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    // Address at the time the notification was queued
+    recipientEmail: text("recipient_email").notNull(),
+    // @repo/emails template name, e.g. 'registration.confirmed'
+    template: text("template").notNull(),
+    // Template props
+    data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+    // Student the event concerns, when sent to a linked parent
+    regardingStudentId: text("regarding_student_id")
+      .references(() => user.id, { onDelete: "set null" }),
+    // Stored files to attach, downloaded at send time
+    attachments: jsonb("attachments").$type<NotificationAttachment[]>(),
+    // Status: 'pending' | 'sending' | 'sent' | 'failed'
+    status: text("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(5),
+    nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+    lockedAt: timestamp("locked_at"),
+    // Transport's message ID once sent
+    messageId: text("message_id"),
+    lastError: text("last_error"),
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    // Dispatcher claim query
+    index("notification_status_nextAttemptAt_idx").on(table.status, table.nextAttemptAt),
+    index("notification_userId_idx").on(table.userId),
+  ]
+);
+
+/**
+ * NOTIFICATION RELATIONS
+ */
+export const notificationRelations = relations(notification, ({ one }) => ({
+  user: one(user, {
+    fields: [notification.userId],
+    references: [user.id],
+  }),
+}));
+
+/**
+ * ============================================
+ * AUDIT EVENT TABLE
+ * ============================================
+ *
+ * Chronological log of every mutating action (REP-006).
+ *
+ * Written by the services in the same transaction as the change they
+ * record. `changes` holds only the fields that changed, as
+ * { field: { before, after } }; creates have before = null and deletes
+ * have after = null.
+ *
+ * actorId is null for system actions (background jobs, provider
+ * webhooks). impersonatedBy is the admin behind an impersonated session.
+ *
+ * Append-only: UPDATE and DELETE are rejected by a trigger. User IDs are
+ * plain columns (no foreign keys) so the log outlives deleted users.
+ */
+export const auditEvent = pgTable(
+  "audit_event",
+  {
+    id: text("id").primaryKey(),
+    actorId: text("actor_id"),
+    impersonatedBy: text("impersonated_by"),
+    // Verb in entity.verb form, e.g. 'user.update', 'link.delete'
+    action: text("action").notNull(),
+    entityType: text("entity_type").notNull(),
+    entityId: text("entity_id").notNull(),
+    changes: jsonb("changes")
+      .$type<Record<string, { before: unknown; after: unknown }>>()
+      .notNull(),
+    ipAddress: text("ip_address"),
+    userAgent: text("user_agent"),
+    requestId: text("request_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("auditEvent_createdAt_idx").on(table.createdAt),
+    index("auditEvent_entity_idx").on(table.entityType, table.entityId),
+    index("auditEvent_actorId_idx").on(table.actorId),
+  ]
+);
+
+/**
+ * AUDIT EVENT RELATIONS
+ */
+export const auditEventRelations = relations(auditEvent, ({ one }) => ({
+  actor: one(user, {
+    fields: [auditEvent.actorId],
+    references: [user.id],
+  }),
+}));
+
+/**
+ * ============================================
+ * REPORT EXPORT TABLE
+ * ============================================
+ *
+ * Background report exports (REP-001..REP-007).
+ *
+ * Exports too large to stream in the request are queued as a
+ * reports.export job. The finished file is stored in R2 under
+ * storageKey and downloaded through a short-lived signed URL.
+ *
+ * Status workflow: pending -> running -> completed | failed
+ */
+export const reportExport = pgTable(
+  "report_export",
+  {
+    id: text("id").primaryKey(),
+    reportId: text("report_id").notNull(),
+    // Format: 'csv' | 'xlsx' | 'pdf'
+    format: text("format").notNull(),
+    // Parsed report filters
+    filters: jsonb("filters").$type<Record<string, unknown>>().notNull(),
+    status: text("status").notNull().default("pending"),
+    rowCount: integer("row_count"),
+    storageKey: text("storage_key"),
+    fileName: text("file_name"),
+    error: text("error"),
+    requestedBy: text("requested_by")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    completedAt: timestamp("completed_at"),
+    // Stored file is deleted after this
+    expiresAt: timestamp("expires_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at")
+      .defaultNow()
+      .$onUpdate(() => new Date())
+      .notNull(),
+  },
+  (table) => [
+    index("reportExport_requestedBy_idx").on(table.requestedBy),
+    index("reportExport_expiresAt_idx").on(table.expiresAt),
+  ]
+);
+
+/**
+ * REPORT EXPORT RELATIONS
+ */
+export const reportExportRelations = relations(reportExport, ({ one }) => ({
+  requester: one(user, {
+    fields: [reportExport.requestedBy],
+    references: [user.id],
+  }),
+}));
@@ -0,0 +1,20 @@
+/**
+ * Email Errors
+ */
+
+/**
+ * The transport could not deliver a message
+ *
+ * permanent is true when retrying cannot help (e.g. the recipient
+ * address was rejected), so callers can stop retrying.
+ */
+export class EmailTransportError extends Error {
+  constructor(
+    public readonly transport: string,
+    message: string,
+    public readonly permanent = false
+  ) {
+    super(message)
+    this.name = 'EmailTransportError'
+  }
+}
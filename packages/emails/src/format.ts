@@ -0,0 +1,38 @@
+/**
+ * Formatting helpers shared by templates
+ */
+
+const EXAM_TYPE_LABELS: Record<string, string> = {
+  in_school: 'In-school',
+  external: 'External',
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  fawry: 'Fawry',
+  card: 'Card',
+  vodafone_cash: 'Vodafone Cash',
+  orange_cash: 'Orange Cash',
+  etisalat_cash: 'Etisalat Cash',
+  bank_transfer: 'Bank transfer',
+  escrow: 'Escrow balance',
+}
+
+/**
+ * Format integer piastres as Egyptian pounds, e.g. 123450 -> "EGP 1,234.50"
+ * (shared with the API and web through @repo/validations)
+ */
+export { formatMoney } from '@repo/validations'
+
+/**
+ * Human label for an exam type
+ */
+export function formatExamType(examType: string): string {
+  return EXAM_TYPE_LABELS[examType] ?? examType
+}
+
+/**
+ * Human label for a payment provider or checkout method
+ */
+export function formatPaymentMethod(method: string): string {
+  return PAYMENT_METHOD_LABELS[method] ?? method
+}
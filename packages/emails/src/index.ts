@@ -0,0 +1,46 @@
+/**
+ * Emails Package Exports
+ *
+ * Barrel export pattern - everything consumers need.
+ *
+ * Pattern: Follows @repo/payments/src/index.ts
+ * Consumers depend on the EmailTransport interface, never on a transport.
+ */
+
+import { SmtpTransport } from './transports/smtp.js'
+import { FileTransport } from './transports/file.js'
+import { ConsoleTransport } from './transports/console.js'
+import type { EmailConfig, EmailTransport } from './types.js'
+
+/**
+ * Create the configured transport
+ *
+ * @param config - Transport name and its settings
+ * @returns The transport
+ * @throws Error if SMTP is selected without SMTP settings
+ */
+export function createEmailTransport(config: EmailConfig): EmailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      if (!config.smtp) {
+        throw new Error('SMTP transport requires smtp settings')
+      }
+      return new SmtpTransport(config.smtp)
+    case 'file':
+      return new FileTransport(config.fileDirectory ?? '.emails')
+    case 'console':
+      return new ConsoleTransport()
+  }
+}
+
+// Transports
+export { SmtpTransport } from './transports/smtp.js'
+export { FileTransport } from './transports/file.js'
+export { ConsoleTransport } from './transports/console.js'
+
+// Rendering, templates, errors and types
+export * from './render.js'
+export * from './templates/index.js'
+export * from './format.js'
+export * from './errors.js'
+export * from './types.js'
@@ -0,0 +1,49 @@
+/**
+ * Template rendering
+ */
+
+import { createElement } from 'react'
+import type { ComponentType } from 'react'
+import { render } from '@react-email/components'
+import { templates, type EmailTemplateName, type EmailTemplateProps } from './templates/index.js'
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+/**
+ * Render a registered template to HTML and plain text
+ *
+ * @param name - Template name
+ * @param props - Template props
+ * @returns Subject, HTML and plain-text bodies
+ */
+export async function renderEmail<N extends EmailTemplateName>(
+  name: N,
+  props: EmailTemplateProps<N>
+): Promise<RenderedEmail> {
+  const template = templates[name]
+
+  if (!template) {
+    throw new Error(`Unknown email template: ${name}`)
+  }
+
+  const component = template.component as ComponentType<EmailTemplateProps<N>>
+  const subject = template.subject as (props: EmailTemplateProps<N>) => string
+  const element = createElement(component, props)
+
+  return {
+    subject: subject(props),
+    html: await render(element),
+    text: await render(element, { plainText: true }),
+  }
+}
+
+/**
+ * Check whether a template name is registered
+ */
+export function isEmailTemplate(name: string): name is EmailTemplateName {
+  return Object.prototype.hasOwnProperty.call(templates, name)
+}
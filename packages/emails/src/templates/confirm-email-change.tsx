@@ -0,0 +1,36 @@
+/**
+ * Confirm a new email address (AUTH-007), sent to the new address
+ */
+
+import { Button, Heading, Text } from '@react-email/components'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+export interface ConfirmEmailChangeProps extends BaseEmailProps {
+  // Confirmation link (contains the token)
+  url: string
+  // The address being confirmed (this one)
+  newEmail: string
+  // How long the link stays valid
+  expiresInHours: number
+}
+
+export function ConfirmEmailChange(props: ConfirmEmailChangeProps) {
+  return (
+    <Layout {...props} preview="Confirm your new email address">
+      <Heading style={styles.heading}>Confirm your new email address</Heading>
+      <Text style={styles.text}>
+        You asked to change the email address on your account to <strong>{props.newEmail}</strong>.
+        Use the button below to confirm it. Until you do, you keep signing in with your current address.
+      </Text>
+      <Button href={props.url} style={styles.button}>Confirm new email address</Button>
+      <Text style={styles.muted}>
+        This link expires in {props.expiresInHours} hours. Confirming signs you out on your other
+        devices. If you did not ask for this change, you can ignore this email.
+      </Text>
+    </Layout>
+  )
+}
+
+export function confirmEmailChangeSubject() {
+  return 'Confirm your new email address'
+}
@@ -0,0 +1,34 @@
+/**
+ * Notice of a pending email change (AUTH-007), sent to the current address
+ */
+
+import { Heading, Text } from '@react-email/components'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+export interface EmailChangeRequestedProps extends BaseEmailProps {
+  // The address the account is moving to
+  newEmail: string
+  // How long the new address has to be confirmed
+  expiresInHours: number
+}
+
+export function EmailChangeRequested(props: EmailChangeRequestedProps) {
+  return (
+    <Layout {...props} preview="Your email address is being changed">
+      <Heading style={styles.heading}>Your email address is being changed</Heading>
+      <Text style={styles.text}>
+        Someone signed in to your account asked to change its email address to{' '}
+        <strong>{props.newEmail}</strong>. Nothing changes until the link sent to that address is
+        used, within {props.expiresInHours} hours.
+      </Text>
+      <Text style={styles.text}>
+        If this was not you, change your password now so the request cannot be repeated, and
+        contact the school office.
+      </Text>
+    </Layout>
+  )
+}
+
+export function emailChangeRequestedSubject() {
+  return 'Your email address is being changed'
+}
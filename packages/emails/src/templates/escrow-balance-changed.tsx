@@ -0,0 +1,63 @@
+/**
+ * Escrow balance changed (NOT-005)
+ */
+
+import { Heading, Section, Text } from '@react-email/components'
+import { formatMoney } from '../format.js'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+const REASONS: Record<string, string> = {
+  drop_credit: 'Subject dropped',
+  swap_credit: 'Subject swapped',
+  checkout_debit: 'Registration paid from escrow',
+  transfer: 'Transfer between linked children',
+  withdrawal: 'Withdrawal',
+  withdrawal_hold: 'Set aside for a withdrawal request',
+  withdrawal_release: 'Withdrawal request cancelled',
+  payment_credit: 'Payment received that could not be applied',
+}
+
+export interface EscrowBalanceChangedProps extends BaseEmailProps {
+  previousBalance: number
+  // Signed change in piastres
+  amount: number
+  newBalance: number
+  // Escrow entry type
+  reason: string
+  memo?: string
+}
+
+export function EscrowBalanceChanged(props: EscrowBalanceChangedProps) {
+  const reason = REASONS[props.reason] ?? props.reason
+
+  return (
+    <Layout {...props} preview={`Escrow balance is now ${formatMoney(props.newBalance)}`}>
+      <Heading style={styles.heading}>Escrow balance updated</Heading>
+      <Text style={styles.text}>
+        {reason}{props.memo ? `: ${props.memo}` : ''}
+      </Text>
+      <Section>
+        <table width="100%" cellPadding={0} cellSpacing={0}>
+          <tbody>
+            <tr>
+              <td style={styles.cell}>Previous balance</td>
+              <td style={styles.amount}>{formatMoney(props.previousBalance)}</td>
+            </tr>
+            <tr>
+              <td style={styles.cell}>{props.amount >= 0 ? 'Credit' : 'Debit'}</td>
+              <td style={styles.amount}>{formatMoney(props.amount)}</td>
+            </tr>
+            <tr>
+              <td style={styles.cell}><strong>New balance</strong></td>
+              <td style={styles.amount}><strong>{formatMoney(props.newBalance)}</strong></td>
+            </tr>
+          </tbody>
+        </table>
+      </Section>
+    </Layout>
+  )
+}
+
+export function escrowBalanceChangedSubject(props: EscrowBalanceChangedProps) {
+  return `Escrow balance updated: ${formatMoney(props.newBalance)}`
+}
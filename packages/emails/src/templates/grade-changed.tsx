@@ -0,0 +1,52 @@
+/**
+ * Grade changed (GRADE-001, GRADE-002)
+ */
+
+import { Heading, Text } from '@react-email/components'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+export interface GradeChangedProps extends BaseEmailProps {
+  previousGrade: number | 'graduated' | null
+  // New grade, or 'graduated'
+  newGrade: number | 'graduated'
+  // 'progression' after a session closes, 'adjustment' by an admin
+  reason: 'progression' | 'adjustment'
+  // Session that triggered progression, e.g. "november 2026"
+  session?: string
+  note?: string
+}
+
+function describeGrade(grade: number | 'graduated' | null) {
+  if (grade === 'graduated') return 'Graduated'
+  return grade === null ? 'no grade' : `Grade ${grade}`
+}
+
+export function GradeChanged(props: GradeChangedProps) {
+  const graduated = props.newGrade === 'graduated'
+
+  return (
+    <Layout {...props} preview={graduated ? 'Congratulations on graduating' : `Now in ${describeGrade(props.newGrade)}`}>
+      <Heading style={styles.heading}>
+        {graduated ? 'Congratulations, you have graduated' : `Moved to ${describeGrade(props.newGrade)}`}
+      </Heading>
+      <Text style={styles.text}>
+        {props.reason === 'progression'
+          ? `Following the close of the ${props.session ?? 'exam'} session, your grade has changed from ${describeGrade(props.previousGrade)} to ${describeGrade(props.newGrade)}.`
+          : `An administrator changed your grade from ${describeGrade(props.previousGrade)} to ${describeGrade(props.newGrade)}.`}
+      </Text>
+      {props.note && <Text style={styles.text}>Reason: {props.note}</Text>}
+      {graduated && (
+        <Text style={styles.text}>
+          Registration is no longer available, but you can still view your registration history and escrow
+          balance and request an escrow withdrawal.
+        </Text>
+      )}
+    </Layout>
+  )
+}
+
+export function gradeChangedSubject(props: GradeChangedProps) {
+  return props.newGrade === 'graduated'
+    ? 'You have graduated'
+    : `Grade updated: ${describeGrade(props.newGrade)}`
+}
@@ -0,0 +1,96 @@
+/**
+ * Template Registry
+ *
+ * Maps a template name to its component and subject line. The API stores
+ * the name and props on each notification and renders at send time.
+ *
+ * To add a template: create the component in this folder, then register
+ * it here. EmailTemplateProps<'name'> gives callers the typed props.
+ */
+
+import type { ComponentType } from 'react'
+import {
+  RegistrationConfirmed,
+  registrationConfirmedSubject,
+} from './registration-confirmed.js'
+import {
+  RegistrationChanged,
+  registrationChangedSubject,
+} from './registration-changed.js'
+import {
+  EscrowBalanceChanged,
+  escrowBalanceChangedSubject,
+} from './escrow-balance-changed.js'
+import {
+  GradeChanged,
+  gradeChangedSubject,
+} from './grade-changed.js'
+import {
+  PaymentReceipt,
+  paymentReceiptSubject,
+} from './payment-receipt.js'
+import {
+  WithdrawalRequested,
+  withdrawalRequestedSubject,
+} from './withdrawal-requested.js'
+import {
+  WithdrawalFulfilled,
+  withdrawalFulfilledSubject,
+} from './withdrawal-fulfilled.js'
+import {
+  VerifyEmail,
+  verifyEmailSubject,
+} from './verify-email.js'
+import {
+  ResetPassword,
+  resetPasswordSubject,
+} from './reset-password.js'
+import {
+  ConfirmEmailChange,
+  confirmEmailChangeSubject,
+} from './confirm-email-change.js'
+import {
+  EmailChangeRequested,
+  emailChangeRequestedSubject,
+} from './email-change-requested.js'
+
+interface TemplateDefinition<P> {
+  component: ComponentType<P>
+  subject: (props: P) => string
+}
+
+function defineTemplate<P>(component: ComponentType<P>, subject: (props: P) => string): TemplateDefinition<P> {
+  return { component, subject }
+}
+
+export const templates = {
+  'registration.confirmed': defineTemplate(RegistrationConfirmed, registrationConfirmedSubject),
+  'registration.changed': defineTemplate(RegistrationChanged, registrationChangedSubject),
+  'escrow.balance-changed': defineTemplate(EscrowBalanceChanged, escrowBalanceChangedSubject),
+  'grade.changed': defineTemplate(GradeChanged, gradeChangedSubject),
+  'payment.receipt': defineTemplate(PaymentReceipt, paymentReceiptSubject),
+  'escrow.withdrawal-requested': defineTemplate(WithdrawalRequested, withdrawalRequestedSubject),
+  'escrow.withdrawal-fulfilled': defineTemplate(WithdrawalFulfilled, withdrawalFulfilledSubject),
+  'auth.verify-email': defineTemplate(VerifyEmail, verifyEmailSubject),
+  'auth.reset-password': defineTemplate(ResetPassword, resetPasswordSubject),
+  'auth.confirm-email-change': defineTemplate(ConfirmEmailChange, confirmEmailChangeSubject),
+  'auth.email-change-requested': defineTemplate(EmailChangeRequested, emailChangeRequestedSubject),
+}
+
+export type EmailTemplateName = keyof typeof templates
+
+export type EmailTemplateProps<N extends EmailTemplateName> =
+  (typeof templates)[N] extends TemplateDefinition<infer P> ? P : never
+
+export type { BaseEmailProps } from './layout.js'
+export type { RegistrationConfirmedProps } from './registration-confirmed.js'
+export type { RegistrationChangedProps } from './registration-changed.js'
+export type { EscrowBalanceChangedProps } from './escrow-balance-changed.js'
+export type { GradeChangedProps } from './grade-changed.js'
+export type { PaymentReceiptProps } from './payment-receipt.js'
+export type { WithdrawalRequestedProps } from './withdrawal-requested.js'
+export type { WithdrawalFulfilledProps } from './withdrawal-fulfilled.js'
+export type { VerifyEmailProps } from './verify-email.js'
+export type { ResetPasswordProps } from './reset-password.js'
+export type { ConfirmEmailChangeProps } from './confirm-email-change.js'
+export type { EmailChangeRequestedProps } from './email-change-requested.js'
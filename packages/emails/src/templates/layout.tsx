@@ -0,0 +1,69 @@
+/**
+ * Shared email layout
+ *
+ * Every template renders inside this layout. When the email goes to a
+ * linked parent, `regarding` names the child it concerns (NOT-007).
+ */
+
+import type { ReactNode } from 'react'
+import { Body, Container, Head, Hr, Html, Preview, Section, Text } from '@react-email/components'
+
+/**
+ * Props every template receives
+ */
+export interface BaseEmailProps {
+  recipientName: string
+  // Set when a parent receives an email about a linked child
+  regarding?: { name: string }
+}
+
+interface LayoutProps extends BaseEmailProps {
+  preview: string
+  children: ReactNode
+}
+
+export const styles = {
+  body: { backgroundColor: '#f4f4f5', fontFamily: 'Helvetica, Arial, sans-serif', margin: 0 },
+  container: { backgroundColor: '#ffffff', margin: '24px auto', padding: '24px', maxWidth: '560px' },
+  heading: { fontSize: '20px', fontWeight: 'bold', color: '#18181b', margin: '0 0 16px' },
+  text: { fontSize: '14px', lineHeight: '22px', color: '#27272a', margin: '0 0 12px' },
+  muted: { fontSize: '12px', lineHeight: '18px', color: '#71717a', margin: 0 },
+  notice: { backgroundColor: '#eff6ff', padding: '8px 12px', marginBottom: '16px' },
+  cell: { fontSize: '14px', color: '#27272a', padding: '4px 0' },
+  amount: { fontSize: '14px', color: '#27272a', padding: '4px 0', textAlign: 'right' as const },
+  button: {
+    backgroundColor: '#2563eb',
+    color: '#ffffff',
+    fontSize: '14px',
+    fontWeight: 'bold',
+    padding: '10px 16px',
+    margin: '4px 0 16px',
+    textDecoration: 'none',
+  },
+}
+
+export function Layout({ preview, recipientName, regarding, children }: LayoutProps) {
+  return (
+    <Html lang="en">
+      <Head />
+      <Preview>{preview}</Preview>
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          {regarding && (
+            <Section style={styles.notice}>
+              <Text style={{ ...styles.text, margin: 0 }}>
+                This email is about your child <strong>{regarding.name}</strong>.
+              </Text>
+            </Section>
+          )}
+          <Text style={styles.text}>Dear {recipientName},</Text>
+          {children}
+          <Hr />
+          <Text style={styles.muted}>
+            You are receiving this email because of activity on your exam registration account.
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
@@ -0,0 +1,37 @@
+/**
+ * Payment receipt (PAY-006)
+ *
+ * The receipt PDF is attached to the message.
+ */
+
+import { Heading, Text } from '@react-email/components'
+import { formatMoney, formatPaymentMethod } from '../format.js'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+export interface PaymentReceiptProps extends BaseEmailProps {
+  // Formatted receipt number, e.g. "RCT-000042"
+  receiptNumber: string
+  session: { sessionType: string; year: number }
+  amount: number
+  // Provider name or bank_transfer
+  paymentMethod: string
+}
+
+export function PaymentReceipt(props: PaymentReceiptProps) {
+  const session = `${props.session.sessionType} ${props.session.year}`
+
+  return (
+    <Layout {...props} preview={`Receipt ${props.receiptNumber} for your ${session} payment`}>
+      <Heading style={styles.heading}>Payment receipt</Heading>
+      <Text style={styles.text}>
+        We received {formatMoney(props.amount)} by {formatPaymentMethod(props.paymentMethod)} for
+        the {session} session. Your receipt <strong>{props.receiptNumber}</strong> is attached.
+      </Text>
+      <Text style={styles.muted}>Keep this receipt for your records.</Text>
+    </Layout>
+  )
+}
+
+export function paymentReceiptSubject(props: PaymentReceiptProps) {
+  return `Receipt ${props.receiptNumber}: ${props.session.sessionType} ${props.session.year}`
+}
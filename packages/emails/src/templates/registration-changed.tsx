@@ -0,0 +1,63 @@
+/**
+ * Subject dropped, swapped or switched (NOT-004)
+ */
+
+import { Heading, Text } from '@react-email/components'
+import { formatExamType, formatMoney } from '../format.js'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+type ItemSummary = { subjectName: string; examType: string }
+
+export interface RegistrationChangedProps extends BaseEmailProps {
+  changeType: 'drop' | 'swap' | 'switch_type'
+  original: ItemSummary
+  // Missing for drops
+  replacement?: ItemSummary
+  // New price - original price, in piastres
+  priceDifference: number
+}
+
+function describe(item: ItemSummary) {
+  return `${item.subjectName} (${formatExamType(item.examType)})`
+}
+
+export function RegistrationChanged(props: RegistrationChangedProps) {
+  const { original, replacement, priceDifference } = props
+
+  const summary = props.changeType === 'drop'
+    ? `You dropped ${describe(original)}.`
+    : props.changeType === 'swap'
+      ? `You swapped ${describe(original)} for ${describe(replacement!)}.`
+      : `${original.subjectName} was switched from ${formatExamType(original.examType)} to ${formatExamType(replacement!.examType)}.`
+
+  return (
+    <Layout {...props} preview={summary}>
+      <Heading style={styles.heading}>Registration updated</Heading>
+      <Text style={styles.text}>{summary}</Text>
+      {priceDifference < 0 && (
+        <Text style={styles.text}>
+          {formatMoney(-priceDifference)} has been credited to your escrow balance.
+        </Text>
+      )}
+      {priceDifference > 0 && (
+        <Text style={styles.text}>
+          An additional {formatMoney(priceDifference)} was paid for this change.
+        </Text>
+      )}
+      {priceDifference === 0 && (
+        <Text style={styles.text}>There was no change to the amount paid.</Text>
+      )}
+    </Layout>
+  )
+}
+
+export function registrationChangedSubject(props: RegistrationChangedProps) {
+  switch (props.changeType) {
+    case 'drop':
+      return `Subject dropped: ${props.original.subjectName}`
+    case 'swap':
+      return `Subject swapped: ${props.original.subjectName}`
+    default:
+      return `Exam type changed: ${props.original.subjectName}`
+  }
+}
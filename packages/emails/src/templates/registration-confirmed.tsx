@@ -0,0 +1,54 @@
+/**
+ * Registration confirmed (NOT-003)
+ */
+
+import { Heading, Section, Text } from '@react-email/components'
+import { formatExamType, formatMoney, formatPaymentMethod } from '../format.js'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+export interface RegistrationConfirmedProps extends BaseEmailProps {
+  // Registration ID, shown as the confirmation number
+  confirmationNumber: string
+  session: { sessionType: string; year: number }
+  items: Array<{ subjectName: string; subjectCode: string; examType: string; unitPrice: number }>
+  totalAmount: number
+  // Provider name, bank_transfer or escrow
+  paymentMethod: string
+}
+
+export function RegistrationConfirmed(props: RegistrationConfirmedProps) {
+  const session = `${props.session.sessionType} ${props.session.year}`
+
+  return (
+    <Layout {...props} preview={`Your ${session} registration is confirmed`}>
+      <Heading style={styles.heading}>Registration confirmed</Heading>
+      <Text style={styles.text}>
+        Your registration for the {session} session is confirmed.
+        Confirmation number: <strong>{props.confirmationNumber}</strong>
+      </Text>
+      <Section>
+        <table width="100%" cellPadding={0} cellSpacing={0}>
+          <tbody>
+            {props.items.map((item) => (
+              <tr key={item.subjectCode}>
+                <td style={styles.cell}>
+                  {item.subjectName} ({item.subjectCode}) - {formatExamType(item.examType)}
+                </td>
+                <td style={styles.amount}>{formatMoney(item.unitPrice)}</td>
+              </tr>
+            ))}
+            <tr>
+              <td style={styles.cell}><strong>Total paid</strong></td>
+              <td style={styles.amount}><strong>{formatMoney(props.totalAmount)}</strong></td>
+            </tr>
+          </tbody>
+        </table>
+      </Section>
+      <Text style={styles.text}>Paid by: {formatPaymentMethod(props.paymentMethod)}</Text>
+    </Layout>
+  )
+}
+
+export function registrationConfirmedSubject(props: RegistrationConfirmedProps) {
+  return `Registration confirmed: ${props.session.sessionType} ${props.session.year}`
+}
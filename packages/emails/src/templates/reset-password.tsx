@@ -0,0 +1,34 @@
+/**
+ * Password reset link (AUTH-006)
+ */
+
+import { Button, Heading, Text } from '@react-email/components'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+export interface ResetPasswordProps extends BaseEmailProps {
+  // Reset link (contains the token)
+  url: string
+  // How long the link stays valid
+  expiresInHours: number
+}
+
+export function ResetPassword(props: ResetPasswordProps) {
+  return (
+    <Layout {...props} preview="Reset your password">
+      <Heading style={styles.heading}>Reset your password</Heading>
+      <Text style={styles.text}>
+        We received a request to reset the password for your account. Use the button below
+        to choose a new one.
+      </Text>
+      <Button href={props.url} style={styles.button}>Reset password</Button>
+      <Text style={styles.muted}>
+        This link expires in {props.expiresInHours} hours and can be used once. If you did not ask
+        to reset your password, you can ignore this email; your password will not change.
+      </Text>
+    </Layout>
+  )
+}
+
+export function resetPasswordSubject() {
+  return 'Reset your password'
+}
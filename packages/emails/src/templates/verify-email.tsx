@@ -0,0 +1,34 @@
+/**
+ * Confirm email address (AUTH-001, AUTH-002)
+ */
+
+import { Button, Heading, Text } from '@react-email/components'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+export interface VerifyEmailProps extends BaseEmailProps {
+  // Verification link (contains the token)
+  url: string
+  // How long the link stays valid
+  expiresInHours: number
+}
+
+export function VerifyEmail(props: VerifyEmailProps) {
+  return (
+    <Layout {...props} preview="Confirm your email address">
+      <Heading style={styles.heading}>Confirm your email address</Heading>
+      <Text style={styles.text}>
+        Please confirm this is your email address to finish setting up your account.
+        You will not be able to sign in until it is confirmed.
+      </Text>
+      <Button href={props.url} style={styles.button}>Confirm email address</Button>
+      <Text style={styles.muted}>
+        This link expires in {props.expiresInHours} hours. If you did not create an account, you can
+        ignore this email.
+      </Text>
+    </Layout>
+  )
+}
+
+export function verifyEmailSubject() {
+  return 'Confirm your email address'
+}
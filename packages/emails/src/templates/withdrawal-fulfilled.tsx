@@ -0,0 +1,66 @@
+/**
+ * Escrow withdrawal fulfilled (NOT-006)
+ */
+
+import { Heading, Section, Text } from '@react-email/components'
+import { formatMoney } from '../format.js'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+export interface WithdrawalFulfilledProps extends BaseEmailProps {
+  // Withdrawal request ID, shown as the reference
+  withdrawalId: string
+  // Released in this fulfilment
+  amountReleased: number
+  requestedAmount: number
+  // Still to be released (0 once fully fulfilled)
+  outstandingAmount: number
+  // Escrow balance available to spend
+  remainingBalance: number
+  notes?: string
+}
+
+export function WithdrawalFulfilled(props: WithdrawalFulfilledProps) {
+  const complete = props.outstandingAmount === 0
+
+  return (
+    <Layout {...props} preview={`${formatMoney(props.amountReleased)} is ready to collect`}>
+      <Heading style={styles.heading}>
+        {complete ? 'Withdrawal ready to collect' : 'Part of your withdrawal is ready to collect'}
+      </Heading>
+      <Text style={styles.text}>
+        <strong>{formatMoney(props.amountReleased)}</strong> of your {formatMoney(props.requestedAmount)} withdrawal
+        has been released.
+      </Text>
+      {props.notes && <Text style={styles.text}>Note from the school: {props.notes}</Text>}
+      <Section>
+        <table width="100%" cellPadding={0} cellSpacing={0}>
+          <tbody>
+            <tr>
+              <td style={styles.cell}>Released now</td>
+              <td style={styles.amount}>{formatMoney(props.amountReleased)}</td>
+            </tr>
+            {!complete && (
+              <tr>
+                <td style={styles.cell}>Still to be released</td>
+                <td style={styles.amount}>{formatMoney(props.outstandingAmount)}</td>
+              </tr>
+            )}
+            <tr>
+              <td style={styles.cell}><strong>Remaining escrow balance</strong></td>
+              <td style={styles.amount}><strong>{formatMoney(props.remainingBalance)}</strong></td>
+            </tr>
+          </tbody>
+        </table>
+      </Section>
+      <Text style={styles.text}>
+        To collect, visit the school finance office during working hours with the student&apos;s ID and quote
+        the reference below.
+      </Text>
+      <Text style={styles.muted}>Reference: {props.withdrawalId}</Text>
+    </Layout>
+  )
+}
+
+export function withdrawalFulfilledSubject(props: WithdrawalFulfilledProps) {
+  return `Withdrawal released: ${formatMoney(props.amountReleased)}`
+}
@@ -0,0 +1,49 @@
+/**
+ * Escrow withdrawal requested (ESC-004, ESC-005)
+ */
+
+import { Heading, Section, Text } from '@react-email/components'
+import { formatMoney } from '../format.js'
+import { Layout, styles, type BaseEmailProps } from './layout.js'
+
+export interface WithdrawalRequestedProps extends BaseEmailProps {
+  // Withdrawal request ID, shown as the reference
+  withdrawalId: string
+  amount: number
+  // Escrow balance still available after the amount is set aside
+  availableBalance: number
+  // Who asked, when a parent requested for their child
+  requestedByName?: string
+}
+
+export function WithdrawalRequested(props: WithdrawalRequestedProps) {
+  return (
+    <Layout {...props} preview={`Withdrawal request for ${formatMoney(props.amount)} received`}>
+      <Heading style={styles.heading}>Withdrawal request received</Heading>
+      <Text style={styles.text}>
+        {props.requestedByName ? `${props.requestedByName} requested` : 'We received your request for'} a
+        withdrawal of <strong>{formatMoney(props.amount)}</strong> from escrow.
+        The school will let you know when the money is ready to collect.
+      </Text>
+      <Section>
+        <table width="100%" cellPadding={0} cellSpacing={0}>
+          <tbody>
+            <tr>
+              <td style={styles.cell}>Set aside for this request</td>
+              <td style={styles.amount}>{formatMoney(props.amount)}</td>
+            </tr>
+            <tr>
+              <td style={styles.cell}><strong>Available balance</strong></td>
+              <td style={styles.amount}><strong>{formatMoney(props.availableBalance)}</strong></td>
+            </tr>
+          </tbody>
+        </table>
+      </Section>
+      <Text style={styles.muted}>Reference: {props.withdrawalId}</Text>
+    </Layout>
+  )
+}
+
+export function withdrawalRequestedSubject(props: WithdrawalRequestedProps) {
+  return `Withdrawal request received: ${formatMoney(props.amount)}`
+}
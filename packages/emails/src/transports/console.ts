@@ -0,0 +1,29 @@
+/**
+ * Console Transport (development)
+ *
+ * Prints the plain-text version of each message to stdout.
+ */
+
+import { randomUUID } from 'crypto'
+import type { EmailMessage, EmailTransport, SendResult } from '../types.js'
+
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console' as const
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const messageId = randomUUID()
+
+    console.log([
+      '----- email -----',
+      `To: ${message.to}`,
+      `From: ${message.from}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+      ...(message.attachments ?? []).map((attachment) => `[attachment: ${attachment.filename}]`),
+      '-----------------',
+    ].join('\n'))
+
+    return { messageId }
+  }
+}
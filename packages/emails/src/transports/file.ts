@@ -0,0 +1,54 @@
+/**
+ * File Transport (development and tests)
+ *
+ * Writes each message to a directory instead of sending it:
+ * - <id>.html  - the rendered HTML, viewable in a browser
+ * - <id>.json  - headers, plain-text body and metadata, easy to assert on
+ * - <id>-<filename> - one file per attachment
+ */
+
+import { mkdir, writeFile } from 'fs/promises'
+import { randomUUID } from 'crypto'
+import { basename, join } from 'path'
+import { EmailTransportError } from '../errors.js'
+import type { EmailMessage, EmailTransport, SendResult } from '../types.js'
+
+export class FileTransport implements EmailTransport {
+  readonly name = 'file' as const
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    // Sortable by send time
+    const messageId = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}`
+
+    try {
+      await mkdir(this.directory, { recursive: true })
+      await writeFile(join(this.directory, `${messageId}.html`), message.html)
+      await writeFile(
+        join(this.directory, `${messageId}.json`),
+        JSON.stringify({
+          messageId,
+          to: message.to,
+          from: message.from,
+          subject: message.subject,
+          headers: message.headers ?? {},
+          text: message.text,
+          attachments: (message.attachments ?? []).map((attachment) => ({
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            size: attachment.content.length,
+          })),
+        }, null, 2)
+      )
+      for (const attachment of message.attachments ?? []) {
+        await writeFile(join(this.directory, `${messageId}-${basename(attachment.filename)}`), attachment.content)
+      }
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : 'Could not write email'
+      throw new EmailTransportError(this.name, reason)
+    }
+
+    return { messageId }
+  }
+}
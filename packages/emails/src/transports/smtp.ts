@@ -0,0 +1,52 @@
+/**
+ * SMTP Transport
+ *
+ * Sends through any SMTP server with Nodemailer (production relay, or a
+ * local sink such as Mailpit / MailHog in development).
+ */
+
+import nodemailer from 'nodemailer'
+import type { Transporter } from 'nodemailer'
+import { EmailTransportError } from '../errors.js'
+import type { EmailMessage, EmailTransport, SendResult, SmtpConfig } from '../types.js'
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp' as const
+  private readonly transporter: Transporter
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure ?? config.port === 465,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    })
+  }
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    try {
+      const info = await this.transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+        attachments: message.attachments?.map((attachment) => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          contentType: attachment.contentType,
+        })),
+      })
+
+      return { messageId: info.messageId }
+    } catch (err) {
+      // 5xx replies (e.g. unknown mailbox) will not succeed on retry
+      const responseCode = (err as { responseCode?: number }).responseCode
+      const permanent = typeof responseCode === 'number' && responseCode >= 500
+      const reason = err instanceof Error ? err.message : 'SMTP send failed'
+
+      throw new EmailTransportError(this.name, reason, permanent)
+    }
+  }
+}
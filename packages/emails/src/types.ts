@@ -0,0 +1,63 @@
+/**
+ * Emails Package Types
+ *
+ * Transport-agnostic email types. Every transport implements
+ * EmailTransport, so the API never depends on how mail is delivered.
+ */
+
+export type TransportName = 'smtp' | 'file' | 'console'
+
+/**
+ * A file sent with a message
+ */
+export interface EmailAttachment {
+  filename: string
+  content: Buffer
+  contentType: string
+}
+
+/**
+ * A fully rendered message ready to send
+ */
+export interface EmailMessage {
+  to: string
+  from: string
+  subject: string
+  html: string
+  text: string
+  // Extra headers, e.g. X-Notification-Id for tracing
+  headers?: Record<string, string>
+  attachments?: EmailAttachment[]
+}
+
+export interface SendResult {
+  // Transport's ID for the message (SMTP Message-ID, file name, ...)
+  messageId: string
+}
+
+/**
+ * Delivers rendered messages
+ *
+ * send() resolves once the message is accepted and rejects with
+ * EmailTransportError otherwise.
+ */
+export interface EmailTransport {
+  readonly name: TransportName
+  send(message: EmailMessage): Promise<SendResult>
+}
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  // true for implicit TLS (port 465); STARTTLS is used otherwise when offered
+  secure?: boolean
+  user?: string
+  password?: string
+}
+
+export interface EmailConfig {
+  transport: TransportName
+  smtp?: SmtpConfig
+  // Directory for the file transport (default: ./.emails)
+  fileDirectory?: string
+}
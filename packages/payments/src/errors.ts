@@ -0,0 +1,26 @@
+/**
+ * Payment Errors
+ */
+
+/**
+ * Webhook signature is missing or does not match the payload
+ */
+export class WebhookSignatureError extends Error {
+  constructor(message = 'Invalid webhook signature') {
+    super(message)
+    this.name = 'WebhookSignatureError'
+  }
+}
+
+/**
+ * The gateway rejected a request (bad input, unknown payment, ...)
+ */
+export class PaymentProviderError extends Error {
+  constructor(
+    public readonly provider: string,
+    message: string
+  ) {
+    super(message)
+    this.name = 'PaymentProviderError'
+  }
+}
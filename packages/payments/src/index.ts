@@ -0,0 +1,44 @@
+/**
+ * Payments Package Exports
+ *
+ * Barrel export pattern - everything consumers need.
+ *
+ * Pattern: Follows @repo/storage/src/index.ts
+ * Consumers depend on the PaymentProvider interface, never on an adapter.
+ */
+
+import { FawryProvider } from './providers/fawry.js'
+import { CardProvider } from './providers/card.js'
+import { WalletProvider } from './providers/wallet.js'
+import type { SimulatedProvider } from './providers/base.js'
+import type { PaymentsConfig, ProviderName } from './types.js'
+
+/**
+ * Create one adapter per supported provider
+ *
+ * All adapters are currently backed by the local simulator.
+ *
+ * @param config - Webhook secret
+ * @returns Providers keyed by name
+ */
+export function createPaymentProviders(config: PaymentsConfig): Record<ProviderName, SimulatedProvider> {
+  return {
+    fawry: new FawryProvider(config),
+    card: new CardProvider(config),
+    vodafone_cash: new WalletProvider('vodafone_cash', config),
+    orange_cash: new WalletProvider('orange_cash', config),
+    etisalat_cash: new WalletProvider('etisalat_cash', config),
+  }
+}
+
+// Adapters
+export { FawryProvider } from './providers/fawry.js'
+export { CardProvider } from './providers/card.js'
+export { WalletProvider } from './providers/wallet.js'
+export { SimulatedProvider } from './providers/base.js'
+export { PaymentSimulator } from './simulator.js'
+
+// Signatures, errors and types
+export * from './signature.js'
+export * from './errors.js'
+export * from './types.js'
@@ -0,0 +1,86 @@
+/**
+ * Simulated Provider Base
+ *
+ * Shared plumbing for adapters backed by the PaymentSimulator.
+ * Subclasses only decide how long a payment stays open and what the
+ * payer must do next.
+ */
+
+import { PaymentSimulator } from '../simulator.js'
+import type {
+  CreateIntentInput,
+  NextAction,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentsConfig,
+  PaymentStatusResult,
+  ProviderName,
+  RefundInput,
+  RefundResult,
+  SimulatedOutcome,
+  WebhookEvent,
+  WebhookRequest,
+} from '../types.js'
+
+export abstract class SimulatedProvider implements PaymentProvider {
+  readonly simulator: PaymentSimulator
+
+  constructor(
+    readonly name: ProviderName,
+    config: PaymentsConfig
+  ) {
+    this.simulator = new PaymentSimulator(name, config.webhookSecret)
+  }
+
+  /** How long the payer has to complete the payment */
+  protected abstract readonly ttlMs: number
+
+  /** Validate provider-specific input (throws PaymentProviderError) */
+  protected validate(_input: CreateIntentInput): void {}
+
+  protected abstract buildNextAction(
+    input: CreateIntentInput,
+    providerReference: string,
+    expiresAt: Date
+  ): NextAction
+
+  async createIntent(input: CreateIntentInput): Promise<PaymentIntent> {
+    this.validate(input)
+
+    const providerReference = this.simulator.deriveId(`${this.name}_`, input.reference)
+    const expiresAt = new Date(Date.now() + this.ttlMs)
+
+    this.simulator.open(providerReference, input.reference, input.amount)
+
+    return {
+      provider: this.name,
+      providerReference,
+      status: 'pending',
+      amount: input.amount,
+      expiresAt,
+      nextAction: this.buildNextAction(input, providerReference, expiresAt),
+    }
+  }
+
+  async handleWebhook(request: WebhookRequest): Promise<WebhookEvent> {
+    return this.simulator.parseWebhook(request)
+  }
+
+  async getStatus(providerReference: string): Promise<PaymentStatusResult> {
+    return this.simulator.status(providerReference)
+  }
+
+  async refund(input: RefundInput): Promise<RefundResult> {
+    return this.simulator.refund(input.providerReference, input.amount)
+  }
+
+  /**
+   * Settle a payment in the simulator and return the signed webhook
+   */
+  simulate(
+    payment: { providerReference: string; reference: string; amount: number },
+    outcome: SimulatedOutcome
+  ): WebhookRequest {
+    return this.simulator.settle(payment, outcome)
+  }
+}
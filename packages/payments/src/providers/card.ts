@@ -0,0 +1,27 @@
+/**
+ * Card Adapter
+ *
+ * The client renders the gateway's hosted card form with the returned
+ * client secret; the result arrives by webhook.
+ */
+
+import { SimulatedProvider } from './base.js'
+import type { CreateIntentInput, NextAction, PaymentsConfig } from '../types.js'
+
+const CARD_SESSION_TTL_MS = 30 * 60 * 1000
+
+export class CardProvider extends SimulatedProvider {
+  protected readonly ttlMs = CARD_SESSION_TTL_MS
+
+  constructor(config: PaymentsConfig) {
+    super('card', config)
+  }
+
+  protected buildNextAction(_input: CreateIntentInput, providerReference: string, expiresAt: Date): NextAction {
+    return {
+      type: 'card_form',
+      clientSecret: this.simulator.deriveId('cs_', providerReference, 32),
+      expiresAt: expiresAt.toISOString(),
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Fawry Reference Code Adapter
+ *
+ * The payer receives a reference number and pays it at any Fawry outlet
+ * or in a banking app before it expires.
+ */
+
+import { SimulatedProvider } from './base.js'
+import type { CreateIntentInput, NextAction, PaymentsConfig } from '../types.js'
+
+const FAWRY_CODE_TTL_MS = 48 * 60 * 60 * 1000
+
+export class FawryProvider extends SimulatedProvider {
+  protected readonly ttlMs = FAWRY_CODE_TTL_MS
+
+  constructor(config: PaymentsConfig) {
+    super('fawry', config)
+  }
+
+  protected buildNextAction(input: CreateIntentInput, _providerReference: string, expiresAt: Date): NextAction {
+    return {
+      type: 'reference_code',
+      referenceCode: this.simulator.deriveNumericCode(input.reference, 9),
+      expiresAt: expiresAt.toISOString(),
+    }
+  }
+}
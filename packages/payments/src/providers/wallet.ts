@@ -0,0 +1,52 @@
+/**
+ * Mobile Wallet Adapter
+ *
+ * Vodafone Cash, Orange Cash and Etisalat Cash. The operator sends a
+ * payment prompt to the payer's wallet number, which they approve
+ * with their wallet PIN.
+ */
+
+import { SimulatedProvider } from './base.js'
+import { PaymentProviderError } from '../errors.js'
+import type { CreateIntentInput, NextAction, PaymentsConfig } from '../types.js'
+
+export type WalletOperator = 'vodafone_cash' | 'orange_cash' | 'etisalat_cash'
+
+const WALLET_PROMPT_TTL_MS = 15 * 60 * 1000
+
+// Egyptian mobile number prefix per operator
+const OPERATOR_PREFIXES: Record<WalletOperator, string> = {
+  vodafone_cash: '010',
+  etisalat_cash: '011',
+  orange_cash: '012',
+}
+
+export class WalletProvider extends SimulatedProvider {
+  protected readonly ttlMs = WALLET_PROMPT_TTL_MS
+
+  constructor(operator: WalletOperator, config: PaymentsConfig) {
+    super(operator, config)
+  }
+
+  protected validate(input: CreateIntentInput): void {
+    const phone = input.customer.phone
+
+    if (!phone || !/^01[0-25]\d{8}$/.test(phone)) {
+      throw new PaymentProviderError(this.name, 'A valid Egyptian wallet number is required')
+    }
+
+    if (!phone.startsWith(OPERATOR_PREFIXES[this.name as WalletOperator])) {
+      throw new PaymentProviderError(this.name, 'Wallet number does not belong to this operator')
+    }
+  }
+
+  protected buildNextAction(input: CreateIntentInput, _providerReference: string, expiresAt: Date): NextAction {
+    const phone = input.customer.phone!
+
+    return {
+      type: 'wallet_prompt',
+      walletNumber: `${phone.slice(0, 3)}*****${phone.slice(-3)}`,
+      expiresAt: expiresAt.toISOString(),
+    }
+  }
+}
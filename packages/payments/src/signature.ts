@@ -0,0 +1,23 @@
+/**
+ * Webhook Signatures
+ *
+ * HMAC-SHA256 over the raw request body, hex encoded.
+ * Verification uses a constant-time comparison.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const SIGNATURE_HEADER = 'x-payment-signature'
+
+export function signPayload(secret: string, rawBody: string): string {
+  return createHmac('sha256', secret).update(rawBody).digest('hex')
+}
+
+export function verifySignature(secret: string, rawBody: string, signature: string | undefined): boolean {
+  if (!signature) return false
+
+  const expected = Buffer.from(signPayload(secret, rawBody), 'hex')
+  const received = Buffer.from(signature, 'hex')
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
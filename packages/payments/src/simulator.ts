@@ -0,0 +1,160 @@
+/**
+ * Payment Simulator
+ *
+ * Deterministic, offline stand-in for a gateway. Every adapter is backed
+ * by one, so the whole payment flow runs locally and in tests.
+ *
+ * Determinism:
+ * - Gateway references, reference codes and client secrets are derived
+ *   from a hash of (provider, our reference), so the same payment always
+ *   gets the same identifiers
+ * - Settling the same payment with the same outcome produces the same
+ *   event ID, so a re-delivered webhook is recognised as a duplicate
+ *
+ * Payments stay pending until settle() is called (e.g. from the API's
+ * non-production simulate endpoint).
+ */
+
+import { createHash } from 'crypto'
+import { SIGNATURE_HEADER, signPayload, verifySignature } from './signature.js'
+import { PaymentProviderError, WebhookSignatureError } from './errors.js'
+import type {
+  PaymentStatus,
+  ProviderName,
+  RefundResult,
+  SimulatedOutcome,
+  WebhookEvent,
+  WebhookRequest,
+} from './types.js'
+
+interface SimulatedPayment {
+  reference: string
+  amount: number
+  status: PaymentStatus
+  refunded: number
+}
+
+export class PaymentSimulator {
+  private payments = new Map<string, SimulatedPayment>()
+
+  constructor(
+    private readonly provider: ProviderName,
+    private readonly webhookSecret: string
+  ) {}
+
+  /**
+   * Deterministic identifier derived from the provider and a seed
+   */
+  deriveId(prefix: string, seed: string, length = 24): string {
+    const hash = createHash('sha256').update(`${this.provider}:${seed}`).digest('hex')
+    return `${prefix}${hash.slice(0, length)}`
+  }
+
+  /**
+   * Deterministic numeric code (e.g. a Fawry reference number)
+   */
+  deriveNumericCode(seed: string, digits: number): string {
+    const hash = createHash('sha256').update(`${this.provider}:${seed}`).digest()
+    const value = hash.readUInt32BE(0) * 2 ** 16 + hash.readUInt16BE(4)
+    return String(value % 10 ** digits).padStart(digits, '0')
+  }
+
+  /**
+   * Record a new pending payment
+   */
+  open(providerReference: string, reference: string, amount: number) {
+    if (!this.payments.has(providerReference)) {
+      this.payments.set(providerReference, { reference, amount, status: 'pending', refunded: 0 })
+    }
+  }
+
+  /**
+   * Settle a payment and build the signed webhook the gateway would send
+   */
+  settle(
+    payment: { providerReference: string; reference: string; amount: number },
+    outcome: SimulatedOutcome
+  ): WebhookRequest {
+    this.payments.set(payment.providerReference, {
+      reference: payment.reference,
+      amount: payment.amount,
+      status: outcome,
+      refunded: 0,
+    })
+
+    const rawBody = JSON.stringify({
+      eventId: this.deriveId('evt_', `${payment.providerReference}:${outcome}`),
+      providerReference: payment.providerReference,
+      reference: payment.reference,
+      status: outcome,
+      amount: payment.amount,
+      occurredAt: new Date().toISOString(),
+      ...(outcome === 'failed' ? { failureReason: 'Declined by simulator' } : {}),
+    })
+
+    return {
+      headers: { [SIGNATURE_HEADER]: signPayload(this.webhookSecret, rawBody) },
+      rawBody,
+    }
+  }
+
+  /**
+   * Verify and parse a webhook produced by settle()
+   */
+  parseWebhook(request: WebhookRequest): WebhookEvent {
+    if (!verifySignature(this.webhookSecret, request.rawBody, request.headers[SIGNATURE_HEADER])) {
+      throw new WebhookSignatureError()
+    }
+
+    const body = JSON.parse(request.rawBody)
+
+    return {
+      eventId: body.eventId,
+      provider: this.provider,
+      providerReference: body.providerReference,
+      reference: body.reference,
+      status: body.status,
+      amount: body.amount,
+      occurredAt: new Date(body.occurredAt),
+      failureReason: body.failureReason,
+    }
+  }
+
+  /**
+   * Current status (unknown payments, e.g. after a restart, are pending)
+   */
+  status(providerReference: string) {
+    const payment = this.payments.get(providerReference)
+    return {
+      providerReference,
+      status: payment?.status ?? 'pending',
+      amount: payment?.amount ?? 0,
+    }
+  }
+
+  /**
+   * Refund part or all of a succeeded payment
+   */
+  refund(providerReference: string, amount: number): RefundResult {
+    const payment = this.payments.get(providerReference)
+
+    if (!payment || (payment.status !== 'succeeded' && payment.status !== 'refunded')) {
+      throw new PaymentProviderError(this.provider, 'Only succeeded payments can be refunded')
+    }
+
+    if (amount <= 0 || payment.refunded + amount > payment.amount) {
+      throw new PaymentProviderError(this.provider, 'Refund exceeds the captured amount')
+    }
+
+    payment.refunded += amount
+    if (payment.refunded === payment.amount) {
+      payment.status = 'refunded'
+    }
+
+    return {
+      refundReference: this.deriveId('rf_', `${providerReference}:${payment.refunded}`),
+      status: 'succeeded',
+      amount,
+    }
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Payments Package Types
+ *
+ * Provider-agnostic payment types. Every adapter implements PaymentProvider,
+ * so the API never depends on a specific gateway.
+ *
+ * Amounts are integer piastres (1 EGP = 100 piastres).
+ */
+
+export type ProviderName =
+  | 'fawry'
+  | 'card'
+  | 'vodafone_cash'
+  | 'orange_cash'
+  | 'etisalat_cash'
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'expired' | 'refunded'
+
+/**
+ * What the payer must do to complete the payment
+ */
+export type NextAction =
+  // Pay the reference code at a Fawry outlet or in a banking app
+  | { type: 'reference_code'; referenceCode: string; expiresAt: string }
+  // Enter card details in the hosted card form
+  | { type: 'card_form'; clientSecret: string; expiresAt: string }
+  // Approve the push prompt sent to the wallet number
+  | { type: 'wallet_prompt'; walletNumber: string; expiresAt: string }
+
+export interface CreateIntentInput {
+  reference: string        // Our payment ID (echoed back in webhooks)
+  amount: number           // Piastres
+  description: string
+  customer: {
+    name: string
+    email: string
+    phone?: string         // Required for mobile wallets
+  }
+}
+
+export interface PaymentIntent {
+  provider: ProviderName
+  providerReference: string // Gateway's ID for this payment
+  status: PaymentStatus
+  amount: number
+  expiresAt: Date
+  nextAction: NextAction
+}
+
+export interface WebhookRequest {
+  headers: Record<string, string | undefined>
+  rawBody: string
+}
+
+/**
+ * A verified, normalized webhook notification
+ */
+export interface WebhookEvent {
+  eventId: string           // Unique per notification (used for idempotency)
+  provider: ProviderName
+  providerReference: string
+  reference: string         // Our payment ID
+  status: PaymentStatus
+  amount: number
+  occurredAt: Date
+  failureReason?: string
+}
+
+export interface PaymentStatusResult {
+  providerReference: string
+  status: PaymentStatus
+  amount: number
+}
+
+export interface RefundInput {
+  providerReference: string
+  amount: number
+  reason: string
+}
+
+export interface RefundResult {
+  refundReference: string
+  status: 'succeeded' | 'failed'
+  amount: number
+}
+
+/**
+ * The contract every gateway adapter implements
+ */
+export interface PaymentProvider {
+  readonly name: ProviderName
+
+  /** Start a payment and return what the payer must do next */
+  createIntent(input: CreateIntentInput): Promise<PaymentIntent>
+
+  /** Verify a webhook signature and normalize the payload */
+  handleWebhook(request: WebhookRequest): Promise<WebhookEvent>
+
+  /** Ask the gateway for the current status (reconciliation) */
+  getStatus(providerReference: string): Promise<PaymentStatusResult>
+
+  /** Refund a succeeded payment, fully or partially */
+  refund(input: RefundInput): Promise<RefundResult>
+}
+
+export interface PaymentsConfig {
+  // Shared secret used to sign and verify webhooks
+  webhookSecret: string
+}
+
+/**
+ * Outcomes the simulator can settle a payment with
+ */
+export type SimulatedOutcome = 'succeeded' | 'failed' | 'expired'
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { createPaymentProviders, PaymentProviderError } from '../src/index.js'
+import type { CreateIntentInput } from '../src/index.js'
+
+const SECRET = 'test-webhook-secret-0123456789'
+
+const input: CreateIntentInput = {
+  reference: 'pay_123',
+  amount: 150_000,
+  description: 'Registration',
+  customer: { name: 'Test Student', email: 'student@example.com', phone: '01012345678' },
+}
+
+describe('createIntent', () => {
+  it('opens a pending payment with deterministic identifiers', async () => {
+    const { card } = createPaymentProviders({ webhookSecret: SECRET })
+    const again = createPaymentProviders({ webhookSecret: SECRET }).card
+
+    const intent = await card.createIntent(input)
+    const repeated = await again.createIntent(input)
+
+    expect(intent).toMatchObject({ provider: 'card', status: 'pending', amount: 150_000 })
+    expect(intent.providerReference).toMatch(/^card_[0-9a-f]{24}$/)
+    expect(repeated.providerReference).toBe(intent.providerReference)
+    expect(intent.nextAction).toMatchObject({ type: 'card_form' })
+    expect(intent.expiresAt.getTime()).toBeGreaterThan(Date.now())
+
+    await expect(card.getStatus(intent.providerReference)).resolves.toMatchObject({
+      status: 'pending',
+      amount: 150_000,
+    })
+  })
+
+  it('issues a 9-digit Fawry reference code', async () => {
+    const { fawry } = createPaymentProviders({ webhookSecret: SECRET })
+
+    const intent = await fawry.createIntent(input)
+
+    expect(intent.nextAction).toMatchObject({ type: 'reference_code' })
+    expect(intent.nextAction.type === 'reference_code' && intent.nextAction.referenceCode).toMatch(/^\d{9}$/)
+  })
+
+  it('masks the wallet number and rejects another operator\'s number', async () => {
+    const providers = createPaymentProviders({ webhookSecret: SECRET })
+
+    const intent = await providers.vodafone_cash.createIntent(input)
+    expect(intent.nextAction).toEqual(expect.objectContaining({ walletNumber: '010*****678' }))
+
+    await expect(providers.orange_cash.createIntent(input)).rejects.toThrow(PaymentProviderError)
+    await expect(
+      providers.vodafone_cash.createIntent({ ...input, customer: { ...input.customer, phone: undefined } })
+    ).rejects.toThrow('A valid Egyptian wallet number is required')
+  })
+})
+
+describe('simulate', () => {
+  it('settles the payment and returns a webhook the provider accepts', async () => {
+    const { card } = createPaymentProviders({ webhookSecret: SECRET })
+    const intent = await card.createIntent(input)
+    const payment = { providerReference: intent.providerReference, reference: input.reference, amount: input.amount }
+
+    const webhook = card.simulate(payment, 'succeeded')
+    const event = await card.handleWebhook(webhook)
+
+    expect(event).toMatchObject({
+      provider: 'card',
+      providerReference: intent.providerReference,
+      reference: 'pay_123',
+      status: 'succeeded',
+      amount: 150_000,
+    })
+    expect(event.occurredAt).toBeInstanceOf(Date)
+    await expect(card.getStatus(intent.providerReference)).resolves.toMatchObject({ status: 'succeeded' })
+  })
+
+  it('gives a failed settlement a failure reason', async () => {
+    const { fawry } = createPaymentProviders({ webhookSecret: SECRET })
+    const intent = await fawry.createIntent(input)
+
+    const event = await fawry.handleWebhook(fawry.simulate(
+      { providerReference: intent.providerReference, reference: input.reference, amount: input.amount },
+      'failed'
+    ))
+
+    expect(event).toMatchObject({ status: 'failed', failureReason: 'Declined by simulator' })
+  })
+
+  it('refunds only what was captured', async () => {
+    const { card } = createPaymentProviders({ webhookSecret: SECRET })
+    const intent = await card.createIntent(input)
+    const refund = { providerReference: intent.providerReference, reason: 'Dropped' }
+
+    await expect(card.refund({ ...refund, amount: 100 })).rejects.toThrow('Only succeeded payments can be refunded')
+
+    card.simulate({ providerReference: intent.providerReference, reference: input.reference, amount: input.amount }, 'succeeded')
+
+    await expect(card.refund({ ...refund, amount: 50_000 })).resolves.toMatchObject({ status: 'succeeded', amount: 50_000 })
+    await expect(card.refund({ ...refund, amount: 100_001 })).rejects.toThrow('Refund exceeds the captured amount')
+    await card.refund({ ...refund, amount: 100_000 })
+    await expect(card.getStatus(intent.providerReference)).resolves.toMatchObject({ status: 'refunded' })
+  })
+})
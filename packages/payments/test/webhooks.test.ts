@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createPaymentProviders,
+  SIGNATURE_HEADER,
+  signPayload,
+  verifySignature,
+  WebhookSignatureError,
+} from '../src/index.js'
+
+const SECRET = 'test-webhook-secret-0123456789'
+
+const payment = { providerReference: 'card_abc', reference: 'pay_123', amount: 150_000 }
+
+describe('webhook signatures', () => {
+  it('accepts the HMAC of the raw body', () => {
+    const rawBody = '{"eventId":"evt_1"}'
+
+    expect(verifySignature(SECRET, rawBody, signPayload(SECRET, rawBody))).toBe(true)
+  })
+
+  it('rejects a missing, malformed or foreign signature', () => {
+    const rawBody = '{"eventId":"evt_1"}'
+
+    expect(verifySignature(SECRET, rawBody, undefined)).toBe(false)
+    expect(verifySignature(SECRET, rawBody, 'not-hex')).toBe(false)
+    expect(verifySignature(SECRET, rawBody, signPayload('another-secret-0123456789', rawBody))).toBe(false)
+  })
+
+  it('rejects a webhook whose body was changed after signing', async () => {
+    const { card } = createPaymentProviders({ webhookSecret: SECRET })
+    const webhook = card.simulate(payment, 'succeeded')
+    const tampered = webhook.rawBody.replace('150000', '1')
+
+    await expect(card.handleWebhook({ ...webhook, rawBody: tampered })).rejects.toThrow(WebhookSignatureError)
+  })
+
+  it('rejects a webhook signed with another secret', async () => {
+    const { card } = createPaymentProviders({ webhookSecret: SECRET })
+    const other = createPaymentProviders({ webhookSecret: 'another-secret-0123456789' }).card
+
+    await expect(card.handleWebhook(other.simulate(payment, 'succeeded'))).rejects.toThrow(WebhookSignatureError)
+  })
+
+  it('rejects a webhook without the signature header', async () => {
+    const { card } = createPaymentProviders({ webhookSecret: SECRET })
+    const webhook = card.simulate(payment, 'succeeded')
+
+    await expect(card.handleWebhook({ headers: {}, rawBody: webhook.rawBody })).rejects.toThrow(WebhookSignatureError)
+    expect(webhook.headers[SIGNATURE_HEADER]).toBeDefined()
+  })
+})
+
+describe('duplicate deliveries', () => {
+  it('gives a re-delivered settlement the same event ID', async () => {
+    const { card } = createPaymentProviders({ webhookSecret: SECRET })
+
+    const first = await card.handleWebhook(card.simulate(payment, 'succeeded'))
+    const redelivered = await card.handleWebhook(card.simulate(payment, 'succeeded'))
+
+    expect(redelivered.eventId).toBe(first.eventId)
+  })
+
+  it('gives each outcome, payment and provider its own event ID', async () => {
+    const providers = createPaymentProviders({ webhookSecret: SECRET })
+
+    const succeeded = await providers.card.handleWebhook(providers.card.simulate(payment, 'succeeded'))
+    const failed = await providers.card.handleWebhook(providers.card.simulate(payment, 'failed'))
+    const otherPayment = await providers.card.handleWebhook(
+      providers.card.simulate({ ...payment, providerReference: 'card_def' }, 'succeeded')
+    )
+    const otherProvider = await providers.fawry.handleWebhook(providers.fawry.simulate(payment, 'succeeded'))
+
+    const ids = new Set([succeeded.eventId, failed.eventId, otherPayment.eventId, otherProvider.eventId])
+    expect(ids.size).toBe(4)
+  })
+})
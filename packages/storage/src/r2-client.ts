@@ -128,6 +128,26 @@ export class R2StorageClient {
     }
   }
 
+  /**
+   * Upload generated content (e.g. a report export) under a caller-chosen key
+   *
+   * Unlike uploadFile(), no validation or image processing is applied:
+   * only use this for content the server produced itself.
+   *
+   * @param key - R2 object key
+   * @param buffer - Content
+   * @param contentType - MIME type
+   * @returns The key
+   */
+  async uploadBuffer(
+    key: string,
+    buffer: Buffer,
+    contentType: string
+  ): Promise<string> {
+    await this.putObject(key, buffer, contentType)
+    return key
+  }
+
   /**
    * Upload buffer to R2
    *
@@ -150,6 +170,29 @@ export class R2StorageClient {
     await this.client.send(command)
   }
 
+  /**
+   * Download a file's content
+   *
+   * For server-side use (e.g. attaching a stored document to an email);
+   * clients get signed URLs instead.
+   *
+   * @param key - R2 object key
+   * @returns File content
+   */
+  async downloadFile(key: string): Promise<Buffer> {
+    const command = new GetObjectCommand({
+      Bucket: this.config.bucketName,
+      Key: key,
+    })
+
+    const response = await this.client.send(command)
+    if (!response.Body) {
+      throw new Error(`Empty object: ${key}`)
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray())
+  }
+
   /**
    * Delete file from R2
    *
@@ -185,12 +228,16 @@ export class R2StorageClient {
    *
    * @param key - R2 object key
    * @param expiresIn - Expiration time in seconds (default: 3600 = 1 hour)
+   * @param downloadName - Save-as file name (forces a download)
    * @returns Signed URL that expires after expiresIn seconds
    */
-  async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
+  async getSignedUrl(key: string, expiresIn: number = 3600, downloadName?: string): Promise<string> {
     const command = new GetObjectCommand({
       Bucket: this.config.bucketName,
       Key: key,
+      ...(downloadName
+        ? { ResponseContentDisposition: `attachment; filename="${downloadName.replace(/"/g, '')}"` }
+        : {}),
     })
 
     return getSignedUrl(this.client, command, { expiresIn })
@@ -0,0 +1,60 @@
+/**
+ * Audit Trail Validation Schemas
+ *
+ * Validates data for the admin audit endpoints (REP-006):
+ * - Filtering the audit log
+ * - Exporting the filtered log
+ */
+
+import { z } from 'zod';
+import { CommonSchemas } from '../common.validations';
+
+/**
+ * Audit export formats
+ */
+export const AUDIT_EXPORT_FORMATS = {
+  CSV: 'csv',
+  JSON: 'json',
+} as const;
+
+export const AuditExportFormat = z.enum([
+  AUDIT_EXPORT_FORMATS.CSV,
+  AUDIT_EXPORT_FORMATS.JSON,
+]);
+export type AuditExportFormatType = z.infer<typeof AuditExportFormat>;
+
+/**
+ * Audit log filters (shared by list, export and the audit report)
+ */
+export const AuditFilters = z.object({
+  actorId: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  entityType: z.string().min(1).optional(),
+  entityId: z.string().min(1).optional(),
+  requestId: z.string().min(1).optional(),
+  from: z.coerce.date({ message: 'Invalid from date' }).optional(),
+  to: z.coerce.date({ message: 'Invalid to date' }).optional(),
+});
+export type AuditFiltersType = z.infer<typeof AuditFilters>;
+
+/**
+ * Audit log query (admin)
+ */
+export const AuditQueryFilters = CommonSchemas.pagination
+  .extend(AuditFilters.shape)
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be before to',
+    path: ['to'],
+  });
+export type AuditQueryFiltersType = z.infer<typeof AuditQueryFilters>;
+
+/**
+ * Audit log export (admin)
+ */
+export const AuditExportQuery = AuditFilters
+  .extend({ format: AuditExportFormat.default(AUDIT_EXPORT_FORMATS.CSV) })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must be before to',
+    path: ['to'],
+  });
+export type AuditExportQueryType = z.infer<typeof AuditExportQuery>;
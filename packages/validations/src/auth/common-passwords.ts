@@ -0,0 +1,52 @@
+/**
+ * Common Breached Passwords
+ *
+ * Bundled offline list of passwords that appear most often in public
+ * breach dumps and password-guessing lists, plus the school and local
+ * words users tend to pick. Kept in lower case; PasswordSchema compares
+ * case-insensitively and also matches these with digits or symbols
+ * added around them ("Password123!").
+ *
+ * Extend with care: every entry ships to the browser with the web forms.
+ */
+
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '123456', 'password', '12345678', 'qwerty', '123456789', '12345', '1234', '111111', '1234567',
+  'dragon', '123123', 'baseball', 'abc123', 'football', 'monkey', 'letmein', '696969', 'shadow',
+  'master', '666666', 'qwertyuiop', '123321', 'mustang', '1234567890', 'michael', '654321',
+  'superman', '1qaz2wsx', '7777777', '121212', '000000', 'qazwsx', '123qwe', 'killer', 'trustno1',
+  'jordan', 'jennifer', 'zxcvbnm', 'asdfgh', 'hunter', 'buster', 'soccer', 'harley', 'batman',
+  'andrew', 'tigger', 'sunshine', 'iloveyou', '2000', 'charlie', 'robert', 'thomas', 'hockey',
+  'ranger', 'daniel', 'starwars', 'klaster', '112233', 'george', 'computer', 'michelle', 'jessica',
+  'pepper', '1111', 'zxcvbn', '555555', '11111111', '131313', 'freedom', '777777', 'pass',
+  'maggie', '159753', 'aaaaaa', 'ginger', 'princess', 'joshua', 'cheese', 'amanda', 'summer',
+  'love', 'ashley', 'nicole', 'chelsea', 'biteme', 'matthew', 'access', 'yankees', '987654321',
+  'dallas', 'austin', 'thunder', 'taylor', 'matrix', 'mobilemail', 'mom', 'monitor', 'monitoring',
+  'montana', 'moon', 'moscow', 'welcome', 'welcome1', 'password1', 'password123', 'password12',
+  'passw0rd', 'p@ssw0rd', 'p@ssword', 'admin', 'admin123', 'administrator', 'root', 'toor',
+  'changeme', 'changeme123', 'default', 'guest', 'login', 'qwerty123', 'qwerty1', 'abc12345',
+  'abcd1234', 'aa123456', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx3edc', 'zaq12wsx', 'q1w2e3r4',
+  'q1w2e3r4t5', 'asdf1234', 'asdfghjkl', 'zxcvbnm123', 'iloveyou1', 'sunshine1', 'princess1',
+  'football1', 'baseball1', 'monkey1', 'dragon1', 'shadow1', 'master1', 'superman1', 'batman1',
+  'charlie1', 'letmein1', 'michael1', 'jessica1', 'ashley1', 'welcome123', 'hello', 'hello123',
+  'hello1', 'secret', 'secret123', 'test', 'test123', 'testing', 'testing123', 'summer2023',
+  'summer2024', 'summer2025', 'winter2023', 'winter2024', 'winter2025', 'spring2024', 'autumn2024',
+  'fall2024', 'january', 'february', 'march', 'april', 'june', 'july', 'august', 'september',
+  'october', 'november', 'december', 'monday', 'friday', 'sunday', 'school', 'school123',
+  'student', 'student123', 'teacher', 'teacher123', 'parent', 'exam', 'exam123', 'igcse',
+  'igcse123', 'cambridge', 'cambridge1', 'pearson', 'edexcel', 'egypt', 'egypt123', 'cairo',
+  'cairo123', 'alexandria', 'giza', 'masr', 'ahmed', 'mohamed', 'mohammed', 'mahmoud', 'mostafa',
+  'ali', 'omar', 'youssef', 'fatma', 'mariam', 'nour', 'sara', 'hana', '112233445566', '11223344',
+  '123abc', 'abc', '1234abcd', 'qwe123', 'qweasd', 'qweasdzxc', 'asd123', 'zxc123', 'aaa111',
+  'a1b2c3', 'a1b2c3d4', '1a2b3c4d', 'internet', 'samsung', 'iphone', 'apple', 'google', 'facebook',
+  'instagram', 'whatsapp', 'youtube', 'microsoft', 'liverpool', 'arsenal', 'barcelona',
+  'realmadrid', 'manchester', 'chelsea1', 'juventus', 'ahly', 'zamalek', 'pokemon', 'naruto',
+  'minecraft', 'fortnite', 'roblox', 'valorant', 'playstation', 'xbox', 'nintendo', 'gamer',
+  'loveyou', 'lovely', 'lover', 'forever', 'angel', 'angels', 'blessed', 'jesus', 'christ', 'god',
+  'family', 'friends', 'friend', 'beautiful', 'flower', 'flowers', 'butterfly', 'rainbow',
+  'purple', 'orange', 'banana', 'chocolate', 'cookie', 'pizza', 'coffee', 'tennis', 'golf',
+  'basketball', 'volleyball', 'cricket', 'money', 'cash', 'gold', 'silver', 'diamond', 'million',
+  'success', 'winner', 'champion', 'legend', 'killer1', 'hunter1', 'ranger1', 'tigger1', 'buster1',
+  'pepper1', 'ginger1', 'maggie1', 'cheese1', 'hockey1', '987654', '1234560', '123654', '147258',
+  '147258369', '159357', '0000', '00000000', '999999', '88888888',
+]);
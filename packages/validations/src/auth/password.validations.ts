@@ -0,0 +1,84 @@
+/**
+ * Password Policy (AUTH-001)
+ *
+ * One policy for every place a password is chosen: the sign-up and
+ * reset forms check it before submitting, and the API enforces it in
+ * a better-auth hook.
+ * - 8 to 128 characters, with an uppercase letter and a number
+ * - Not a common breached password (bundled list, works offline)
+ * - Does not contain the user's email or name
+ */
+
+import { z } from 'zod';
+import { COMMON_PASSWORDS } from './common-passwords';
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+// Shortest name or email part that counts as personal information
+const MIN_PERSONAL_PART_LENGTH = 3;
+
+/**
+ * Whether a password is on the common list, ignoring case and any
+ * digits or symbols added before or after it ("Password123!")
+ */
+export function isCommonPassword(password: string): boolean {
+  const lower = password.toLowerCase();
+  const core = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+
+  return COMMON_PASSWORDS.has(lower) || (core.length > 0 && COMMON_PASSWORDS.has(core));
+}
+
+/**
+ * Password rules that need nothing but the password
+ */
+export const PasswordSchema = z
+  .string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(PASSWORD_MAX_LENGTH, `Password must be at most ${PASSWORD_MAX_LENGTH} characters`)
+  .regex(/[A-Z]/, 'Password must contain an uppercase letter')
+  .regex(/\d/, 'Password must contain a number')
+  .refine((password) => !isCommonPassword(password), 'This password is too common. Choose a less predictable one');
+
+/**
+ * Who the password is for, when known
+ */
+export type PasswordOwner = {
+  email?: string | null;
+  name?: string | null;
+};
+
+/**
+ * Check a password against the whole policy
+ *
+ * @param password - The candidate password
+ * @param owner - The user's email and name, to reject passwords containing them
+ * @returns The first broken rule's message, or null if the password is acceptable
+ */
+export function checkPassword(password: string, owner: PasswordOwner = {}): string | null {
+  const result = PasswordSchema.safeParse(password);
+  if (!result.success) {
+    return result.error.issues[0]?.message ?? 'Invalid password';
+  }
+
+  const lower = password.toLowerCase();
+  const email = owner.email?.trim().toLowerCase();
+
+  if (email) {
+    const localPart = email.split('@')[0] ?? '';
+    if (lower.includes(email) || (localPart.length >= MIN_PERSONAL_PART_LENGTH && lower.includes(localPart))) {
+      return 'Password must not contain your email address';
+    }
+  }
+
+  const nameParts = (owner.name ?? '')
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((part) => part.length >= MIN_PERSONAL_PART_LENGTH);
+
+  if (nameParts.some((part) => lower.includes(part))) {
+    return 'Password must not contain your name';
+  }
+
+  return null;
+}
@@ -71,6 +71,8 @@ export type ApiSuccess<T> = {
 export type ApiError = {
   success: false;
   error: string;
+  // Machine-readable reason (e.g. REGISTRATION_RULE_CODES) for client messaging
+  code?: string;
   details?: unknown;
 };
 
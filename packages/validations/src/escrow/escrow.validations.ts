@@ -0,0 +1,173 @@
+/**
+ * Escrow Validation Schemas
+ *
+ * Validates data for escrow ledger operations:
+ * - Viewing a student's escrow statement (student, linked parent)
+ * - Paying a registration from escrow
+ * - Parent transfers between linked children (ESC-003)
+ * - Requesting, fulfilling and cancelling withdrawals (ESC-004..ESC-008)
+ */
+
+import { z } from 'zod';
+import { CommonSchemas } from '../common.validations';
+import { UserIdSchema } from '../user/user.validations';
+import { PositivePiastres } from '../money/money.validations';
+
+/**
+ * Journal entry types (ESC-001..008)
+ */
+export const ESCROW_ENTRY_TYPES = {
+  DROP_CREDIT: 'drop_credit',
+  SWAP_CREDIT: 'swap_credit',
+  CHECKOUT_DEBIT: 'checkout_debit',
+  TRANSFER: 'transfer',
+  WITHDRAWAL: 'withdrawal',
+  // Requested withdrawal set aside until fulfilled or cancelled
+  WITHDRAWAL_HOLD: 'withdrawal_hold',
+  WITHDRAWAL_RELEASE: 'withdrawal_release',
+  // Money received that could not be applied (bank over-payment, late transfer)
+  PAYMENT_CREDIT: 'payment_credit',
+} as const;
+
+export const EscrowEntryType = z.enum([
+  ESCROW_ENTRY_TYPES.DROP_CREDIT,
+  ESCROW_ENTRY_TYPES.SWAP_CREDIT,
+  ESCROW_ENTRY_TYPES.CHECKOUT_DEBIT,
+  ESCROW_ENTRY_TYPES.TRANSFER,
+  ESCROW_ENTRY_TYPES.WITHDRAWAL,
+  ESCROW_ENTRY_TYPES.WITHDRAWAL_HOLD,
+  ESCROW_ENTRY_TYPES.WITHDRAWAL_RELEASE,
+  ESCROW_ENTRY_TYPES.PAYMENT_CREDIT,
+]);
+export type EscrowEntryTypeType = z.infer<typeof EscrowEntryType>;
+
+/**
+ * Child escrow route params (parent)
+ */
+export const EscrowStudentParam = z.object({
+  studentId: UserIdSchema,
+});
+export type EscrowStudentParamType = z.infer<typeof EscrowStudentParam>;
+
+/**
+ * Escrow statement query (paginated entries, newest first)
+ */
+export const EscrowStatementQuery = CommonSchemas.pagination;
+export type EscrowStatementQueryType = z.infer<typeof EscrowStatementQuery>;
+
+/**
+ * Pay a registration from escrow (checkout debit)
+ */
+export const PayWithEscrow = z.object({
+  registrationId: z.string().uuid('Invalid registration ID format'),
+});
+export type PayWithEscrowType = z.infer<typeof PayWithEscrow>;
+
+/**
+ * Parent moves escrow between two linked children (ESC-003)
+ */
+export const CreateEscrowTransfer = z.object({
+  fromStudentId: UserIdSchema,
+  toStudentId: UserIdSchema,
+  amount: PositivePiastres,
+  note: z.string().trim().max(500).optional(),
+}).refine((data) => data.fromStudentId !== data.toStudentId, {
+  message: 'Source and destination must be different children',
+  path: ['toStudentId'],
+});
+export type CreateEscrowTransferType = z.infer<typeof CreateEscrowTransfer>;
+
+/**
+ * Idempotency header for escrow transfers
+ * The middleware lets requests without a key through, so the transfer
+ * route validates this to require one: a retried transfer is then
+ * replayed instead of moving money twice
+ */
+export const EscrowTransferHeaders = z.object({
+  'idempotency-key': z.string('Idempotency-Key header is required').trim().min(1, 'Idempotency-Key header is required').max(255),
+});
+export type EscrowTransferHeadersType = z.infer<typeof EscrowTransferHeaders>;
+
+/**
+ * Withdrawal request statuses
+ *
+ * pending -> partially_fulfilled -> fulfilled
+ *         -> cancelled (from pending or partially_fulfilled)
+ */
+export const WITHDRAWAL_STATUSES = {
+  PENDING: 'pending',
+  PARTIALLY_FULFILLED: 'partially_fulfilled',
+  FULFILLED: 'fulfilled',
+  CANCELLED: 'cancelled',
+} as const;
+
+export const WithdrawalStatus = z.enum([
+  WITHDRAWAL_STATUSES.PENDING,
+  WITHDRAWAL_STATUSES.PARTIALLY_FULFILLED,
+  WITHDRAWAL_STATUSES.FULFILLED,
+  WITHDRAWAL_STATUSES.CANCELLED,
+]);
+export type WithdrawalStatusType = z.infer<typeof WithdrawalStatus>;
+
+/**
+ * Statuses that still hold escrow
+ */
+export const OPEN_WITHDRAWAL_STATUSES = [
+  WITHDRAWAL_STATUSES.PENDING,
+  WITHDRAWAL_STATUSES.PARTIALLY_FULFILLED,
+] as const;
+
+/**
+ * Request a withdrawal (student, or parent for a linked child)
+ * studentId is required for parents and ignored for students
+ */
+export const CreateWithdrawal = z.object({
+  studentId: UserIdSchema.optional(),
+  amount: PositivePiastres,
+  note: z.string().trim().max(500).optional(),
+});
+export type CreateWithdrawalType = z.infer<typeof CreateWithdrawal>;
+
+/**
+ * Withdrawal route params
+ */
+export const WithdrawalId = z.object({
+  id: z.string().uuid('Invalid withdrawal ID format'),
+});
+export type WithdrawalIdType = z.infer<typeof WithdrawalId>;
+
+/**
+ * Own / children's withdrawal history
+ */
+export const WithdrawalHistoryQuery = CommonSchemas.pagination.extend({
+  studentId: UserIdSchema.optional(),
+  status: WithdrawalStatus.optional(),
+});
+export type WithdrawalHistoryQueryType = z.infer<typeof WithdrawalHistoryQuery>;
+
+/**
+ * Admin withdrawal queue (open requests by default)
+ */
+export const WithdrawalQueueQuery = CommonSchemas.pagination.extend({
+  status: WithdrawalStatus.optional(),
+  studentId: UserIdSchema.optional(),
+});
+export type WithdrawalQueueQueryType = z.infer<typeof WithdrawalQueueQuery>;
+
+/**
+ * Release money for a withdrawal (admin)
+ * amount may be less than what is outstanding (partial fulfilment)
+ */
+export const FulfilWithdrawal = z.object({
+  amount: PositivePiastres,
+  notes: z.string().trim().max(1000).optional(),
+});
+export type FulfilWithdrawalType = z.infer<typeof FulfilWithdrawal>;
+
+/**
+ * Cancel an open withdrawal; the outstanding amount returns to escrow
+ */
+export const CancelWithdrawal = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+export type CancelWithdrawalType = z.infer<typeof CancelWithdrawal>;
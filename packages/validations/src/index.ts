@@ -12,6 +12,7 @@
 export * from './roles'
 export * from './common.validations'
 export * from './api-response'
+export * from './money/money.validations'
 
 /**
  * Domain-Specific Validations
@@ -25,5 +26,14 @@ export * from './file/file.validations'
 /**
  * IGCSE System Validations
  */
+export * from './auth/password.validations'
 export * from './link/link.validations'
-export * from './user/user.validations'
\ No newline at end of file
+export * from './user/user.validations'
+export * from './subject/subject.validations'
+export * from './window/window.validations'
+export * from './registration/registration.validations'
+export * from './payment/payment.validations'
+export * from './escrow/escrow.validations'
+export * from './job/job.validations'
+export * from './audit/audit.validations'
+export * from './report/report.validations'
\ No newline at end of file
@@ -0,0 +1,45 @@
+/**
+ * Background Job Validation Schemas
+ *
+ * Validates data for the admin job inspection endpoints:
+ * - Listing jobs by status / type
+ * - Re-running dead jobs
+ */
+
+import { z } from 'zod';
+import { CommonSchemas } from '../common.validations';
+
+/**
+ * Job status: pending -> running -> completed | dead
+ */
+export const JOB_STATUSES = {
+  PENDING: 'pending',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  DEAD: 'dead',
+} as const;
+
+export const JobStatus = z.enum([
+  JOB_STATUSES.PENDING,
+  JOB_STATUSES.RUNNING,
+  JOB_STATUSES.COMPLETED,
+  JOB_STATUSES.DEAD,
+]);
+export type JobStatusType = z.infer<typeof JobStatus>;
+
+/**
+ * Job ID validation (UUID format)
+ */
+export const JobId = z.object({
+  id: z.string().uuid('Invalid job ID format'),
+});
+export type JobIdType = z.infer<typeof JobId>;
+
+/**
+ * Job query filters (admin)
+ */
+export const JobQueryFilters = CommonSchemas.pagination.extend({
+  status: JobStatus.optional(),
+  type: z.string().min(1).optional(),
+});
+export type JobQueryFiltersType = z.infer<typeof JobQueryFilters>;
@@ -0,0 +1,208 @@
+/**
+ * Money Schemas & Arithmetic
+ *
+ * All amounts are integer piastres (1 EGP = 100 piastres), held in
+ * `number`s that must stay safe integers. Prices, payments, escrow and
+ * reports share these helpers, so arithmetic never goes through floats:
+ * - Zod parsers for piastre amounts; pound strings ("1,234.50") parse
+ *   with parsePounds
+ * - add / subtract / allocate on Money values of one currency
+ * - English and Arabic formatting
+ *
+ * Database columns use the matching helper in @repo/db (moneyColumn()).
+ */
+
+import { z } from 'zod';
+
+/**
+ * Supported currencies (ISO 4217)
+ */
+export const CURRENCIES = {
+  EGP: 'EGP',
+} as const;
+
+export const CurrencyCode = z.enum([CURRENCIES.EGP]);
+export type CurrencyCodeType = z.infer<typeof CurrencyCode>;
+
+export const DEFAULT_CURRENCY: CurrencyCodeType = CURRENCIES.EGP;
+
+// Minor units (piastres) per pound
+export const PIASTRES_PER_POUND = 100;
+
+/**
+ * Locales money can be formatted for
+ */
+export type MoneyLocale = 'en' | 'ar';
+
+/**
+ * An amount of money: integer minor units and a currency
+ */
+export type Money = {
+  amount: number;
+  currency: CurrencyCodeType;
+};
+
+/**
+ * Amount in piastres
+ *
+ * JSON numbers only; pipe a form or query field through z.coerce.number() first.
+ */
+export const Piastres = z
+  .number('Amount must be a number')
+  .int('Amount must be whole piastres')
+  .refine(Number.isSafeInteger, 'Amount is too large');
+
+/**
+ * Amount in piastres greater than zero (payments, transfers, withdrawals)
+ */
+export const PositivePiastres = Piastres.refine((value) => value > 0, 'Amount must be positive');
+
+/**
+ * Amount in piastres of zero or more (prices)
+ */
+export const NonNegativePiastres = Piastres.refine((value) => value >= 0, 'Amount cannot be negative');
+
+function assertPiastres(amount: number) {
+  if (!Number.isSafeInteger(amount)) {
+    throw new Error(`Invalid money amount: ${amount} (must be whole piastres)`);
+  }
+}
+
+function assertSameCurrency(values: Money[]) {
+  const currency = values[0]?.currency;
+  if (values.some((value) => value.currency !== currency)) {
+    throw new Error('Cannot combine amounts in different currencies');
+  }
+}
+
+/**
+ * Create a Money value
+ *
+ * @param amount - Integer piastres
+ * @param currency - Currency code (EGP by default)
+ * @throws Error if the amount is not a safe integer
+ */
+export function money(amount: number, currency: CurrencyCodeType = DEFAULT_CURRENCY): Money {
+  assertPiastres(amount);
+  return { amount, currency };
+}
+
+/**
+ * Parse a pound amount to piastres without going through floats
+ *
+ * Accepts an optional sign, thousands separators and up to two decimals:
+ * "1,234.5" -> 123450, "-0.05" -> -5.
+ *
+ * @throws Error if the text is not an amount or has more than two decimals
+ */
+export function parsePounds(text: string): number {
+  const match = /^([+-])?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?$/.exec(text.trim());
+  if (!match) {
+    throw new Error(`Invalid amount: "${text}"`);
+  }
+
+  const [, sign, pounds, fraction = ''] = match;
+  const amount = Number(pounds!.replace(/,/g, '')) * PIASTRES_PER_POUND + Number(fraction.padEnd(2, '0'));
+  assertPiastres(amount);
+
+  return sign === '-' ? -amount : amount;
+}
+
+/**
+ * Add amounts of the same currency
+ *
+ * @throws Error on mixed currencies or a result beyond safe integers
+ */
+export function addMoney(first: Money, ...rest: Money[]): Money {
+  const values = [first, ...rest];
+  assertSameCurrency(values);
+
+  const amount = values.reduce((total, value) => total + value.amount, 0);
+  return money(amount, first.currency);
+}
+
+/**
+ * Subtract one amount from another of the same currency
+ *
+ * @throws Error on mixed currencies or a result beyond safe integers
+ */
+export function subtractMoney(from: Money, amount: Money): Money {
+  assertSameCurrency([from, amount]);
+  return money(from.amount - amount.amount, from.currency);
+}
+
+/**
+ * Split an amount by ratios without losing a piastre
+ *
+ * Each share is rounded down and the leftover piastres go one at a time
+ * to the largest remainders, so the shares always sum to the total:
+ * allocateMoney(money(100), [1, 1, 1]) -> 34, 33, 33.
+ *
+ * @param total - Amount to split
+ * @param ratios - Non-negative weights (at least one positive)
+ * @returns One share per ratio, in the same order
+ */
+export function allocateMoney(total: Money, ratios: number[]): Money[] {
+  const weight = ratios.reduce((sum, ratio) => sum + ratio, 0);
+  if (ratios.length === 0 || ratios.some((ratio) => ratio < 0) || weight <= 0) {
+    throw new Error('Ratios must be non-negative with a positive total');
+  }
+
+  const sign = total.amount < 0 ? -1 : 1;
+  const absolute = Math.abs(total.amount);
+  const shares = ratios.map((ratio) => Math.floor((absolute * ratio) / weight));
+  let leftover = absolute - shares.reduce((sum, share) => sum + share, 0);
+
+  // Hand out what rounding down left over, largest remainder first
+  const byRemainder = ratios
+    .map((ratio, index) => ({ index, remainder: (absolute * ratio) % weight }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (leftover === 0) break;
+    shares[index]! += 1;
+    leftover -= 1;
+  }
+
+  // No -0 for empty shares of a negative total
+  return shares.map((share) => money(share === 0 ? 0 : sign * share, total.currency));
+}
+
+/**
+ * Pounds with exactly two decimals and no grouping, e.g. 123450 -> "1234.50"
+ * (CSV cells and other machine-readable output)
+ */
+export function formatPounds(piastres: number): string {
+  assertPiastres(piastres);
+
+  const absolute = Math.abs(piastres);
+  const pounds = Math.floor(absolute / PIASTRES_PER_POUND);
+  const fraction = String(absolute % PIASTRES_PER_POUND).padStart(2, '0');
+
+  return `${piastres < 0 ? '-' : ''}${pounds}.${fraction}`;
+}
+
+/**
+ * Format money for people
+ *
+ * English: "EGP 1,234.50" / "-EGP 1,234.50"
+ * Arabic:  Egyptian Arabic digits and the "ج.م." symbol
+ *
+ * @param value - Money, or integer piastres in the default currency
+ * @param locale - 'en' (default) or 'ar'
+ */
+export function formatMoney(value: Money | number, locale: MoneyLocale = 'en'): string {
+  const { amount, currency } = typeof value === 'number' ? money(value) : value;
+  assertPiastres(amount);
+
+  if (locale === 'ar') {
+    return new Intl.NumberFormat('ar-EG', { style: 'currency', currency }).format(amount / PIASTRES_PER_POUND);
+  }
+
+  const pounds = (Math.abs(amount) / PIASTRES_PER_POUND).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+  return `${amount < 0 ? '-' : ''}${currency} ${pounds}`;
+}
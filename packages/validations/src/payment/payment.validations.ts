@@ -0,0 +1,146 @@
+/**
+ * Payment Validation Schemas
+ *
+ * Validates data for payment operations:
+ * - Starting a checkout for a registration (student or linked parent)
+ * - Receiving provider webhooks
+ * - Settling simulated payments (non-production only)
+ * - Confirming bank transfers (admin)
+ *
+ * Provider names mirror ProviderName in @repo/payments. Bank transfer
+ * is a manual checkout method handled by the API, not a provider.
+ */
+
+import { z } from 'zod';
+import { PositivePiastres } from '../money/money.validations';
+import { CommonSchemas } from '../common.validations';
+import { UploadDocument } from '../file/file.validations';
+
+/**
+ * Supported payment providers
+ */
+export const PAYMENT_PROVIDERS = {
+  FAWRY: 'fawry',
+  CARD: 'card',
+  VODAFONE_CASH: 'vodafone_cash',
+  ORANGE_CASH: 'orange_cash',
+  ETISALAT_CASH: 'etisalat_cash',
+} as const;
+
+export const PaymentProviderName = z.enum([
+  PAYMENT_PROVIDERS.FAWRY,
+  PAYMENT_PROVIDERS.CARD,
+  PAYMENT_PROVIDERS.VODAFONE_CASH,
+  PAYMENT_PROVIDERS.ORANGE_CASH,
+  PAYMENT_PROVIDERS.ETISALAT_CASH,
+]);
+export type PaymentProviderNameType = z.infer<typeof PaymentProviderName>;
+
+/**
+ * Manual bank transfer, confirmed by an admin (PAY-004, PAY-007)
+ */
+export const BANK_TRANSFER = 'bank_transfer' as const;
+
+/**
+ * How a payer can check out: a gateway provider or bank transfer
+ */
+export const CheckoutMethod = z.enum([
+  ...PaymentProviderName.options,
+  BANK_TRANSFER,
+]);
+export type CheckoutMethodType = z.infer<typeof CheckoutMethod>;
+
+/**
+ * Providers that need the payer's wallet number
+ */
+export const WALLET_PROVIDERS: readonly CheckoutMethodType[] = [
+  PAYMENT_PROVIDERS.VODAFONE_CASH,
+  PAYMENT_PROVIDERS.ORANGE_CASH,
+  PAYMENT_PROVIDERS.ETISALAT_CASH,
+];
+
+/**
+ * Payment status: pending -> succeeded -> refunded
+ *                         -> failed
+ *                         -> expired
+ */
+export const PAYMENT_STATUSES = {
+  PENDING: 'pending',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+  EXPIRED: 'expired',
+  REFUNDED: 'refunded',
+} as const;
+
+export const PaymentStatus = z.enum([
+  PAYMENT_STATUSES.PENDING,
+  PAYMENT_STATUSES.SUCCEEDED,
+  PAYMENT_STATUSES.FAILED,
+  PAYMENT_STATUSES.EXPIRED,
+  PAYMENT_STATUSES.REFUNDED,
+]);
+export type PaymentStatusType = z.infer<typeof PaymentStatus>;
+
+/**
+ * Payment ID validation (UUID format)
+ */
+export const PaymentId = z.object({
+  id: z.string().uuid('Invalid payment ID format'),
+});
+export type PaymentIdType = z.infer<typeof PaymentId>;
+
+/**
+ * Create Payment (checkout)
+ * walletNumber is required for mobile wallet providers
+ */
+export const CreatePayment = z.object({
+  registrationId: z.string().uuid('Invalid registration ID format'),
+  provider: CheckoutMethod,
+  walletNumber: z
+    .string()
+    .trim()
+    .regex(/^01[0-25]\d{8}$/, 'Invalid Egyptian mobile number')
+    .optional(),
+}).refine(
+  (data) => !WALLET_PROVIDERS.includes(data.provider) || !!data.walletNumber,
+  { message: 'Wallet number is required for mobile wallet payments', path: ['walletNumber'] }
+);
+export type CreatePaymentType = z.infer<typeof CreatePayment>;
+
+/**
+ * Webhook route params
+ */
+export const PaymentWebhookParams = z.object({
+  provider: PaymentProviderName,
+});
+export type PaymentWebhookParamsType = z.infer<typeof PaymentWebhookParams>;
+
+/**
+ * Simulate Payment (non-production only)
+ */
+export const SimulatePayment = z.object({
+  outcome: z.enum(['succeeded', 'failed', 'expired']),
+});
+export type SimulatePaymentType = z.infer<typeof SimulatePayment>;
+
+/**
+ * Bank transfer queue filters (admin)
+ * Defaults to transfers still awaiting confirmation
+ */
+export const BankTransferQueueQuery = CommonSchemas.pagination.extend({
+  status: PaymentStatus.default(PAYMENT_STATUSES.PENDING),
+});
+export type BankTransferQueueQueryType = z.infer<typeof BankTransferQueueQuery>;
+
+/**
+ * Confirm a received bank transfer (admin, multipart form)
+ * amount is what actually arrived, in piastres; it may be less or more
+ * than the amount due. file is an optional proof document.
+ */
+export const ConfirmBankTransfer = z.object({
+  amount: z.coerce.number().pipe(PositivePiastres),
+  valueDate: z.coerce.date({ message: 'Invalid value date' }),
+  notes: z.string().trim().max(1000).optional(),
+  file: UploadDocument.shape.file.optional(),
+});
+export type ConfirmBankTransferType = z.infer<typeof ConfirmBankTransfer>;
@@ -0,0 +1,206 @@
+/**
+ * Registration Validation Schemas
+ *
+ * Validates data for subject registration operations:
+ * - Creating a registration in the active window (student or linked parent)
+ * - Dropping, swapping or switching the exam type of a paid item
+ * - Querying registration history per session or across all sessions
+ */
+
+import { z } from 'zod';
+import { CheckoutMethod, WALLET_PROVIDERS } from '../payment/payment.validations';
+import { UserIdSchema } from '../user/user.validations';
+
+/**
+ * Registration status: pending_payment -> confirmed
+ *                                      -> cancelled
+ */
+export const REGISTRATION_STATUSES = {
+  PENDING_PAYMENT: 'pending_payment',
+  CONFIRMED: 'confirmed',
+  CANCELLED: 'cancelled',
+} as const;
+
+export const RegistrationStatus = z.enum([
+  REGISTRATION_STATUSES.PENDING_PAYMENT,
+  REGISTRATION_STATUSES.CONFIRMED,
+  REGISTRATION_STATUSES.CANCELLED,
+]);
+export type RegistrationStatusType = z.infer<typeof RegistrationStatus>;
+
+/**
+ * Where the student sits the exam (determines the price)
+ */
+export const EXAM_TYPES = {
+  IN_SCHOOL: 'in_school',
+  EXTERNAL: 'external',
+} as const;
+
+export const ExamType = z.enum([
+  EXAM_TYPES.IN_SCHOOL,
+  EXAM_TYPES.EXTERNAL,
+]);
+export type ExamTypeType = z.infer<typeof ExamType>;
+
+/**
+ * Machine-readable reasons a registration action was rejected.
+ * Returned as `code` on error responses so clients can show a tooltip.
+ */
+export const REGISTRATION_RULE_CODES = {
+  // No registration window is open
+  REGISTRATION_CLOSED: 'REGISTRATION_CLOSED',
+  // Graduated students cannot register (GRADE-003)
+  STUDENT_GRADUATED: 'STUDENT_GRADUATED',
+  // Subject is inactive or does not exist
+  SUBJECT_UNAVAILABLE: 'SUBJECT_UNAVAILABLE',
+  // Subject has no external price
+  EXTERNAL_UNAVAILABLE: 'EXTERNAL_UNAVAILABLE',
+  // Subject is already held in this session
+  SUBJECT_ALREADY_REGISTERED: 'SUBJECT_ALREADY_REGISTERED',
+  // A core subject for the student's grade is missing (CORE-002)
+  CORE_SUBJECT_MISSING: 'CORE_SUBJECT_MISSING',
+  // Core subjects cannot be dropped or swapped (CORE-003, CORE-004, SWAP-005)
+  CORE_SUBJECT_LOCKED: 'CORE_SUBJECT_LOCKED',
+  // Only active items of confirmed registrations can be changed
+  ITEM_NOT_CHANGEABLE: 'ITEM_NOT_CHANGEABLE',
+  // The item already has a change awaiting payment
+  CHANGE_IN_PROGRESS: 'CHANGE_IN_PROGRESS',
+  // The change costs more and no payment provider was given
+  TOP_UP_REQUIRED: 'TOP_UP_REQUIRED',
+  // The change costs more while another change's top-up is still pending
+  TOP_UP_PENDING: 'TOP_UP_PENDING',
+} as const;
+
+export type RegistrationRuleCode =
+  (typeof REGISTRATION_RULE_CODES)[keyof typeof REGISTRATION_RULE_CODES];
+
+/**
+ * Registration change types (SWAP-001..004)
+ */
+export const REGISTRATION_CHANGE_TYPES = {
+  DROP: 'drop',
+  SWAP: 'swap',
+  SWITCH_TYPE: 'switch_type',
+} as const;
+
+export const RegistrationChangeType = z.enum([
+  REGISTRATION_CHANGE_TYPES.DROP,
+  REGISTRATION_CHANGE_TYPES.SWAP,
+  REGISTRATION_CHANGE_TYPES.SWITCH_TYPE,
+]);
+export type RegistrationChangeTypeType = z.infer<typeof RegistrationChangeType>;
+
+/**
+ * Registration change status: pending_payment -> completed
+ *                                             -> cancelled
+ */
+export const REGISTRATION_CHANGE_STATUSES = {
+  PENDING_PAYMENT: 'pending_payment',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled',
+} as const;
+
+/**
+ * Registration ID validation (UUID format)
+ */
+export const RegistrationId = z.object({
+  id: z.string().uuid('Invalid registration ID format'),
+});
+export type RegistrationIdType = z.infer<typeof RegistrationId>;
+
+/**
+ * A single subject line in a registration
+ */
+export const RegistrationItemInput = z.object({
+  subjectId: z.string().uuid('Invalid subject ID format'),
+  examType: ExamType,
+});
+export type RegistrationItemInputType = z.infer<typeof RegistrationItemInput>;
+
+/**
+ * Create Registration
+ * Students register for themselves; parents must pass the linked student's ID
+ */
+export const CreateRegistration = z.object({
+  studentId: UserIdSchema.optional(),
+  items: z
+    .array(RegistrationItemInput)
+    .min(1, 'Select at least one subject')
+    .max(30, 'Too many subjects'),
+}).refine(
+  (data) => new Set(data.items.map((item) => item.subjectId)).size === data.items.length,
+  { message: 'Each subject can only be selected once', path: ['items'] }
+);
+export type CreateRegistrationType = z.infer<typeof CreateRegistration>;
+
+/**
+ * Registration item route params
+ */
+export const RegistrationItemParams = z.object({
+  id: z.string().uuid('Invalid registration ID format'),
+  itemId: z.string().uuid('Invalid item ID format'),
+});
+export type RegistrationItemParamsType = z.infer<typeof RegistrationItemParams>;
+
+/**
+ * How to pay the price difference when a change costs more.
+ * Only required when there is a shortfall.
+ */
+const TopUpPayment = z.object({
+  provider: CheckoutMethod.optional(),
+  walletNumber: z
+    .string()
+    .trim()
+    .regex(/^01[0-25]\d{8}$/, 'Invalid Egyptian mobile number')
+    .optional(),
+});
+
+const hasWalletNumber = (data: z.infer<typeof TopUpPayment>) =>
+  !data.provider || !WALLET_PROVIDERS.includes(data.provider) || !!data.walletNumber;
+
+const walletNumberRequired = {
+  message: 'Wallet number is required for mobile wallet payments',
+  path: ['walletNumber'],
+};
+
+/**
+ * Swap a paid item for another subject
+ */
+export const SwapRegistrationItem = TopUpPayment.extend({
+  subjectId: z.string().uuid('Invalid subject ID format'),
+  examType: ExamType,
+}).refine(hasWalletNumber, walletNumberRequired);
+export type SwapRegistrationItemType = z.infer<typeof SwapRegistrationItem>;
+
+/**
+ * Switch a paid item between in-school and external
+ */
+export const SwitchExamType = TopUpPayment.refine(hasWalletNumber, walletNumberRequired);
+export type SwitchExamTypeType = z.infer<typeof SwitchExamType>;
+
+/**
+ * Registration query filters
+ * studentId is required for parents and optional for admins
+ */
+export const RegistrationQueryFilters = z.object({
+  studentId: UserIdSchema.optional(),
+  windowId: z.string().uuid('Invalid window ID format').optional(),
+  status: RegistrationStatus.optional(),
+});
+export type RegistrationQueryFiltersType = z.infer<typeof RegistrationQueryFilters>;
+
+/**
+ * Registration options query (subjects available in the open window)
+ */
+export const RegistrationOptionsQuery = z.object({
+  studentId: UserIdSchema.optional(),
+});
+export type RegistrationOptionsQueryType = z.infer<typeof RegistrationOptionsQuery>;
+
+/**
+ * Registration history query (all sessions)
+ */
+export const RegistrationHistoryQuery = z.object({
+  studentId: UserIdSchema.optional(),
+});
+export type RegistrationHistoryQueryType = z.infer<typeof RegistrationHistoryQuery>;
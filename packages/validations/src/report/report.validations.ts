@@ -0,0 +1,173 @@
+/**
+ * Report Validation Schemas
+ *
+ * Validates data for the admin report engine (REP-001..REP-007) and
+ * dashboard (REP-008):
+ * - Choosing a report and an output format
+ * - Each report's filters
+ * - Checking on a background export
+ * - Refreshing the dashboard
+ */
+
+import { z } from 'zod';
+import { GradeSchema } from '../roles';
+import { CommonSchemas } from '../common.validations';
+import { CouncilCode } from '../subject/subject.validations';
+import { ExamType, RegistrationStatus } from '../registration/registration.validations';
+import { AuditFilters } from '../audit/audit.validations';
+
+/**
+ * Available reports
+ */
+export const REPORT_IDS = {
+  REGISTRATIONS: 'registrations',
+  FINANCIAL: 'financial',
+  ESCROW: 'escrow',
+  ENROLLMENT: 'enrollment',
+  CORE_COMPLIANCE: 'core-compliance',
+  AUDIT: 'audit',
+  ROSTER: 'roster',
+} as const;
+
+export const ReportIdSchema = z.enum([
+  REPORT_IDS.REGISTRATIONS,
+  REPORT_IDS.FINANCIAL,
+  REPORT_IDS.ESCROW,
+  REPORT_IDS.ENROLLMENT,
+  REPORT_IDS.CORE_COMPLIANCE,
+  REPORT_IDS.AUDIT,
+  REPORT_IDS.ROSTER,
+]);
+export type ReportIdType = z.infer<typeof ReportIdSchema>;
+
+/**
+ * Output formats (json is a paginated preview)
+ */
+export const REPORT_FORMATS = {
+  JSON: 'json',
+  CSV: 'csv',
+  XLSX: 'xlsx',
+  PDF: 'pdf',
+} as const;
+
+export const ReportFormat = z.enum([
+  REPORT_FORMATS.JSON,
+  REPORT_FORMATS.CSV,
+  REPORT_FORMATS.XLSX,
+  REPORT_FORMATS.PDF,
+]);
+export type ReportFormatType = z.infer<typeof ReportFormat>;
+
+/**
+ * Background export status: pending -> running -> completed | failed
+ */
+export const REPORT_EXPORT_STATUSES = {
+  PENDING: 'pending',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
+/**
+ * Report route params
+ */
+export const ReportParams = z.object({
+  reportId: ReportIdSchema,
+});
+export type ReportParamsType = z.infer<typeof ReportParams>;
+
+/**
+ * Background export route params
+ */
+export const ReportExportId = z.object({
+  id: z.string().uuid('Invalid export ID format'),
+});
+export type ReportExportIdType = z.infer<typeof ReportExportId>;
+
+/**
+ * Output options, read from the same query string as the filters
+ * background=true queues the export even when it is small
+ */
+export const ReportOutputQuery = CommonSchemas.pagination.extend({
+  format: ReportFormat.default(REPORT_FORMATS.JSON),
+  background: z.enum(['true', 'false']).optional().transform((v) => v === 'true'),
+});
+export type ReportOutputQueryType = z.infer<typeof ReportOutputQuery>;
+
+/**
+ * Reusable filter fields (query strings, so coerced)
+ */
+const windowId = z.string().uuid('Invalid window ID format');
+const grade = z.coerce.number().pipe(GradeSchema);
+
+/**
+ * REP-001: Registrations for a session
+ */
+export const RegistrationReportFilters = z.object({
+  windowId,
+  grade: grade.optional(),
+  council: CouncilCode.optional(),
+  examType: ExamType.optional(),
+  status: RegistrationStatus.optional(),
+});
+export type RegistrationReportFiltersType = z.infer<typeof RegistrationReportFilters>;
+
+/**
+ * REP-002: Financial summary for a session
+ */
+export const FinancialReportFilters = z.object({
+  windowId,
+});
+export type FinancialReportFiltersType = z.infer<typeof FinancialReportFilters>;
+
+/**
+ * REP-003: Escrow balances
+ * Students with nothing available or held are left out unless includeZero=true
+ */
+export const EscrowReportFilters = z.object({
+  grade: grade.optional(),
+  includeZero: z.enum(['true', 'false']).optional().transform((v) => v === 'true'),
+});
+export type EscrowReportFiltersType = z.infer<typeof EscrowReportFilters>;
+
+/**
+ * REP-004: Subject enrollment for a session
+ */
+export const EnrollmentReportFilters = z.object({
+  windowId,
+  council: CouncilCode.optional(),
+});
+export type EnrollmentReportFiltersType = z.infer<typeof EnrollmentReportFilters>;
+
+/**
+ * REP-005: Core subject compliance for a session
+ */
+export const CoreComplianceReportFilters = z.object({
+  windowId,
+  grade: grade.default(10),
+  missingOnly: z.enum(['true', 'false']).optional().transform((v) => v === 'true'),
+});
+export type CoreComplianceReportFiltersType = z.infer<typeof CoreComplianceReportFilters>;
+
+/**
+ * REP-006: Audit trail
+ */
+export const AuditReportFilters = AuditFilters;
+export type AuditReportFiltersType = z.infer<typeof AuditReportFilters>;
+
+/**
+ * REP-007: Student roster
+ */
+export const RosterReportFilters = z.object({
+  grade: grade.optional(),
+});
+export type RosterReportFiltersType = z.infer<typeof RosterReportFilters>;
+
+/**
+ * REP-008: Admin dashboard
+ * refresh=true bypasses the metrics cache
+ */
+export const DashboardQuery = z.object({
+  refresh: z.enum(['true', 'false']).optional().transform((v) => v === 'true'),
+});
+export type DashboardQueryType = z.infer<typeof DashboardQuery>;
@@ -49,6 +49,17 @@ export function hasRole(
   return allowedRoles.includes(userRole as Role);
 }
 
+/**
+ * Whether an account still has to finish signing up
+ *
+ * Accounts from the old two-step sign-up that never picked student or
+ * parent have no role (or better-auth's default 'user'). They are sent
+ * to the completion step until they do.
+ */
+export function needsSignUpCompletion(userRole: string | null | undefined): boolean {
+  return !userRole || userRole === 'user';
+}
+
 /**
  * Student grade levels
  */
@@ -66,6 +77,35 @@ export const GradeSchema = z.union([
 
 export type Grade = z.infer<typeof GradeSchema>;
 
+/**
+ * A student past Grade 12 (GRADE-001)
+ *
+ * Graduated students have no grade (user.grade is null) and a
+ * graduatedAt timestamp. They keep read access to their history and
+ * escrow but can no longer register (GRADE-003).
+ */
+export const GRADUATED = 'graduated' as const;
+
+/**
+ * A student's standing: a grade, or graduated
+ */
+export const StudentGradeSchema = z.union([GradeSchema, z.literal(GRADUATED)]);
+
+export type StudentGrade = z.infer<typeof StudentGradeSchema>;
+
+/**
+ * Get a student's standing from their user record
+ * @returns The grade, 'graduated', or null when no grade is set yet
+ */
+export function getStudentGrade(student: {
+  grade: number | null;
+  graduatedAt: Date | string | null;
+}): StudentGrade | null {
+  if (student.graduatedAt) return GRADUATED;
+  const parsed = GradeSchema.safeParse(student.grade);
+  return parsed.success ? parsed.data : null;
+}
+
 /**
  * Export individual roles for convenience
  */
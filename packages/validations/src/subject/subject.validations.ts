@@ -0,0 +1,118 @@
+/**
+ * Subject Validation Schemas
+ *
+ * Validates data for subject catalog operations:
+ * - Creating and editing subjects (admin)
+ * - Deactivating / reactivating subjects (admin)
+ * - Browsing subjects with filters (all roles)
+ *
+ * Prices are integer piastres (1 EGP = 100 piastres).
+ */
+
+import { z } from 'zod';
+import { NonNegativePiastres } from '../money/money.validations';
+import { GradeSchema } from '../roles';
+import { SessionType } from '../window/window.validations';
+
+/**
+ * Examination councils
+ */
+export const COUNCILS = {
+  PEARSON_EDEXCEL: 'pearson_edexcel',
+  CAMBRIDGE: 'cambridge',
+  OXFORD: 'oxford',
+} as const;
+
+export const CouncilCode = z.enum([
+  COUNCILS.PEARSON_EDEXCEL,
+  COUNCILS.CAMBRIDGE,
+  COUNCILS.OXFORD,
+]);
+export type CouncilCodeType = z.infer<typeof CouncilCode>;
+
+/**
+ * Reusable field validators
+ */
+const name = z
+  .string()
+  .trim()
+  .min(1, 'Subject name is required')
+  .max(200, 'Subject name must be 200 characters or less');
+
+const code = z
+  .string()
+  .trim()
+  .min(1, 'Subject code is required')
+  .max(20, 'Subject code must be 20 characters or less')
+  .transform((value) => value.toUpperCase());
+
+const price = NonNegativePiastres;
+
+/**
+ * Subject ID validation (UUID format)
+ */
+export const SubjectId = z.object({
+  id: z.string().uuid('Invalid subject ID format'),
+});
+export type SubjectIdType = z.infer<typeof SubjectId>;
+
+/**
+ * Create Subject
+ * priceExternal is omitted (or null) when the subject has no external option
+ */
+export const CreateSubject = z.object({
+  name,
+  code,
+  council: CouncilCode,
+  priceInSchool: price,
+  priceExternal: price.nullable().optional(),
+});
+export type CreateSubjectType = z.infer<typeof CreateSubject>;
+
+/**
+ * Update Subject
+ * All fields optional. Changes only apply to future registrations.
+ * Set priceExternal to null to remove the external option.
+ */
+export const UpdateSubject = z.object({
+  name: name.optional(),
+  code: code.optional(),
+  council: CouncilCode.optional(),
+  priceInSchool: price.optional(),
+  priceExternal: price.nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+export type UpdateSubjectType = z.infer<typeof UpdateSubject>;
+
+/**
+ * Subject list filters
+ * includeInactive is only honoured for admins
+ */
+export const SubjectQueryFilters = z.object({
+  council: CouncilCode.optional(),
+  search: z.string().trim().min(1).optional(),
+  includeInactive: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+export type SubjectQueryFiltersType = z.infer<typeof SubjectQueryFilters>;
+
+/**
+ * Set Core Rules
+ * Replaces the grade / session type combinations a subject is core for.
+ * An empty list removes the core designation.
+ */
+export const SetCoreRules = z.object({
+  rules: z
+    .array(z.object({
+      grade: GradeSchema,
+      sessionType: SessionType,
+    }))
+    .max(9, 'Too many core rules')
+    .refine(
+      (rules) => new Set(rules.map((r) => `${r.grade}:${r.sessionType}`)).size === rules.length,
+      { message: 'Duplicate core rule' }
+    ),
+});
+export type SetCoreRulesType = z.infer<typeof SetCoreRules>;
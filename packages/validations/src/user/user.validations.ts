@@ -8,58 +8,129 @@
  */
 
 import { z } from 'zod';
-import { GradeSchema } from '../roles';
+import { GradeSchema, ROLES, StudentGradeSchema } from '../roles';
 
 /**
- * User ID validation (UUID format)
+ * A user's ID
+ *
+ * better-auth generates 32-character random strings, not UUIDs
+ */
+export const UserIdSchema = z.string().min(1, 'Invalid user ID format');
+
+/**
+ * User ID route params
  */
 export const UserId = z.object({
-  id: z.string().uuid('Invalid user ID format'),
+  id: UserIdSchema,
 });
 export type UserIdType = z.infer<typeof UserId>;
 
+/**
+ * Contact phone number
+ */
+export const PhoneSchema = z.string()
+  .regex(/^[\d\s\-+()]+$/, 'Invalid phone number format')
+  .min(8, 'Phone number too short')
+  .max(20, 'Phone number too long');
+
 /**
  * Update Profile
  * Users can update their name and phone number
  */
 export const UpdateProfile = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name too long').optional(),
-  phone: z.string()
-    .regex(/^[\d\s\-+()]+$/, 'Invalid phone number format')
-    .min(8, 'Phone number too short')
-    .max(20, 'Phone number too long')
-    .optional()
-    .nullable(),
+  phone: PhoneSchema.optional().nullable(),
 });
 export type UpdateProfileType = z.infer<typeof UpdateProfile>;
 
 /**
  * Admin Update User
- * Admin can update additional fields like grade and role
+ * Admin can update additional fields like ban status
+ * (grades change through AdjustGrade so every change has a reason)
  */
 export const AdminUpdateUser = z.object({
   name: z.string().min(1, 'Name is required').max(100, 'Name too long').optional(),
-  phone: z.string()
-    .regex(/^[\d\s\-+()]+$/, 'Invalid phone number format')
-    .min(8, 'Phone number too short')
-    .max(20, 'Phone number too long')
-    .optional()
-    .nullable(),
-  grade: GradeSchema.optional().nullable(),
+  phone: PhoneSchema.optional().nullable(),
   banned: z.boolean().optional(),
   banReason: z.string().max(500, 'Ban reason too long').optional().nullable(),
 });
 export type AdminUpdateUserType = z.infer<typeof AdminUpdateUser>;
 
+/**
+ * Adjust Grade (GRADE-002)
+ * Admin moves a student to another grade, or marks them graduated.
+ * force=true allows the change while the student has registrations
+ * awaiting payment in the active window.
+ */
+export const AdjustGrade = z.object({
+  grade: StudentGradeSchema,
+  reason: z.string().trim().min(3, 'Reason is required').max(500, 'Reason too long'),
+  force: z.boolean().default(false),
+});
+export type AdjustGradeType = z.infer<typeof AdjustGrade>;
+
+/**
+ * Grade change sources
+ */
+export const GRADE_CHANGE_SOURCES = {
+  PROGRESSION: 'progression',
+  ADJUSTMENT: 'adjustment',
+} as const;
+
 /**
  * Student Registration Data
- * Additional fields collected during student sign-up
+ * Fields collected on the student sign-up form, alongside name, email
+ * and password. Saved with the new user in one insert.
  */
 export const StudentRegistrationData = z.object({
+  accountType: z.literal(ROLES.STUDENT),
   grade: GradeSchema,
+  phone: PhoneSchema.optional().nullable(),
 });
 export type StudentRegistrationDataType = z.infer<typeof StudentRegistrationData>;
 
+/**
+ * Parent Registration Data
+ * Fields collected on the parent sign-up form
+ */
+export const ParentRegistrationData = z.object({
+  accountType: z.literal(ROLES.PARENT),
+  phone: PhoneSchema.optional().nullable(),
+});
+export type ParentRegistrationDataType = z.infer<typeof ParentRegistrationData>;
+
+/**
+ * Sign-up Data
+ * accountType picks the form and becomes the user's role; admins are
+ * never created through self sign-up
+ */
+export const SignUpData = z.discriminatedUnion('accountType', [
+  StudentRegistrationData,
+  ParentRegistrationData,
+]);
+export type SignUpDataType = z.infer<typeof SignUpData>;
+
+/**
+ * Request Email Change
+ * The new address gets a confirmation link; the email changes only
+ * once it is used. callbackURL is the page the link opens (it must be
+ * on an allowed origin) and receives ?token=.
+ */
+export const RequestEmailChange = z.object({
+  newEmail: z.string().trim().toLowerCase().email('Invalid email format').max(254, 'Email too long'),
+  callbackURL: z.string().url('Invalid callback URL'),
+});
+export type RequestEmailChangeType = z.infer<typeof RequestEmailChange>;
+
+/**
+ * Confirm Email Change
+ * Token from the link sent to the new address
+ */
+export const ConfirmEmailChange = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+export type ConfirmEmailChangeType = z.infer<typeof ConfirmEmailChange>;
+
 /**
  * User query filters (for admin)
  */
@@ -0,0 +1,109 @@
+/**
+ * Registration Window Validation Schemas
+ *
+ * Validates data for registration window operations:
+ * - Creating and editing draft windows (admin)
+ * - Opening and closing windows (admin)
+ * - Querying windows by status / session type
+ */
+
+import { z } from 'zod';
+
+/**
+ * Exam sessions a window can belong to
+ */
+export const SESSION_TYPES = {
+  JUNE: 'june',
+  NOVEMBER: 'november',
+  JANUARY: 'january',
+} as const;
+
+export const SessionType = z.enum([
+  SESSION_TYPES.JUNE,
+  SESSION_TYPES.NOVEMBER,
+  SESSION_TYPES.JANUARY,
+]);
+export type SessionTypeType = z.infer<typeof SessionType>;
+
+/**
+ * Window status: draft -> active -> closed
+ */
+export const WINDOW_STATUSES = {
+  DRAFT: 'draft',
+  ACTIVE: 'active',
+  CLOSED: 'closed',
+} as const;
+
+export const WindowStatus = z.enum([
+  WINDOW_STATUSES.DRAFT,
+  WINDOW_STATUSES.ACTIVE,
+  WINDOW_STATUSES.CLOSED,
+]);
+export type WindowStatusType = z.infer<typeof WindowStatus>;
+
+/**
+ * Reusable field validators
+ */
+const year = z.coerce
+  .number()
+  .int()
+  .min(2000, 'Invalid year')
+  .max(2100, 'Invalid year');
+
+const timestamp = z.coerce.date({ message: 'Invalid date' });
+
+/**
+ * Window ID validation (UUID format)
+ */
+export const WindowId = z.object({
+  id: z.string().uuid('Invalid window ID format'),
+});
+export type WindowIdType = z.infer<typeof WindowId>;
+
+/**
+ * Create Window
+ * New windows always start as drafts
+ */
+export const CreateWindow = z.object({
+  sessionType: SessionType,
+  year,
+  startsAt: timestamp,
+  endsAt: timestamp,
+}).refine(
+  (data) => data.endsAt > data.startsAt,
+  { message: 'End time must be after start time', path: ['endsAt'] }
+);
+export type CreateWindowType = z.infer<typeof CreateWindow>;
+
+/**
+ * Update Window
+ * Only draft windows can be edited (enforced by the API)
+ */
+export const UpdateWindow = z.object({
+  sessionType: SessionType.optional(),
+  year: year.optional(),
+  startsAt: timestamp.optional(),
+  endsAt: timestamp.optional(),
+}).refine(
+  (data) => !data.startsAt || !data.endsAt || data.endsAt > data.startsAt,
+  { message: 'End time must be after start time', path: ['endsAt'] }
+);
+export type UpdateWindowType = z.infer<typeof UpdateWindow>;
+
+/**
+ * Close Window
+ * Early close requires the token issued by the close-request endpoint
+ */
+export const CloseWindow = z.object({
+  confirmationToken: z.string().min(1, 'Confirmation token is required'),
+});
+export type CloseWindowType = z.infer<typeof CloseWindow>;
+
+/**
+ * Window query filters
+ */
+export const WindowQueryFilters = z.object({
+  status: WindowStatus.optional(),
+  sessionType: SessionType.optional(),
+});
+export type WindowQueryFiltersType = z.infer<typeof WindowQueryFilters>;
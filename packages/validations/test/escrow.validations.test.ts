@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CreateWithdrawal,
+  EscrowStudentParam,
+  WithdrawalHistoryQuery,
+  WithdrawalQueueQuery,
+} from '../src/escrow/escrow.validations'
+
+// better-auth user IDs are 32 random alphanumerics, not UUIDs
+const STUDENT_ID = 'Xy3kP9QmN2vB7cR4tL8wZ1aD6fH0jS5e'
+
+describe('EscrowStudentParam', () => {
+  it('accepts a better-auth student ID', () => {
+    expect(EscrowStudentParam.parse({ studentId: STUDENT_ID })).toEqual({ studentId: STUDENT_ID })
+  })
+
+  it('rejects an empty student ID', () => {
+    expect(EscrowStudentParam.safeParse({ studentId: '' }).success).toBe(false)
+  })
+})
+
+describe('withdrawal schemas', () => {
+  it('accept a better-auth student ID', () => {
+    expect(CreateWithdrawal.parse({ studentId: STUDENT_ID, amount: 1_000 }).studentId).toBe(STUDENT_ID)
+    expect(WithdrawalHistoryQuery.parse({ studentId: STUDENT_ID }).studentId).toBe(STUDENT_ID)
+    expect(WithdrawalQueueQuery.parse({ studentId: STUDENT_ID }).studentId).toBe(STUDENT_ID)
+  })
+})
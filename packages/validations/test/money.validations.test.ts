@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PositivePiastres,
+  addMoney,
+  allocateMoney,
+  money,
+  parsePounds,
+  subtractMoney,
+} from '../src/money/money.validations'
+
+describe('parsePounds', () => {
+  it.each([
+    ['0', 0],
+    ['12', 1200],
+    ['12.5', 1250],
+    ['12.05', 1205],
+    ['1,234.50', 123450],
+    ['1,234,567', 123456700],
+    ['  7.25 ', 725],
+    ['+3', 300],
+    ['-0.05', -5],
+  ])('parses "%s" to %i piastres', (text, piastres) => {
+    expect(parsePounds(text)).toBe(piastres)
+  })
+
+  it.each(['', 'abc', '1.234', '12.', '.5', '1,23', '12,34.00', '1e3', '--1', '12 50'])(
+    'rejects "%s"',
+    (text) => {
+      expect(() => parsePounds(text)).toThrow(`Invalid amount: "${text}"`)
+    }
+  )
+
+  it('rejects amounts beyond safe integers', () => {
+    expect(() => parsePounds('900719925474099300')).toThrow('must be whole piastres')
+  })
+})
+
+describe('allocateMoney', () => {
+  it('gives leftover piastres to the largest remainders first', () => {
+    expect(allocateMoney(money(100), [1, 1, 1]).map((share) => share.amount)).toEqual([34, 33, 33])
+    expect(allocateMoney(money(10), [1, 2]).map((share) => share.amount)).toEqual([3, 7])
+    // Equal remainders: earlier shares first
+    expect(allocateMoney(money(5), [3, 7]).map((share) => share.amount)).toEqual([2, 3])
+    expect(allocateMoney(money(1001), [1, 2, 1]).map((share) => share.amount)).toEqual([250, 501, 250])
+  })
+
+  it('always sums to the total, including negative totals', () => {
+    for (const total of [1, 7, 99, 100_003, -101]) {
+      const shares = allocateMoney(money(total), [2, 3, 5, 0])
+      expect(shares.reduce((sum, share) => sum + share.amount, 0)).toBe(total)
+      expect(shares[3]!.amount).toBe(0)
+    }
+    expect(allocateMoney(money(-100), [1, 1, 1]).map((share) => share.amount)).toEqual([-34, -33, -33])
+  })
+
+  it('rejects ratios without a positive total', () => {
+    expect(() => allocateMoney(money(100), [])).toThrow('Ratios must be non-negative with a positive total')
+    expect(() => allocateMoney(money(100), [0, 0])).toThrow('Ratios must be non-negative with a positive total')
+    expect(() => allocateMoney(money(100), [2, -1])).toThrow('Ratios must be non-negative with a positive total')
+  })
+})
+
+describe('money arithmetic', () => {
+  it('adds and subtracts whole piastres', () => {
+    expect(addMoney(money(0), money(1050), money(-50))).toEqual(money(1000))
+    expect(subtractMoney(money(1000), money(1250))).toEqual(money(-250))
+  })
+
+  it('rejects amounts that are not whole piastres', () => {
+    expect(() => money(10.5)).toThrow('must be whole piastres')
+    expect(() => addMoney(money(Number.MAX_SAFE_INTEGER), money(1))).toThrow('must be whole piastres')
+  })
+})
+
+describe('PositivePiastres', () => {
+  it('accepts whole positive numbers only', () => {
+    expect(PositivePiastres.parse(150_000)).toBe(150_000)
+    expect(PositivePiastres.safeParse(0).success).toBe(false)
+    expect(PositivePiastres.safeParse(12.5).success).toBe(false)
+  })
+
+  it('does not coerce strings', () => {
+    expect(PositivePiastres.safeParse('150000').success).toBe(false)
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PASSWORD_MAX_LENGTH,
+  PasswordSchema,
+  checkPassword,
+  isCommonPassword,
+} from '../src/auth/password.validations'
+
+describe('checkPassword', () => {
+  it('accepts a password that meets every rule', () => {
+    expect(checkPassword('Violet7Harbour', { email: 'mona.adel@example.com', name: 'Mona Adel' })).toBeNull()
+  })
+
+  it.each([
+    ['Ab1defg', 'Password must be at least 8 characters'],
+    [`A1${'x'.repeat(PASSWORD_MAX_LENGTH - 1)}`, 'Password must be at most 128 characters'],
+    ['violet7harbour', 'Password must contain an uppercase letter'],
+    ['VioletHarbour', 'Password must contain a number'],
+    ['Password123', 'This password is too common. Choose a less predictable one'],
+  ])('rejects "%s"', (password, message) => {
+    expect(checkPassword(password)).toBe(message)
+  })
+
+  it('allows exactly the minimum and maximum lengths', () => {
+    expect(checkPassword('Violet7h')).toBeNull()
+    expect(checkPassword(`Violet7${'h'.repeat(PASSWORD_MAX_LENGTH - 7)}`)).toBeNull()
+  })
+
+  it('reports the first broken rule', () => {
+    expect(checkPassword('short')).toBe('Password must be at least 8 characters')
+  })
+
+  it('rejects the email address or its local part, ignoring case', () => {
+    const owner = { email: 'Mona.Adel@Example.com' }
+
+    expect(checkPassword('X1mona.adel@example.com', owner)).toBe('Password must not contain your email address')
+    expect(checkPassword('MONA.ADEL2026x', owner)).toBe('Password must not contain your email address')
+  })
+
+  it('ignores email local parts too short to be personal', () => {
+    expect(checkPassword('Violet7Harbour', { email: 'vi@example.com' })).toBeNull()
+  })
+
+  it('rejects any part of the name, ignoring case and short parts', () => {
+    const owner = { name: 'Mona El Sayed' }
+
+    expect(checkPassword('Sayed2026Harbour', owner)).toBe('Password must not contain your name')
+    expect(checkPassword('Violet7MONA', owner)).toBe('Password must not contain your name')
+    expect(checkPassword('Violet7Elbow', owner)).toBeNull()
+  })
+})
+
+describe('isCommonPassword', () => {
+  it('matches common passwords with digits or symbols around them', () => {
+    expect(isCommonPassword('password')).toBe(true)
+    expect(isCommonPassword('PASSWORD')).toBe(true)
+    expect(isCommonPassword('Password123!')).toBe(true)
+    expect(isCommonPassword('2024password')).toBe(true)
+  })
+
+  it('does not match uncommon words', () => {
+    expect(isCommonPassword('Violet7Harbour')).toBe(false)
+    expect(isCommonPassword('12345678x9!')).toBe(false)
+  })
+})
+
+describe('PasswordSchema', () => {
+  it('reports each broken rule', () => {
+    const result = PasswordSchema.safeParse('abc')
+
+    expect(result.success).toBe(false)
+    expect(result.error!.issues.map((issue) => issue.message)).toEqual(
+      expect.arrayContaining([
+        'Password must be at least 8 characters',
+        'Password must contain an uppercase letter',
+        'Password must contain a number',
+      ])
+    )
+  })
+})
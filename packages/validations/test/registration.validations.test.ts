@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { randomUUID } from 'crypto'
+import {
+  CreateRegistration,
+  RegistrationHistoryQuery,
+  RegistrationOptionsQuery,
+  RegistrationQueryFilters,
+} from '../src/registration/registration.validations'
+
+// better-auth user IDs are 32 random alphanumerics, not UUIDs
+const STUDENT_ID = 'Xy3kP9QmN2vB7cR4tL8wZ1aD6fH0jS5e'
+
+describe('registration schemas', () => {
+  it('accept a better-auth student ID', () => {
+    const items = [{ subjectId: randomUUID(), examType: 'in_school' }]
+
+    expect(CreateRegistration.parse({ studentId: STUDENT_ID, items }).studentId).toBe(STUDENT_ID)
+    expect(RegistrationQueryFilters.parse({ studentId: STUDENT_ID }).studentId).toBe(STUDENT_ID)
+    expect(RegistrationOptionsQuery.parse({ studentId: STUDENT_ID }).studentId).toBe(STUDENT_ID)
+    expect(RegistrationHistoryQuery.parse({ studentId: STUDENT_ID }).studentId).toBe(STUDENT_ID)
+  })
+
+  it('reject an empty student ID', () => {
+    expect(RegistrationHistoryQuery.safeParse({ studentId: '' }).success).toBe(false)
+  })
+})